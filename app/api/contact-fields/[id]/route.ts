@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+
+/**
+ * DELETE - Remove a custom contact field. Values already stored on contacts
+ * are no longer shown and are dropped the next time the contact is saved.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+    const { id: fieldId } = await params;
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('contact_fields')
+      .delete()
+      .eq('id', fieldId)
+      .eq('owner_id', tenantId)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Error deleting contact field:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to delete contact field', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Contact field not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Contact field deleted successfully',
+    });
+
+  } catch (error) {
+    console.error('Error in delete contact field API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { isContactFieldType, isValidFieldKey, toFieldKey } from '@/lib/contact-fields';
+
+/**
+ * GET - List the organization's custom contact fields
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { data: fields, error: fieldsError } = await supabase
+      .from('contact_fields')
+      .select('id, key, label, type')
+      .eq('owner_id', tenantId)
+      .order('created_at', { ascending: true });
+
+    if (fieldsError) {
+      console.error('Error fetching contact fields:', fieldsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch contact fields' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      fields: fields || [],
+    });
+
+  } catch (error) {
+    console.error('Error in get contact fields API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Define a custom contact field
+ * Body: { label, type, key? } - the key is derived from the label when omitted
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { label, type, key } = await request.json() as { label?: string; type?: string; key?: string };
+    const fieldLabel = typeof label === 'string' ? label.trim() : '';
+    const fieldKey = (typeof key === 'string' && key.trim()) ? key.trim() : toFieldKey(fieldLabel);
+
+    if (!fieldLabel || fieldLabel.length > 60) {
+      return NextResponse.json(
+        { error: 'Field label is required and must be 60 characters or less' },
+        { status: 400 }
+      );
+    }
+
+    if (!isContactFieldType(type)) {
+      return NextResponse.json(
+        { error: 'Invalid field type (text, number, date, email, phone, boolean)' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidFieldKey(fieldKey)) {
+      return NextResponse.json(
+        { error: 'Field key must start with a letter and use only lowercase letters, digits and underscores, and cannot be name, phone or whatsapp_name' },
+        { status: 400 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { data: field, error: insertError } = await supabase
+      .from('contact_fields')
+      .insert({
+        owner_id: tenantId,
+        key: fieldKey,
+        label: fieldLabel,
+        type,
+      })
+      .select('id, key, label, type')
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: `A field with the key "${fieldKey}" already exists` },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating contact field:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to create contact field', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    console.log(`Contact field ${fieldKey} (${type}) created by ${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      field,
+    });
+
+  } catch (error) {
+    console.error('Error in create contact field API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
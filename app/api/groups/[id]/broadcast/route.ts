@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { BroadcastPayload } from '@/lib/broadcast/send';
+import { kickBroadcastWorker } from '@/lib/broadcast/worker';
+import { isValidTimeZone, zonedTimeToUtc } from '@/lib/broadcast/schedule';
+import { getBoundFieldKeys } from '@/lib/broadcast/variables';
+import { BUILT_IN_CONTACT_FIELDS } from '@/lib/contact-fields';
+import { validateTemplateSendOptions } from '@/lib/template-components';
 
 /**
  * POST - Broadcast a message to all group members
- * Sends messages via WhatsApp and stores them in the database
+ * Queues a broadcast job; the broadcast worker sends the messages.
+ * Template variables listed in variableFields are filled per member from the
+ * given contact field, with the matching entry in variables as the fallback.
  */
 export async function POST(
   request: NextRequest,
@@ -21,13 +30,15 @@ export async function POST(
         { status: 401 }
       );
     }
-    console.log('[broadcast] Authenticated as user:', user.id);
+
+    const tenantId = await getTenantId(supabase, user.id);
+    console.log('[broadcast] Authenticated as user:', tenantId);
 
     const { id: groupId } = await params;
     console.log('[broadcast] Group ID:', groupId);
 
     const body = await request.json();
-    const { message, templateName = null, templateData = null, variables = null, headerMediaId = null } = body;
+    const { message, templateName = null, templateData = null, variables = null, variableFields = null, headerMediaId = null, sendOptions = null, scheduledAt = null, timezone = null } = body;
     
     // Validate input
     if (!message && !templateName) {
@@ -37,12 +48,77 @@ export async function POST(
       );
     }
 
+    const boundFieldKeys = getBoundFieldKeys(variableFields);
+    if (!boundFieldKeys) {
+      return NextResponse.json(
+        { error: 'Invalid variableFields' },
+        { status: 400 }
+      );
+    }
+
+    if (templateData) {
+      const sendOptionsError = validateTemplateSendOptions(templateData.components || [], sendOptions);
+      if (sendOptionsError) {
+        return NextResponse.json(
+          { error: sendOptionsError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (boundFieldKeys.length > 0) {
+      const { data: fields, error: fieldsError } = await supabase
+        .from('contact_fields')
+        .select('key')
+        .eq('owner_id', tenantId);
+
+      if (fieldsError) {
+        console.error('[broadcast] Failed to load contact fields:', fieldsError);
+        return NextResponse.json({ error: 'Failed to load contact fields' }, { status: 500 });
+      }
+
+      const knownKeys = new Set<string>([...BUILT_IN_CONTACT_FIELDS, ...(fields || []).map(field => field.key)]);
+      const unknownKeys = boundFieldKeys.filter(key => !knownKeys.has(key));
+      if (unknownKeys.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown contact field: ${unknownKeys.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Resolve an optional send time, given as wall-clock time in the chosen timezone
+    let scheduledFor: Date | null = null;
+    if (scheduledAt) {
+      if (!timezone || !isValidTimeZone(timezone)) {
+        return NextResponse.json(
+          { error: 'A valid timezone is required for scheduled broadcasts' },
+          { status: 400 }
+        );
+      }
+
+      scheduledFor = zonedTimeToUtc(scheduledAt, timezone);
+      if (!scheduledFor) {
+        return NextResponse.json(
+          { error: 'Invalid scheduled time' },
+          { status: 400 }
+        );
+      }
+
+      if (scheduledFor.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'Scheduled time must be in the future' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Verify group ownership and get group details
     const { data: group, error: groupError } = await supabase
       .from('chat_groups')
       .select('id, name, owner_id')
       .eq('id', groupId)
-      .eq('owner_id', user.id)
+      .eq('owner_id', tenantId)
       .single();
 
     if (groupError || !group) {
@@ -73,10 +149,10 @@ export async function POST(
     }
 
     // Get user settings for WhatsApp credentials
-    const { data: settings, error: settingsError } = await supabase
+    const { data: settings } = await createServiceRoleClient()
       .from('user_settings')
-      .select('access_token, phone_number_id, api_version')
-      .eq('id', user.id)
+      .select('access_token, phone_number_id')
+      .eq('id', tenantId)
       .single();
 
     if (!settings || !settings.access_token || !settings.phone_number_id) {
@@ -86,21 +162,27 @@ export async function POST(
       );
     }
 
-    const accessToken = settings.access_token;
-    const phoneNumberId = settings.phone_number_id;
-    const apiVersion = settings.api_version || 'v23.0';
-    const whatsappApiUrl = `https://graph.facebook.com/${apiVersion}/${phoneNumberId}/messages`;
-
-    const timestamp = new Date().toISOString();
-
-    // 1. Create Broadcast Job Database Entry
+    const payload: BroadcastPayload = {
+      message: message || null,
+      templateName,
+      templateData,
+      variables,
+      variableFields: boundFieldKeys.length > 0 ? variableFields : null,
+      headerMediaId,
+      sendOptions,
+    };
+
+    // 1. Create Broadcast Job Database Entry, unclaimable until its recipients exist
     const { data: job, error: jobDbError } = await supabase
       .from('broadcast_jobs')
       .insert([{
         group_id: groupId,
-        created_by: user.id,
+        created_by: tenantId,
         total_messages: members.length,
-        status: 'processing'
+        status: 'preparing',
+        scheduled_at: scheduledFor ? scheduledFor.toISOString() : null,
+        timezone: scheduledFor ? timezone : null,
+        payload
       }])
       .select('id')
       .single();
@@ -112,253 +194,48 @@ export async function POST(
 
     const jobId = job.id;
 
-    // 2. Start Background Task
-    // Safe standard Supabase client for background tasks (avoids Request context termination)
-    const { createClient: createSupClient } = require('@supabase/supabase-js');
-    const backgroundSupabase = createSupClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
-    );
-
-    // Detached promise logic
-    (async () => {
-      console.log(`[broadcast-bg] Job ${jobId} started for ${members.length} members`);
-      let successCount = 0;
-      let failedCount = 0;
-      const jobErrors: string[] = [];
-
-      const replaceVariables = (text: string, componentVariables: Record<string, string>) => {
-        let result = text;
-        Object.entries(componentVariables).forEach(([key, value]) => {
-          result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-        });
-        return result;
-      };
-
-      for (const member of members) {
-        try {
-          let cleanPhoneNumber = member.user_id.replace(/\s+/g, '').replace(/[^\d]/g, '');
-          if (cleanPhoneNumber.startsWith('0')) cleanPhoneNumber = cleanPhoneNumber.substring(1);
-          
-          let whatsappResponse;
-          let messageContent = message;
-          let messageMediaData = null;
-
-          const { data: userData, error: userError } = await backgroundSupabase
-            .from('users')
-            .select('id')
-            .eq('id', cleanPhoneNumber)
-            .maybeSingle();
-
-          if (userError) {
-            failedCount++;
-            jobErrors.push(`${member.user_id}: DB user check failed`);
-            continue;
-          }
-
-          if (!userData) {
-            const { error: userInsertError } = await backgroundSupabase
-              .from('users')
-              .insert([{ id: cleanPhoneNumber, name: cleanPhoneNumber, last_active: timestamp }]);
-            if (userInsertError) {
-              failedCount++;
-              jobErrors.push(`${member.user_id}: DB insert failed`);
-              continue;
-            }
-          }
-
-          if (templateName && templateData) {
-            const templateComponents = [];
-            if (headerMediaId) {
-              templateComponents.push({ type: 'header', parameters: [{ type: 'image', image: { id: headerMediaId } }] });
-            } else if (variables?.header && Object.keys(variables.header).length > 0) {
-              const headerParams = Object.keys(variables.header)
-                .sort((a, b) => parseInt(a) - parseInt(b))
-                .map(key => ({ type: 'text', text: variables.header[key] }));
-              templateComponents.push({ type: 'header', parameters: headerParams });
-            }
-
-            if (variables?.body && Object.keys(variables.body).length > 0) {
-              const bodyParams = Object.keys(variables.body)
-                .sort((a, b) => parseInt(a) - parseInt(b))
-                .map(key => ({ type: 'text', text: variables.body[key] }));
-              templateComponents.push({ type: 'body', parameters: bodyParams });
-            }
-
-            if (variables?.footer && Object.keys(variables.footer).length > 0) {
-              const footerParams = Object.keys(variables.footer)
-                .sort((a, b) => parseInt(a) - parseInt(b))
-                .map(key => ({ type: 'text', text: variables.footer[key] }));
-              templateComponents.push({ type: 'footer', parameters: footerParams });
-            }
-
-            const templateMessage = {
-              messaging_product: 'whatsapp',
-              to: cleanPhoneNumber,
-              type: 'template',
-              template: {
-                name: templateName,
-                language: { code: templateData.language || 'en' },
-                ...(templateComponents.length > 0 && { components: templateComponents })
-              }
-            };
-
-            whatsappResponse = await fetch(whatsappApiUrl, {
-              method: 'POST',
-              headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-              body: JSON.stringify(templateMessage),
-            });
-
-            const processedComponents = { header: null as any, body: null as any, footer: null as any, buttons: [] as any[] };
-            templateData.components?.forEach((component: any) => {
-              switch (component.type) {
-                case 'HEADER':
-                  processedComponents.header = { format: component.format || 'TEXT', text: component.text && variables?.header ? replaceVariables(component.text, variables.header) : component.text, media_url: null };
-                  break;
-                case 'BODY':
-                  processedComponents.body = { text: component.text && variables?.body ? replaceVariables(component.text, variables.body) : component.text };
-                  break;
-                case 'FOOTER':
-                  processedComponents.footer = { text: component.text && variables?.footer ? replaceVariables(component.text, variables.footer) : component.text };
-                  break;
-                case 'BUTTONS':
-                  if (component.buttons) {
-                    processedComponents.buttons = component.buttons.map((button: any) => ({ type: button.type, text: button.text, url: button.url, phone_number: button.phone_number }));
-                  }
-                  break;
-              }
-            });
-
-            const bodyComponent = templateData.components?.find((c: any) => c.type === 'BODY');
-            messageContent = bodyComponent?.text && variables?.body ? replaceVariables(bodyComponent.text, variables.body) : (message || `Template: ${templateName}`);
-            
-            messageMediaData = JSON.stringify({
-              type: 'template',
-              template_name: templateName,
-              template_id: templateData.id,
-              language: templateData.language,
-              variables: variables,
-              original_content: bodyComponent?.text || templateName,
-              header: processedComponents.header,
-              body: processedComponents.body,
-              footer: processedComponents.footer,
-              buttons: processedComponents.buttons,
-              broadcast_group_id: groupId
-            });
-
-            const templateRawBody = await whatsappResponse.text();
-            let responseData;
-            try { responseData = JSON.parse(templateRawBody); } catch {
-              failedCount++;
-              jobErrors.push(`${member.user_id}: non-JSON response`);
-              continue;
-            }
-
-            if (whatsappResponse.ok) {
-              successCount++;
-              const messageId = responseData.messages?.[0]?.id || `broadcast_${Date.now()}`;
-              await backgroundSupabase.from('messages').insert([{
-                id: messageId,
-                sender_id: user.id,
-                receiver_id: cleanPhoneNumber,
-                content: messageContent,
-                timestamp: timestamp,
-                is_sent_by_me: true,
-                is_read: true,
-                message_type: 'template',
-                media_data: messageMediaData
-              }]);
-            } else {
-              failedCount++;
-              jobErrors.push(`${member.user_id}: ${responseData.error?.message || 'Unknown CA'}`);
-            }
-
-          } else {
-            // TEXT FLOW
-            const textMessage = {
-              messaging_product: 'whatsapp',
-              to: cleanPhoneNumber,
-              type: 'text',
-              text: { body: message }
-            };
-
-            whatsappResponse = await fetch(whatsappApiUrl, {
-              method: 'POST',
-              headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-              body: JSON.stringify(textMessage),
-            });
-
-            const textRawBody = await whatsappResponse.text();
-            let responseData;
-            try { responseData = JSON.parse(textRawBody); } catch {
-              failedCount++;
-              jobErrors.push(`${member.user_id}: non-JSON response`);
-              continue;
-            }
-
-            if (whatsappResponse.ok) {
-              successCount++;
-              const messageId = responseData.messages?.[0]?.id || `broadcast_text_${Date.now()}`;
-              
-              await backgroundSupabase.from('users').update({ last_active: timestamp }).eq('id', cleanPhoneNumber);
-              await backgroundSupabase.from('messages').insert([{
-                id: messageId,
-                sender_id: user.id,
-                receiver_id: cleanPhoneNumber,
-                content: message,
-                timestamp: timestamp,
-                is_sent_by_me: true,
-                is_read: true,
-                message_type: 'text',
-                media_data: JSON.stringify({ broadcast_group_id: groupId })
-              }]);
-            } else {
-              failedCount++;
-              jobErrors.push(`${member.user_id}: ${responseData.error?.message || 'Unknown error'}`);
-            }
-          }
-        } catch (error) {
-          failedCount++;
-          jobErrors.push(`${member.user_id}: ${error instanceof Error ? error.message : 'Unknown'}`);
-        }
+    // 2. Record every recipient so the worker can resume where it stopped
+    const { error: recipientsError } = await supabase
+      .from('broadcast_job_recipients')
+      .insert(members.map(member => ({ job_id: jobId, user_id: member.user_id })));
+
+    if (recipientsError) {
+      console.error('[broadcast] Failed to create job recipients:', recipientsError);
+      await supabase
+        .from('broadcast_jobs')
+        .update({ status: 'failed', last_error: recipientsError.message, updated_at: new Date().toISOString() })
+        .eq('id', jobId);
+      return NextResponse.json({ error: 'Failed to initialize broadcast job' }, { status: 500 });
+    }
 
-        // Periodically update job status every 10 messages so UI can see progress
-        if ((successCount + failedCount) % 10 === 0) {
-          await backgroundSupabase.from('broadcast_jobs').update({
-            success_count: successCount,
-            failed_count: failedCount
-          }).eq('id', jobId);
-        }
-      }
+    // 3. Hand the job to the worker
+    const { error: releaseError } = await supabase
+      .from('broadcast_jobs')
+      .update({ status: scheduledFor ? 'scheduled' : 'queued', updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (releaseError) {
+      console.error('[broadcast] Failed to release job:', releaseError);
+      await supabase
+        .from('broadcast_jobs')
+        .update({ status: 'failed', last_error: releaseError.message, updated_at: new Date().toISOString() })
+        .eq('id', jobId);
+      return NextResponse.json({ error: 'Failed to initialize broadcast job' }, { status: 500 });
+    }
 
-      // Final job update
-      await backgroundSupabase.from('broadcast_jobs').update({
-        status: 'completed',
-        success_count: successCount,
-        failed_count: failedCount,
-        errors: jobErrors,
-        updated_at: new Date().toISOString()
-      }).eq('id', jobId);
-      
-      console.log(`[broadcast-bg] Job ${jobId} finished. Success: ${successCount}, Failed: ${failedCount}`);
-    })().catch(err => {
-      console.error(`[broadcast-bg] Fatal background loop error for job ${jobId}:`, err);
-      // Try to mark as failed
-      try {
-        const { createClient: createSupClient } = require('@supabase/supabase-js');
-        const bgSup = createSupClient(
-          process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-          process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
-        );
-        bgSup.from('broadcast_jobs').update({ status: 'failed', updated_at: new Date().toISOString() }).eq('id', jobId);
-      } catch (e) {}
-    });
+    if (scheduledFor) {
+      console.log(`[broadcast] Job ${jobId} scheduled for ${scheduledFor.toISOString()} (${timezone})`);
+    } else {
+      kickBroadcastWorker();
+    }
 
-    // 3. Return immediately to the client
+    // 4. Return immediately to the client
     return NextResponse.json({
       success: true,
-      message: `Broadcast job started in background`,
+      message: scheduledFor ? `Broadcast job scheduled` : `Broadcast job queued`,
       job_id: jobId,
+      status: scheduledFor ? 'scheduled' : 'queued',
+      scheduled_at: scheduledFor ? scheduledFor.toISOString() : null,
       results: {
         total: members.length,
         success: 0,
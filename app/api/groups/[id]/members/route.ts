@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * GET - Get all members of a group
@@ -19,6 +20,8 @@ export async function GET(
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: groupId } = await params;
 
     // Verify group ownership
@@ -26,7 +29,7 @@ export async function GET(
       .from('chat_groups')
       .select('id')
       .eq('id', groupId)
-      .eq('owner_id', user.id)
+      .eq('owner_id', tenantId)
       .single();
 
     if (!group) {
@@ -80,6 +83,8 @@ export async function POST(
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: groupId } = await params;
     const body = await request.json();
     const { userIds } = body;
@@ -97,7 +102,7 @@ export async function POST(
       .from('chat_groups')
       .select('id')
       .eq('id', groupId)
-      .eq('owner_id', user.id)
+      .eq('owner_id', tenantId)
       .single();
 
     if (!group) {
@@ -107,6 +112,30 @@ export async function POST(
       );
     }
 
+    // Members must be contacts of this tenant
+    const { data: ownedContacts, error: contactsError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('owner_id', tenantId)
+      .in('id', userIds);
+
+    if (contactsError) {
+      console.error('Error verifying contacts:', contactsError);
+      return NextResponse.json(
+        { error: 'Failed to verify contacts', details: contactsError.message },
+        { status: 500 }
+      );
+    }
+
+    const ownedIds = new Set((ownedContacts || []).map(c => c.id));
+    const unknownIds = userIds.filter((userId: string) => !ownedIds.has(userId));
+    if (unknownIds.length > 0) {
+      return NextResponse.json(
+        { error: 'Some contacts were not found', unknownIds },
+        { status: 400 }
+      );
+    }
+
     // Add members (duplicates will be ignored due to unique constraint)
     const members = userIds.map(userId => ({
       group_id: groupId,
@@ -159,6 +188,8 @@ export async function DELETE(
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: groupId } = await params;
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
@@ -175,7 +206,7 @@ export async function DELETE(
       .from('chat_groups')
       .select('id')
       .eq('id', groupId)
-      .eq('owner_id', user.id)
+      .eq('owner_id', tenantId)
       .single();
 
     if (!group) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * GET - Get all broadcast messages for a group
@@ -19,6 +20,8 @@ export async function GET(
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: groupId } = await params;
 
     // Verify group ownership
@@ -26,7 +29,7 @@ export async function GET(
       .from('chat_groups')
       .select('id')
       .eq('id', groupId)
-      .eq('owner_id', user.id)
+      .eq('owner_id', tenantId)
       .single();
 
     if (!group) {
@@ -41,7 +44,7 @@ export async function GET(
     const { data: messages, error: messagesError } = await supabase
       .from('messages')
       .select('*')
-      .eq('receiver_id', user.id)
+      .eq('receiver_id', tenantId)
       .order('timestamp', { ascending: true });
 
     if (messagesError) {
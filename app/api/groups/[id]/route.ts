@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * PUT - Update a group
@@ -19,6 +20,8 @@ export async function PUT(
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: groupId } = await params;
     const body = await request.json();
     const { name, description } = body;
@@ -39,7 +42,7 @@ export async function PUT(
         description: description?.trim() || null,
       })
       .eq('id', groupId)
-      .eq('owner_id', user.id) // Ensure user owns the group
+      .eq('owner_id', tenantId) // Ensure user owns the group
       .select()
       .single();
 
@@ -91,6 +94,8 @@ export async function DELETE(
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: groupId } = await params;
 
     // Delete the group (cascade will delete members)
@@ -98,7 +103,7 @@ export async function DELETE(
       .from('chat_groups')
       .delete()
       .eq('id', groupId)
-      .eq('owner_id', user.id); // Ensure user owns the group
+      .eq('owner_id', tenantId); // Ensure user owns the group
 
     if (deleteError) {
       console.error('Error deleting group:', deleteError);
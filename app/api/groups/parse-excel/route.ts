@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantDefaultCountry, getTenantId } from '@/lib/tenant';
+import { parsePhoneNumber, PhoneInvalidReason, PhoneLineType } from '@/lib/phone';
+import { ContactAttributes, ContactField, isValidFieldKey, normalizeTags, parseFieldValue, toFieldKey } from '@/lib/contact-fields';
+import {
+  ColumnMapping,
+  PREVIEW_ROW_COUNT,
+  getFieldTargetKey,
+  isImportColumnTarget,
+  splitTagCell,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from '@/lib/contact-import';
 import * as XLSX from 'xlsx';
 
 interface MatchedUser {
@@ -7,16 +19,41 @@ interface MatchedUser {
   name: string;
   phone: string;
   isNew: boolean;
+  country: string | null;
+  lineType: PhoneLineType;
 }
 
 interface InvalidNumber {
   phone: string;
-  reason: string;
+  reason: PhoneInvalidReason;
+  message: string;
 }
 
+interface InvalidValue {
+  row: number;
+  column: string;
+  message: string;
+}
+
+interface ImportRow {
+  phone: string;
+  name: string;
+  tags: string[];
+  attributes: ContactAttributes;
+  country: string | null;
+  lineType: PhoneLineType;
+}
+
+const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
 /**
  * POST - Parse Excel file and match phone numbers with existing users
- * Creates new users for phone numbers that don't exist
+ * Form data: { file, preview?, mapping? }
+ * - preview=true returns the headers, a few rows and a suggested column mapping
+ * - mapping (JSON array aligned with the headers) says which column holds the
+ *   phone, name, tags and contact fields; it is guessed from the headers when omitted
+ * Creates new users for phone numbers that don't exist and stores tags and
+ * field values on new and existing contacts
  */
 export async function POST(request: NextRequest) {
   try {
@@ -30,8 +67,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const isPreview = formData.get('preview') === 'true';
+    const mappingRaw = formData.get('mapping') as string | null;
 
     if (!file) {
       return NextResponse.json(
@@ -56,7 +97,7 @@ export async function POST(request: NextRequest) {
     const workbook = XLSX.read(arrayBuffer, { type: 'array' });
     const sheetName = workbook.SheetNames[0];
     const sheet = workbook.Sheets[sheetName];
-    const rawData = XLSX.utils.sheet_to_json<any>(sheet, { header: 1 });
+    const rawData = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '' });
 
     if (rawData.length < 2) {
       return NextResponse.json(
@@ -66,85 +107,153 @@ export async function POST(request: NextRequest) {
     }
 
     // Extract headers (first row)
-    const headers = rawData[0] as string[];
-
-    // Find phone column (look for common phone column names)
-    const phoneColumn = headers.findIndex(h =>
-      h && (h.toLowerCase().includes('phone') ||
-        h.toLowerCase().includes('mobile') ||
-        h.toLowerCase().includes('number') ||
-        h.toLowerCase().includes('whatsapp') ||
-        h.toLowerCase().includes('tel'))
-    );
+    const headers = (rawData[0] as unknown[]).map(cellText);
+    const dataRows = rawData.slice(1).filter(row => row.some(cell => cellText(cell)));
+
+    const { data: fieldRows, error: fieldsError } = await supabase
+      .from('contact_fields')
+      .select('id, key, label, type')
+      .eq('owner_id', tenantId);
+
+    if (fieldsError) {
+      console.error('Error fetching contact fields:', fieldsError);
+      return NextResponse.json(
+        { error: 'Failed to load contact fields' },
+        { status: 500 }
+      );
+    }
+    const fields = (fieldRows || []) as ContactField[];
+
+    if (isPreview) {
+      return NextResponse.json({
+        success: true,
+        preview: {
+          headers,
+          rows: dataRows.slice(0, PREVIEW_ROW_COUNT).map(row => headers.map((_, index) => cellText(row[index]))),
+          totalRows: dataRows.length,
+          suggestedMapping: suggestColumnMapping(headers, fields),
+        },
+      });
+    }
+
+    let mapping: ColumnMapping;
+    if (mappingRaw) {
+      let parsedMapping: unknown = null;
+      try {
+        parsedMapping = JSON.parse(mappingRaw);
+      } catch {
+        // Reported below like any other mapping that does not fit the file
+      }
+      if (!Array.isArray(parsedMapping) || parsedMapping.length !== headers.length || !parsedMapping.every(isImportColumnTarget)) {
+        return NextResponse.json(
+          { error: 'The column mapping does not match the file headers.' },
+          { status: 400 }
+        );
+      }
+      mapping = parsedMapping;
+    } else {
+      mapping = suggestColumnMapping(headers, fields);
+    }
 
-    if (phoneColumn === -1) {
+    const mappingError = validateColumnMapping(mapping);
+    if (mappingError === 'mapping_phone_required') {
       return NextResponse.json(
-        { error: 'Could not find phone number column. Please ensure your Excel has a column named "phone", "mobile", "number", or "whatsapp".' },
+        { error: 'Could not find phone number column. Please map one column to the phone number.' },
+        { status: 400 }
+      );
+    }
+    if (mappingError) {
+      return NextResponse.json(
+        { error: 'Each of name and contact fields can only be mapped to one column.' },
         { status: 400 }
       );
     }
 
-    // Extract phone numbers from data (skip header row)
-    const phoneNumbers: string[] = [];
-    const names: string[] = [];
-    const invalidNumbers: InvalidNumber[] = [];
+    // Columns mapped to a new field become text fields named after the header
+    for (let index = 0; index < mapping.length; index++) {
+      if (mapping[index] !== 'new_field') continue;
 
-    // Normalize and validate phone number
-    // Rules:
-    //   1. Remove all spaces and non-digit characters
-    //   2. If starts with 0  → prepend '9'  (0XXXXXXXXXX  → 90XXXXXXXXXX)
-    //   3. If starts with 5  → prepend '90' (5XXXXXXXXXX  → 905XXXXXXXXXX)
-    //   4. Final number must be exactly 12 digits and start with '905'
-    const normalizePhone = (raw: string): { normalized: string | null; reason?: string } => {
-      // Step 1: remove spaces, then strip any remaining non-digit chars
-      let digits = raw.replace(/\s+/g, '').replace(/\D/g, '');
-
-      if (!digits) {
-        return { normalized: null, reason: 'Empty after cleaning' };
+      const label = headers[index].slice(0, 60);
+      const key = toFieldKey(label);
+      const existingField = fields.find(field => field.key === key);
+      if (existingField) {
+        mapping[index] = `field:${existingField.key}`;
+        continue;
       }
-
-      // Step 2 & 3: fix prefix
-      if (digits.startsWith('0')) {
-        digits = '9' + digits; // 0XXXXXXXXXX → 90XXXXXXXXXX
-      } else if (digits.startsWith('5')) {
-        digits = '90' + digits; // 5XXXXXXXXXX → 905XXXXXXXXXX
+      if (!isValidFieldKey(key) || mapping.includes(`field:${key}`)) {
+        return NextResponse.json(
+          { error: `Cannot create a contact field from the column "${headers[index]}". Map it to an existing field or skip it.` },
+          { status: 400 }
+        );
       }
 
-      // Step 4: must be exactly 12 digits
-      if (digits.length !== 12) {
-        return { normalized: null, reason: `Expected 12 digits, got ${digits.length}` };
-      }
+      const { data: createdField, error: createFieldError } = await supabase
+        .from('contact_fields')
+        .insert({ owner_id: tenantId, key, label, type: 'text' })
+        .select('id, key, label, type')
+        .single();
 
-      // Must start with 905
-      if (!digits.startsWith('905')) {
-        return { normalized: null, reason: `Must start with 905, got ${digits.slice(0, 3)}` };
+      if (createFieldError || !createdField) {
+        console.error('Error creating contact field from column:', createFieldError);
+        return NextResponse.json(
+          { error: `Failed to create a contact field for the column "${headers[index]}"` },
+          { status: 500 }
+        );
       }
+      fields.push(createdField as ContactField);
+      mapping[index] = `field:${key}`;
+    }
 
-      return { normalized: digits };
-    };
+    const phoneColumn = mapping.indexOf('phone');
+    const nameColumn = mapping.indexOf('name');
+    const tagColumns = mapping.flatMap((target, index) => (target === 'tags' ? [index] : []));
+    const fieldColumns = mapping.flatMap((target, index) => {
+      const field = fields.find(f => f.key === getFieldTargetKey(target));
+      return field ? [{ index, field }] : [];
+    });
 
-    // Find name column once (outside the loop)
-    const nameColumn = headers.findIndex(h =>
-      h && (h.toLowerCase().includes('name') ||
-        h.toLowerCase().includes('nom') ||
-        h.toLowerCase().includes('fullname'))
-    );
+    // Numbers written without a country code are read in the tenant's default country
+    const defaultCountry = await getTenantDefaultCountry(supabase, tenantId);
+    const importRows: ImportRow[] = [];
+    const invalidNumbers: InvalidNumber[] = [];
+    const invalidValues: InvalidValue[] = [];
 
-    for (let i = 1; i < rawData.length; i++) {
-      const row = rawData[i] as any[];
-      const rawPhone = row[phoneColumn]?.toString() ?? '';
-      if (!rawPhone.trim()) continue;
+    dataRows.forEach((row, rowIndex) => {
+      const rawPhone = cellText(row[phoneColumn]);
+      if (!rawPhone) return;
 
-      const { normalized, reason } = normalizePhone(rawPhone);
-      if (normalized) {
-        phoneNumbers.push(normalized);
-        names.push(nameColumn !== -1 ? (row[nameColumn]?.toString().trim() || '') : '');
-      } else {
-        invalidNumbers.push({ phone: rawPhone.trim(), reason: reason || 'Invalid' });
+      const parsed = parsePhoneNumber(rawPhone, defaultCountry);
+      if (!parsed.valid) {
+        invalidNumbers.push({ phone: rawPhone, reason: parsed.reason, message: parsed.message });
+        return;
       }
-    }
 
-    if (phoneNumbers.length === 0) {
+      const attributes: ContactAttributes = {};
+      for (const { index, field } of fieldColumns) {
+        try {
+          const value = parseFieldValue(field, cellText(row[index]));
+          if (value !== null) attributes[field.key] = value;
+        } catch (valueError) {
+          // Spreadsheet row numbers: 1 is the header row
+          invalidValues.push({
+            row: rowIndex + 2,
+            column: headers[index],
+            message: valueError instanceof Error ? valueError.message : 'Invalid value',
+          });
+        }
+      }
+
+      importRows.push({
+        phone: parsed.waId,
+        name: nameColumn !== -1 ? cellText(row[nameColumn]) : '',
+        tags: normalizeTags(tagColumns.flatMap(index => splitTagCell(cellText(row[index])))),
+        attributes,
+        country: parsed.country,
+        lineType: parsed.lineType,
+      });
+    });
+
+    if (importRows.length === 0) {
       let errorMsg = 'No valid phone numbers found in file.';
       if (invalidNumbers.length > 0) {
         errorMsg += ` ${invalidNumbers.length} invalid number(s) were skipped.`;
@@ -155,10 +264,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get all existing users
+    // Get all existing contacts of this tenant
     const { data: existingUsers, error: usersError } = await supabase
       .from('users')
-      .select('id, name, custom_name, whatsapp_name');
+      .select('id, name, custom_name, whatsapp_name, tags, attributes')
+      .eq('owner_id', tenantId);
 
     if (usersError) {
       console.error('Error fetching users:', usersError);
@@ -168,36 +278,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create a map of phone numbers to user IDs (both exact and cleaned versions)
-    const userMap = new Map<string, { id: string; name: string; custom_name?: string; whatsapp_name?: string }>();
+    type ExistingUser = NonNullable<typeof existingUsers>[number];
+
+    // Map contacts by id and by their digits, so ids stored with formatting still match
+    const userMap = new Map<string, ExistingUser>();
     existingUsers?.forEach(u => {
-      // Store with different formats for matching
-      userMap.set(u.id, {
-        id: u.id,
-        name: u.name,
-        custom_name: u.custom_name,
-        whatsapp_name: u.whatsapp_name
-      });
-      // Also store cleaned version
+      userMap.set(u.id, u);
       const cleanedId = u.id.replace(/\D/g, '');
       if (cleanedId && cleanedId !== u.id) {
-        userMap.set(cleanedId, {
-          id: u.id,
-          name: u.name,
-          custom_name: u.custom_name,
-          whatsapp_name: u.whatsapp_name
-        });
+        userMap.set(cleanedId, u);
       }
     });
 
     // Process each phone number and create users for non-existing ones
     const matchedUsers: MatchedUser[] = [];
-    const newUsersToInsert: Array<{ id: string; name: string }> = [];
+    const contactsToSave: Array<{ owner_id: string; id: string; name: string; tags: string[]; attributes: ContactAttributes }> = [];
     const uniquePhoneNumbers = new Set<string>();
 
-    for (let i = 0; i < phoneNumbers.length; i++) {
-      const phone = phoneNumbers[i];
-      const name = names[i] || phone;
+    for (const row of importRows) {
+      const { phone } = row;
 
       // Skip duplicates
       if (uniquePhoneNumbers.has(phone)) {
@@ -210,66 +309,72 @@ export async function POST(request: NextRequest) {
 
       // Try to clean and match
       if (!matchedUser) {
-        const cleanedPhone = phone.replace(/\D/g, '');
         for (const [userId, userData] of userMap.entries()) {
           const cleanedUserId = userId.replace(/\D/g, '');
-          if (cleanedUserId === cleanedPhone ||
-            cleanedUserId.endsWith(cleanedPhone) ||
-            cleanedPhone.endsWith(cleanedUserId)) {
-            matchedUser = { ...userData };
+          if (cleanedUserId === phone ||
+            cleanedUserId.endsWith(phone) ||
+            phone.endsWith(cleanedUserId)) {
+            matchedUser = userData;
             break;
           }
         }
       }
 
+      const details = { country: row.country, lineType: row.lineType };
+      const hasDetails = row.tags.length > 0 || Object.keys(row.attributes).length > 0;
+
       if (matchedUser) {
-        // User exists
+        // User exists - merge imported tags and field values into theirs
         matchedUsers.push({
           userId: matchedUser.id,
-          name: matchedUser.custom_name || matchedUser.whatsapp_name || matchedUser.name || name,
+          name: matchedUser.custom_name || matchedUser.whatsapp_name || matchedUser.name || row.name || phone,
           phone,
           isNew: false,
+          ...details,
         });
+        if (hasDetails) {
+          contactsToSave.push({
+            owner_id: tenantId,
+            id: matchedUser.id,
+            name: matchedUser.name,
+            tags: normalizeTags([...(matchedUser.tags || []), ...row.tags]),
+            attributes: { ...(matchedUser.attributes || {}), ...row.attributes },
+          });
+        }
       } else {
         // User doesn't exist - will be created
         matchedUsers.push({
           userId: phone, // Use phone as ID
-          name: name || phone,
+          name: row.name || phone,
           phone,
           isNew: true,
+          ...details,
         });
-        newUsersToInsert.push({
+        contactsToSave.push({
+          owner_id: tenantId,
           id: phone,
-          name: name || phone,
+          name: row.name || phone,
+          tags: row.tags,
+          attributes: row.attributes,
         });
       }
     }
 
-    // Create new users if any
-    if (newUsersToInsert.length > 0) {
-      // Ensure newUsersToInsert is unique by cleaned phone number
-      const uniqueUsersMap = new Map<string, { id: string; name: string }>();
-      newUsersToInsert.forEach(user => {
-        const cleanedPhone = user.id.replace(/\D/g, '');
-        if (!uniqueUsersMap.has(cleanedPhone)) {
-          uniqueUsersMap.set(cleanedPhone, user);
-        }
-      });
-      const uniqueNewUsersToInsert = Array.from(uniqueUsersMap.values());
-
-      const { error: insertError } = await supabase
+    // Create new users and store imported details
+    if (contactsToSave.length > 0) {
+      const { error: saveError } = await supabase
         .from('users')
-        .upsert(uniqueNewUsersToInsert, { onConflict: 'id', ignoreDuplicates: true });
+        .upsert(contactsToSave, { onConflict: 'owner_id,id' });
 
-      if (insertError) {
-        console.error('Error creating new users:', insertError);
+      if (saveError) {
+        console.error('Error saving imported contacts:', saveError);
         // Don't fail completely, but note the error in response
         return NextResponse.json(
           {
             error: 'Failed to create some new users',
-            details: insertError.message,
+            details: saveError.message,
             data: {
-              total: phoneNumbers.length,
+              total: matchedUsers.length,
               existing: matchedUsers.filter(u => !u.isNew).length,
               new: matchedUsers.filter(u => u.isNew).length,
               users: matchedUsers,
@@ -289,6 +394,8 @@ export async function POST(request: NextRequest) {
         invalid: invalidNumbers.length,
         users: matchedUsers,
         invalidNumbers,
+        invalidValues,
+        mapping,
       },
     });
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * GET - Fetch all groups for the authenticated user
@@ -57,6 +58,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const body = await request.json();
     const { name, description, memberIds } = body;
 
@@ -72,7 +75,7 @@ export async function POST(request: NextRequest) {
     const { data: group, error: createError } = await supabase
       .from('chat_groups')
       .insert([{
-        owner_id: user.id,
+        owner_id: tenantId,
         name: name.trim(),
         description: description?.trim() || null,
       }])
@@ -87,20 +90,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Add members if provided
+    // Add members if provided, keeping only contacts owned by this tenant
     if (memberIds && Array.isArray(memberIds) && memberIds.length > 0) {
-      const members = memberIds.map(userId => ({
+      const { data: ownedContacts } = await supabase
+        .from('users')
+        .select('id')
+        .eq('owner_id', tenantId)
+        .in('id', memberIds);
+
+      const members = (ownedContacts || []).map(contact => ({
         group_id: group.id,
-        user_id: userId,
+        user_id: contact.id,
       }));
 
-      const { error: membersError } = await supabase
-        .from('group_members')
-        .insert(members);
+      if (members.length > 0) {
+        const { error: membersError } = await supabase
+          .from('group_members')
+          .insert(members);
 
-      if (membersError) {
-        console.error('Error adding members:', membersError);
-        // Don't fail the entire request, just log the error
+        if (membersError) {
+          console.error('Error adding members:', membersError);
+          // Don't fail the entire request, just log the error
+        }
       }
     }
 
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+
+/**
+ * GET - Per-recipient results of a broadcast job
+ * Includes the delivery status reported by the webhook for each sent message
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { id: jobId } = await params;
+
+    const { data: job, error: jobError } = await supabase
+      .from('broadcast_jobs')
+      .select('id')
+      .eq('id', jobId)
+      .eq('created_by', tenantId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: 'Job not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const { data: recipients, error: recipientsError } = await supabase
+      .rpc('get_broadcast_job_recipients', { p_job_id: jobId });
+
+    if (recipientsError) {
+      console.error('[jobs] Error fetching job recipients:', recipientsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch job recipients', details: recipientsError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, recipients: recipients || [] });
+  } catch (error) {
+    console.error('[jobs] Error fetching job recipients:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { kickBroadcastWorker } from '@/lib/broadcast/worker';
+import { isValidTimeZone, zonedTimeToUtc } from '@/lib/broadcast/schedule';
 
 export async function GET(
   request: NextRequest,
@@ -13,13 +16,15 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     const { id: jobId } = await params;
 
     const { data: job, error: jobError } = await supabase
       .from('broadcast_jobs')
       .select('*')
       .eq('id', jobId)
-      .eq('created_by', user.id)
+      .eq('created_by', tenantId)
       .single();
 
     if (jobError || !job) {
@@ -38,3 +43,311 @@ export async function GET(
     );
   }
 }
+
+/**
+ * POST - Pause, resume, cancel or retry the failed recipients of a broadcast job
+ * Body: { action: 'pause' | 'resume' | 'cancel' | 'retry_failed' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { id: jobId } = await params;
+    const { action } = await request.json();
+
+    const { data: job, error: jobError } = await supabase
+      .from('broadcast_jobs')
+      .select('id, status')
+      .eq('id', jobId)
+      .eq('created_by', tenantId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: 'Job not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    let update: Record<string, unknown>;
+    let allowedFrom: string[];
+
+    switch (action) {
+      case 'pause':
+        // The worker notices on its next lease renewal and stops after the current batch
+        update = { status: 'paused', locked_by: null, locked_until: null, throttled_until: null, updated_at: now };
+        allowedFrom = ['queued', 'processing', 'throttled'];
+        break;
+      case 'resume':
+        update = { status: 'queued', locked_by: null, locked_until: null, updated_at: now };
+        allowedFrom = ['paused'];
+        break;
+      case 'cancel':
+        update = { status: 'cancelled', locked_by: null, locked_until: null, throttled_until: null, completed_at: now, updated_at: now };
+        allowedFrom = ['scheduled', 'queued', 'processing', 'throttled', 'paused'];
+        break;
+      case 'retry_failed':
+        update = { status: 'queued', locked_by: null, locked_until: null, completed_at: null, last_error: null, updated_at: now };
+        allowedFrom = ['completed', 'failed'];
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'Action must be pause, resume, cancel or retry_failed' },
+          { status: 400 }
+        );
+    }
+
+    if (!allowedFrom.includes(job.status)) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a job that is ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    if (action === 'retry_failed') {
+      // Recipients whose send failed, plus those the webhook later reported as undelivered
+      const { data: recipients, error: recipientsError } = await supabase
+        .rpc('get_broadcast_job_recipients', { p_job_id: jobId });
+
+      if (recipientsError) {
+        console.error('[jobs] Failed to load job recipients:', recipientsError);
+        return NextResponse.json(
+          { error: 'Failed to load job recipients', details: recipientsError.message },
+          { status: 500 }
+        );
+      }
+
+      const retryIds = (recipients || [])
+        .filter((recipient: { status: string; delivery_status: string | null }) =>
+          recipient.status === 'failed' || recipient.delivery_status === 'failed')
+        .map((recipient: { id: string }) => recipient.id);
+
+      if (retryIds.length === 0) {
+        return NextResponse.json(
+          { error: 'No failed recipients to retry' },
+          { status: 400 }
+        );
+      }
+
+      // Reset the recipients before requeueing the job, otherwise a worker
+      // could claim it and find nothing pending
+      const { error: resetError } = await supabase
+        .from('broadcast_job_recipients')
+        .update({
+          status: 'pending',
+          message_id: null,
+          error: null,
+          error_code: null,
+          sent_at: null,
+          next_attempt_at: null,
+          processed_at: null,
+          updated_at: now
+        })
+        .eq('job_id', jobId)
+        .in('id', retryIds);
+
+      if (resetError) {
+        console.error('[jobs] Failed to reset failed recipients:', resetError);
+        return NextResponse.json(
+          { error: 'Failed to retry job', details: resetError.message },
+          { status: 500 }
+        );
+      }
+
+      update.success_count = (recipients || []).filter((recipient: { id: string; status: string }) =>
+        recipient.status === 'sent' && !retryIds.includes(recipient.id)).length;
+      update.failed_count = 0;
+      update.errors = [];
+    }
+
+    const { data: updatedJob, error: updateError } = await supabase
+      .from('broadcast_jobs')
+      .update(update)
+      .eq('id', jobId)
+      .in('status', allowedFrom)
+      .select('*')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error(`[jobs] Failed to ${action} job:`, updateError);
+      return NextResponse.json(
+        { error: `Failed to ${action} job`, details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!updatedJob) {
+      return NextResponse.json(
+        { error: 'Job status changed, please try again' },
+        { status: 409 }
+      );
+    }
+
+    if (action === 'cancel') {
+      const { error: recipientsError } = await supabase
+        .from('broadcast_job_recipients')
+        .update({ status: 'cancelled', updated_at: now })
+        .eq('job_id', jobId)
+        .eq('status', 'pending');
+
+      if (recipientsError) {
+        console.error('[jobs] Failed to cancel pending recipients:', recipientsError);
+      }
+    }
+
+    if (action === 'resume' || action === 'retry_failed') {
+      kickBroadcastWorker();
+    }
+
+    console.log(`[jobs] Job ${jobId} ${action} requested by ${tenantId}`);
+    return NextResponse.json({ success: true, job: updatedJob });
+  } catch (error) {
+    console.error('[jobs] Error updating job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Edit a scheduled broadcast before it starts
+ * Body: { scheduledAt?, timezone?, message? } - message only for text broadcasts
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { id: jobId } = await params;
+    const { scheduledAt, timezone, message } = await request.json();
+
+    const { data: job, error: jobError } = await supabase
+      .from('broadcast_jobs')
+      .select('id, status, scheduled_at, timezone, payload')
+      .eq('id', jobId)
+      .eq('created_by', tenantId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: 'Job not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'scheduled') {
+      return NextResponse.json(
+        { error: 'Only scheduled broadcasts can be edited' },
+        { status: 409 }
+      );
+    }
+
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (scheduledAt !== undefined || timezone !== undefined) {
+      const nextTimezone = timezone ?? job.timezone;
+      if (!nextTimezone || !isValidTimeZone(nextTimezone)) {
+        return NextResponse.json(
+          { error: 'A valid timezone is required for scheduled broadcasts' },
+          { status: 400 }
+        );
+      }
+
+      if (!scheduledAt) {
+        return NextResponse.json(
+          { error: 'Scheduled time is required' },
+          { status: 400 }
+        );
+      }
+
+      const scheduledFor = zonedTimeToUtc(scheduledAt, nextTimezone);
+      if (!scheduledFor) {
+        return NextResponse.json(
+          { error: 'Invalid scheduled time' },
+          { status: 400 }
+        );
+      }
+
+      if (scheduledFor.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'Scheduled time must be in the future' },
+          { status: 400 }
+        );
+      }
+
+      update.scheduled_at = scheduledFor.toISOString();
+      update.timezone = nextTimezone;
+    }
+
+    if (message !== undefined) {
+      if (job.payload?.templateName) {
+        return NextResponse.json(
+          { error: 'The message of a template broadcast cannot be edited' },
+          { status: 400 }
+        );
+      }
+
+      if (!message || !String(message).trim()) {
+        return NextResponse.json(
+          { error: 'Message is required' },
+          { status: 400 }
+        );
+      }
+
+      update.payload = { ...job.payload, message: String(message).trim() };
+    }
+
+    // The status condition keeps an edit from landing after the worker has claimed the job
+    const { data: updatedJob, error: updateError } = await supabase
+      .from('broadcast_jobs')
+      .update(update)
+      .eq('id', jobId)
+      .eq('status', 'scheduled')
+      .select('*')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('[jobs] Failed to edit scheduled job:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update job', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!updatedJob) {
+      return NextResponse.json(
+        { error: 'Broadcast has already started' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: updatedJob });
+  } catch (error) {
+    console.error('[jobs] Error editing job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
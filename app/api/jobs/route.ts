@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+
+/**
+ * GET - List the authenticated user's broadcast jobs
+ * Optional ?status= filter, e.g. ?status=scheduled for upcoming broadcasts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const status = request.nextUrl.searchParams.get('status');
+
+    let query = supabase
+      .from('broadcast_jobs')
+      .select('id, group_id, status, total_messages, success_count, failed_count, scheduled_at, timezone, payload, created_at, updated_at, chat_groups(name)')
+      .eq('created_by', tenantId);
+
+    if (status === 'scheduled') {
+      query = query.eq('status', 'scheduled').order('scheduled_at', { ascending: true });
+    } else {
+      if (status) {
+        query = query.eq('status', status);
+      }
+      query = query.order('created_at', { ascending: false }).limit(50);
+    }
+
+    const { data: jobs, error: jobsError } = await query;
+
+    if (jobsError) {
+      console.error('[jobs] Error listing jobs:', jobsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch jobs', details: jobsError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, jobs: jobs || [] });
+  } catch (error) {
+    console.error('[jobs] Error listing jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
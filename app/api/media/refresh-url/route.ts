@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 import { generatePresignedUrl } from '@/lib/aws-s3';
 
 export const runtime = 'nodejs';
@@ -19,6 +20,8 @@ export async function POST(request: NextRequest) {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Parse request body
     const { messageId } = await request.json();
 
@@ -40,7 +43,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if user has access to this message
-    if (message.sender_id !== user.id && message.receiver_id !== user.id) {
+    if (message.sender_id !== tenantId && message.receiver_id !== tenantId) {
       return new NextResponse('Access denied', { status: 403 });
     }
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 export const runtime = 'nodejs';
 
@@ -22,12 +23,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Get WhatsApp credentials
     const serviceRole = await createServiceRoleClient();
     const { data: settings, error: settingsError } = await serviceRole
       .from('user_settings')
       .select('access_token, phone_number_id, api_version')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     if (settingsError || !settings?.access_token || !settings?.phone_number_id) {
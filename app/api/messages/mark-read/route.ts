@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * POST handler to mark messages as read
@@ -18,6 +19,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Parse request body
     const { otherUserId } = await request.json();
 
@@ -32,7 +35,7 @@ export async function POST(request: NextRequest) {
 
     // Call the database function to mark messages as read
     const { data, error } = await supabase.rpc('mark_messages_as_read', {
-      current_user_id: user.id,
+      current_user_id: tenantId,
       other_user_id: otherUserId
     });
 
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+const DIRECTIONS = ['inbound', 'outbound'];
+
+/**
+ * GET handler for full-text search over the user's message history
+ * Query params: q (required), contact, from, to (ISO dates), direction, type, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('Authentication error:', authError);
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Missing search query' },
+        { status: 400 }
+      );
+    }
+
+    const direction = params.get('direction');
+    if (direction && !DIRECTIONS.includes(direction)) {
+      return NextResponse.json(
+        { error: 'direction must be "inbound" or "outbound"' },
+        { status: 400 }
+      );
+    }
+
+    const parseDate = (value: string | null) => {
+      if (!value) return null;
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+    };
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    if (from === undefined || to === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '50', 10) || 50, 1), 100);
+    const offset = Math.max(parseInt(params.get('offset') || '0', 10) || 0, 0);
+
+    const { data, error } = await supabase.rpc('search_messages', {
+      p_query: query,
+      p_contact_id: params.get('contact') || null,
+      p_from: from,
+      p_to: to,
+      p_direction: direction || null,
+      p_message_type: params.get('type') || null,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      console.error('Error searching messages:', error);
+      return NextResponse.json(
+        { error: 'Failed to search messages' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      results: data || [],
+      hasMore: (data?.length || 0) === limit,
+    });
+
+  } catch (error) {
+    console.error('Error in message search API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * DELETE - Delete an internal note (RLS limits this to the note's author)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: noteId } = await params;
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('conversation_notes')
+      .delete()
+      .eq('id', noteId)
+      .eq('author_id', user.id)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Error deleting conversation note:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to delete note', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Note deleted successfully',
+    });
+
+  } catch (error) {
+    console.error('Error in delete note API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { MAX_NOTE_LENGTH } from '@/lib/notes';
+
+/**
+ * GET - List the internal notes on a conversation, oldest first
+ * Query: ?contact=<contact id>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const contactId = request.nextUrl.searchParams.get('contact');
+    if (!contactId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: contact' },
+        { status: 400 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { data: notes, error: notesError } = await supabase
+      .from('conversation_notes')
+      .select('*')
+      .eq('owner_id', tenantId)
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: true });
+
+    if (notesError) {
+      console.error('Error fetching conversation notes:', notesError);
+      return NextResponse.json(
+        { error: 'Failed to fetch notes' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      notes: notes || [],
+    });
+
+  } catch (error) {
+    console.error('Error in get notes API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Add an internal note to a conversation. Notes are never sent to
+ * WhatsApp. Mentions that are not teammates are dropped.
+ * Body: { contactId, content, mentions? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { contactId, content, mentions } = await request.json() as {
+      contactId?: string;
+      content?: string;
+      mentions?: string[];
+    };
+
+    const text = typeof content === 'string' ? content.trim() : '';
+
+    if (!contactId || !text) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: contactId, content' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    let validMentions: string[] = [];
+    if (Array.isArray(mentions) && mentions.length > 0) {
+      const { data: members, error: membersError } = await supabase
+        .from('organization_members')
+        .select('user_id')
+        .eq('organization_id', tenantId)
+        .in('user_id', mentions);
+
+      if (membersError) {
+        console.error('Error validating note mentions:', membersError);
+      }
+
+      validMentions = (members || []).map(member => member.user_id);
+    }
+
+    const { data: note, error: insertError } = await supabase
+      .from('conversation_notes')
+      .insert({
+        owner_id: tenantId,
+        contact_id: contactId,
+        author_id: user.id,
+        content: text,
+        mentions: validMentions,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error adding conversation note:', insertError);
+      // Foreign key violation: the contact is not in this organization
+      if (insertError.code === '23503') {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to add note', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    console.log(`Note added to ${contactId} by ${user.id} (${validMentions.length} mentions)`);
+
+    return NextResponse.json({
+      success: true,
+      note,
+    });
+
+  } catch (error) {
+    console.error('Error in add note API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * POST - Join the organization behind an invite sent to the caller's email.
+ * Refused for accounts that already have settings or conversations of their own.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: inviteId } = await params;
+
+    const { data: organizationId, error: acceptError } = await supabase.rpc('accept_organization_invite', {
+      p_invite_id: inviteId,
+    });
+
+    if (acceptError) {
+      console.error('Error accepting organization invite:', acceptError);
+      return NextResponse.json(
+        { error: 'Failed to accept invite', details: acceptError.message },
+        { status: 400 }
+      );
+    }
+
+    console.log(`User ${user.id} joined organization ${organizationId}`);
+
+    return NextResponse.json({
+      success: true,
+      organizationId,
+    });
+
+  } catch (error) {
+    console.error('Error in accept organization invite API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * DELETE - Revoke a pending invite (RLS limits this to the organization owner)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: inviteId } = await params;
+
+    const { error: deleteError } = await supabase
+      .from('organization_invites')
+      .delete()
+      .eq('id', inviteId)
+      .eq('organization_id', user.id);
+
+    if (deleteError) {
+      console.error('Error revoking organization invite:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to revoke invite', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invite revoked successfully',
+    });
+
+  } catch (error) {
+    console.error('Error in revoke organization invite API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+
+/**
+ * DELETE - Remove an agent from the organization and unassign their conversations
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+    if (tenantId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can remove agents' },
+        { status: 403 }
+      );
+    }
+
+    const { userId } = await params;
+
+    if (userId === user.id) {
+      return NextResponse.json(
+        { error: 'The owner cannot be removed from the organization' },
+        { status: 400 }
+      );
+    }
+
+    const { data: removed, error: deleteError } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', tenantId)
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (deleteError) {
+      console.error('Error removing organization member:', deleteError);
+      return NextResponse.json(
+        { error: 'Failed to remove agent', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      );
+    }
+
+    // Their conversations go back to the unassigned queue
+    const { error: unassignError } = await supabase
+      .from('users')
+      .update({ assigned_to: null, assigned_at: null })
+      .eq('owner_id', tenantId)
+      .eq('assigned_to', userId);
+
+    if (unassignError) {
+      console.error('Error unassigning conversations of removed agent:', unassignError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Agent removed successfully',
+    });
+
+  } catch (error) {
+    console.error('Error in remove organization member API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
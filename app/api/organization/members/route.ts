@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+
+/**
+ * GET - List the members of the caller's organization, and pending invites
+ * for the owner
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { data: members, error: membersError } = await supabase
+      .from('organization_members')
+      .select('user_id, role, email, display_name, created_at')
+      .eq('organization_id', tenantId)
+      .order('created_at', { ascending: true });
+
+    if (membersError) {
+      console.error('Error fetching organization members:', membersError);
+      return NextResponse.json(
+        { error: 'Failed to fetch organization members' },
+        { status: 500 }
+      );
+    }
+
+    // Only the owner can read invites; agents get an empty list from RLS
+    const { data: invites, error: invitesError } = await supabase
+      .from('organization_invites')
+      .select('id, email, role, created_at')
+      .eq('organization_id', tenantId)
+      .order('created_at', { ascending: true });
+
+    if (invitesError) {
+      console.error('Error fetching organization invites:', invitesError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      organizationId: tenantId,
+      isOwner: tenantId === user.id,
+      members: members || [],
+      invites: invites || [],
+    });
+
+  } catch (error) {
+    console.error('Error in get organization members API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Invite an agent by email. Whoever signs in with that address can
+ * accept it from the setup page.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+    if (tenantId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can invite agents' },
+        { status: 403 }
+      );
+    }
+
+    const { email } = await request.json();
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: existingMember } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', tenantId)
+      .eq('email', normalizedEmail)
+      .maybeSingle();
+
+    if (existingMember) {
+      return NextResponse.json(
+        { error: 'This person is already a member of your organization' },
+        { status: 409 }
+      );
+    }
+
+    const { data: invite, error: inviteError } = await supabase
+      .from('organization_invites')
+      .insert([{
+        organization_id: tenantId,
+        email: normalizedEmail,
+        role: 'agent',
+        invited_by: user.id,
+      }])
+      .select('id, email, role, created_at')
+      .single();
+
+    if (inviteError?.code === '23505') {
+      return NextResponse.json(
+        { error: 'This email address has already been invited' },
+        { status: 409 }
+      );
+    }
+
+    if (inviteError) {
+      console.error('Error creating organization invite:', inviteError);
+      return NextResponse.json(
+        { error: 'Failed to invite agent', details: inviteError.message },
+        { status: 500 }
+      );
+    }
+
+    console.log(`Invited ${normalizedEmail} to organization ${tenantId}`);
+
+    return NextResponse.json({
+      success: true,
+      invite,
+    });
+
+  } catch (error) {
+    console.error('Error in invite organization member API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
-import { env } from 'process';
+import { getTenantId } from '@/lib/tenant';
+import { parseWaId } from '@/lib/phone';
 import { uuidv7 } from 'uuidv7';
 
 interface SendTemplateRequest {
@@ -99,11 +100,22 @@ export async function POST(request: NextRequest) {
     console.log('save-template API called');
 
     try {
-        let userId = env.PUBLIC_USER_ID;
+        const supabase = await createClient();
+
+        // Verify user authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            console.error('Authentication error:', authError);
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const tenantId = await getTenantId(supabase, user.id);
 
         // Parse request body
         const { phone, template, language, customer_name, text, components }: SendTemplateRequest = await request.json();
-        const to = phone;
         const templateName = template;
         const templateData = {
             id: template,
@@ -112,20 +124,34 @@ export async function POST(request: NextRequest) {
             components: components
         };
         // Validate required parameters
-        if (!to || !templateName || !templateData) {
-            console.error('Missing required parameters:', { to: !!to, templateName: !!templateName, templateData: !!templateData });
+        if (!phone || !templateName || !templateData) {
+            console.error('Missing required parameters:', { to: !!phone, templateName: !!templateName, templateData: !!templateData });
             return NextResponse.json(
                 { error: 'Missing required parameters: to, templateName, templateData' },
                 { status: 400 }
             );
         }
+
+        // Recipients are contact ids, which already carry their calling code
+        const parsedPhone = parseWaId(phone);
+        if (!parsedPhone.valid) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid phone number format',
+                    reason: parsedPhone.reason,
+                    message: parsedPhone.message,
+                },
+                { status: 400 }
+            );
+        }
+        const to = parsedPhone.waId;
         const serviceRoleClient = await createServiceRoleClient();
 
         // Get user's WhatsApp API credentials
         const { data: settings, error: settingsError } = await serviceRoleClient
             .from('user_settings')
             .select('access_token, phone_number_id, api_version, access_token_added')
-            .eq('id', userId)
+            .eq('id', tenantId)
             .single();
 
         if (settingsError || !settings) {
@@ -137,7 +163,7 @@ export async function POST(request: NextRequest) {
         }
 
         if (!settings.access_token_added || !settings.access_token || !settings.phone_number_id) {
-            console.error('WhatsApp API credentials not configured for user:', userId);
+            console.error('WhatsApp API credentials not configured for user:', tenantId);
             return NextResponse.json(
                 { error: 'WhatsApp Access Token not configured. Please complete setup.' },
                 { status: 400 }
@@ -152,6 +178,7 @@ export async function POST(request: NextRequest) {
         const { data: userData, error: userError } = await serviceRoleClient
             .from('users')
             .select('id')
+            .eq('owner_id', tenantId)
             .eq('id', to)
             .maybeSingle();
 
@@ -169,6 +196,7 @@ export async function POST(request: NextRequest) {
             const { error: userInsertError } = await serviceRoleClient
                 .from('users')
                 .insert([{
+                    owner_id: tenantId,
                     id: to,
                     name: customer_name || to,
                     last_active: new Date().toISOString()
@@ -252,7 +280,7 @@ export async function POST(request: NextRequest) {
 
         const messageObject = {
             id: uuidv7(),
-            sender_id: userId, // Recipient phone number (sender in DB)
+            sender_id: tenantId, // Recipient phone number (sender in DB)
             receiver_id: to, // Current authenticated user (receiver in DB)
             content: displayContent,
             timestamp: timestamp,
@@ -321,11 +349,13 @@ export async function GET() {
             );
         }
 
+        const tenantId = await getTenantId(supabase, user.id);
+
         // Get user's WhatsApp API credentials
         const { data: settings } = await supabase
-            .from('user_settings')
+            .from('organization_settings')
             .select('access_token_added, api_version')
-            .eq('id', user.id)
+            .eq('id', tenantId)
             .single();
 
         const isConfigured = settings?.access_token_added || false;
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { parseWaId } from '@/lib/phone';
+import { InteractiveMessage, buildInteractivePayload, validateInteractiveMessage } from '@/lib/interactive-message';
+import { WINDOW_CLOSED_ERROR_CODE, getCustomerServiceWindow, windowClosedResponseBody } from '@/lib/customer-service-window';
+
+/**
+ * POST handler for sending interactive reply-button and list messages
+ * Free-form like text, so it only reaches customers inside the 24-hour window
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify user authentication
+    const { data: { user: senderUser }, error: authError } = await supabase.auth.getUser();
+    if (authError || !senderUser) {
+      console.error('Authentication error:', authError);
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, senderUser.id);
+
+    const { to, interactive } = await request.json() as { to?: string; interactive?: InteractiveMessage };
+
+    if (!to || !interactive) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: to, interactive' },
+        { status: 400 }
+      );
+    }
+
+    const validationErrors = validateInteractiveMessage(interactive);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid interactive message', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    // Recipients are contact ids, which already carry their calling code
+    const phone = parseWaId(to);
+    if (!phone.valid) {
+      return NextResponse.json(
+        {
+          error: 'Invalid phone number format',
+          reason: phone.reason,
+          message: phone.message,
+        },
+        { status: 400 }
+      );
+    }
+    const cleanPhoneNumber = phone.waId;
+
+    // Get user's WhatsApp API credentials
+    const { data: settings, error: settingsError } = await createServiceRoleClient()
+      .from('user_settings')
+      .select('access_token, phone_number_id, api_version, access_token_added')
+      .eq('id', tenantId)
+      .single();
+
+    if (settingsError || !settings || !settings.access_token_added || !settings.access_token || !settings.phone_number_id) {
+      console.error('WhatsApp API credentials not configured for user:', tenantId, settingsError);
+      return NextResponse.json(
+        { error: 'WhatsApp Access Token not configured. Please complete setup.' },
+        { status: 400 }
+      );
+    }
+
+    const serviceWindow = await getCustomerServiceWindow(supabase, tenantId, cleanPhoneNumber);
+    if (!serviceWindow.isOpen) {
+      console.log('Customer service window closed for:', cleanPhoneNumber);
+      return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+    }
+
+    const apiVersion = settings.api_version || 'v23.0';
+    const whatsappApiUrl = `https://graph.facebook.com/${apiVersion}/${settings.phone_number_id}/messages`;
+
+    const messageData = {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: cleanPhoneNumber,
+      type: 'interactive',
+      interactive: buildInteractivePayload(interactive),
+    };
+
+    console.log('Sending interactive message to WhatsApp API:', {
+      to: cleanPhoneNumber,
+      type: interactive.type,
+      userId: tenantId
+    });
+
+    const whatsappResponse = await fetch(whatsappApiUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${settings.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(messageData),
+    });
+
+    const responseData = await whatsappResponse.json();
+
+    if (!whatsappResponse.ok) {
+      console.error('WhatsApp API error:', responseData);
+      if (responseData.error?.code === WINDOW_CLOSED_ERROR_CODE) {
+        return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+      }
+      return NextResponse.json(
+        {
+          error: 'Failed to send interactive message via WhatsApp API',
+          details: responseData
+        },
+        { status: whatsappResponse.status }
+      );
+    }
+
+    const messageId = responseData.messages?.[0]?.id;
+    const timestamp = new Date().toISOString();
+
+    console.log('Interactive message sent successfully via WhatsApp API:', messageId);
+
+    // Make sure the recipient exists before storing the message
+    const { error: recipientUpdateError } = await supabase
+      .from('users')
+      .upsert([{
+        owner_id: tenantId,
+        id: cleanPhoneNumber,
+        name: cleanPhoneNumber,
+        last_active: timestamp
+      }], {
+        onConflict: 'owner_id,id'
+      });
+
+    if (recipientUpdateError) {
+      console.error('Error updating recipient user:', recipientUpdateError);
+    }
+
+    // Keep the structure so the chat history can render the buttons or list
+    const messageObject = {
+      id: messageId || `outgoing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      sender_id: tenantId,
+      receiver_id: cleanPhoneNumber,
+      content: interactive.body.trim(),
+      timestamp: timestamp,
+      is_sent_by_me: true,
+      is_read: true,
+      message_type: 'interactive',
+      media_data: JSON.stringify({
+        type: 'interactive',
+        interactive_type: interactive.type,
+        interactive: messageData.interactive,
+      })
+    };
+
+    const { error: dbError } = await supabase
+      .from('messages')
+      .insert([messageObject]);
+
+    if (dbError) {
+      console.error('Error storing sent interactive message in database:', dbError);
+      // Don't fail the request if database storage fails, message was already sent
+    }
+
+    return NextResponse.json({
+      success: true,
+      messageId: messageObject.id,
+      timestamp: timestamp,
+      storedInDb: !dbError
+    });
+
+  } catch (error) {
+    console.error('Error in send-interactive API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { parseWaId } from '@/lib/phone';
 import { uploadFileToS3, isWhatsAppSupportedFileType } from '@/lib/aws-s3';
+import { getCustomerServiceWindow, windowClosedResponseBody } from '@/lib/customer-service-window';
 
 export const runtime = 'nodejs';
 
@@ -184,32 +187,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Parse form data
     const formData = await request.formData();
-    const to = formData.get('to') as string;
+    const rawTo = formData.get('to') as string;
     const files = formData.getAll('files') as File[];
     const captions = formData.getAll('captions') as string[];
 
 
-    console.log(to,'to')
+    console.log(rawTo,'to')
     console.log(user,'user')
 
 
 
     // Validate required parameters
-    if (!to || files.length === 0) {
-      console.error('Missing required parameters:', { to: !!to, filesCount: files.length });
+    if (!rawTo || files.length === 0) {
+      console.error('Missing required parameters:', { to: !!rawTo, filesCount: files.length });
       return NextResponse.json(
         { error: 'Missing required parameters: to, files' },
         { status: 400 }
       );
     }
 
+    // Recipients are contact ids, which already carry their calling code
+    const phone = parseWaId(rawTo);
+    if (!phone.valid) {
+      return NextResponse.json(
+        {
+          error: 'Invalid phone number format',
+          reason: phone.reason,
+          message: phone.message,
+        },
+        { status: 400 }
+      );
+    }
+    const to = phone.waId;
+
     // Get user's WhatsApp API credentials
-    const { data: settings, error: settingsError } = await supabase
+    const { data: settings, error: settingsError } = await createServiceRoleClient()
       .from('user_settings')
       .select('access_token, phone_number_id, api_version, access_token_added')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     if (settingsError || !settings) {
@@ -221,13 +240,20 @@ export async function POST(request: NextRequest) {
     }
 
     if (!settings.access_token_added || !settings.access_token || !settings.phone_number_id) {
-      console.error('WhatsApp API credentials not configured for user:', user.id);
+      console.error('WhatsApp API credentials not configured for user:', tenantId);
       return NextResponse.json(
         { error: 'WhatsApp Access Token not configured. Please complete setup.' },
         { status: 400 }
       );
     }
 
+    // Media is free-form, so it only goes through inside the 24-hour customer service window
+    const serviceWindow = await getCustomerServiceWindow(supabase, tenantId, to);
+    if (!serviceWindow.isOpen) {
+      console.log('Customer service window closed for:', to);
+      return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+    }
+
     const accessToken = settings.access_token;
     const phoneNumberId = settings.phone_number_id;
     const apiVersion = settings.api_version || 'v23.0';
@@ -282,12 +308,12 @@ export async function POST(request: NextRequest) {
 
         // Upload to S3 for our records
         const mediaIdForS3 = `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const s3Url = await uploadFileToS3(file, user.id, mediaIdForS3);
+        const s3Url = await uploadFileToS3(file, tenantId, mediaIdForS3);
 
         // Store in database
         const messageObject = {
           id: messageId || `outgoing_media_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          sender_id: user.id, // Recipient phone number (sender in DB)
+          sender_id: tenantId, // Recipient phone number (sender in DB)
           receiver_id: to, // Current authenticated user (receiver in DB)
           content: caption || `[${mediaType.charAt(0).toUpperCase() + mediaType.slice(1)}]`,
           timestamp: timestamp,
@@ -380,11 +406,13 @@ export async function GET() {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Get user's WhatsApp API credentials
     const { data: settings } = await supabase
-      .from('user_settings')
+      .from('organization_settings')
       .select('access_token_added, api_version')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     const isConfigured = settings?.access_token_added || false;
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { parseWaId } from '@/lib/phone';
+import { WINDOW_CLOSED_ERROR_CODE, getCustomerServiceWindow, windowClosedResponseBody } from '@/lib/customer-service-window';
 
 /**
  * POST handler for sending WhatsApp messages
@@ -21,8 +24,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tenantId = await getTenantId(supabase, senderUser.id);
+
     // Parse request body
-    const { to, message } = await request.json();
+    // replyTo is the WAMID of the message being quoted, if any
+    const { to, message, replyTo } = await request.json();
 
     // Validate required parameters
     if (!to || !message) {
@@ -33,29 +39,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Clean and validate phone number format for WhatsApp API
-    // WhatsApp expects phone numbers without + prefix, with country code
-    const cleanPhoneNumber = to.replace(/\s+/g, '').replace(/[^\d]/g, ''); // Remove all non-digits including +
-
-    // Validate phone number format (10-15 digits without + prefix)
-    const phoneRegex = /^\d{10,15}$/;
-    if (!phoneRegex.test(cleanPhoneNumber)) {
+    // Recipients are contact ids, which already carry their calling code
+    const phone = parseWaId(to);
+    if (!phone.valid) {
       return NextResponse.json(
         {
           error: 'Invalid phone number format',
-          message: 'Phone number must contain 10-15 digits (e.g., 918097296453)'
+          reason: phone.reason,
+          message: phone.message,
         },
         { status: 400 }
       );
     }
+    const cleanPhoneNumber = phone.waId;
 
     // Get user's WhatsApp API credentials
-    const { data: settings, error: settingsError } = await supabase
+    const { data: settings, error: settingsError } = await createServiceRoleClient()
       .from('user_settings')
       .select('access_token, phone_number_id, api_version, access_token_added')
-      .eq('id', senderUser.id)
+      .eq('id', tenantId)
       .single();
-    console.log('Sending message: USER ID', senderUser.id);
+    console.log('Sending message: USER ID', tenantId);
 
     if (settingsError || !settings) {
       console.error('User settings not found:', settingsError);
@@ -66,7 +70,7 @@ export async function POST(request: NextRequest) {
     }
 
     if (!settings.access_token_added || !settings.access_token || !settings.phone_number_id) {
-      console.error('WhatsApp API credentials not configured for user:', senderUser.id);
+      console.error('WhatsApp API credentials not configured for user:', tenantId);
       return NextResponse.json(
         { error: 'WhatsApp Access Token not configured. Please complete setup.' },
         { status: 400 }
@@ -77,10 +81,18 @@ export async function POST(request: NextRequest) {
 
 
 
+    // Free-form text only goes through inside the 24-hour customer service window
+    const serviceWindow = await getCustomerServiceWindow(supabase, tenantId, cleanPhoneNumber);
+    if (!serviceWindow.isOpen) {
+      console.log('Customer service window closed for:', cleanPhoneNumber);
+      return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+    }
+
     //check user exists in the users table
     const { data: userData, error: userError } = await supabase
       .from('users')
       .select('id')
+      .eq('owner_id', tenantId)
       .eq('id', cleanPhoneNumber)
       .maybeSingle();
 
@@ -98,6 +110,7 @@ export async function POST(request: NextRequest) {
       const { error: userInsertError } = await supabase
         .from('users')
         .insert([{
+          owner_id: tenantId,
           id: cleanPhoneNumber,
           name: cleanPhoneNumber,
           last_active: new Date().toISOString()
@@ -132,14 +145,15 @@ export async function POST(request: NextRequest) {
       type: 'text',
       text: {
         body: message
-      }
+      },
+      ...(replyTo && { context: { message_id: replyTo } })
     };
 
     console.log('Sending message to WhatsApp API:', {
       to: cleanPhoneNumber,
       originalTo: to,
       message: message.substring(0, 50) + (message.length > 50 ? '...' : ''),
-      userId: senderUser.id
+      userId: tenantId
     });
 
     console.log('Message Data:', messageData);
@@ -160,6 +174,9 @@ export async function POST(request: NextRequest) {
 
     if (!whatsappResponse.ok) {
       console.error('WhatsApp API error:', responseData);
+      if (responseData.error?.code === WINDOW_CLOSED_ERROR_CODE) {
+        return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+      }
       return NextResponse.json(
         {
           error: 'Failed to send message via WhatsApp API',
@@ -179,14 +196,15 @@ export async function POST(request: NextRequest) {
     // Note: sender_id is phone number (TEXT), receiver_id is auth user (UUID)
     const messageObject = {
       id: messageId || `outgoing_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      sender_id: senderUser.id, // Recipient phone number (sender in DB)
+      sender_id: tenantId, // Recipient phone number (sender in DB)
       receiver_id: cleanPhoneNumber, // Current authenticated user (receiver in DB)
       content: message,
       timestamp: timestamp,
       is_sent_by_me: true,
       is_read: true, // Outgoing messages are already "read" by the sender
       message_type: 'text', // For now, we only send text messages
-      media_data: null // No media data for text messages
+      media_data: null, // No media data for text messages
+      reply_to_message_id: replyTo || null
     };
 
 
@@ -195,11 +213,12 @@ export async function POST(request: NextRequest) {
     const { error: userUpdateError } = await supabase
       .from('users')
       .upsert([{
+        owner_id: tenantId,
         id: cleanPhoneNumber,
         name: cleanPhoneNumber,
         last_active: timestamp
       }], {
-        onConflict: 'id'
+        onConflict: 'owner_id,id'
       });
 
     if (userUpdateError) {
@@ -210,11 +229,12 @@ export async function POST(request: NextRequest) {
     const { error: recipientUpdateError } = await supabase
       .from('users')
       .upsert([{
+        owner_id: tenantId,
         id: cleanPhoneNumber,
         name: cleanPhoneNumber, // Use phone number as name if we don't have better info
         last_active: timestamp
       }], {
-        onConflict: 'id'
+        onConflict: 'owner_id,id'
       });
 
     if (recipientUpdateError) {
@@ -281,11 +301,13 @@ export async function GET() {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Get user's WhatsApp API credentials
     const { data: settings } = await supabase
-      .from('user_settings')
+      .from('organization_settings')
       .select('access_token_added, api_version')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     const isConfigured = settings?.access_token_added || false;
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { parseWaId } from '@/lib/phone';
+import { WINDOW_CLOSED_ERROR_CODE, getCustomerServiceWindow, windowClosedResponseBody } from '@/lib/customer-service-window';
+
+/**
+ * POST handler for reacting to a message with an emoji
+ * An empty emoji removes the reaction. The reaction is stored on the target
+ * message rather than as a message of its own.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify user authentication
+    const { data: { user: senderUser }, error: authError } = await supabase.auth.getUser();
+    if (authError || !senderUser) {
+      console.error('Authentication error:', authError);
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, senderUser.id);
+
+    const { to, messageId, emoji } = await request.json() as { to?: string; messageId?: string; emoji?: string };
+
+    if (!to || !messageId || typeof emoji !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameters: to, messageId, emoji' },
+        { status: 400 }
+      );
+    }
+
+    // Recipients are contact ids, which already carry their calling code
+    const phone = parseWaId(to);
+    if (!phone.valid) {
+      return NextResponse.json(
+        {
+          error: 'Invalid phone number format',
+          reason: phone.reason,
+          message: phone.message,
+        },
+        { status: 400 }
+      );
+    }
+    const cleanPhoneNumber = phone.waId;
+
+    // Only messages of this tenant's conversation with `to` can be reacted to
+    const { data: targetMessage, error: targetError } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('id', messageId)
+      .or(`and(sender_id.eq.${cleanPhoneNumber},receiver_id.eq.${tenantId}),and(sender_id.eq.${tenantId},receiver_id.eq.${cleanPhoneNumber})`)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Error looking up reaction target:', targetError);
+      return NextResponse.json(
+        { error: 'Failed to look up message' },
+        { status: 500 }
+      );
+    }
+
+    if (!targetMessage) {
+      return NextResponse.json(
+        { error: 'Message not found in this conversation' },
+        { status: 404 }
+      );
+    }
+
+    // Reactions are free-form messages, so they need an open window too
+    const serviceWindow = await getCustomerServiceWindow(supabase, tenantId, cleanPhoneNumber);
+    if (!serviceWindow.isOpen) {
+      console.log('Customer service window closed for:', cleanPhoneNumber);
+      return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+    }
+
+    // Get user's WhatsApp API credentials
+    const { data: settings, error: settingsError } = await createServiceRoleClient()
+      .from('user_settings')
+      .select('access_token, phone_number_id, api_version, access_token_added')
+      .eq('id', tenantId)
+      .single();
+
+    if (settingsError || !settings || !settings.access_token_added || !settings.access_token || !settings.phone_number_id) {
+      console.error('WhatsApp API credentials not configured for user:', tenantId, settingsError);
+      return NextResponse.json(
+        { error: 'WhatsApp Access Token not configured. Please complete setup.' },
+        { status: 400 }
+      );
+    }
+
+    const apiVersion = settings.api_version || 'v23.0';
+    const whatsappResponse = await fetch(`https://graph.facebook.com/${apiVersion}/${settings.phone_number_id}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${settings.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: cleanPhoneNumber,
+        type: 'reaction',
+        reaction: {
+          message_id: messageId,
+          emoji,
+        },
+      }),
+    });
+
+    const responseData = await whatsappResponse.json();
+
+    if (!whatsappResponse.ok) {
+      console.error('WhatsApp API error:', responseData);
+      if (responseData.error?.code === WINDOW_CLOSED_ERROR_CODE) {
+        return NextResponse.json(windowClosedResponseBody(serviceWindow.expiresAt), { status: 403 });
+      }
+      return NextResponse.json(
+        {
+          error: 'Failed to send reaction via WhatsApp API',
+          details: responseData
+        },
+        { status: whatsappResponse.status }
+      );
+    }
+
+    // The RPC is scoped to the tenant's own conversations
+    const { data: applied, error: reactionError } = await createServiceRoleClient().rpc('apply_message_reaction', {
+      p_message_id: messageId,
+      p_owner_id: tenantId,
+      p_reactor_id: tenantId,
+      p_emoji: emoji,
+    });
+
+    if (reactionError || !applied) {
+      console.error('Error storing reaction:', reactionError || `message ${messageId} not found`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      messageId: responseData.messages?.[0]?.id,
+      storedInDb: !reactionError && !!applied
+    });
+
+  } catch (error) {
+    console.error('Error in send-reaction API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
-import { env } from 'process';
+import { getTenantId } from '@/lib/tenant';
+import { parseWaId } from '@/lib/phone';
 import { uploadFileToS3 } from '@/lib/aws-s3';
+import { TemplateSendOptions, buildTemplateSendComponents, toTextParameters, validateTemplateSendOptions } from '@/lib/template-components';
 
 export const runtime = 'nodejs';
 
@@ -56,6 +58,8 @@ interface SendTemplateRequest {
         body: Record<string, string>;
         footer: Record<string, string>;
     };
+    // Carousel card media, offer expiry, coupon and OTP codes
+    sendOptions?: TemplateSendOptions;
     // Legacy format
     components?: Array<{
         type: 'body';
@@ -290,8 +294,19 @@ async function sendTemplateMessagev2(
 export async function POST(request: NextRequest) {
     console.log('send-template API called');
     try {
-        const userId = env.PUBLIC_USER_ID;
-        console.log('User ID:', userId);
+        const supabase = await createClient();
+
+        // Verify user authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            console.error('Authentication error:', authError);
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const tenantId = await getTenantId(supabase, user.id);
 
         // ── 1. Parse request: supports both multipart/form-data (with image) and JSON ──
         let to: string | undefined;
@@ -312,6 +327,7 @@ export async function POST(request: NextRequest) {
 
             const templateDataRaw = formData.get('templateData') as string | null;
             const variablesRaw = formData.get('variables') as string | null;
+            const sendOptionsRaw = formData.get('sendOptions') as string | null;
 
             requestBody = {
                 to,
@@ -320,6 +336,7 @@ export async function POST(request: NextRequest) {
                 text,
                 templateData: templateDataRaw ? JSON.parse(templateDataRaw) : undefined,
                 variables: variablesRaw ? JSON.parse(variablesRaw) : undefined,
+                sendOptions: sendOptionsRaw ? JSON.parse(sendOptionsRaw) : undefined,
             };
 
             const imageEntry = formData.get('headerImage');
@@ -351,7 +368,7 @@ export async function POST(request: NextRequest) {
         const { data: settings, error: settingsError } = await serviceRoleClient
             .from('user_settings')
             .select('access_token, phone_number_id, api_version, access_token_added')
-            .eq('id', userId)
+            .eq('id', tenantId)
             .single();
 
         if (settingsError || !settings) {
@@ -362,8 +379,22 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Recipients are contact ids, which already carry their calling code
+        const phone = parseWaId(to);
+        if (!phone.valid) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid phone number format',
+                    reason: phone.reason,
+                    message: phone.message,
+                },
+                { status: 400 }
+            );
+        }
+        to = phone.waId;
+
         if (!settings.access_token_added || !settings.access_token || !settings.phone_number_id) {
-            console.error('WhatsApp API credentials not configured for user:', userId);
+            console.error('WhatsApp API credentials not configured for user:', tenantId);
             return NextResponse.json(
                 { error: 'WhatsApp Access Token not configured. Please complete setup.' },
                 { status: 400 }
@@ -389,6 +420,14 @@ export async function POST(request: NextRequest) {
             templateLanguage = templateData.language;
             const variables = requestBody.variables;
 
+            const sendOptionsError = validateTemplateSendOptions(templateData.components, requestBody.sendOptions);
+            if (sendOptionsError) {
+                return NextResponse.json(
+                    { error: sendOptionsError },
+                    { status: 400 }
+                );
+            }
+
             // IMAGE header: upload image to WhatsApp first, then add component
             if (headerImageFile) {
                 const mediaId = await uploadImageToWhatsApp(
@@ -414,7 +453,7 @@ export async function POST(request: NextRequest) {
                 // Best-effort S3 backup of the header image
                 try {
                     const s3MediaId = `template_header_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-                    await uploadFileToS3(headerImageFile, userId || 'system', s3MediaId);
+                    await uploadFileToS3(headerImageFile, tenantId, s3MediaId);
                     console.log('Header image also uploaded to S3');
                 } catch (s3Error) {
                     console.warn('S3 upload for header image failed (non-fatal):', s3Error);
@@ -424,29 +463,26 @@ export async function POST(request: NextRequest) {
             // TEXT header variables (only if IMAGE header not already added)
             if (variables.header && Object.keys(variables.header).length > 0) {
                 if (!whatsappComponents.some(c => c.type === 'header')) {
-                    const headerParams = Object.keys(variables.header)
-                        .sort((a, b) => parseInt(a) - parseInt(b))
-                        .map(key => ({ type: 'text', text: variables.header[key] }));
+                    const headerParams = toTextParameters(variables.header);
                     whatsappComponents.push({ type: 'header', parameters: headerParams });
                 }
             }
 
             // Body variables
             if (variables.body && Object.keys(variables.body).length > 0) {
-                const bodyParams = Object.keys(variables.body)
-                    .sort((a, b) => parseInt(a) - parseInt(b))
-                    .map(key => ({ type: 'text', text: variables.body[key] }));
+                const bodyParams = toTextParameters(variables.body);
                 whatsappComponents.push({ type: 'body', parameters: bodyParams });
             }
 
             // Footer variables
             if (variables.footer && Object.keys(variables.footer).length > 0) {
-                const footerParams = Object.keys(variables.footer)
-                    .sort((a, b) => parseInt(a) - parseInt(b))
-                    .map(key => ({ type: 'text', text: variables.footer[key] }));
+                const footerParams = toTextParameters(variables.footer);
                 whatsappComponents.push({ type: 'footer', parameters: footerParams });
             }
 
+            // Carousel cards, offer expiry, copy-code and OTP buttons
+            whatsappComponents.push(...buildTemplateSendComponents(templateData.components, requestBody.sendOptions));
+
         } else {
             // Legacy format
             templateData = {
@@ -466,6 +502,7 @@ export async function POST(request: NextRequest) {
         const { data: userData, error: userError } = await serviceRoleClient
             .from('users')
             .select('id')
+            .eq('owner_id', tenantId)
             .eq('id', to)
             .maybeSingle();
 
@@ -482,6 +519,7 @@ export async function POST(request: NextRequest) {
             const { error: userInsertError } = await serviceRoleClient
                 .from('users')
                 .insert([{
+                    owner_id: tenantId,
                     id: to,
                     name: customer_name || to,
                     last_active: new Date().toISOString(),
@@ -533,7 +571,7 @@ export async function POST(request: NextRequest) {
         const timestamp = new Date().toISOString();
         const messageObject = {
             id: messageId,
-            sender_id: userId,
+            sender_id: tenantId,
             receiver_id: to,
             content: displayContent,
             timestamp,
@@ -600,11 +638,13 @@ export async function GET() {
             );
         }
 
+        const tenantId = await getTenantId(supabase, user.id);
+
         // Get user's WhatsApp API credentials
         const { data: settings } = await supabase
             .from('user_settings')
             .select('access_token_added, api_version')
-            .eq('id', user.id)
+            .eq('id', tenantId)
             .single();
 
         const isConfigured = settings?.access_token_added || false;
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenant, getTenantId } from '@/lib/tenant';
+import { isPhoneCountry } from '@/lib/phone';
+import { invalidateWebhookSettings } from '@/lib/webhook-settings-cache';
 import { randomBytes } from 'crypto';
 
 export const runtime = 'nodejs';
@@ -28,6 +31,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Agents share the owner's number but cannot reconfigure it
+    const tenantId = await getTenantId(supabase, user.id);
+    if (tenantId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can change settings' },
+        { status: 403 }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
     const {
@@ -36,16 +48,36 @@ export async function POST(request: NextRequest) {
       business_account_id,
       api_version,
       verify_token,
+      broadcast_rate_per_second,
+      app_secret,
+      default_country,
     } = body;
 
     // Validate that at least one field is being updated
-    if (!access_token && !phone_number_id && !business_account_id && !api_version && !verify_token) {
+    if (!access_token && !phone_number_id && !business_account_id && !api_version && !verify_token && broadcast_rate_per_second === undefined && app_secret === undefined && default_country === undefined) {
       return NextResponse.json(
         { error: 'At least one setting must be provided' },
         { status: 400 }
       );
     }
 
+    if (broadcast_rate_per_second !== undefined) {
+      const rate = Number(broadcast_rate_per_second);
+      if (!Number.isInteger(rate) || rate < 1 || rate > 1000) {
+        return NextResponse.json(
+          { error: 'Broadcast send rate must be a whole number between 1 and 1000' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (default_country && !isPhoneCountry(default_country)) {
+      return NextResponse.json(
+        { error: 'Unsupported default country' },
+        { status: 400 }
+      );
+    }
+
     // Build the update object
     const updateData: {
       updated_at: string;
@@ -57,6 +89,12 @@ export async function POST(request: NextRequest) {
       api_version?: string;
       webhook_verified?: boolean;
       webhook_token?: string;
+      broadcast_rate_per_second?: number;
+      default_country?: string | null;
+      app_secret?: string | null;
+      webhook_signature_verified_at?: string | null;
+      webhook_signature_failed_at?: string | null;
+      webhook_signature_error?: string | null;
     } = {
       updated_at: new Date().toISOString(),
     };
@@ -82,6 +120,22 @@ export async function POST(request: NextRequest) {
       updateData.verify_token = verify_token;
     }
 
+    if (broadcast_rate_per_second !== undefined) {
+      updateData.broadcast_rate_per_second = Number(broadcast_rate_per_second);
+    }
+
+    if (default_country !== undefined) {
+      updateData.default_country = default_country || null;
+    }
+
+    if (app_secret !== undefined) {
+      updateData.app_secret = app_secret ? String(app_secret).trim() : null;
+      // A new secret starts with a clean verification history
+      updateData.webhook_signature_verified_at = null;
+      updateData.webhook_signature_failed_at = null;
+      updateData.webhook_signature_error = null;
+    }
+
     console.log('Updating user settings for user:', user.id);
 
     // Check if user settings exist
@@ -134,6 +188,9 @@ export async function POST(request: NextRequest) {
 
     console.log('Settings saved successfully for user:', user.id);
 
+    // Webhooks must not keep running on the settings cached before this save
+    invalidateWebhookSettings(settings.webhook_token);
+
     return NextResponse.json({
       success: true,
       message: 'Settings saved successfully',
@@ -141,9 +198,11 @@ export async function POST(request: NextRequest) {
         access_token_added: settings.access_token_added,
         webhook_verified: settings.webhook_verified,
         api_version: settings.api_version,
+        broadcast_rate_per_second: settings.broadcast_rate_per_second,
         has_phone_number_id: !!settings.phone_number_id,
         has_business_account_id: !!settings.business_account_id,
         has_verify_token: !!settings.verify_token,
+        has_app_secret: !!settings.app_secret,
         webhook_token: settings.webhook_token,
         // Include actual values for display in setup page
         access_token: settings.access_token,
@@ -181,11 +240,15 @@ export async function GET() {
       );
     }
 
-    // Fetch user settings
+    const tenant = await getTenant(supabase, user.id);
+    const isOwner = tenant.id === user.id;
+
+    // Fetch the organization's settings. Agents read them without the
+    // owner's secrets, which only say whether each one is set.
     const { data: settings, error: dbError } = await supabase
-      .from('user_settings')
+      .from(isOwner ? 'user_settings' : 'organization_settings')
       .select('*')
-      .eq('id', user.id)
+      .eq('id', tenant.id)
       .single();
 
     if (dbError && dbError.code !== 'PGRST116') { // PGRST116 is "not found" error
@@ -197,9 +260,21 @@ export async function GET() {
     }
 
     let updatedSettings = settings;
-    
+    const hasSettings = !!settings && dbError?.code !== 'PGRST116';
+
+    // Invitees without settings of their own choose whether to join the
+    // inviting organization, so nothing is created for them yet
+    let pendingInvites: unknown[] = [];
+    if (isOwner && !hasSettings) {
+      const { data: invites, error: invitesError } = await supabase.rpc('get_my_organization_invites');
+      if (invitesError) {
+        console.error('Error fetching organization invites:', invitesError);
+      }
+      pendingInvites = invites || [];
+    }
+
     // If no settings exist at all, create them with a webhook token
-    if (!settings || dbError?.code === 'PGRST116') {
+    if (isOwner && !hasSettings && pendingInvites.length === 0) {
       const webhookToken = generateWebhookToken();
       console.log('Creating initial settings with webhook token for new user:', user.id);
       
@@ -220,7 +295,7 @@ export async function GET() {
       }
     }
     // If settings exist but no webhook token, generate one
-    else if (settings && !settings.webhook_token) {
+    else if (isOwner && settings && !settings.webhook_token) {
       const webhookToken = generateWebhookToken();
       const { data: updated } = await supabase
         .from('user_settings')
@@ -235,27 +310,44 @@ export async function GET() {
       }
     }
 
+    const hasSecret = (column: 'access_token' | 'verify_token' | 'app_secret') =>
+      isOwner ? !!updatedSettings?.[column] : !!updatedSettings?.[`has_${column}`];
+
     // Return settings (or null if not found)
     return NextResponse.json({
       settings: updatedSettings ? {
         access_token_added: updatedSettings.access_token_added,
         webhook_verified: updatedSettings.webhook_verified,
         api_version: updatedSettings.api_version,
+        broadcast_rate_per_second: updatedSettings.broadcast_rate_per_second,
+        default_country: updatedSettings.default_country,
         phone_number: updatedSettings.phone_number,
         full_name: updatedSettings.full_name,
-        has_access_token: !!updatedSettings.access_token,
+        has_access_token: hasSecret('access_token'),
         has_phone_number_id: !!updatedSettings.phone_number_id,
         has_business_account_id: !!updatedSettings.business_account_id,
-        has_verify_token: !!updatedSettings.verify_token,
-        webhook_token: updatedSettings.webhook_token,
-        // Include actual values for display in setup page
-        access_token: updatedSettings.access_token,
+        has_verify_token: hasSecret('verify_token'),
+        has_app_secret: hasSecret('app_secret'),
+        webhook_signature_verified_at: updatedSettings.webhook_signature_verified_at,
+        webhook_signature_failed_at: updatedSettings.webhook_signature_failed_at,
+        webhook_signature_error: updatedSettings.webhook_signature_error,
         phone_number_id: updatedSettings.phone_number_id,
         business_account_id: updatedSettings.business_account_id,
-        verify_token: updatedSettings.verify_token,
+        // Secret values for display in the owner's setup page
+        ...(isOwner ? {
+          webhook_token: updatedSettings.webhook_token,
+          access_token: updatedSettings.access_token,
+          verify_token: updatedSettings.verify_token,
+        } : {}),
         created_at: updatedSettings.created_at,
         updated_at: updatedSettings.updated_at,
       } : null,
+      organization: {
+        id: tenant.id,
+        role: tenant.role,
+        user_id: user.id,
+      },
+      pending_invites: pendingInvites,
     });
 
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * POST handler for marking webhook as verified
@@ -19,6 +20,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Agents share the owner's number but cannot reconfigure it
+    const tenantId = await getTenantId(supabase, user.id);
+    if (tenantId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can change settings' },
+        { status: 403 }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
     const { verified } = body;
@@ -1,32 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-
-// Type definitions for template creation
-interface CreateTemplateRequest {
-  name: string;
-  category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
-  language: string;
-  components: TemplateComponent[];
-  message_send_ttl_seconds?: number;
-}
-
-interface TemplateComponent {
-  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
-  format?: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
-  text?: string;
-  example?: {
-    header_text?: string[];
-    body_text?: string[][];
-  };
-  buttons?: ButtonComponent[];
-}
-
-interface ButtonComponent {
-  type: 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER' | 'CATALOG' | 'OTP';
-  text: string;
-  url?: string;
-  phone_number?: string;
-}
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import {
+  CAROUSEL_CARD_BODY_MAX_LENGTH,
+  CAROUSEL_CARD_MAX_BUTTONS,
+  CAROUSEL_MAX_CARDS,
+  CAROUSEL_MIN_CARDS,
+  CODE_EXPIRATION_MAX_MINUTES,
+  CODE_EXPIRATION_MIN_MINUTES,
+  COPY_CODE_MAX_LENGTH,
+  CarouselCard,
+  CreateTemplateRequest,
+  LIMITED_TIME_OFFER_TEXT_MAX_LENGTH,
+  NAMED_PARAMETER_PATTERN,
+  TemplateButton,
+  TemplateCategory,
+  TemplateComponent,
+  TemplateParameterFormat,
+  extractTemplateVariables,
+  isPositionalVariable,
+} from '@/lib/template-components';
 
 /**
  * POST handler for creating new message templates
@@ -43,11 +36,13 @@ export async function POST(request: NextRequest) {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Get user's WhatsApp API credentials
-    const { data: settings, error: settingsError } = await supabase
+    const { data: settings, error: settingsError } = await createServiceRoleClient()
       .from('user_settings')
       .select('access_token, business_account_id, api_version, access_token_added')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     if (settingsError || !settings) {
@@ -59,7 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     if (!settings.access_token_added || !settings.access_token || !settings.business_account_id) {
-      console.error('WhatsApp API credentials not configured for user:', user.id);
+      console.error('WhatsApp API credentials not configured for user:', tenantId);
       return NextResponse.json(
         { error: 'WhatsApp credentials not configured. Please complete setup in the Settings page.' },
         { status: 400 }
@@ -107,8 +102,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate parameter format
+    const parameterFormat = templateData.parameter_format || 'POSITIONAL';
+    if (!['POSITIONAL', 'NAMED'].includes(parameterFormat)) {
+      return new NextResponse(
+        JSON.stringify({ 
+          error: 'Invalid parameter format', 
+          message: 'parameter_format must be POSITIONAL or NAMED' 
+        }), 
+        { status: 400 }
+      );
+    }
+
     // Validate components
-    const validationError = validateComponents(templateData.components);
+    const validationError = validateComponents(templateData.category, parameterFormat, templateData.components);
     if (validationError) {
       return new NextResponse(
         JSON.stringify({ 
@@ -123,6 +130,7 @@ export async function POST(request: NextRequest) {
       name: templateData.name,
       category: templateData.category,
       language: templateData.language,
+      parameterFormat,
       componentsCount: templateData.components.length
     });
 
@@ -134,6 +142,7 @@ export async function POST(request: NextRequest) {
       category: templateData.category,
       language: templateData.language,
       components: templateData.components,
+      parameter_format: parameterFormat,
       ...(templateData.message_send_ttl_seconds && {
         message_send_ttl_seconds: templateData.message_send_ttl_seconds
       })
@@ -201,35 +210,202 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Extract variables from text (e.g., {{1}}, {{2}})
+ * Validate a BUTTONS list, top-level or on a carousel card
  */
-function extractVariables(text: string): number[] {
-  const variableRegex = /\{\{(\d+)\}\}/g;
-  const variables: number[] = [];
-  let match;
-  
-  while ((match = variableRegex.exec(text)) !== null) {
-    const varNum = parseInt(match[1], 10);
-    if (!variables.includes(varNum)) {
-      variables.push(varNum);
+function validateButtons(category: TemplateCategory, buttons: TemplateButton[]): string | null {
+  let copyCodeCount = 0;
+
+  for (const button of buttons) {
+    if (!button.type) {
+      return 'Button type is required';
+    }
+
+    // OTP and copy-code buttons carry fixed, Meta-provided labels
+    if (button.type === 'OTP') {
+      if (category !== 'AUTHENTICATION') {
+        return 'OTP buttons are only allowed in AUTHENTICATION templates';
+      }
+      if (!button.otp_type || !['COPY_CODE', 'ONE_TAP'].includes(button.otp_type)) {
+        return 'OTP button requires otp_type COPY_CODE or ONE_TAP';
+      }
+      if (button.otp_type === 'ONE_TAP') {
+        if (!button.supported_apps || button.supported_apps.length === 0) {
+          return 'ONE_TAP OTP button requires at least one supported app';
+        }
+        for (const app of button.supported_apps) {
+          if (!app.package_name || !app.signature_hash) {
+            return 'Each supported app requires package_name and signature_hash';
+          }
+          if (app.signature_hash.length !== 11) {
+            return 'App signature hash must be 11 characters';
+          }
+        }
+      }
+      continue;
+    }
+
+    if (button.type === 'COPY_CODE') {
+      copyCodeCount++;
+      if (copyCodeCount > 1) {
+        return 'Only one COPY_CODE button is allowed';
+      }
+      if (typeof button.example !== 'string' || !button.example) {
+        return 'COPY_CODE button requires an example code';
+      }
+      if (button.example.length > COPY_CODE_MAX_LENGTH) {
+        return `COPY_CODE example must be ${COPY_CODE_MAX_LENGTH} characters or less`;
+      }
+      continue;
+    }
+
+    if (!button.text) {
+      return 'Button type and text are required';
+    }
+    if (button.text.length > 25) {
+      return 'Button text must be 25 characters or less';
+    }
+    if (button.type === 'URL' && !button.url) {
+      return 'URL button requires url field';
+    }
+    if (button.type === 'URL' && button.url && extractTemplateVariables(button.url).length > 0 && !button.example?.length) {
+      return 'URL button with a variable requires an example URL';
+    }
+    if (button.type === 'PHONE_NUMBER' && !button.phone_number) {
+      return 'PHONE_NUMBER button requires phone_number field';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate the cards of a CAROUSEL component. Every card has a media header,
+ * a body and buttons, and all cards share the header format and button types.
+ */
+function validateCarouselCards(cards: CarouselCard[] | undefined): string | null {
+  if (!Array.isArray(cards) || cards.length < CAROUSEL_MIN_CARDS || cards.length > CAROUSEL_MAX_CARDS) {
+    return `CAROUSEL requires between ${CAROUSEL_MIN_CARDS} and ${CAROUSEL_MAX_CARDS} cards`;
+  }
+
+  let firstFormat: string | undefined;
+  let firstButtonTypes: string | undefined;
+
+  for (const [cardIndex, card] of cards.entries()) {
+    const cardName = `Card ${cardIndex + 1}`;
+    const header = card.components?.find(c => c.type === 'HEADER');
+    const body = card.components?.find(c => c.type === 'BODY');
+    const buttons = card.components?.find(c => c.type === 'BUTTONS');
+
+    if (!header || (header.format !== 'IMAGE' && header.format !== 'VIDEO')) {
+      return `${cardName} requires an IMAGE or VIDEO header`;
+    }
+    if (!header.example?.header_handle?.[0]) {
+      return `${cardName} header requires a sample media handle`;
+    }
+    firstFormat = firstFormat ?? header.format;
+    if (header.format !== firstFormat) {
+      return 'All carousel cards must use the same header format';
+    }
+
+    if (!body?.text) {
+      return `${cardName} requires body text`;
+    }
+    if (body.text.length > CAROUSEL_CARD_BODY_MAX_LENGTH) {
+      return `${cardName} body must be ${CAROUSEL_CARD_BODY_MAX_LENGTH} characters or less`;
+    }
+    const cardVariables = extractTemplateVariables(body.text);
+    if (cardVariables.length > 0 && body.example?.body_text?.[0]?.length !== cardVariables.length) {
+      return `${cardName} body has ${cardVariables.length} variable(s); provide an example for each`;
+    }
+
+    if (!buttons?.buttons || buttons.buttons.length === 0 || buttons.buttons.length > CAROUSEL_CARD_MAX_BUTTONS) {
+      return `${cardName} requires 1 to ${CAROUSEL_CARD_MAX_BUTTONS} buttons`;
+    }
+    if (buttons.buttons.some(button => !['QUICK_REPLY', 'URL', 'PHONE_NUMBER'].includes(button.type))) {
+      return 'Carousel card buttons must be QUICK_REPLY, URL or PHONE_NUMBER';
+    }
+    const buttonError = validateButtons('MARKETING', buttons.buttons);
+    if (buttonError) {
+      return `${cardName}: ${buttonError}`;
+    }
+    const buttonTypes = buttons.buttons.map(button => button.type).join(',');
+    firstButtonTypes = firstButtonTypes ?? buttonTypes;
+    if (buttonTypes !== firstButtonTypes) {
+      return 'All carousel cards must have the same buttons in the same order';
     }
   }
-  
-  return variables.sort((a, b) => a - b);
+
+  return null;
+}
+
+/**
+ * Check the variables of a TEXT header or a body against their examples.
+ * POSITIONAL templates give examples in order (header_text, body_text);
+ * NAMED templates give one { param_name, example } per variable.
+ */
+function validateVariableExamples(
+  section: 'HEADER' | 'BODY',
+  component: TemplateComponent,
+  parameterFormat: TemplateParameterFormat
+): string | null {
+  const variables = extractTemplateVariables(component.text || '');
+  if (variables.length === 0) {
+    return null;
+  }
+  const variableList = (names: string[]) => names.map(v => `{{${v}}}`).join(', ');
+
+  if (parameterFormat === 'NAMED') {
+    const invalid = variables.filter(v => !NAMED_PARAMETER_PATTERN.test(v));
+    if (invalid.length > 0) {
+      return `${section} uses ${variableList(invalid)}, but NAMED templates need variable names of lowercase letters, digits and underscores, e.g. {{first_name}}`;
+    }
+    const examples = section === 'HEADER'
+      ? component.example?.header_text_named_params
+      : component.example?.body_text_named_params;
+    const missing = variables.filter(v => !examples?.some(e => e.param_name === v && e.example));
+    if (missing.length > 0) {
+      return `${section} contains variables (${variableList(missing)}) but no examples provided. Please provide example values.`;
+    }
+    if (examples && examples.length !== variables.length) {
+      return `${section} has examples for variables it does not use. Remove them.`;
+    }
+    return null;
+  }
+
+  const named = variables.filter(v => !isPositionalVariable(v));
+  if (named.length > 0) {
+    return `${section} contains named variables (${variableList(named)}). Set parameter_format to NAMED, or use {{1}}, {{2}}.`;
+  }
+  const examples = section === 'HEADER' ? component.example?.header_text : component.example?.body_text?.[0];
+  if (!examples) {
+    return `${section} contains variables (${variableList(variables)}) but no examples provided. Please provide example values.`;
+  }
+  if (examples.length !== variables.length) {
+    return `${section} has ${variables.length} variable(s) but ${examples.length} example(s) provided. They must match.`;
+  }
+  return null;
 }
 
 /**
  * Validate template components
  */
-function validateComponents(components: TemplateComponent[]): string | null {
+function validateComponents(
+  category: TemplateCategory,
+  parameterFormat: TemplateParameterFormat,
+  components: TemplateComponent[]
+): string | null {
   if (!Array.isArray(components) || components.length === 0) {
     return 'Components array is required and cannot be empty';
   }
 
+  const isAuthentication = category === 'AUTHENTICATION';
   let hasBody = false;
   let headerCount = 0;
   let footerCount = 0;
   let buttonsCount = 0;
+  let carousel: TemplateComponent | undefined;
+  let offer: TemplateComponent | undefined;
+  let buttons: TemplateButton[] = [];
 
   for (const component of components) {
     if (!component.type) {
@@ -242,6 +418,9 @@ function validateComponents(components: TemplateComponent[]): string | null {
         if (headerCount > 1) {
           return 'Only one HEADER component is allowed';
         }
+        if (isAuthentication) {
+          return 'AUTHENTICATION templates cannot have a HEADER';
+        }
         if (!component.format) {
           return 'HEADER component requires format field';
         }
@@ -251,20 +430,22 @@ function validateComponents(components: TemplateComponent[]): string | null {
           }
           
           // Check for variables and require examples
-          const headerVariables = extractVariables(component.text);
-          if (headerVariables.length > 0) {
-            if (!component.example || !component.example.header_text) {
-              return `HEADER contains variables (${headerVariables.map(v => `{{${v}}}`).join(', ')}) but no examples provided. Please provide example values.`;
-            }
-            if (component.example.header_text.length !== headerVariables.length) {
-              return `HEADER has ${headerVariables.length} variable(s) but ${component.example.header_text.length} example(s) provided. They must match.`;
-            }
+          const headerError = validateVariableExamples('HEADER', component, parameterFormat);
+          if (headerError) {
+            return headerError;
           }
         }
         break;
 
       case 'BODY':
         hasBody = true;
+        // Meta writes the body of authentication templates
+        if (isAuthentication) {
+          if (component.text) {
+            return 'AUTHENTICATION template BODY cannot have custom text';
+          }
+          break;
+        }
         if (!component.text) {
           return 'BODY component requires text field';
         }
@@ -273,14 +454,9 @@ function validateComponents(components: TemplateComponent[]): string | null {
         }
         
         // Check for variables and require examples
-        const bodyVariables = extractVariables(component.text);
-        if (bodyVariables.length > 0) {
-          if (!component.example || !component.example.body_text || !component.example.body_text[0]) {
-            return `BODY contains variables (${bodyVariables.map(v => `{{${v}}}`).join(', ')}) but no examples provided. Please provide example values.`;
-          }
-          if (component.example.body_text[0].length !== bodyVariables.length) {
-            return `BODY has ${bodyVariables.length} variable(s) but ${component.example.body_text[0].length} example(s) provided. They must match.`;
-          }
+        const bodyError = validateVariableExamples('BODY', component, parameterFormat);
+        if (bodyError) {
+          return bodyError;
         }
         break;
 
@@ -289,6 +465,17 @@ function validateComponents(components: TemplateComponent[]): string | null {
         if (footerCount > 1) {
           return 'Only one FOOTER component is allowed';
         }
+        // Authentication footers only state how long the code is valid
+        if (isAuthentication) {
+          const minutes = component.code_expiration_minutes;
+          if (component.text) {
+            return 'AUTHENTICATION template FOOTER cannot have custom text';
+          }
+          if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < CODE_EXPIRATION_MIN_MINUTES || minutes > CODE_EXPIRATION_MAX_MINUTES)) {
+            return `Code expiration must be between ${CODE_EXPIRATION_MIN_MINUTES} and ${CODE_EXPIRATION_MAX_MINUTES} minutes`;
+          }
+          break;
+        }
         if (!component.text) {
           return 'FOOTER component requires text field';
         }
@@ -297,7 +484,7 @@ function validateComponents(components: TemplateComponent[]): string | null {
         }
         
         // Footer typically doesn't support variables, but check anyway
-        const footerVariables = extractVariables(component.text);
+        const footerVariables = extractTemplateVariables(component.text);
         if (footerVariables.length > 0) {
           return 'FOOTER component does not support variables. Please remove variables from footer text.';
         }
@@ -316,19 +503,34 @@ function validateComponents(components: TemplateComponent[]): string | null {
         }
         
         // Validate each button
-        for (const button of component.buttons) {
-          if (!button.type || !button.text) {
-            return 'Button type and text are required';
-          }
-          if (button.text.length > 25) {
-            return 'Button text must be 25 characters or less';
-          }
-          if (button.type === 'URL' && !button.url) {
-            return 'URL button requires url field';
-          }
-          if (button.type === 'PHONE_NUMBER' && !button.phone_number) {
-            return 'PHONE_NUMBER button requires phone_number field';
-          }
+        const buttonError = validateButtons(category, component.buttons);
+        if (buttonError) {
+          return buttonError;
+        }
+        buttons = component.buttons;
+        break;
+
+      case 'CAROUSEL':
+        if (carousel) {
+          return 'Only one CAROUSEL component is allowed';
+        }
+        carousel = component;
+        const carouselError = validateCarouselCards(component.cards);
+        if (carouselError) {
+          return carouselError;
+        }
+        break;
+
+      case 'LIMITED_TIME_OFFER':
+        if (offer) {
+          return 'Only one LIMITED_TIME_OFFER component is allowed';
+        }
+        offer = component;
+        if (!component.limited_time_offer?.text) {
+          return 'LIMITED_TIME_OFFER component requires offer text';
+        }
+        if (component.limited_time_offer.text.length > LIMITED_TIME_OFFER_TEXT_MAX_LENGTH) {
+          return `Offer text must be ${LIMITED_TIME_OFFER_TEXT_MAX_LENGTH} characters or less`;
         }
         break;
 
@@ -341,6 +543,42 @@ function validateComponents(components: TemplateComponent[]): string | null {
     return 'BODY component is required';
   }
 
+  if (isAuthentication) {
+    if (carousel || offer) {
+      return 'AUTHENTICATION templates cannot have a carousel or limited-time offer';
+    }
+    if (buttons.length !== 1 || buttons[0].type !== 'OTP') {
+      return 'AUTHENTICATION templates require exactly one OTP button';
+    }
+  } else if (buttons.some(button => button.type === 'OTP')) {
+    return 'OTP buttons are only allowed in AUTHENTICATION templates';
+  }
+
+  if (carousel) {
+    if (category !== 'MARKETING') {
+      return 'Carousel templates must be in the MARKETING category';
+    }
+    if (headerCount > 0 || footerCount > 0 || buttonsCount > 0) {
+      return 'Carousel templates cannot have a HEADER, FOOTER or BUTTONS outside the cards';
+    }
+  }
+
+  if (offer) {
+    if (category !== 'MARKETING') {
+      return 'Limited-time offer templates must be in the MARKETING category';
+    }
+    if (carousel) {
+      return 'A template cannot combine a carousel and a limited-time offer';
+    }
+    if (footerCount > 0) {
+      return 'Limited-time offer templates cannot have a FOOTER';
+    }
+    // The expiry countdown is shown on the copy-code button
+    if (offer.limited_time_offer?.has_expiration && buttons[0]?.type !== 'COPY_CODE') {
+      return 'Limited-time offers with an expiration require a COPY_CODE button as the first button';
+    }
+  }
+
   return null;
 }
 
@@ -360,11 +598,13 @@ export async function GET() {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Get user's WhatsApp API credentials
     const { data: settings } = await supabase
-      .from('user_settings')
+      .from('organization_settings')
       .select('access_token_added, api_version')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     const isConfigured = settings?.access_token_added || false;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 // Type definitions for WhatsApp Business API
 interface TemplateComponent {
@@ -59,11 +60,13 @@ export async function GET(request: NextRequest) {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Get user's WhatsApp API credentials
-    const { data: settings, error: settingsError } = await supabase
+    const { data: settings, error: settingsError } = await createServiceRoleClient()
       .from('user_settings')
       .select('access_token, business_account_id, api_version, access_token_added')
-      .eq('id', user.id)
+      .eq('id', tenantId)
       .single();
 
     if (settingsError || !settings) {
@@ -75,7 +78,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (!settings.access_token_added || !settings.access_token || !settings.business_account_id) {
-      console.error('WhatsApp API credentials not configured for user:', user.id);
+      console.error('WhatsApp API credentials not configured for user:', tenantId);
       return NextResponse.json(
         { error: 'WhatsApp credentials not configured. Please complete setup in the Settings page.' },
         { status: 400 }
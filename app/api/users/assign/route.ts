@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * POST handler to assign a conversation to a teammate
+ * A null assigneeId puts the conversation back in the unassigned queue
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('Authentication error:', authError);
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { userId, assigneeId } = await request.json() as { userId?: string; assigneeId?: string | null };
+
+    if (!userId || assigneeId === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: userId, assigneeId' },
+        { status: 400 }
+      );
+    }
+
+    // The RPC checks that the assignee belongs to the caller's organization
+    const { data: assigned, error: assignError } = await supabase.rpc('assign_conversation', {
+      p_contact_id: userId,
+      p_assignee: assigneeId,
+    });
+
+    if (assignError) {
+      console.error('Error assigning conversation:', assignError);
+      return NextResponse.json(
+        { error: 'Failed to assign conversation', details: assignError.message },
+        { status: 400 }
+      );
+    }
+
+    if (!assigned) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Conversation ${userId} assigned to ${assigneeId ?? 'nobody'} by ${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      userId,
+      assigneeId,
+    });
+
+  } catch (error) {
+    console.error('Error in assign conversation API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantDefaultCountry, getTenantId } from '@/lib/tenant';
+import { parsePhoneNumber } from '@/lib/phone';
 
 /**
  * POST handler to create or get chat(s) with phone number(s)
@@ -20,9 +22,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { phoneNumber, customName, users } = body;
 
+    // Numbers written without a country code are read in the tenant's default country
+    const defaultCountry = await getTenantDefaultCountry(supabase, await getTenantId(supabase, user.id));
+
     // Handle bulk user creation
     if (users && Array.isArray(users)) {
-      return handleBulkUserCreation(supabase, user, users);
+      return handleBulkUserCreation(supabase, user, users, defaultCountry);
     }
 
     // Handle single user creation (legacy support)
@@ -30,7 +35,7 @@ export async function POST(request: NextRequest) {
       return new NextResponse('Missing phoneNumber parameter', { status: 400 });
     }
 
-    return handleSingleUserCreation(supabase, user, phoneNumber, customName);
+    return handleSingleUserCreation(supabase, user, phoneNumber, customName, defaultCountry);
 
   } catch (error) {
     console.error('Error in create-chat API:', error);
@@ -51,22 +56,23 @@ async function handleSingleUserCreation(
   supabase: Awaited<ReturnType<typeof createClient>>,
   user: { id: string; email?: string },
   phoneNumber: string,
-  customName?: string
+  customName: string | undefined,
+  defaultCountry: string | null
 ) {
-  // Clean and validate phone number - match WhatsApp format (without + prefix)
-  const cleanPhoneNumber = phoneNumber.replace(/\s+/g, '').replace(/[^\d]/g, '');
-  
-  // Validate phone number format
-  const phoneRegex = /^\d{10,15}$/;
-  if (!phoneRegex.test(cleanPhoneNumber)) {
+  // Normalize to E.164 - contacts are keyed by the WhatsApp form (without + prefix)
+  const phone = parsePhoneNumber(phoneNumber, defaultCountry);
+  if (!phone.valid) {
     return new NextResponse(
       JSON.stringify({ 
         error: 'Invalid phone number format', 
-        message: 'Phone number must contain 10-15 digits (e.g., 918097296453)' 
+        reason: phone.reason,
+        message: phone.message,
+        country: phone.country
       }), 
       { status: 400, headers: { 'Content-Type': 'application/json' } }
     );
   }
+  const cleanPhoneNumber = phone.waId;
 
   // Check if trying to chat with own number
   const userIdWithoutPlus = user.id.replace(/^\+/, '');
@@ -131,6 +137,11 @@ async function handleSingleUserCreation(
       last_message_sender: ''
     },
     isNew: userData.is_new,
+    phone: {
+      e164: phone.e164,
+      country: phone.country,
+      lineType: phone.lineType
+    },
     timestamp: new Date().toISOString()
   });
 }
@@ -141,7 +152,8 @@ async function handleSingleUserCreation(
 async function handleBulkUserCreation(
   supabase: Awaited<ReturnType<typeof createClient>>,
   user: { id: string; email?: string },
-  users: Array<{ phoneNumber: string; customName?: string }>
+  users: Array<{ phoneNumber: string; customName?: string }>,
+  defaultCountry: string | null
 ) {
   if (!Array.isArray(users) || users.length === 0) {
     return new NextResponse(
@@ -161,7 +173,7 @@ async function handleBulkUserCreation(
 
   const results = {
     success: [] as Array<{ phoneNumber: string; customName?: string; user: unknown; isNew?: boolean }>,
-    failed: [] as Array<{ phoneNumber: string; customName?: string; error: string }>,
+    failed: [] as Array<{ phoneNumber: string; customName?: string; error: string; reason?: string }>,
     totalRequested: users.length,
     successCount: 0,
     failedCount: 0
@@ -184,20 +196,19 @@ async function handleBulkUserCreation(
         continue;
       }
 
-      // Clean and validate phone number
-      const cleanPhoneNumber = phoneNumber.replace(/\s+/g, '').replace(/[^\d]/g, '');
-      
-      // Validate phone number format
-      const phoneRegex = /^\d{10,15}$/;
-      if (!phoneRegex.test(cleanPhoneNumber)) {
+      // Normalize to E.164 (stored without + prefix)
+      const phone = parsePhoneNumber(phoneNumber, defaultCountry);
+      if (!phone.valid) {
         results.failed.push({
           phoneNumber,
           customName,
-          error: 'Invalid phone number format (must be 10-15 digits)'
+          error: phone.message,
+          reason: phone.reason
         });
         results.failedCount++;
         continue;
       }
+      const cleanPhoneNumber = phone.waId;
 
       // Check if trying to chat with own number
       if (cleanPhoneNumber === user.id || cleanPhoneNumber === userIdWithoutPlus) {
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { ContactField, normalizeTags, parseAttributes } from '@/lib/contact-fields';
+
+/**
+ * POST handler to update a contact's tags and custom field values
+ * Body: { userId, tags?, attributes? } - values are checked against the
+ * organization's field types; empty values clear the field
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('Authentication error:', authError);
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { userId, tags, attributes } = await request.json();
+
+    if (!userId || (tags === undefined && attributes === undefined)) {
+      return NextResponse.json(
+        { error: 'Missing userId, or nothing to update (tags, attributes)' },
+        { status: 400 }
+      );
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    if (tags !== undefined) {
+      updates.tags = normalizeTags(tags);
+    }
+
+    if (attributes !== undefined) {
+      const { data: fields, error: fieldsError } = await supabase
+        .from('contact_fields')
+        .select('id, key, label, type')
+        .eq('owner_id', tenantId);
+
+      if (fieldsError) {
+        console.error('Error fetching contact fields:', fieldsError);
+        return NextResponse.json(
+          { error: 'Failed to load contact fields' },
+          { status: 500 }
+        );
+      }
+
+      try {
+        updates.attributes = parseAttributes((fields || []) as ContactField[], attributes);
+      } catch (validationError) {
+        return NextResponse.json(
+          { error: validationError instanceof Error ? validationError.message : 'Invalid field value' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: updatedUser, error: updateError } = await supabase
+      .from('users')
+      .update(updates)
+      .eq('owner_id', tenantId)
+      .eq('id', userId)
+      .select('id, tags, attributes')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating contact details:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update contact', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!updatedUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Contact details updated for ${userId} by ${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      user: updatedUser,
+    });
+
+  } catch (error) {
+    console.error('Error in update contact details API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
+import { isConversationStatus } from '@/lib/conversation-status';
+
+/**
+ * POST handler to open, snooze or resolve a conversation
+ * Body: { userId, status, snoozedUntil? } - snoozedUntil is required when snoozing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('Authentication error:', authError);
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const tenantId = await getTenantId(supabase, user.id);
+
+    const { userId, status, snoozedUntil } = await request.json();
+
+    if (!userId || !isConversationStatus(status)) {
+      return NextResponse.json(
+        { error: 'Missing userId or invalid status (open, snoozed, resolved)' },
+        { status: 400 }
+      );
+    }
+
+    let snoozeEnd: string | null = null;
+    if (status === 'snoozed') {
+      const until = new Date(snoozedUntil);
+      if (!snoozedUntil || Number.isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'snoozedUntil must be a time in the future' },
+          { status: 400 }
+        );
+      }
+      snoozeEnd = until.toISOString();
+    }
+
+    const { data: updatedUser, error: updateError } = await supabase
+      .from('users')
+      .update({
+        status,
+        snoozed_until: snoozeEnd,
+        resolved_at: status === 'resolved' ? new Date().toISOString() : null,
+      })
+      .eq('owner_id', tenantId)
+      .eq('id', userId)
+      .select('id, status, snoozed_until, resolved_at')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating conversation status:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to update conversation status', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!updatedUser) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Conversation ${userId} set to ${status} by ${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      conversation: updatedUser,
+    });
+
+  } catch (error) {
+    console.error('Error in conversation status API:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
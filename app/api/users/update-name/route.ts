@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getTenantId } from '@/lib/tenant';
 
 /**
  * POST handler to update user custom name
@@ -18,6 +19,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tenantId = await getTenantId(supabase, user.id);
+
     // Parse request body
     const { userId, customName } = await request.json();
 
@@ -47,9 +50,10 @@ export async function POST(request: NextRequest) {
       .update({
         custom_name: customName
       })
+      .eq('owner_id', tenantId)
       .eq('id', userId)
       .select()
-      .single();
+      .maybeSingle();
 
     if (updateError) {
       console.error('Error updating user name:', updateError);
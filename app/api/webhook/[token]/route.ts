@@ -1,21 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { downloadAndUploadToS3 } from '@/lib/aws-s3';
+import { verifyWebhookSignature } from '@/lib/webhook-signature';
+import {
+  CachedWebhookSettings,
+  WEBHOOK_SETTINGS_CACHE_TTL,
+  webhookSettingsCache,
+} from '@/lib/webhook-settings-cache';
 
 export const runtime = 'nodejs';
 
-// In-memory cache to prevent Supabase 502 Bad Gateway during high webhook volume (like Broadcasts)
-interface CachedSettings {
-  data: {
-    id: string;
-    access_token: string;
-    api_version: string;
-    phone_number_id: string;
-  };
-  timestamp: number;
+
+/**
+ * Load the settings behind a webhook token and refresh the cache entry
+ */
+async function fetchWebhookSettings(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  webhookToken: string
+) {
+  const result = await supabase
+    .from('user_settings')
+    .select('id, access_token, api_version, phone_number_id, app_secret, webhook_signature_verified_at, webhook_signature_failed_at')
+    .eq('webhook_token', webhookToken)
+    .single();
+
+  if (result.data && !result.error) {
+    webhookSettingsCache.set(webhookToken, { data: result.data, timestamp: Date.now() });
+  }
+
+  return result;
+}
+
+/**
+ * Record the outcome of a signature check so the setup page can show it.
+ * Successes are only written when they change the visible state, to keep
+ * high-volume webhooks from writing to user_settings on every request.
+ */
+async function recordSignatureResult(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  webhookToken: string,
+  settings: CachedWebhookSettings['data'],
+  error: string | null
+) {
+  const now = new Date().toISOString();
+
+  if (error) {
+    settings.webhook_signature_failed_at = now;
+    await supabase
+      .from('user_settings')
+      .update({ webhook_signature_failed_at: now, webhook_signature_error: error })
+      .eq('id', settings.id);
+    return;
+  }
+
+  const lastVerified = settings.webhook_signature_verified_at;
+  const lastFailed = settings.webhook_signature_failed_at;
+  if (lastVerified && (!lastFailed || new Date(lastFailed) < new Date(lastVerified))) {
+    return;
+  }
+
+  settings.webhook_signature_verified_at = now;
+  await supabase
+    .from('user_settings')
+    .update({ webhook_signature_verified_at: now, webhook_signature_error: null })
+    .eq('id', settings.id);
+
+  const cached = webhookSettingsCache.get(webhookToken);
+  if (cached) cached.data = settings;
 }
-const settingsCache = new Map<string, CachedSettings>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 // TypeScript interfaces for webhook payload
 interface WhatsAppContact {
@@ -34,11 +86,25 @@ interface MediaInfo {
   voice?: boolean;
 }
 
+interface SharedContact {
+  name?: {
+    formatted_name?: string;
+    first_name?: string;
+    last_name?: string;
+  };
+  phones?: Array<{ phone?: string; wa_id?: string; type?: string }>;
+  emails?: Array<{ email?: string; type?: string }>;
+  org?: {
+    company?: string;
+    title?: string;
+  };
+}
+
 interface WhatsAppMessage {
   id: string;
   from: string;
   timestamp: string;
-  type: 'text' | 'image' | 'document' | 'audio' | 'video' | 'sticker';
+  type: 'text' | 'image' | 'document' | 'audio' | 'video' | 'sticker' | 'interactive' | 'button' | 'location' | 'contacts' | 'reaction' | 'order';
   text?: {
     body: string;
   };
@@ -47,6 +113,98 @@ interface WhatsAppMessage {
   audio?: MediaInfo;
   video?: MediaInfo;
   sticker?: MediaInfo;
+  interactive?: {
+    type: 'button_reply' | 'list_reply' | 'nfm_reply';
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+    nfm_reply?: { name?: string; body?: string; response_json: string };
+  };
+  button?: {
+    payload: string;
+    text: string;
+  };
+  location?: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+    url?: string;
+  };
+  contacts?: SharedContact[];
+  reaction?: {
+    message_id: string;
+    emoji?: string;
+  };
+  order?: {
+    catalog_id: string;
+    text?: string;
+    product_items: Array<{
+      product_retailer_id: string;
+      quantity: number;
+      item_price: number;
+      currency: string;
+    }>;
+  };
+  // Present when the customer replies to (quotes) a specific message
+  context?: {
+    from?: string;
+    id?: string;
+  };
+}
+
+// Structured payload stored in messages.media_data. Only media types carry an
+// `id`, which is what triggers the download to S3.
+interface ProcessedMediaData {
+  type: string;
+  id?: string;
+  mime_type?: string;
+  [key: string]: unknown;
+}
+
+interface WhatsAppWebhookError {
+  code: number;
+  title?: string;
+  message?: string;
+  error_data?: {
+    details?: string;
+  };
+}
+
+interface WhatsAppChangeValue {
+  messaging_product?: string;
+  metadata?: {
+    display_phone_number?: string;
+    phone_number_id?: string;
+  };
+  contacts?: WhatsAppContact[];
+  messages?: WhatsAppMessage[];
+  statuses?: WhatsAppStatus[];
+  errors?: WhatsAppWebhookError[];
+}
+
+interface WhatsAppWebhookEntry {
+  id: string;
+  changes?: {
+    field: string;
+    value?: WhatsAppChangeValue;
+  }[];
+}
+
+interface WhatsAppStatusError {
+  code: number;
+  title?: string;
+  message?: string;
+  error_data?: {
+    details?: string;
+  };
+}
+
+interface WhatsAppStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  recipient_id: string;
+  errors?: WhatsAppStatusError[];
 }
 
 /**
@@ -180,7 +338,7 @@ async function getWhatsAppMediaUrl(
 function processMessageContent(message: WhatsAppMessage) {
   let content = '';
   const messageType = message.type;
-  let mediaData = null;
+  let mediaData: ProcessedMediaData | null = null;
 
   switch (message.type) {
     case 'text':
@@ -241,6 +399,102 @@ function processMessageContent(message: WhatsAppMessage) {
       };
       break;
       
+    case 'interactive': {
+      // Replies to interactive messages we sent: reply buttons, list rows and flows
+      const interactive = message.interactive;
+      if (interactive?.type === 'nfm_reply') {
+        let response: unknown = null;
+        try {
+          response = JSON.parse(interactive.nfm_reply?.response_json || 'null');
+        } catch {
+          response = interactive.nfm_reply?.response_json || null;
+        }
+        content = interactive.nfm_reply?.body || '[Form response]';
+        mediaData = {
+          type: 'interactive',
+          interactive_type: 'nfm_reply',
+          name: interactive.nfm_reply?.name,
+          text: interactive.nfm_reply?.body,
+          response,
+        };
+      } else {
+        const reply = interactive?.type === 'list_reply' ? interactive.list_reply : interactive?.button_reply;
+        content = reply?.title || '[Interactive reply]';
+        mediaData = {
+          type: 'interactive',
+          interactive_type: interactive?.type,
+          reply_id: reply?.id,
+          title: reply?.title,
+          description: interactive?.list_reply?.description,
+        };
+      }
+      break;
+    }
+
+    case 'button':
+      // Quick reply button tapped on a template message
+      content = message.button?.text || '[Button reply]';
+      mediaData = {
+        type: 'button',
+        text: message.button?.text,
+        payload: message.button?.payload,
+      };
+      break;
+
+    case 'location':
+      content = message.location?.name || message.location?.address || '[Location]';
+      mediaData = {
+        type: 'location',
+        latitude: message.location?.latitude,
+        longitude: message.location?.longitude,
+        name: message.location?.name,
+        address: message.location?.address,
+        url: message.location?.url,
+      };
+      break;
+
+    case 'contacts': {
+      const sharedContacts = message.contacts || [];
+      const names = sharedContacts.map(c => c.name?.formatted_name || c.name?.first_name || 'Unknown');
+      content = sharedContacts.length > 1
+        ? `[Contacts: ${names.join(', ')}]`
+        : `[Contact: ${names[0] || 'Unknown'}]`;
+      mediaData = {
+        type: 'contacts',
+        contacts: sharedContacts.map(c => ({
+          name: c.name?.formatted_name || [c.name?.first_name, c.name?.last_name].filter(Boolean).join(' ') || null,
+          phones: (c.phones || []).map(p => ({ phone: p.phone, wa_id: p.wa_id, type: p.type })),
+          emails: (c.emails || []).map(e => ({ email: e.email, type: e.type })),
+          company: c.org?.company || null,
+          title: c.org?.title || null,
+        })),
+      };
+      break;
+    }
+
+    case 'reaction':
+      // An empty emoji means the customer removed their reaction
+      content = message.reaction?.emoji ? `Reacted ${message.reaction.emoji}` : '[Reaction removed]';
+      mediaData = {
+        type: 'reaction',
+        message_id: message.reaction?.message_id,
+        emoji: message.reaction?.emoji || null,
+      };
+      break;
+
+    case 'order': {
+      const items = message.order?.product_items || [];
+      const itemCount = items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+      content = message.order?.text || `[Order: ${itemCount} item${itemCount === 1 ? '' : 's'}]`;
+      mediaData = {
+        type: 'order',
+        catalog_id: message.order?.catalog_id,
+        text: message.order?.text,
+        product_items: items,
+      };
+      break;
+    }
+
     default:
       content = `[Unsupported message type: ${message.type}]`;
       console.warn('Unsupported message type:', message.type);
@@ -249,6 +503,211 @@ function processMessageContent(message: WhatsAppMessage) {
   return { content, messageType, mediaData };
 }
 
+/**
+ * Persist a delivery status callback onto the outbound message row
+ * Ordering and downgrade protection live in the apply_message_status function
+ */
+async function processStatusUpdate(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  status: WhatsAppStatus
+) {
+  const statusTimestamp = new Date(parseInt(status.timestamp) * 1000).toISOString();
+  const error = status.errors?.[0];
+  const errorMessage = error
+    ? error.error_data?.details || error.message || error.title || null
+    : null;
+
+  const { data: applied, error: statusError } = await supabase.rpc('apply_message_status', {
+    p_message_id: status.id,
+    p_status: status.status,
+    p_status_timestamp: statusTimestamp,
+    p_error_code: error?.code ?? null,
+    p_error_message: errorMessage
+  });
+
+  if (statusError) {
+    throw new Error(`Error applying status ${status.status} to message ${status.id}: ${statusError.message}`);
+  } else if (!applied) {
+    console.warn(`Status ${status.status} ignored: message ${status.id} not found`);
+  } else if (status.status === 'failed') {
+    console.warn(`Message ${status.id} failed (code ${error?.code}): ${errorMessage}`);
+  }
+}
+
+/**
+ * Store one inbound message for the business owner, creating the contact if needed.
+ * Throws when the message cannot be stored so the caller can record the failure.
+ */
+async function processIncomingMessage(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  owner: { id: string; accessToken: string; apiVersion: string },
+  message: WhatsAppMessage,
+  contacts: WhatsAppContact[]
+) {
+  const businessOwnerId = owner.id;
+  const accessToken = owner.accessToken;
+  const apiVersion = owner.apiVersion;
+
+  const phoneNumber = message.from;
+  const messageTimestamp = new Date(parseInt(message.timestamp) * 1000).toISOString();
+
+  // Find contact information
+  const contact = contacts.find((c: WhatsAppContact) => c.wa_id === phoneNumber);
+  const contactName = contact?.profile?.name || phoneNumber;
+
+  console.log(`Processing ${message.type} message from ${contactName} (${phoneNumber})`);
+
+  // Process message content based on type
+  const { content, messageType, mediaData } = processMessageContent(message);
+
+  // Handle media upload to S3 if it's a media message
+  let s3MediaUrl = null;
+  let s3UploadSuccess = false;
+  
+  if (mediaData && mediaData.id && accessToken) {
+    console.log(`Processing media upload for ${messageType}: ${mediaData.id}`);
+    
+    try {
+      // Get WhatsApp media URL first
+      const whatsappMediaUrl = await getWhatsAppMediaUrl(
+        mediaData.id, 
+        accessToken, 
+        apiVersion
+      );
+      
+      if (whatsappMediaUrl) {
+        console.log(`Downloading and uploading ${messageType} to S3...`);
+        
+        // Validate media ID format
+        if (!/^\d+$/.test(mediaData.id)) {
+          throw new Error(`Invalid media ID format: ${mediaData.id}`);
+        }
+        
+        // Download from WhatsApp and upload to S3
+        s3MediaUrl = await downloadAndUploadToS3(
+          whatsappMediaUrl,
+          phoneNumber,
+          mediaData.id,
+          mediaData.mime_type || 'application/octet-stream',
+          accessToken
+        );
+        
+        if (s3MediaUrl) {
+          console.log(`Successfully uploaded ${messageType} to S3: ${s3MediaUrl}`);
+          s3UploadSuccess = true;
+        } else {
+          console.error(`Failed to upload ${messageType} to S3`);
+        }
+      } else {
+        console.error(`Failed to get WhatsApp media URL for ${mediaData.id}`);
+      }
+    } catch (error) {
+      console.error(`Error processing media upload for ${mediaData.id}:`, error);
+    }
+  }
+
+  // Check if user exists in our database
+  const { data: existingUser } = await supabase
+    .from('users')
+    .select('*')
+    .eq('owner_id', businessOwnerId)
+    .eq('id', phoneNumber)
+    .maybeSingle();
+
+  // Create user if they don't exist
+  if (!existingUser) {
+    console.log(`Creating new user: ${contactName}`);
+    const { error: userError } = await supabase
+      .from('users')
+      .insert([{
+        owner_id: businessOwnerId,
+        id: phoneNumber,
+        name: contactName,
+        last_active: messageTimestamp
+      }]);
+
+    if (userError) {
+      throw new Error(`Error creating user ${phoneNumber}: ${userError.message}`);
+    }
+  } else {
+    // Update last_active timestamp
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ last_active: messageTimestamp })
+      .eq('owner_id', businessOwnerId)
+      .eq('id', phoneNumber);
+
+    if (updateError) {
+      console.error('Error updating user last_active:', updateError);
+    }
+  }
+
+  // Reactions are stored on the message they target. Only when that message
+  // is not stored here is the reaction kept as a message of its own.
+  if (message.type === 'reaction' && message.reaction?.message_id) {
+    const { data: applied, error: reactionError } = await supabase.rpc('apply_message_reaction', {
+      p_message_id: message.reaction.message_id,
+      p_owner_id: businessOwnerId,
+      p_reactor_id: phoneNumber,
+      p_emoji: message.reaction.emoji || '',
+    });
+
+    if (reactionError) {
+      throw new Error(`Error applying reaction ${message.id}: ${reactionError.message}`);
+    }
+    if (applied) {
+      console.log(`Reaction applied to message ${message.reaction.message_id}`);
+      return;
+    }
+    console.log(`Reaction target ${message.reaction.message_id} not found, storing reaction as a message`);
+  }
+
+  // The receiver is the business owner
+  const receiverId = businessOwnerId;
+
+  console.log(`Message receiver identified as: ${receiverId}`);
+
+  // Prepare message object with S3 URL
+  const messageObject = {
+    id: message.id,
+    sender_id: phoneNumber,
+    receiver_id: receiverId,
+    content: content,
+    timestamp: messageTimestamp,
+    is_sent_by_me: false,
+    is_read: false,
+    message_type: messageType,
+    reply_to_message_id: message.context?.id || null,
+    media_data: mediaData ? JSON.stringify({
+      ...mediaData,
+      media_url: s3MediaUrl,
+      s3_uploaded: s3UploadSuccess,
+      upload_timestamp: s3UploadSuccess ? new Date().toISOString() : null,
+      upload_error: !s3UploadSuccess && mediaData.id ? 'Failed to upload to S3' : null
+    }) : null
+  };
+
+  // Store the message. A concurrent redelivery may have stored it since the
+  // duplicate check, so a conflicting WAMID is ignored rather than reported.
+  const { error: messageError } = await supabase
+    .from('messages')
+    .upsert([messageObject], { onConflict: 'id', ignoreDuplicates: true });
+
+  if (messageError) {
+    throw new Error(`Error storing message ${message.id}: ${messageError.message}`);
+  }
+
+  console.log(`${messageType} message stored successfully: ${message.id}`);
+  if (mediaData) {
+    console.log('Media data stored:', {
+      type: mediaData.type,
+      id: mediaData.id,
+      s3_uploaded: s3UploadSuccess,
+      has_s3_url: !!s3MediaUrl
+    });
+  }
+}
+
 /**
  * POST handler for incoming WhatsApp messages
  * WhatsApp will send message data to this endpoint
@@ -262,7 +721,8 @@ export async function POST(
     const { token: webhookToken } = await params;
     // Using service role client to bypass RLS since webhook requests have no auth
     const supabase = createServiceRoleClient();
-    const body = await request.json();
+    // The signature covers the raw bytes, so the body is parsed only after verification
+    const rawBody = await request.text();
 
     console.log('Received webhook payload for token:', webhookToken?.substring(0, 8) + '...');
 
@@ -273,25 +733,17 @@ export async function POST(
 
     // Check cache first to prevent database connection exhaustion
     const now = Date.now();
-    const cached = settingsCache.get(webhookToken);
+    const cached = webhookSettingsCache.get(webhookToken);
     let userSettings = undefined;
     let settingsError = null;
 
-    if (cached && now - cached.timestamp < CACHE_TTL) {
+    const usedCache = !!cached && now - cached.timestamp < WEBHOOK_SETTINGS_CACHE_TTL;
+    if (cached && usedCache) {
       userSettings = cached.data;
     } else {
-      const result = await supabase
-        .from('user_settings')
-        .select('id, access_token, api_version, phone_number_id')
-        .eq('webhook_token', webhookToken)
-        .single();
-        
+      const result = await fetchWebhookSettings(supabase, webhookToken);
       userSettings = result.data;
       settingsError = result.error;
-      
-      if (userSettings && !settingsError) {
-        settingsCache.set(webhookToken, { data: userSettings, timestamp: now });
-      }
     }
 
     if (settingsError || !userSettings) {
@@ -311,174 +763,149 @@ export async function POST(
       return new NextResponse('OK', { status: 200 });
     }
 
-    const businessOwnerId = userSettings.id;
-    const accessToken = userSettings.access_token;
-    const apiVersion = userSettings.api_version || 'v23.0';
+    // A secret saved since the settings were cached is enforced right away
+    if (!userSettings.app_secret && usedCache) {
+      const refreshed = await fetchWebhookSettings(supabase, webhookToken);
+      if (refreshed.data) userSettings = refreshed.data;
+    }
 
-    console.log('Found business owner:', businessOwnerId);
+    // Unsigned requests cannot be told apart from forged ones
+    if (!userSettings.app_secret) {
+      console.error('No app secret configured for business owner', userSettings.id, '- webhook rejected');
+      await recordSignatureResult(supabase, webhookToken, userSettings, 'No app secret configured');
+      return new NextResponse('App secret not configured', { status: 401 });
+    }
 
-    // Extract message data from WhatsApp webhook payload
-    const entry = body.entry?.[0];
-    const changes = entry?.changes?.[0];
-    const value = changes?.value;
-    const messages: WhatsAppMessage[] = value?.messages || [];
-    const statuses = value?.statuses || [];
-    const contacts: WhatsAppContact[] = value?.contacts || [];
-    
-    if (statuses.length > 0) {
-      console.log(`Received ${statuses.length} status update(s)`);
-      statuses.forEach((status: any) => {
-        console.log(`Status: Message ${status.id} -> ${status.status} (Recipient: ${status.recipient_id})`);
-      });
+    // Verify the payload was signed by Meta with this tenant's app secret
+    const signatureHeader = request.headers.get('x-hub-signature-256');
+    let signatureCheck = verifyWebhookSignature(rawBody, signatureHeader, userSettings.app_secret);
+
+    // The secret may have been changed since the settings were cached
+    if (!signatureCheck.valid && usedCache) {
+      const refreshed = await fetchWebhookSettings(supabase, webhookToken);
+      if (refreshed.data?.app_secret) {
+        userSettings = refreshed.data;
+        signatureCheck = verifyWebhookSignature(rawBody, signatureHeader, refreshed.data.app_secret);
+      }
     }
-    
-    // Extract the phone number ID that received the message
-    const phoneNumberId = value?.metadata?.phone_number_id;
-    
-    // Verify this message is for the correct user
-    if (phoneNumberId && userSettings.phone_number_id !== phoneNumberId) {
-      console.warn('Phone number ID mismatch. Expected:', userSettings.phone_number_id, 'Got:', phoneNumberId);
-      return new NextResponse('OK', { status: 200 });
+
+    if (!signatureCheck.valid) {
+      console.error('Webhook signature verification failed:', signatureCheck.error);
+      await recordSignatureResult(supabase, webhookToken, userSettings, signatureCheck.error || 'Invalid signature');
+      return new NextResponse('Invalid signature', { status: 401 });
     }
-    
-    // Process each incoming message
-    for (const message of messages) {
-      const phoneNumber = message.from;
-      const messageTimestamp = new Date(parseInt(message.timestamp) * 1000).toISOString();
 
-      // Find contact information
-      const contact = contacts.find((c: WhatsAppContact) => c.wa_id === phoneNumber);
-      const contactName = contact?.profile?.name || phoneNumber;
+    await recordSignatureResult(supabase, webhookToken, userSettings, null);
 
-      console.log(`Processing ${message.type} message from ${contactName} (${phoneNumber})`);
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      console.error('Webhook payload is not valid JSON');
+      return new NextResponse('Bad Request', { status: 400 });
+    }
 
-      // Process message content based on type
-      const { content, messageType, mediaData } = processMessageContent(message);
+    const businessOwnerId = userSettings.id;
+    const accessToken = userSettings.access_token;
+    const apiVersion = userSettings.api_version || 'v23.0';
 
-      // Handle media upload to S3 if it's a media message
-      let s3MediaUrl = null;
-      let s3UploadSuccess = false;
-      
-      if (mediaData && mediaData.id && accessToken) {
-        console.log(`Processing media upload for ${messageType}: ${mediaData.id}`);
-        
-        try {
-          // Get WhatsApp media URL first
-          const whatsappMediaUrl = await getWhatsAppMediaUrl(
-            mediaData.id, 
-            accessToken, 
-            apiVersion
-          );
-          
-          if (whatsappMediaUrl) {
-            console.log(`Downloading and uploading ${messageType} to S3...`);
-            
-            // Validate media ID format
-            if (!/^\d+$/.test(mediaData.id)) {
-              throw new Error(`Invalid media ID format: ${mediaData.id}`);
-            }
-            
-            // Download from WhatsApp and upload to S3
-            s3MediaUrl = await downloadAndUploadToS3(
-              whatsappMediaUrl,
-              phoneNumber,
-              mediaData.id,
-              mediaData.mime_type || 'application/octet-stream',
-              accessToken
-            );
-            
-            if (s3MediaUrl) {
-              console.log(`Successfully uploaded ${messageType} to S3: ${s3MediaUrl}`);
-              s3UploadSuccess = true;
-            } else {
-              console.error(`Failed to upload ${messageType} to S3`);
-            }
-          } else {
-            console.error(`Failed to get WhatsApp media URL for ${mediaData.id}`);
-          }
-        } catch (error) {
-          console.error(`Error processing media upload for ${mediaData.id}:`, error);
+    console.log('Found business owner:', businessOwnerId);
+
+    // Meta may batch several entries, each with several changes, into one delivery
+    const entries: WhatsAppWebhookEntry[] = Array.isArray(body.entry) ? body.entry : [];
+    const failedItems: { entry: string; field: string; item: string; error: string }[] = [];
+    // WAMIDs handled in this delivery, in case Meta repeats a message within one batch
+    const seenMessageIds = new Set<string>();
+    const owner = { id: businessOwnerId, accessToken, apiVersion };
+
+    for (const entry of entries) {
+      for (const change of entry.changes || []) {
+        const value = change.value || {};
+
+        if (change.field !== 'messages') {
+          console.log(`Ignoring webhook field "${change.field}" for entry ${entry.id}`);
+          continue;
         }
-      }
 
-      // Check if user exists in our database
-      const { data: existingUser } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', phoneNumber)
-        .single();
-
-      // Create user if they don't exist
-      if (!existingUser) {
-        console.log(`Creating new user: ${contactName}`);
-        const { error: userError } = await supabase
-          .from('users')
-          .insert([{
-            id: phoneNumber,
-            name: contactName,
-            last_active: messageTimestamp
-          }]);
-
-        if (userError) {
-          console.error('Error creating user:', userError);
+        // Extract the phone number ID that received the message
+        const phoneNumberId = value.metadata?.phone_number_id;
+
+        // Verify this change is for the correct user
+        if (phoneNumberId && userSettings.phone_number_id !== phoneNumberId) {
+          console.warn('Phone number ID mismatch. Expected:', userSettings.phone_number_id, 'Got:', phoneNumberId);
           continue;
         }
-      } else {
-        // Update last_active timestamp
-        const { error: updateError } = await supabase
-          .from('users')
-          .update({ last_active: messageTimestamp })
-          .eq('id', phoneNumber);
-
-        if (updateError) {
-          console.error('Error updating user last_active:', updateError);
+
+        // Errors Meta reports about the account or the delivery itself
+        for (const webhookError of value.errors || []) {
+          console.error(`Webhook error ${webhookError.code} (${webhookError.title}):`, webhookError.error_data?.details || webhookError.message);
         }
-      }
 
-      // The receiver is the business owner
-      const receiverId = businessOwnerId;
-
-      console.log(`Message receiver identified as: ${receiverId}`);
-
-      // Prepare message object with S3 URL
-      const messageObject = {
-        id: message.id,
-        sender_id: phoneNumber,
-        receiver_id: receiverId,
-        content: content,
-        timestamp: messageTimestamp,
-        is_sent_by_me: false,
-        is_read: false,
-        message_type: messageType,
-        media_data: mediaData ? JSON.stringify({
-          ...mediaData,
-          media_url: s3MediaUrl,
-          s3_uploaded: s3UploadSuccess,
-          upload_timestamp: s3UploadSuccess ? new Date().toISOString() : null,
-          upload_error: !s3UploadSuccess && mediaData.id ? 'Failed to upload to S3' : null
-        }) : null
-      };
+        // Process delivery status updates for outbound messages
+        const statuses = value.statuses || [];
+        if (statuses.length > 0) {
+          console.log(`Received ${statuses.length} status update(s)`);
+        }
+        for (const status of statuses) {
+          try {
+            console.log(`Status: Message ${status.id} -> ${status.status} (Recipient: ${status.recipient_id})`);
+            await processStatusUpdate(supabase, status);
+          } catch (error) {
+            failedItems.push({
+              entry: entry.id,
+              field: 'statuses',
+              item: status.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
 
-      // Store the message
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert([messageObject]);
+        // Process each incoming message
+        const contacts = value.contacts || [];
+        const incomingMessages = value.messages || [];
+
+        // Meta redelivers webhooks it considers unacknowledged. Skip WAMIDs that
+        // are already stored before any media download or contact upsert happens.
+        let storedMessageIds = new Set<string>();
+        if (incomingMessages.length > 0) {
+          const { data: storedMessages, error: lookupError } = await supabase
+            .from('messages')
+            .select('id')
+            .in('id', incomingMessages.map(message => message.id));
+
+          if (lookupError) {
+            console.error('Error checking for already processed messages:', lookupError);
+          } else {
+            storedMessageIds = new Set((storedMessages || []).map(stored => stored.id));
+          }
+        }
 
-      if (messageError) {
-        console.error('Error storing message:', messageError);
-      } else {
-        console.log(`${messageType} message stored successfully: ${message.id}`);
-        if (mediaData) {
-          console.log('Media data stored:', {
-            type: mediaData.type,
-            id: mediaData.id,
-            s3_uploaded: s3UploadSuccess,
-            has_s3_url: !!s3MediaUrl
-          });
+        for (const message of incomingMessages) {
+          if (storedMessageIds.has(message.id) || seenMessageIds.has(message.id)) {
+            console.log(`Skipping already processed message ${message.id}`);
+            continue;
+          }
+          seenMessageIds.add(message.id);
+
+          try {
+            await processIncomingMessage(supabase, owner, message, contacts);
+          } catch (error) {
+            failedItems.push({
+              entry: entry.id,
+              field: 'messages',
+              item: message.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
         }
       }
     }
 
+    // Failed items are logged rather than retried: Meta would redeliver the whole batch
+    if (failedItems.length > 0) {
+      console.error(`Webhook batch finished with ${failedItems.length} failed item(s):`, failedItems);
+    }
+
     // Acknowledge receipt to WhatsApp
     return new NextResponse('OK', { status: 200 });
 
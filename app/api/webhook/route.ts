@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { downloadAndUploadToS3 } from '@/lib/aws-s3';
+import { verifyWebhookSignature } from '@/lib/webhook-signature';
 
 export const runtime = 'nodejs';
 
@@ -229,9 +230,18 @@ export async function POST(request: NextRequest) {
     
     // Use service role client to bypass RLS since webhook requests have no auth
     const supabase = createServiceRoleClient();
-    const body = await request.json();
-
-    console.log('Received webhook payload (legacy):', JSON.stringify(body, null, 2));
+    // Keep the raw body for signature verification
+    const rawBody = await request.text();
+
+    // This URL carries no tenant, so the body is read to find whose app secret
+    // signs it. Nothing from it is logged or stored until the signature passes.
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      console.error('Webhook payload is not valid JSON (legacy)');
+      return new NextResponse('Bad Request', { status: 400 });
+    }
 
     // Extract message data from WhatsApp webhook payload
     const entry = body.entry?.[0];
@@ -256,7 +266,7 @@ export async function POST(request: NextRequest) {
     // Find the user who owns this phone number ID
     const { data: userSettings, error: settingsError } = await supabase
       .from('user_settings')
-      .select('id, access_token, api_version, phone_number_id')
+      .select('id, access_token, api_version, phone_number_id, app_secret')
       .eq('phone_number_id', phoneNumberIdStr)
       .single();
     
@@ -282,6 +292,30 @@ export async function POST(request: NextRequest) {
       return new NextResponse('OK', { status: 200 });
     }
     
+    // The tenant comes from the payload, so without a signature anyone could
+    // write into it
+    if (!userSettings.app_secret) {
+      console.error('No app secret configured for business owner', userSettings.id, '- webhook rejected (legacy)');
+      return new NextResponse('App secret not configured', { status: 401 });
+    }
+
+    const signatureCheck = verifyWebhookSignature(
+      rawBody,
+      request.headers.get('x-hub-signature-256'),
+      userSettings.app_secret
+    );
+
+    if (!signatureCheck.valid) {
+      console.error('Webhook signature verification failed (legacy):', signatureCheck.error);
+      await supabase
+        .from('user_settings')
+        .update({ webhook_signature_failed_at: new Date().toISOString(), webhook_signature_error: signatureCheck.error })
+        .eq('id', userSettings.id);
+      return new NextResponse('Invalid signature', { status: 401 });
+    }
+
+    console.log('Received webhook payload (legacy):', JSON.stringify(body, null, 2));
+
     const businessOwnerId = userSettings.id;
     const accessToken = userSettings.access_token;
     const apiVersion = userSettings.api_version || 'v23.0';
@@ -353,8 +387,9 @@ export async function POST(request: NextRequest) {
       const { data: existingUser } = await supabase
         .from('users')
         .select('*')
+        .eq('owner_id', businessOwnerId)
         .eq('id', phoneNumber)
-        .single();
+        .maybeSingle();
 
       // Create user if they don't exist
       if (!existingUser) {
@@ -362,6 +397,7 @@ export async function POST(request: NextRequest) {
         const { error: userError } = await supabase
           .from('users')
           .insert([{
+            owner_id: businessOwnerId,
             id: phoneNumber,
             name: contactName,
             last_active: messageTimestamp
@@ -376,6 +412,7 @@ export async function POST(request: NextRequest) {
         const { error: updateError } = await supabase
           .from('users')
           .update({ last_active: messageTimestamp })
+          .eq('owner_id', businessOwnerId)
           .eq('id', phoneNumber);
 
         if (updateError) {
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { createFrontendClient } from "@/lib/supabase/client";
 import { UserList } from "@/components/chat/user-list";
 import { ChatWindow } from "@/components/chat/chat-window";
@@ -10,6 +10,15 @@ import { AlertCircle, Settings } from "lucide-react";
 import Link from "next/link";
 import { useTranslation } from "react-i18next";
 import { LanguageSwitcher } from "@/components/language-switcher";
+import { BroadcastJobDetails } from "@/components/chat/broadcast-job-details";
+import { ScheduledBroadcastsDialog } from "@/components/chat/scheduled-broadcasts-dialog";
+import { MessageSearchResult } from "@/components/chat/message-search-dialog";
+import { BroadcastSchedule, formatScheduledTime } from "@/lib/broadcast/schedule";
+import { TeamMember } from "@/lib/tenant";
+import { ConversationStatus } from "@/lib/conversation-status";
+import { ConversationNote } from "@/lib/notes";
+import { ContactAttributes, ContactField, getContactFieldValues } from "@/lib/contact-fields";
+import { BroadcastPreviewRecipient } from "@/lib/broadcast/variables";
 
 interface ChatUser {
   id: string;
@@ -22,6 +31,11 @@ interface ChatUser {
   last_message?: string;
   last_message_type?: string;
   last_message_sender?: string;
+  assigned_to?: string | null;
+  status?: ConversationStatus;
+  snoozed_until?: string | null;
+  tags?: string[];
+  attributes?: ContactAttributes;
 }
 
 interface Message {
@@ -33,6 +47,8 @@ interface Message {
   is_sent_by_me: boolean;
   message_type?: string;
   media_data?: string | null;
+  reply_to_message_id?: string | null;
+  reactions?: Record<string, string> | null;
 }
 
 interface MessagePayload {
@@ -43,8 +59,13 @@ interface MessagePayload {
   timestamp: string;
   message_type?: string;
   media_data?: string | null;
+  reply_to_message_id?: string | null;
+  reactions?: Record<string, string> | null;
 }
 
+// Messages per history page; older pages load as the agent scrolls up
+const MESSAGE_PAGE_SIZE = 50;
+
 interface UnreadConversation {
   conversation_id: string;
   display_name: string;
@@ -54,9 +75,15 @@ interface UnreadConversation {
 
 export default function ChatPage() {
   const [user, setUser] = useState<User | null>(null);
+  // Organization the agent works in; messages and contacts are keyed by it
+  const [tenantId, setTenantId] = useState<string | null>(null);
+  const [defaultCountry, setDefaultCountry] = useState<string | null>(null);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [contactFields, setContactFields] = useState<ContactField[]>([]);
   const [users, setUsers] = useState<ChatUser[]>([]);
   const [selectedUser, setSelectedUser] = useState<ChatUser | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [notes, setNotes] = useState<ConversationNote[]>([]);
   const [isMobile, setIsMobile] = useState(false);
   const [showChat, setShowChat] = useState(false);
   const [sendingMessage, setSendingMessage] = useState(false);
@@ -64,7 +91,16 @@ export default function ChatPage() {
   const [checkingSetup, setCheckingSetup] = useState(true);
   const [broadcastGroupId, setBroadcastGroupId] = useState<string | null>(null);
   const [broadcastGroupName, setBroadcastGroupName] = useState<string | null>(null);
-  const [broadcastJob, setBroadcastJob] = useState<{ id: string, total: number, success: number, failed: number, status: string } | null>(null);
+  const [broadcastMemberIds, setBroadcastMemberIds] = useState<string[]>([]);
+  const [broadcastJob, setBroadcastJob] = useState<{ id: string, total: number, success: number, failed: number, status: string, throttledUntil?: string | null } | null>(null);
+  const [showBroadcastDetails, setShowBroadcastDetails] = useState(false);
+  const [showScheduledBroadcasts, setShowScheduledBroadcasts] = useState(false);
+  // Message to scroll to and highlight once its conversation is loaded
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  // Conversation the loaded history belongs to, so late pages can be dropped
+  const conversationIdRef = useRef<string | null>(null);
   const supabase = createFrontendClient();
   const { t } = useTranslation();
 
@@ -88,7 +124,7 @@ export default function ChatPage() {
 
   // Poll broadcast job status
   useEffect(() => {
-    if (!broadcastJob || broadcastJob.status === 'completed' || broadcastJob.status === 'failed') return;
+    if (!broadcastJob || ['completed', 'failed', 'cancelled'].includes(broadcastJob.status)) return;
 
     const interval = setInterval(async () => {
       try {
@@ -101,7 +137,8 @@ export default function ChatPage() {
               ...prev,
               success: data.job.success_count,
               failed: data.job.failed_count,
-              status: data.job.status
+              status: data.job.status,
+              throttledUntil: data.job.throttled_until
             };
           });
           
@@ -118,6 +155,34 @@ export default function ChatPage() {
     return () => clearInterval(interval);
   }, [broadcastJob?.id, broadcastJob?.status]);
 
+  const handleBroadcastJobAction = async (action: 'pause' | 'resume' | 'cancel' | 'retry_failed') => {
+    if (!broadcastJob) return;
+
+    try {
+      const res = await fetch(`/api/jobs/${broadcastJob.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${action} broadcast`);
+      }
+
+      setBroadcastJob((prev) => prev ? {
+        ...prev,
+        success: data.job.success_count,
+        failed: data.job.failed_count,
+        status: data.job.status,
+        throttledUntil: data.job.throttled_until
+      } : null);
+    } catch (error) {
+      console.error(`Failed to ${action} broadcast job:`, error);
+      alert(error instanceof Error ? error.message : `Failed to ${action} broadcast`);
+    }
+  };
+
   // Handle ESC key press to close chat window
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -149,6 +214,8 @@ export default function ChatPage() {
         const data = await response.json();
 
         const setupComplete = data.settings?.access_token_added || data.settings?.webhook_verified;
+        setTenantId(data.organization?.id || user.id);
+        setDefaultCountry(data.settings?.default_country || null);
         setIsSetupComplete(setupComplete);
         setCheckingSetup(false);
       }
@@ -157,9 +224,45 @@ export default function ChatPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
+  // Teammates conversations can be assigned to
+  useEffect(() => {
+    if (!tenantId) return;
+
+    const fetchTeamMembers = async () => {
+      try {
+        const response = await fetch('/api/organization/members');
+        const data = await response.json();
+        if (response.ok) {
+          setTeamMembers(data.members || []);
+        }
+      } catch (error) {
+        console.error('Error fetching team members:', error);
+      }
+    };
+    fetchTeamMembers();
+  }, [tenantId]);
+
+  // Custom contact fields, shared by the contact dialog, list filters and templates
+  const refreshContactFields = useCallback(async () => {
+    try {
+      const response = await fetch('/api/contact-fields');
+      const data = await response.json();
+      if (response.ok) {
+        setContactFields(data.fields || []);
+      }
+    } catch (error) {
+      console.error('Error fetching contact fields:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!tenantId) return;
+    refreshContactFields();
+  }, [tenantId, refreshContactFields]);
+
   // Subscribe to users table for real-time updates with optimized loading
   useEffect(() => {
-    if (!user) return;
+    if (!user || !tenantId) return;
 
     let isInitialLoad = true;
 
@@ -194,7 +297,12 @@ export default function ChatPage() {
           last_message_time: user.last_message_time,
           last_message: user.last_message,
           last_message_type: user.last_message_type,
-          last_message_sender: user.last_message_sender
+          last_message_sender: user.last_message_sender,
+          assigned_to: user.assigned_to,
+          status: user.status,
+          snoozed_until: user.snoozed_until,
+          tags: user.tags || [],
+          attributes: user.attributes || {}
         }));
 
         setUsers(transformedUsers);
@@ -228,7 +336,8 @@ export default function ChatPage() {
           const preloadPromises = unreadConversations.map(async (conversation: UnreadConversation) => {
             try {
               const { data: messages, error: messagesError } = await supabase.rpc('get_conversation_messages', {
-                other_user_id: conversation.conversation_id
+                other_user_id: conversation.conversation_id,
+                p_limit: MESSAGE_PAGE_SIZE
               });
 
               if (messagesError) {
@@ -281,8 +390,8 @@ export default function ChatPage() {
         // Update specific user in list based on message change
         const message = payload.new as MessagePayload;
         if (message) {
-          const otherUserId = message.sender_id === user?.id ? message.receiver_id : message.sender_id;
-          const isFromMe = message.sender_id === user?.id;
+          const otherUserId = message.sender_id === tenantId ? message.receiver_id : message.sender_id;
+          const isFromMe = message.sender_id === tenantId;
           const isCurrentlyViewing = selectedUser?.id === otherUserId;
 
           // Recalculate unread count from database for accuracy
@@ -348,21 +457,28 @@ export default function ChatPage() {
       messagesSubscription.unsubscribe();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]); // supabase and selectedUser are stable/controlled
+  }, [user, tenantId]); // supabase and selectedUser are stable/controlled
 
   // Subscribe to messages for selected user with improved real-time handling
   useEffect(() => {
-    if (!selectedUser || !user) {
+    if (!selectedUser || !user || !tenantId) {
+      conversationIdRef.current = null;
       setMessages([]);
+      setHasMoreMessages(false);
       return;
     }
 
+    conversationIdRef.current = selectedUser.id;
+
     const fetchMessages = async () => {
-      console.log(`Fetching messages between ${user.id} and ${selectedUser.id}`);
+      console.log(`Fetching messages between ${tenantId} and ${selectedUser.id}`);
 
-      // Use the database function to get conversation messages
+      // Load the latest page, large enough to include every unread message
+      // so the unread separator lands in the right place
+      const pageSize = Math.min(Math.max(MESSAGE_PAGE_SIZE, (selectedUser.unread_count || 0) + 10), 500);
       const { data, error } = await supabase.rpc('get_conversation_messages', {
-        other_user_id: selectedUser.id
+        other_user_id: selectedUser.id,
+        p_limit: pageSize
       });
 
       console.log(data, 'conversation messages data');
@@ -371,7 +487,7 @@ export default function ChatPage() {
         console.error('Error fetching messages:', error);
         console.error('Error details:', JSON.stringify(error, null, 2));
         console.error('Selected user ID:', selectedUser.id);
-        console.error('Current user ID:', user.id);
+        console.error('Current user ID:', tenantId);
       } else {
         console.log(data, 'data');
         console.log(`Fetched ${data?.length || 0} messages`);
@@ -380,9 +496,10 @@ export default function ChatPage() {
           ...msg,
           timestamp: msg.message_timestamp || msg.timestamp,
           // Ensure is_sent_by_me is always set correctly
-          is_sent_by_me: msg.is_sent_by_me !== undefined ? msg.is_sent_by_me : msg.sender_id === user.id
+          is_sent_by_me: msg.is_sent_by_me !== undefined ? msg.is_sent_by_me : msg.sender_id === tenantId
         }));
         setMessages(mappedMessages);
+        setHasMoreMessages(mappedMessages.length === pageSize);
 
         // Debug: Log first few messages to check is_sent_by_me values
         if (mappedMessages.length > 0) {
@@ -399,7 +516,7 @@ export default function ChatPage() {
     fetchMessages();
 
     // Set up real-time subscription for messages with a unique channel name
-    const channelName = `messages-${user.id}-${selectedUser.id}-${Date.now()}`;
+    const channelName = `messages-${tenantId}-${selectedUser.id}-${Date.now()}`;
     const messagesSubscription = supabase
       .channel(channelName)
       .on('postgres_changes', {
@@ -413,8 +530,8 @@ export default function ChatPage() {
 
         // Check if this message belongs to the current conversation
         const isRelevantMessage =
-          (newMessage.sender_id === user.id && newMessage.receiver_id === selectedUser.id) ||
-          (newMessage.sender_id === selectedUser.id && newMessage.receiver_id === user.id);
+          (newMessage.sender_id === tenantId && newMessage.receiver_id === selectedUser.id) ||
+          (newMessage.sender_id === selectedUser.id && newMessage.receiver_id === tenantId);
 
         if (isRelevantMessage) {
           console.log('Adding message to conversation');
@@ -422,14 +539,14 @@ export default function ChatPage() {
           // Determine if this message was sent by the current user
           const messageWithFlag = {
             ...newMessage,
-            is_sent_by_me: newMessage.sender_id === user.id,
+            is_sent_by_me: newMessage.sender_id === tenantId,
             timestamp: newMessage.timestamp || new Date().toISOString()
           };
 
           console.log('Real-time message flags:', {
             message_id: messageWithFlag.id,
             sender_id: newMessage.sender_id,
-            current_user_id: user.id,
+            current_user_id: tenantId,
             is_sent_by_me: messageWithFlag.is_sent_by_me,
             content: messageWithFlag.content?.substring(0, 20)
           });
@@ -479,13 +596,13 @@ export default function ChatPage() {
 
         // Check if this message belongs to the current conversation
         const isRelevantMessage =
-          (updatedMessage.sender_id === user.id && updatedMessage.receiver_id === selectedUser.id) ||
-          (updatedMessage.sender_id === selectedUser.id && updatedMessage.receiver_id === user.id);
+          (updatedMessage.sender_id === tenantId && updatedMessage.receiver_id === selectedUser.id) ||
+          (updatedMessage.sender_id === selectedUser.id && updatedMessage.receiver_id === tenantId);
 
         if (isRelevantMessage) {
           const messageWithFlag = {
             ...updatedMessage,
-            is_sent_by_me: updatedMessage.sender_id === user.id,
+            is_sent_by_me: updatedMessage.sender_id === tenantId,
             timestamp: updatedMessage.timestamp || new Date().toISOString()
           };
 
@@ -502,7 +619,67 @@ export default function ChatPage() {
       console.log(`Unsubscribing from messages channel: ${channelName}`);
       messagesSubscription.unsubscribe();
     };
-  }, [selectedUser, user, supabase]);
+  }, [selectedUser, user, tenantId, supabase]);
+
+  // Internal notes for the selected conversation. Notes live in their own
+  // table and are merged into the thread by ChatWindow.
+  useEffect(() => {
+    if (!selectedUser || !user || !tenantId) {
+      setNotes([]);
+      return;
+    }
+
+    const contactId = selectedUser.id;
+    let cancelled = false;
+
+    const fetchNotes = async () => {
+      try {
+        const response = await fetch(`/api/notes?contact=${encodeURIComponent(contactId)}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to fetch notes');
+        }
+
+        if (!cancelled) {
+          setNotes(result.notes || []);
+        }
+      } catch (error) {
+        console.error('Error fetching notes:', error);
+      }
+    };
+
+    setNotes([]);
+    fetchNotes();
+
+    const notesSubscription = supabase
+      .channel(`notes-${tenantId}-${contactId}-${Date.now()}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'conversation_notes',
+        filter: `owner_id=eq.${tenantId}`
+      }, (payload) => {
+        const newNote = payload.new as ConversationNote;
+        if (newNote.contact_id !== contactId) return;
+
+        setNotes((prev) => prev.some(n => n.id === newNote.id) ? prev : [...prev, newNote]);
+      })
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'conversation_notes'
+      }, (payload) => {
+        const deletedId = (payload.old as Partial<ConversationNote>).id;
+        setNotes((prev) => prev.filter(n => n.id !== deletedId));
+      })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      notesSubscription.unsubscribe();
+    };
+  }, [selectedUser, user, tenantId, supabase]);
 
   // Fetch broadcast messages when broadcast group is selected
   useEffect(() => {
@@ -650,6 +827,63 @@ export default function ChatPage() {
     }
   };
 
+  // Open the conversation a search hit belongs to and jump to the message
+  const handleOpenSearchResult = async (result: MessageSearchResult) => {
+    const contact = users.find(u => u.id === result.contact_id) || {
+      id: result.contact_id,
+      name: result.contact_name || result.contact_id,
+      last_active: result.message_timestamp,
+    };
+
+    setFocusMessageId(result.id);
+    if (selectedUser?.id !== contact.id || broadcastGroupId) {
+      await handleUserSelect(contact);
+    }
+  };
+
+  // Load the page of history before the oldest loaded message
+  const loadOlderMessages = async () => {
+    if (!selectedUser || !user || !tenantId || loadingOlderMessages || !hasMoreMessages) return;
+
+    // Until the new conversation's first page arrives, the loaded messages may
+    // still belong to the previous one and can't serve as the cursor
+    const oldest = messages.find(m => !m.id.startsWith('optimistic_'));
+    if (!oldest || (oldest.sender_id !== selectedUser.id && oldest.receiver_id !== selectedUser.id)) return;
+
+    const conversationId = selectedUser.id;
+    setLoadingOlderMessages(true);
+    try {
+      const { data, error } = await supabase.rpc('get_conversation_messages', {
+        other_user_id: conversationId,
+        p_before_timestamp: oldest.timestamp,
+        p_before_id: oldest.id,
+        p_limit: MESSAGE_PAGE_SIZE
+      });
+
+      // The agent may have switched conversations while the page was loading
+      if (conversationIdRef.current !== conversationId) return;
+
+      if (error) {
+        console.error('Error loading older messages:', error);
+        return;
+      }
+
+      const olderMessages = (data || []).map((msg: MessagePayload & { message_timestamp?: string; is_sent_by_me?: boolean }) => ({
+        ...msg,
+        timestamp: msg.message_timestamp || msg.timestamp,
+        is_sent_by_me: msg.is_sent_by_me !== undefined ? msg.is_sent_by_me : msg.sender_id === tenantId
+      }));
+
+      setMessages((prev) => {
+        const loadedIds = new Set(prev.map(m => m.id));
+        return [...olderMessages.filter((m: Message) => !loadedIds.has(m.id)), ...prev];
+      });
+      setHasMoreMessages(olderMessages.length === MESSAGE_PAGE_SIZE);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
+
   const refreshUsers = useCallback(async () => {
     if (!user) return;
 
@@ -677,7 +911,12 @@ export default function ChatPage() {
         last_message_time: user.last_message_time,
         last_message: user.last_message,
         last_message_type: user.last_message_type,
-        last_message_sender: user.last_message_sender
+        last_message_sender: user.last_message_sender,
+        assigned_to: user.assigned_to,
+        status: user.status,
+        snoozed_until: user.snoozed_until,
+        tags: user.tags || [],
+        attributes: user.attributes || {}
       }));
 
       setUsers(transformedUsers);
@@ -726,6 +965,117 @@ export default function ChatPage() {
     }
   }, [refreshUsers]);
 
+  const handleUpdateContactDetails = useCallback(async (userId: string, details: { tags?: string[]; attributes?: ContactAttributes }) => {
+    const response = await fetch('/api/users/details', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userId, ...details }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.details || result.error || 'Failed to update contact');
+    }
+
+    setUsers((prev) => prev.map(u => u.id === userId
+      ? { ...u, tags: result.user.tags, attributes: result.user.attributes }
+      : u));
+  }, []);
+
+  // Other agents see the change through the users table subscription
+  const handleAssignConversation = useCallback(async (userId: string, assigneeId: string | null) => {
+    const previousAssignee = users.find(u => u.id === userId)?.assigned_to ?? null;
+    setUsers((prev) => prev.map(u => u.id === userId ? { ...u, assigned_to: assigneeId } : u));
+
+    try {
+      const response = await fetch('/api/users/assign', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userId, assigneeId }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to assign conversation');
+      }
+    } catch (error) {
+      console.error('Error assigning conversation:', error);
+      setUsers((prev) => prev.map(u => u.id === userId ? { ...u, assigned_to: previousAssignee } : u));
+      alert(`${t('assign_failed')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [users, t]);
+
+  const handleSetConversationStatus = useCallback(async (userId: string, status: ConversationStatus, snoozedUntil?: string) => {
+    const previous = users.find(u => u.id === userId);
+    setUsers((prev) => prev.map(u => u.id === userId ? { ...u, status, snoozed_until: snoozedUntil ?? null } : u));
+
+    try {
+      const response = await fetch('/api/users/status', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userId, status, snoozedUntil }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to update conversation status');
+      }
+    } catch (error) {
+      console.error('Error updating conversation status:', error);
+      if (previous) {
+        setUsers((prev) => prev.map(u => u.id === userId ? { ...u, status: previous.status, snoozed_until: previous.snoozed_until } : u));
+      }
+      alert(`${t('status_update_failed')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [users, t]);
+
+  // Notes are saved through their own endpoint and never reach the send handlers
+  const handleAddNote = useCallback(async (content: string, mentions: string[]) => {
+    if (!selectedUser) return;
+
+    const response = await fetch('/api/notes', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ contactId: selectedUser.id, content, mentions }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.details || result.error || 'Failed to add note');
+    }
+
+    const note = result.note as ConversationNote;
+    setNotes((prev) => prev.some(n => n.id === note.id) ? prev : [...prev, note]);
+  }, [selectedUser]);
+
+  const handleDeleteNote = useCallback(async (noteId: string) => {
+    try {
+      const response = await fetch(`/api/notes/${noteId}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to delete note');
+      }
+
+      setNotes((prev) => prev.filter(n => n.id !== noteId));
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      alert(`${t('note_delete_failed')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [t]);
+
   const handleBroadcastToGroup = useCallback((groupId: string, groupName: string) => {
     console.log('Broadcasting to group:', groupName);
 
@@ -741,8 +1091,40 @@ export default function ChatPage() {
     setShowChat(true);
   }, []);
 
-  const handleSendBroadcast = async (content: string) => {
-    if (!broadcastGroupId || !user || sendingMessage) return;
+  // Members of the broadcast group, for previewing personalised template variables
+  useEffect(() => {
+    if (!broadcastGroupId) {
+      setBroadcastMemberIds([]);
+      return;
+    }
+
+    const fetchBroadcastMembers = async () => {
+      try {
+        const response = await fetch(`/api/groups/${broadcastGroupId}/members`);
+        const data = await response.json();
+        if (response.ok && data.success) {
+          setBroadcastMemberIds((data.members || []).map((member: { user_id: string }) => member.user_id));
+        }
+      } catch (error) {
+        console.error('Error fetching broadcast group members:', error);
+      }
+    };
+    fetchBroadcastMembers();
+  }, [broadcastGroupId]);
+
+  const broadcastPreviewRecipients: BroadcastPreviewRecipient[] = broadcastMemberIds
+    .slice(0, 3)
+    .map(memberId => {
+      const contact = users.find(u => u.id === memberId);
+      return {
+        id: memberId,
+        name: contact?.name || memberId,
+        fieldValues: getContactFieldValues(contact ?? { id: memberId }),
+      };
+    });
+
+  const handleSendBroadcast = async (content: string, schedule?: BroadcastSchedule) => {
+    if (!broadcastGroupId || !user || !tenantId || sendingMessage) return;
 
     setSendingMessage(true);
 
@@ -769,7 +1151,9 @@ export default function ChatPage() {
           templateName: parsedContent.templateName,
           templateData: parsedContent.templateData,
           variables: parsedContent.variables,
+          variableFields: parsedContent.variableFields ?? null,
           headerMediaId: parsedContent.headerMediaId ?? null,
+          sendOptions: parsedContent.sendOptions ?? null,
         };
       } else {
         requestBody = {
@@ -785,11 +1169,15 @@ export default function ChatPage() {
       };
     }
 
+    if (schedule) {
+      requestBody = { ...requestBody, scheduledAt: schedule.scheduledAt, timezone: schedule.timezone };
+    }
+
     // Create optimistic message for instant UI feedback
     const optimisticMessage: Message = {
       id: optimisticId,
-      sender_id: user.id,
-      receiver_id: user.id,
+      sender_id: tenantId,
+      receiver_id: tenantId,
       content: messageContent,
       timestamp,
       is_sent_by_me: true,
@@ -797,8 +1185,10 @@ export default function ChatPage() {
       media_data: isTemplate ? content : JSON.stringify({ broadcast_group_id: broadcastGroupId })
     };
 
-    // Add optimistic message to UI immediately
-    setMessages((prev) => [...prev, optimisticMessage]);
+    // Add optimistic message to UI immediately; scheduled broadcasts only show up once sent
+    if (!schedule) {
+      setMessages((prev) => [...prev, optimisticMessage]);
+    }
 
     try {
       console.log(`Broadcasting message to group ${broadcastGroupId}`);
@@ -812,7 +1202,7 @@ export default function ChatPage() {
       });
 
       const rawText = await response.text();
-      let result: { error?: string; job_id?: string; results?: { success: number; total: number }; [key: string]: unknown };
+      let result: { error?: string; job_id?: string; status?: string; scheduled_at?: string; results?: { success: number; total: number }; [key: string]: unknown };
       try {
         result = JSON.parse(rawText);
       } catch {
@@ -825,6 +1215,12 @@ export default function ChatPage() {
         throw new Error(result.error || 'Failed to start broadcast');
       }
 
+      if (result.status === 'scheduled' && schedule && result.scheduled_at) {
+        console.log('Broadcast scheduled successfully:', result);
+        alert(t('broadcast_scheduled_for', { time: formatScheduledTime(result.scheduled_at, schedule.timezone) }));
+        return;
+      }
+
       console.log('Broadcast started successfully:', result);
 
       if (result.job_id) {
@@ -833,7 +1229,7 @@ export default function ChatPage() {
           total: result.results?.total || 0,
           success: 0,
           failed: 0,
-          status: 'processing'
+          status: 'queued'
         });
       }
 
@@ -869,14 +1265,14 @@ export default function ChatPage() {
     }
   };
 
-  const handleSendMessage = async (content: string) => {
+  const handleSendMessage = async (content: string, schedule?: BroadcastSchedule, replyToMessageId?: string) => {
     // Check if we're broadcasting to a group or sending to a single user
     if (broadcastGroupId && broadcastGroupName) {
-      await handleSendBroadcast(content);
+      await handleSendBroadcast(content, schedule);
       return;
     }
 
-    if (!selectedUser || !user || sendingMessage) return;
+    if (!selectedUser || !user || !tenantId || sendingMessage) return;
 
     setSendingMessage(true);
 
@@ -887,13 +1283,14 @@ export default function ChatPage() {
     // Create optimistic message for instant UI feedback
     const optimisticMessage: Message = {
       id: optimisticId,
-      sender_id: user.id,
+      sender_id: tenantId,
       receiver_id: selectedUser.id,
       content,
       timestamp,
       is_sent_by_me: true,
       message_type: 'text',
-      media_data: null
+      media_data: null,
+      reply_to_message_id: replyToMessageId || null
     };
 
     // Add optimistic message to UI immediately
@@ -911,6 +1308,7 @@ export default function ChatPage() {
         body: JSON.stringify({
           to: selectedUser.id,
           message: content,
+          replyTo: replyToMessageId,
         }),
       });
 
@@ -937,7 +1335,7 @@ export default function ChatPage() {
       // Fallback: Store in database only if WhatsApp API fails
       try {
         const fallbackMessage = {
-          sender_id: user.id,
+          sender_id: tenantId,
           receiver_id: selectedUser.id,
           content,
           timestamp: new Date().toISOString(),
@@ -962,8 +1360,12 @@ export default function ChatPage() {
     }
   };
 
+  // Read from the list so changes by teammates show up live
+  const selectedListEntry = users.find(u => u.id === selectedUser?.id);
+  const selectedAssignee = selectedListEntry?.assigned_to ?? null;
+
   // Show loading state while checking setup
-  if (!user || checkingSetup) {
+  if (!user || !tenantId || checkingSetup) {
     return (
       <div className="h-full flex items-center justify-center relative">
         <div className="absolute top-4 right-4">
@@ -1026,15 +1428,25 @@ export default function ChatPage() {
         <div className="absolute top-16 right-4 z-50 bg-white dark:bg-gray-800 rounded-lg shadow-lg border p-4 flex flex-col gap-2 min-w-[250px]">
           <div className="flex justify-between items-center">
             <h4 className="font-semibold text-sm">
-              {broadcastJob.status === 'processing' ? t('broadcast_sending') : t('broadcast_finished')}
+              {broadcastJob.status === 'queued' ? t('broadcast_queued')
+                : broadcastJob.status === 'processing' ? t('broadcast_sending')
+                : broadcastJob.status === 'throttled' ? t('broadcast_throttled')
+                : broadcastJob.status === 'paused' ? t('broadcast_paused')
+                : broadcastJob.status === 'cancelled' ? t('broadcast_cancelled')
+                : t('broadcast_finished')}
             </h4>
-            <button onClick={() => setBroadcastJob(null)} className="text-gray-500 hover:text-gray-700">
+            <button onClick={() => { setBroadcastJob(null); setShowBroadcastDetails(false); }} className="text-gray-500 hover:text-gray-700">
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
             </button>
           </div>
           <p className="text-xs text-muted-foreground mb-1">
             {broadcastJob.success + broadcastJob.failed} / {broadcastJob.total} {t('members')} processed
           </p>
+          {broadcastJob.status === 'throttled' && broadcastJob.throttledUntil && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {t('broadcast_throttled_until', { time: new Date(broadcastJob.throttledUntil).toLocaleTimeString() })}
+            </p>
+          )}
           <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
             <div className={`bg-green-600 h-2.5 rounded-full transition-all duration-500`} style={{ width: `${Math.min(100, Math.max(0, ((broadcastJob.success + broadcastJob.failed) / broadcastJob.total) * 100))}%` }}></div>
           </div>
@@ -1042,9 +1454,45 @@ export default function ChatPage() {
             <span className="text-green-600 font-medium">Success: {broadcastJob.success}</span>
             <span className="text-red-500 font-medium">Failed: {broadcastJob.failed}</span>
           </div>
+          <div className="flex justify-end gap-2 mt-1">
+            <Button size="sm" variant="ghost" onClick={() => setShowBroadcastDetails(true)}>
+              {t('broadcast_details')}
+            </Button>
+            {['queued', 'processing', 'throttled', 'paused'].includes(broadcastJob.status) && (
+              <>
+                {broadcastJob.status === 'paused' ? (
+                  <Button size="sm" variant="outline" onClick={() => handleBroadcastJobAction('resume')}>
+                    {t('resume')}
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => handleBroadcastJobAction('pause')}>
+                    {t('pause')}
+                  </Button>
+                )}
+                <Button size="sm" variant="destructive" onClick={() => handleBroadcastJobAction('cancel')}>
+                  {t('cancel_broadcast')}
+                </Button>
+              </>
+            )}
+          </div>
         </div>
       )}
 
+      {broadcastJob && (
+        <BroadcastJobDetails
+          jobId={broadcastJob.id}
+          jobStatus={broadcastJob.status}
+          isOpen={showBroadcastDetails}
+          onClose={() => setShowBroadcastDetails(false)}
+          onRetryFailed={() => handleBroadcastJobAction('retry_failed')}
+        />
+      )}
+
+      <ScheduledBroadcastsDialog
+        isOpen={showScheduledBroadcasts}
+        onClose={() => setShowScheduledBroadcasts(false)}
+      />
+
       {/* Desktop Layout */}
       {!isMobile && (
         <>
@@ -1054,9 +1502,15 @@ export default function ChatPage() {
               users={users}
               selectedUser={selectedUser}
               onUserSelect={handleUserSelect}
-              currentUserId={user.id}
+              currentUserId={tenantId}
+              currentAgentId={user.id}
+              teamMembers={teamMembers}
+              contactFields={contactFields}
+              defaultCountry={defaultCountry}
+              onContactFieldsChange={refreshContactFields}
               onUsersUpdate={refreshUsers}
               onBroadcastToGroup={handleBroadcastToGroup}
+              onOpenSearchResult={handleOpenSearchResult}
             />
           </div>
 
@@ -1075,6 +1529,28 @@ export default function ChatPage() {
                 setBroadcastGroupName(null);
               }}
               broadcastGroupName={broadcastGroupName}
+              broadcastPreviewRecipients={broadcastPreviewRecipients}
+              onOpenScheduledBroadcasts={() => setShowScheduledBroadcasts(true)}
+              teamMembers={teamMembers}
+              currentAgentId={user.id}
+              assignedTo={selectedAssignee}
+              onAssign={handleAssignConversation}
+              conversationStatus={selectedListEntry?.status}
+              snoozedUntil={selectedListEntry?.snoozed_until}
+              onSetStatus={handleSetConversationStatus}
+              notes={broadcastGroupId ? [] : notes}
+              onAddNote={handleAddNote}
+              onDeleteNote={handleDeleteNote}
+              contactFields={contactFields}
+              contactTags={selectedListEntry?.tags}
+              contactAttributes={selectedListEntry?.attributes}
+              onUpdateContactDetails={handleUpdateContactDetails}
+              onContactFieldsChange={refreshContactFields}
+              focusMessageId={focusMessageId}
+              hasMoreMessages={hasMoreMessages && !broadcastGroupId}
+              isLoadingOlderMessages={loadingOlderMessages}
+              onLoadOlderMessages={loadOlderMessages}
+              onFocusMessageHandled={() => setFocusMessageId(null)}
             />
           </div>
         </>
@@ -1090,9 +1566,15 @@ export default function ChatPage() {
                 users={users}
                 selectedUser={selectedUser}
                 onUserSelect={handleUserSelect}
-                currentUserId={user.id}
+                currentUserId={tenantId}
+                currentAgentId={user.id}
+                teamMembers={teamMembers}
+                contactFields={contactFields}
+                defaultCountry={defaultCountry}
+                onContactFieldsChange={refreshContactFields}
                 onUsersUpdate={refreshUsers}
                 onBroadcastToGroup={handleBroadcastToGroup}
+                onOpenSearchResult={handleOpenSearchResult}
               />
             </div>
           ) : (
@@ -1111,6 +1593,28 @@ export default function ChatPage() {
                 isLoading={sendingMessage}
                 onUpdateName={handleUpdateName}
                 broadcastGroupName={broadcastGroupName}
+                broadcastPreviewRecipients={broadcastPreviewRecipients}
+                onOpenScheduledBroadcasts={() => setShowScheduledBroadcasts(true)}
+                teamMembers={teamMembers}
+                currentAgentId={user.id}
+                assignedTo={selectedAssignee}
+                onAssign={handleAssignConversation}
+                conversationStatus={selectedListEntry?.status}
+                snoozedUntil={selectedListEntry?.snoozed_until}
+                onSetStatus={handleSetConversationStatus}
+                notes={broadcastGroupId ? [] : notes}
+                onAddNote={handleAddNote}
+                onDeleteNote={handleDeleteNote}
+                contactFields={contactFields}
+                contactTags={selectedListEntry?.tags}
+                contactAttributes={selectedListEntry?.attributes}
+                onUpdateContactDetails={handleUpdateContactDetails}
+                onContactFieldsChange={refreshContactFields}
+                focusMessageId={focusMessageId}
+                hasMoreMessages={hasMoreMessages && !broadcastGroupId}
+                isLoadingOlderMessages={loadingOlderMessages}
+                onLoadOlderMessages={loadOlderMessages}
+                onFocusMessageHandled={() => setFocusMessageId(null)}
               />
             </div>
           )}
@@ -6,19 +6,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, AlertCircle, Loader2, Copy, Check, ExternalLink, Eye, EyeOff } from "lucide-react";
+import { CheckCircle2, AlertCircle, Loader2, Copy, Check, ExternalLink, Eye, EyeOff, Users, UserPlus, Trash2 } from "lucide-react";
 import Link from "next/link";
+import { TeamMember, getTeamMemberName } from "@/lib/tenant";
+import { PHONE_COUNTRIES, getCallingCode } from "@/lib/phone";
 
 interface UserSettings {
   access_token_added: boolean;
   webhook_verified: boolean;
   api_version: string;
+  broadcast_rate_per_second?: number;
+  default_country?: string | null;
   phone_number: string | null;
   full_name: string | null;
   has_access_token: boolean;
   has_phone_number_id: boolean;
   has_business_account_id: boolean;
   has_verify_token: boolean;
+  has_app_secret?: boolean;
+  webhook_signature_verified_at?: string | null;
+  webhook_signature_failed_at?: string | null;
+  webhook_signature_error?: string | null;
   webhook_token: string | null;
   access_token?: string | null;
   phone_number_id?: string | null;
@@ -26,6 +34,19 @@ interface UserSettings {
   verify_token?: string | null;
 }
 
+interface TeamInvite {
+  id: string;
+  email: string;
+  created_at: string;
+}
+
+interface PendingInvite {
+  id: string;
+  organization_id: string;
+  organization_name: string | null;
+  created_at: string;
+}
+
 export default function SetupPage() {
   // Settings state
   const [settings, setSettings] = useState<UserSettings | null>(null);
@@ -36,12 +57,16 @@ export default function SetupPage() {
   const [phoneNumberId, setPhoneNumberId] = useState("");
   const [businessAccountId, setBusinessAccountId] = useState("");
   const [apiVersion, setApiVersion] = useState("v23.0");
+  const [broadcastRate, setBroadcastRate] = useState("20");
+  const [defaultCountry, setDefaultCountry] = useState("");
   const [savingAccessToken, setSavingAccessToken] = useState(false);
   const [accessTokenError, setAccessTokenError] = useState<string | null>(null);
   const [accessTokenSuccess, setAccessTokenSuccess] = useState(false);
   
   // Webhook form
   const [verifyToken, setVerifyToken] = useState("");
+  const [appSecret, setAppSecret] = useState("");
+  const [showAppSecret, setShowAppSecret] = useState(false);
   const [savingWebhook, setSavingWebhook] = useState(false);
   const [webhookError, setWebhookError] = useState<string | null>(null);
   const [webhookSuccess, setWebhookSuccess] = useState(false);
@@ -54,17 +79,131 @@ export default function SetupPage() {
   // Show/hide states
   const [showAccessToken, setShowAccessToken] = useState(false);
   
+  // Team state
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [teamInvites, setTeamInvites] = useState<TeamInvite[]>([]);
+  const [isOwner, setIsOwner] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviting, setInviting] = useState(false);
+  const [teamError, setTeamError] = useState<string | null>(null);
+  
+  // Invites to join someone else's organization
+  const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([]);
+  const [acceptingInviteId, setAcceptingInviteId] = useState<string | null>(null);
+  const [acceptInviteError, setAcceptInviteError] = useState<string | null>(null);
+  
   // Get user and settings on mount
   useEffect(() => {
     loadSettings();
+    loadTeam();
   }, []);
   
+  const loadTeam = async () => {
+    try {
+      const response = await fetch('/api/organization/members');
+      const data = await response.json();
+      
+      if (response.ok) {
+        setTeamMembers(data.members || []);
+        setTeamInvites(data.invites || []);
+        setIsOwner(!!data.isOwner);
+      }
+    } catch (error) {
+      console.error('Error loading team:', error);
+    }
+  };
+  
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    
+    setInviting(true);
+    setTeamError(null);
+    
+    try {
+      const response = await fetch('/api/organization/members', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail.trim() }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to invite agent');
+      }
+      
+      setInviteEmail("");
+      await loadTeam();
+    } catch (error) {
+      setTeamError(error instanceof Error ? error.message : 'Failed to invite agent');
+    } finally {
+      setInviting(false);
+    }
+  };
+  
+  const handleRemoveMember = async (member: TeamMember) => {
+    if (!confirm(`Remove ${getTeamMemberName(member)} from your team? Their conversations become unassigned.`)) return;
+    
+    setTeamError(null);
+    try {
+      const response = await fetch(`/api/organization/members/${member.user_id}`, { method: 'DELETE' });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove agent');
+      }
+      
+      await loadTeam();
+    } catch (error) {
+      setTeamError(error instanceof Error ? error.message : 'Failed to remove agent');
+    }
+  };
+  
+  const handleRevokeInvite = async (invite: TeamInvite) => {
+    setTeamError(null);
+    try {
+      const response = await fetch(`/api/organization/invites/${invite.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke invite');
+      }
+      
+      await loadTeam();
+    } catch (error) {
+      setTeamError(error instanceof Error ? error.message : 'Failed to revoke invite');
+    }
+  };
+  
+  const handleAcceptInvite = async (invite: PendingInvite) => {
+    setAcceptingInviteId(invite.id);
+    setAcceptInviteError(null);
+    
+    try {
+      const response = await fetch(`/api/organization/invites/${invite.id}/accept`, { method: 'POST' });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to accept invite');
+      }
+      
+      await loadSettings();
+      await loadTeam();
+    } catch (error) {
+      setAcceptInviteError(error instanceof Error ? error.message : 'Failed to accept invite');
+    } finally {
+      setAcceptingInviteId(null);
+    }
+  };
+  
   const loadSettings = async () => {
     try {
       setLoading(true);
       const response = await fetch('/api/settings/save');
       const data = await response.json();
       
+      setPendingInvites(response.ok ? data.pending_invites || [] : []);
+      
       if (response.ok && data.settings) {
         setSettings(data.settings);
         
@@ -82,6 +221,8 @@ export default function SetupPage() {
           setVerifyToken(data.settings.verify_token);
         }
         setApiVersion(data.settings.api_version || 'v23.0');
+        setBroadcastRate(String(data.settings.broadcast_rate_per_second || 20));
+        setDefaultCountry(data.settings.default_country || '');
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -114,6 +255,13 @@ export default function SetupPage() {
         setSavingAccessToken(false);
         return;
       }
+
+      const rate = Number(broadcastRate);
+      if (!Number.isInteger(rate) || rate < 1 || rate > 1000) {
+        setAccessTokenError("Broadcast send rate must be a whole number between 1 and 1000");
+        setSavingAccessToken(false);
+        return;
+      }
       
       const response = await fetch('/api/settings/save', {
         method: 'POST',
@@ -123,6 +271,8 @@ export default function SetupPage() {
           phone_number_id: phoneNumberId,
           business_account_id: businessAccountId,
           api_version: apiVersion,
+          broadcast_rate_per_second: Number(broadcastRate),
+          default_country: defaultCountry || null,
         }),
       });
       
@@ -163,6 +313,8 @@ export default function SetupPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           verify_token: verifyToken,
+          // Left empty, the stored secret is kept
+          ...(appSecret.trim() && { app_secret: appSecret.trim() }),
         }),
       });
       
@@ -173,6 +325,7 @@ export default function SetupPage() {
       }
       
       setWebhookSuccess(true);
+      setAppSecret("");
       
       // Reload settings
       await loadSettings();
@@ -213,6 +366,12 @@ export default function SetupPage() {
   
   const isSetupComplete = settings?.access_token_added || settings?.webhook_verified;
   
+  // Signature checks are failing when the latest result recorded is a failure
+  const signatureFailing = !!settings?.webhook_signature_failed_at && (
+    !settings.webhook_signature_verified_at ||
+    new Date(settings.webhook_signature_failed_at) > new Date(settings.webhook_signature_verified_at)
+  );
+  
   if (loading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -237,6 +396,41 @@ export default function SetupPage() {
           </p>
         </div>
         
+        {/* Pending Invites */}
+        {pendingInvites.length > 0 && (
+          <Card className="mb-6 border-blue-200 bg-blue-50 dark:bg-blue-950/20 dark:border-blue-900">
+            <CardContent className="pt-6 space-y-3">
+              <div className="flex items-start gap-3">
+                <UserPlus className="h-6 w-6 text-blue-600 dark:text-blue-400 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-blue-900 dark:text-blue-100 mb-1">
+                    You have been invited to join a team
+                  </p>
+                  <p className="text-sm text-blue-700 dark:text-blue-300">
+                    Join as an agent to answer conversations from the team&apos;s WhatsApp number, or set up your own number below instead
+                  </p>
+                </div>
+              </div>
+              {pendingInvites.map((invite) => (
+                <div key={invite.id} className="flex items-center justify-between gap-3 rounded-lg border border-blue-200 dark:border-blue-900 bg-background p-3">
+                  <p className="font-medium truncate">{invite.organization_name || 'Unnamed team'}</p>
+                  <Button
+                    size="sm"
+                    onClick={() => handleAcceptInvite(invite)}
+                    disabled={acceptingInviteId !== null}
+                  >
+                    {acceptingInviteId === invite.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Join team
+                  </Button>
+                </div>
+              ))}
+              {acceptInviteError && (
+                <p className="text-sm text-red-600">{acceptInviteError}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+        
         {/* Setup Status Banner */}
         {isSetupComplete && (
           <Card className="mb-6 border-green-200 bg-green-50 dark:bg-green-950/20 dark:border-green-900">
@@ -423,6 +617,43 @@ export default function SetupPage() {
                     Default: v23.0 (recommended)
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="broadcast-rate">Broadcast Send Rate</Label>
+                  <Input
+                    id="broadcast-rate"
+                    type="number"
+                    min={1}
+                    max={1000}
+                    placeholder="20"
+                    value={broadcastRate}
+                    onChange={(e) => setBroadcastRate(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Messages per second sent from this phone number during broadcasts. Throttled sends are retried automatically.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="default-country">Default Country</Label>
+                  <select
+                    id="default-country"
+                    value={defaultCountry}
+                    onChange={(e) => setDefaultCountry(e.target.value)}
+                    className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+                  >
+                    <option value="">None (country code required)</option>
+                    {PHONE_COUNTRIES.map(country => (
+                      <option key={country} value={country}>
+                        {country} (+{getCallingCode(country)})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Phone numbers typed or imported without a country code are read as numbers from this country.
+                  </p>
+                </div>
                 
                 {accessTokenError && (
                   <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg flex items-start gap-2">
@@ -560,6 +791,51 @@ export default function SetupPage() {
                   </p>
                 </div>
                 
+                {/* App Secret */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="app-secret">App Secret</Label>
+                    {settings?.has_app_secret && (
+                      <Badge variant="secondary" className="text-xs">
+                        Configured
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      id="app-secret"
+                      type={showAppSecret ? "text" : "password"}
+                      placeholder={settings?.has_app_secret ? "Leave empty to keep the saved secret" : "Enter your Meta app secret"}
+                      value={appSecret}
+                      onChange={(e) => setAppSecret(e.target.value)}
+                      className="font-mono text-sm"
+                      autoComplete="off"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setShowAppSecret(!showAppSecret)}
+                    >
+                      {showAppSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Found in your Meta app under App settings → Basic. Used to verify the X-Hub-Signature-256 header on every webhook request
+                  </p>
+                </div>
+                
+                {settings?.has_app_secret && signatureFailing && (
+                  <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Webhook signature checks are failing and requests are being rejected
+                      {settings.webhook_signature_error && `: ${settings.webhook_signature_error}`}
+                      {' '}(last failure {new Date(settings.webhook_signature_failed_at!).toLocaleString()}). Check that the app secret matches your Meta app.
+                    </span>
+                  </div>
+                )}
+                
                 {/* Instructions */}
                 <div className="bg-muted p-4 rounded-lg space-y-2 text-sm">
                   <p className="font-semibold">Setup Instructions:</p>
@@ -612,11 +888,110 @@ export default function SetupPage() {
                     ✓ Webhook verified and active
                   </p>
                 )}
+                
+                {!settings?.has_app_secret && (
+                  <p className="text-sm text-center text-amber-600">
+                    ⚠ Add your app secret. Webhook requests are rejected until it is saved, since they cannot be verified without it
+                  </p>
+                )}
+                
+                {settings?.has_app_secret && !signatureFailing && settings.webhook_signature_verified_at && (
+                  <p className="text-sm text-center text-muted-foreground">
+                    ✓ Webhook signatures verified
+                  </p>
+                )}
               </form>
             </CardContent>
           </Card>
         </div>
         
+        {/* Team */}
+        <Card className="mt-6 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <Users className="h-6 w-6" />
+              Team
+            </CardTitle>
+            <CardDescription className="mt-2">
+              {isOwner
+                ? "Invite agents to answer conversations from this WhatsApp number. They join from this page after signing in with the invited email."
+                : "You are an agent on this WhatsApp number. Settings are managed by the organization owner."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="divide-y divide-border border border-border rounded-lg">
+              {teamMembers.map((member) => (
+                <div key={member.user_id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{getTeamMemberName(member)}</p>
+                    {member.email && member.display_name && (
+                      <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>
+                      {member.role === 'owner' ? 'Owner' : 'Agent'}
+                    </Badge>
+                    {isOwner && member.role !== 'owner' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveMember(member)}
+                        title="Remove from team"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {teamInvites.map((invite) => (
+                <div key={invite.id} className="flex items-center justify-between gap-3 p-3">
+                  <p className="text-muted-foreground truncate">{invite.email}</p>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge variant="outline">Invited</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevokeInvite(invite)}
+                      title="Revoke invite"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            
+            {isOwner && (
+              <form onSubmit={handleInvite} className="flex gap-2">
+                <Input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="agent@example.com"
+                  disabled={inviting}
+                />
+                <Button
+                  type="submit"
+                  disabled={inviting || !inviteEmail.trim()}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                  Invite
+                </Button>
+              </form>
+            )}
+            
+            {teamError && (
+              <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{teamError}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        
         {/* Help Section */}
         <Card className="mt-6 border-dashed">
           <CardHeader>
@@ -638,6 +1013,9 @@ export default function SetupPage() {
             <p>
               • <strong>Verify Token:</strong> A security token you create to verify webhook requests from Meta (choose a strong, random string)
             </p>
+            <p>
+              • <strong>App Secret:</strong> Your Meta app&apos;s secret. Every webhook request is signed with it, and requests with a missing or wrong signature are rejected
+            </p>
             <p className="pt-2 border-t border-border">
               <strong>Note:</strong> Your unique webhook URL is automatically generated when you first visit this page. Use this URL in your Meta Business Suite webhook configuration.
             </p>
@@ -19,33 +19,25 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-
-// Type definitions
-interface TemplateComponent {
-  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
-  format?: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
-  text?: string;
-  example?: {
-    header_text?: string[];
-    body_text?: string[][];
-  };
-  buttons?: ButtonComponent[];
-}
-
-interface ButtonComponent {
-  type: 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER' | 'CATALOG' | 'OTP';
-  text: string;
-  url?: string;
-  phone_number?: string;
-}
-
-interface CreateTemplateRequest {
-  name: string;
-  category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
-  language: string;
-  components: TemplateComponent[];
-  message_send_ttl_seconds?: number;
-}
+import {
+  CAROUSEL_CARD_BODY_MAX_LENGTH,
+  CAROUSEL_CARD_MAX_BUTTONS,
+  CAROUSEL_MAX_CARDS,
+  CAROUSEL_MIN_CARDS,
+  CODE_EXPIRATION_MAX_MINUTES,
+  CODE_EXPIRATION_MIN_MINUTES,
+  COPY_CODE_MAX_LENGTH,
+  CarouselCard,
+  CreateTemplateRequest,
+  LIMITED_TIME_OFFER_TEXT_MAX_LENGTH,
+  NAMED_PARAMETER_PATTERN,
+  OtpSupportedApp,
+  TemplateButton,
+  TemplateComponent,
+  TemplateParameterFormat,
+  extractTemplateVariables,
+  isPositionalVariable,
+} from "@/lib/template-components";
 
 // Language options based on WhatsApp supported languages
 const SUPPORTED_LANGUAGES = [
@@ -65,11 +57,39 @@ const SUPPORTED_LANGUAGES = [
   { code: 'ko', name: 'Korean' },
 ];
 
+const BUTTON_TYPES: TemplateButton['type'][] = ['QUICK_REPLY', 'URL', 'PHONE_NUMBER', 'CATALOG'];
+const CAROUSEL_BUTTON_TYPES: TemplateButton['type'][] = ['QUICK_REPLY', 'URL', 'PHONE_NUMBER'];
+
+const BUTTON_TYPE_LABELS: Record<string, string> = {
+  QUICK_REPLY: 'Quick Reply',
+  URL: 'URL',
+  PHONE_NUMBER: 'Phone Number',
+  CATALOG: 'Catalog',
+  COPY_CODE: 'Copy Code',
+};
+
+// Meta writes the body, footer and button label of authentication templates
+const AUTHENTICATION_COMPONENTS: TemplateComponent[] = [
+  { type: 'BODY', add_security_recommendation: true },
+  { type: 'FOOTER', code_expiration_minutes: 10 },
+  { type: 'BUTTONS', buttons: [{ type: 'OTP', otp_type: 'COPY_CODE', text: 'Copy code' }] },
+];
+
+const newCarouselCard = (format: TemplateComponent['format'], buttons?: TemplateButton[]): CarouselCard => ({
+  components: [
+    { type: 'HEADER', format, example: { header_handle: [''] } },
+    { type: 'BODY', text: '' },
+    // New cards copy the first card's buttons; all cards must match
+    { type: 'BUTTONS', buttons: buttons?.map(button => ({ ...button })) || [{ type: 'QUICK_REPLY', text: '' }] },
+  ],
+});
+
 export default function NewTemplatePage() {
   const [templateData, setTemplateData] = useState<CreateTemplateRequest>({
     name: '',
     category: 'UTILITY',
     language: 'en_US',
+    parameter_format: 'POSITIONAL',
     components: [
       {
         type: 'BODY',
@@ -83,35 +103,84 @@ export default function NewTemplatePage() {
   const [showPreview, setShowPreview] = useState(false);
   const router = useRouter();
 
-  // Extract variables from text (e.g., {{1}}, {{2}})
-  const extractVariables = (text: string): number[] => {
-    if (!text) return [];
-    const variableRegex = /\{\{(\d+)\}\}/g;
-    const variables: number[] = [];
-    let match;
-    
-    while ((match = variableRegex.exec(text)) !== null) {
-      const varNum = parseInt(match[1], 10);
-      if (!variables.includes(varNum)) {
-        variables.push(varNum);
-      }
+  // Variables in a text: {{1}}, {{2}} or {{first_name}}
+  const extractVariables = (text: string): string[] => extractTemplateVariables(text || '');
+
+  const isNamed = templateData.parameter_format === 'NAMED';
+
+  // Example values of a header or body, by variable
+  const getExamples = (component: TemplateComponent | undefined): Record<string, string> => {
+    if (!component) return {};
+    const variables = extractVariables(component.text || '');
+    const examples: Record<string, string> = {};
+    if (isNamed) {
+      const named = component.type === 'HEADER'
+        ? component.example?.header_text_named_params
+        : component.example?.body_text_named_params;
+      named?.forEach(param => { examples[param.param_name] = param.example; });
+    } else {
+      const positional = component.type === 'HEADER'
+        ? component.example?.header_text
+        : component.example?.body_text?.[0];
+      variables.forEach((variable, varIndex) => {
+        if (positional?.[varIndex]) examples[variable] = positional[varIndex];
+      });
     }
-    
-    return variables.sort((a, b) => a - b);
+    return examples;
+  };
+
+  // Examples in the shape the parameter format expects, for the variables in the text
+  const toExample = (component: TemplateComponent, examples: Record<string, string>): TemplateComponent['example'] => {
+    const variables = extractVariables(component.text || '');
+    if (variables.length === 0) return undefined;
+    const isHeader = component.type === 'HEADER';
+    if (isNamed) {
+      const params = variables.map(name => ({ param_name: name, example: examples[name] || '' }));
+      return isHeader ? { header_text_named_params: params } : { body_text_named_params: params };
+    }
+    const values = variables.map(name => examples[name] || '');
+    return isHeader ? { header_text: values } : { body_text: [values] };
+  };
+
+  const setExample = (index: number, component: TemplateComponent, variable: string, value: string) => {
+    updateComponent(index, { example: toExample(component, { ...getExamples(component), [variable]: value }) });
   };
 
   // Replace variables with example values for preview
-  const replaceVariablesWithExamples = (text: string, examples?: string[]): string => {
-    if (!text || !examples || examples.length === 0) return text;
-    
-    let result = text;
-    examples.forEach((example, index) => {
-      const varNum = index + 1;
-      const regex = new RegExp(`\\{\\{${varNum}\\}\\}`, 'g');
-      result = result.replace(regex, example || `{{${varNum}}}`);
+  const replaceVariablesWithExamples = (text: string, examples: Record<string, string>): string => {
+    if (!text) return text;
+    return text.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (match, variable) => examples[variable] || match);
+  };
+
+  // Examples are kept in one shape only, so switching formats clears them
+  const changeParameterFormat = (parameterFormat: TemplateParameterFormat) => {
+    const components = templateData.components.map(c =>
+      c.type === 'HEADER' || c.type === 'BODY' ? { ...c, example: undefined } : c
+    );
+    setTemplateData({ ...templateData, parameter_format: parameterFormat, components });
+  };
+
+  // Validate the buttons of a BUTTONS component or a carousel card
+  const validateButtons = (buttons: TemplateButton[], label: string): string[] => {
+    const errors: string[] = [];
+    buttons.forEach((button, buttonIndex) => {
+      if (button.type === 'COPY_CODE') {
+        if (typeof button.example !== 'string' || !button.example.trim()) {
+          errors.push(`${label} ${buttonIndex + 1} example code is required`);
+        }
+        return;
+      }
+      if (!button.text?.trim()) {
+        errors.push(`${label} ${buttonIndex + 1} text is required`);
+      }
+      if (button.type === 'URL' && !button.url?.trim()) {
+        errors.push(`${label} ${buttonIndex + 1} URL is required`);
+      }
+      if (button.type === 'PHONE_NUMBER' && !button.phone_number?.trim()) {
+        errors.push(`${label} ${buttonIndex + 1} phone number is required`);
+      }
     });
-    
-    return result;
+    return errors;
   };
 
   // Validate template data
@@ -140,6 +209,48 @@ export default function NewTemplatePage() {
       errors.push('Template must have a BODY component');
     }
 
+    // Authentication templates only configure the code
+    if (templateData.category === 'AUTHENTICATION') {
+      const footer = templateData.components.find(c => c.type === 'FOOTER');
+      const minutes = footer?.code_expiration_minutes;
+      if (minutes !== undefined && (minutes < CODE_EXPIRATION_MIN_MINUTES || minutes > CODE_EXPIRATION_MAX_MINUTES)) {
+        errors.push(`Code expiration must be between ${CODE_EXPIRATION_MIN_MINUTES} and ${CODE_EXPIRATION_MAX_MINUTES} minutes`);
+      }
+      const otpButton = templateData.components.find(c => c.type === 'BUTTONS')?.buttons?.[0];
+      if (otpButton?.otp_type === 'ONE_TAP') {
+        if (!otpButton.supported_apps?.length) {
+          errors.push('One-tap codes require at least one Android app');
+        }
+        otpButton.supported_apps?.forEach((app, appIndex) => {
+          if (!app.package_name.trim() || !app.signature_hash.trim()) {
+            errors.push(`App ${appIndex + 1} package name and signature hash are required`);
+          } else if (app.signature_hash.trim().length !== 11) {
+            errors.push(`App ${appIndex + 1} signature hash must be 11 characters`);
+          }
+        });
+      }
+      return errors;
+    }
+
+    // Variables must match the parameter format
+    templateData.components
+      .filter(component => component.type === 'HEADER' || component.type === 'BODY')
+      .forEach(component => {
+        const variables = extractVariables(component.text || '');
+        const name = component.type === 'HEADER' ? 'Header' : 'Body';
+        if (isNamed && variables.some(v => !NAMED_PARAMETER_PATTERN.test(v))) {
+          errors.push(`${name} variables must be names like {{first_name}}: lowercase letters, digits and underscores`);
+        }
+        if (!isNamed && variables.some(v => !isPositionalVariable(v))) {
+          errors.push(`${name} uses named variables; set Variables to Named or use {{1}}, {{2}}`);
+        }
+        const examples = getExamples(component);
+        const missing = variables.filter(v => !examples[v]?.trim());
+        if (missing.length > 0) {
+          errors.push(`${name} needs example values for ${missing.map(v => `{{${v}}}`).join(', ')}`);
+        }
+      });
+
     // Validate each component
     templateData.components.forEach((component) => {
       if (component.type === 'BODY' && !component.text?.trim()) {
@@ -155,16 +266,38 @@ export default function NewTemplatePage() {
       }
 
       if (component.type === 'BUTTONS' && component.buttons) {
-        component.buttons.forEach((button, buttonIndex) => {
-          if (!button.text?.trim()) {
-            errors.push(`Button ${buttonIndex + 1} text is required`);
+        errors.push(...validateButtons(component.buttons, 'Button'));
+      }
+
+      if (component.type === 'LIMITED_TIME_OFFER') {
+        if (!component.limited_time_offer?.text.trim()) {
+          errors.push('Offer text is required');
+        }
+        if (component.limited_time_offer?.has_expiration &&
+          templateData.components.find(c => c.type === 'BUTTONS')?.buttons?.[0]?.type !== 'COPY_CODE') {
+          errors.push('Offers with an expiration need a Copy Code button as the first button');
+        }
+      }
+
+      if (component.type === 'CAROUSEL') {
+        const cards = component.cards || [];
+        if (cards.length < CAROUSEL_MIN_CARDS || cards.length > CAROUSEL_MAX_CARDS) {
+          errors.push(`A carousel needs between ${CAROUSEL_MIN_CARDS} and ${CAROUSEL_MAX_CARDS} cards`);
+        }
+        cards.forEach((card, cardIndex) => {
+          const header = card.components.find(c => c.type === 'HEADER');
+          const body = card.components.find(c => c.type === 'BODY');
+          const buttons = card.components.find(c => c.type === 'BUTTONS')?.buttons || [];
+          if (!header?.example?.header_handle?.[0]?.trim()) {
+            errors.push(`Card ${cardIndex + 1} sample media handle is required`);
           }
-          if (button.type === 'URL' && !button.url?.trim()) {
-            errors.push(`Button ${buttonIndex + 1} URL is required`);
+          if (!body?.text?.trim()) {
+            errors.push(`Card ${cardIndex + 1} body text is required`);
           }
-          if (button.type === 'PHONE_NUMBER' && !button.phone_number?.trim()) {
-            errors.push(`Button ${buttonIndex + 1} phone number is required`);
+          if (buttons.length === 0) {
+            errors.push(`Card ${cardIndex + 1} needs at least one button`);
           }
+          errors.push(...validateButtons(buttons, `Card ${cardIndex + 1} button`));
         });
       }
     });
@@ -190,6 +323,10 @@ export default function NewTemplatePage() {
       newComponent.text = '';
     } else if (type === 'BUTTONS') {
       newComponent.buttons = [{ type: 'QUICK_REPLY', text: '' }];
+    } else if (type === 'CAROUSEL') {
+      newComponent.cards = [newCarouselCard('IMAGE'), newCarouselCard('IMAGE')];
+    } else if (type === 'LIMITED_TIME_OFFER') {
+      newComponent.limited_time_offer = { text: '', has_expiration: true };
     }
 
     setTemplateData({
@@ -198,6 +335,77 @@ export default function NewTemplatePage() {
     });
   };
 
+  // Switching to or from AUTHENTICATION replaces the components, since
+  // authentication templates have a fixed layout
+  const changeCategory = (category: CreateTemplateRequest['category']) => {
+    let components = templateData.components;
+    if (category === 'AUTHENTICATION') {
+      components = AUTHENTICATION_COMPONENTS.map(c => ({ ...c, buttons: c.buttons?.map(button => ({ ...button })) }));
+    } else if (templateData.category === 'AUTHENTICATION') {
+      components = [{ type: 'BODY', text: '' }];
+    } else if (category !== 'MARKETING') {
+      components = components.filter(c => c.type !== 'CAROUSEL' && c.type !== 'LIMITED_TIME_OFFER');
+    }
+    setTemplateData({ ...templateData, category, components });
+  };
+
+  // Update one component of a carousel card
+  const updateCardComponent = (
+    componentIndex: number,
+    cardIndex: number,
+    type: TemplateComponent['type'],
+    updates: Partial<TemplateComponent>
+  ) => {
+    const cards = (templateData.components[componentIndex].cards || []).map((card, i) =>
+      i !== cardIndex ? card : {
+        components: card.components.map(c => c.type === type ? { ...c, ...updates } : c)
+      }
+    );
+    updateComponent(componentIndex, { cards });
+  };
+
+  // All cards share the header format
+  const updateCarouselFormat = (componentIndex: number, format: TemplateComponent['format']) => {
+    const cards = (templateData.components[componentIndex].cards || []).map(card => ({
+      components: card.components.map(c => c.type === 'HEADER' ? { ...c, format } : c)
+    }));
+    updateComponent(componentIndex, { cards });
+  };
+
+  const addCard = (componentIndex: number) => {
+    const cards = templateData.components[componentIndex].cards || [];
+    const first = cards[0]?.components;
+    const format = first?.find(c => c.type === 'HEADER')?.format || 'IMAGE';
+    const buttons = first?.find(c => c.type === 'BUTTONS')?.buttons
+      ?.map(button => ({ ...button, text: '', url: button.type === 'URL' ? '' : undefined }));
+    updateComponent(componentIndex, { cards: [...cards, newCarouselCard(format, buttons)] });
+  };
+
+  const removeCard = (componentIndex: number, cardIndex: number) => {
+    const cards = (templateData.components[componentIndex].cards || []).filter((_, i) => i !== cardIndex);
+    updateComponent(componentIndex, { cards });
+  };
+
+  const updateCardButtons = (componentIndex: number, cardIndex: number, buttons: TemplateButton[]) => {
+    updateCardComponent(componentIndex, cardIndex, 'BUTTONS', { buttons });
+  };
+
+  // The single OTP button of an authentication template
+  const otpButtonsIndex = templateData.components.findIndex(c => c.type === 'BUTTONS');
+  const otpButton = templateData.category === 'AUTHENTICATION'
+    ? templateData.components[otpButtonsIndex]?.buttons?.[0]
+    : undefined;
+
+  const updateOtpButton = (updates: Partial<TemplateButton>) => {
+    updateButton(otpButtonsIndex, 0, updates);
+  };
+
+  const updateSupportedApp = (appIndex: number, updates: Partial<OtpSupportedApp>) => {
+    const apps = [...(otpButton?.supported_apps || [])];
+    apps[appIndex] = { ...apps[appIndex], ...updates };
+    updateOtpButton({ supported_apps: apps });
+  };
+
   // Remove component
   const removeComponent = (index: number) => {
     const newComponents = templateData.components.filter((_, i) => i !== index);
@@ -227,7 +435,7 @@ export default function NewTemplatePage() {
   };
 
   // Update button
-  const updateButton = (componentIndex: number, buttonIndex: number, updates: Partial<ButtonComponent>) => {
+  const updateButton = (componentIndex: number, buttonIndex: number, updates: Partial<TemplateButton>) => {
     const newComponents = [...templateData.components];
     const component = newComponents[componentIndex];
     
@@ -251,12 +459,19 @@ export default function NewTemplatePage() {
     try {
       console.log('Creating template:', templateData);
 
+      // Drop examples of variables removed from the text since
+      const components = templateData.components.map(c =>
+        (c.type === 'HEADER' && c.format === 'TEXT') || (c.type === 'BODY' && templateData.category !== 'AUTHENTICATION')
+          ? { ...c, example: toExample(c, getExamples(c)) }
+          : c
+      );
+
       const response = await fetch('/api/templates/create', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(templateData),
+        body: JSON.stringify({ ...templateData, components }),
       });
 
       const result = await response.json();
@@ -285,10 +500,98 @@ export default function NewTemplatePage() {
       case 'BODY': return 'Body';
       case 'FOOTER': return 'Footer';
       case 'BUTTONS': return 'Buttons';
+      case 'CAROUSEL': return 'Carousel';
+      case 'LIMITED_TIME_OFFER': return 'Limited-Time Offer';
       default: return type;
     }
   };
 
+  // Type, text and type-specific fields of one button
+  const renderButtonFields = (
+    button: TemplateButton,
+    onChange: (updates: Partial<TemplateButton>) => void,
+    types: TemplateButton['type'][]
+  ) => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label>Button Type</Label>
+          <select
+            value={button.type}
+            onChange={(e) => onChange({ 
+              type: e.target.value as TemplateButton['type'],
+              text: e.target.value === 'COPY_CODE' ? undefined : button.text || '',
+              url: e.target.value === 'URL' ? button.url : undefined,
+              phone_number: e.target.value === 'PHONE_NUMBER' ? button.phone_number : undefined,
+              example: undefined
+            })}
+            className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {types.map(type => (
+              <option key={type} value={type}>{BUTTON_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        
+        {button.type === 'COPY_CODE' ? (
+          <div>
+            <Label>Example Code</Label>
+            <Input
+              value={typeof button.example === 'string' ? button.example : ''}
+              onChange={(e) => onChange({ example: e.target.value })}
+              placeholder="SUMMER25"
+              className="mt-1"
+              maxLength={COPY_CODE_MAX_LENGTH}
+            />
+          </div>
+        ) : (
+          <div>
+            <Label>Button Text</Label>
+            <Input
+              value={button.text || ''}
+              onChange={(e) => onChange({ text: e.target.value })}
+              placeholder="Button text..."
+              className="mt-1"
+              maxLength={25}
+            />
+          </div>
+        )}
+      </div>
+
+      {button.type === 'URL' && (
+        <div className="mt-3">
+          <Label>URL</Label>
+          <Input
+            value={button.url || ''}
+            onChange={(e) => onChange({ url: e.target.value })}
+            placeholder="https://example.com"
+            className="mt-1"
+          />
+          {extractVariables(button.url || '').length > 0 && (
+            <Input
+              value={Array.isArray(button.example) ? button.example[0] || '' : ''}
+              onChange={(e) => onChange({ example: [e.target.value] })}
+              placeholder="Example URL, e.g. https://example.com/summer"
+              className="mt-2"
+            />
+          )}
+        </div>
+      )}
+
+      {button.type === 'PHONE_NUMBER' && (
+        <div className="mt-3">
+          <Label>Phone Number</Label>
+          <Input
+            value={button.phone_number || ''}
+            onChange={(e) => onChange({ phone_number: e.target.value })}
+            placeholder="+1234567890"
+            className="mt-1"
+          />
+        </div>
+      )}
+    </>
+  );
+
   return (
     <div className="h-full flex flex-col bg-background">
       {/* Header */}
@@ -405,7 +708,7 @@ export default function NewTemplatePage() {
                     <select
                       id="category"
                       value={templateData.category}
-                      onChange={(e) => setTemplateData({ ...templateData, category: e.target.value as CreateTemplateRequest['category'] })}
+                      onChange={(e) => changeCategory(e.target.value as CreateTemplateRequest['category'])}
                       className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
                     >
                       <option value="UTILITY">Utility</option>
@@ -414,6 +717,24 @@ export default function NewTemplatePage() {
                     </select>
                   </div>
 
+                  {templateData.category !== 'AUTHENTICATION' && (
+                    <div>
+                      <Label htmlFor="parameter-format">Variables</Label>
+                      <select
+                        id="parameter-format"
+                        value={templateData.parameter_format || 'POSITIONAL'}
+                        onChange={(e) => changeParameterFormat(e.target.value as TemplateParameterFormat)}
+                        className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
+                      >
+                        <option value="POSITIONAL">Numbered ({'{{1}}'}, {'{{2}}'})</option>
+                        <option value="NAMED">Named ({'{{first_name}}'})</option>
+                      </select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Named variables are easier to match to contact fields when sending
+                      </p>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="ttl">TTL (seconds)</Label>
                     <Input
@@ -435,7 +756,148 @@ export default function NewTemplatePage() {
               </div>
             </div>
 
-            {/* Template Components */}
+            {/* Authentication templates: Meta writes the text, we configure the code */}
+            {templateData.category === 'AUTHENTICATION' ? (
+              <div className="bg-card border border-border rounded-lg p-6 space-y-6">
+                <div>
+                  <h2 className="text-lg font-semibold">One-Time Password</h2>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    WhatsApp provides the message text. The code is filled in when the template is sent.
+                  </p>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!templateData.components.find(c => c.type === 'BODY')?.add_security_recommendation}
+                    onChange={(e) => updateComponent(
+                      templateData.components.findIndex(c => c.type === 'BODY'),
+                      { add_security_recommendation: e.target.checked }
+                    )}
+                  />
+                  Add security recommendation (&quot;For your security, do not share this code.&quot;)
+                </label>
+
+                <div>
+                  <Label htmlFor="code-expiration">Code expires after (minutes)</Label>
+                  <Input
+                    id="code-expiration"
+                    type="number"
+                    min={CODE_EXPIRATION_MIN_MINUTES}
+                    max={CODE_EXPIRATION_MAX_MINUTES}
+                    value={templateData.components.find(c => c.type === 'FOOTER')?.code_expiration_minutes ?? ''}
+                    onChange={(e) => updateComponent(
+                      templateData.components.findIndex(c => c.type === 'FOOTER'),
+                      { code_expiration_minutes: e.target.value ? parseInt(e.target.value) : undefined }
+                    )}
+                    placeholder="Optional"
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Between {CODE_EXPIRATION_MIN_MINUTES} and {CODE_EXPIRATION_MAX_MINUTES} minutes. Leave empty to hide the expiry note.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="otp-type">Code delivery</Label>
+                    <select
+                      id="otp-type"
+                      value={otpButton?.otp_type || 'COPY_CODE'}
+                      onChange={(e) => updateOtpButton(e.target.value === 'ONE_TAP'
+                        ? { otp_type: 'ONE_TAP', autofill_text: 'Autofill', supported_apps: otpButton?.supported_apps?.length ? otpButton.supported_apps : [{ package_name: '', signature_hash: '' }] }
+                        : { otp_type: 'COPY_CODE', autofill_text: undefined, supported_apps: undefined }
+                      )}
+                      className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      <option value="COPY_CODE">Copy code</option>
+                      <option value="ONE_TAP">One-tap autofill (Android)</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="otp-text">Button Text</Label>
+                    <Input
+                      id="otp-text"
+                      value={otpButton?.text || ''}
+                      onChange={(e) => updateOtpButton({ text: e.target.value })}
+                      placeholder="Copy code"
+                      className="mt-1"
+                      maxLength={25}
+                    />
+                  </div>
+                </div>
+
+                {otpButton?.otp_type === 'ONE_TAP' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="autofill-text">Autofill Button Text</Label>
+                      <Input
+                        id="autofill-text"
+                        value={otpButton.autofill_text || ''}
+                        onChange={(e) => updateOtpButton({ autofill_text: e.target.value })}
+                        placeholder="Autofill"
+                        className="mt-1"
+                        maxLength={25}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Shown when the app can receive the code; otherwise the copy code button is shown.
+                      </p>
+                    </div>
+
+                    {otpButton.supported_apps?.map((app, appIndex) => (
+                      <div key={appIndex} className="bg-muted/50 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <h4 className="font-medium text-sm">Android App {appIndex + 1}</h4>
+                          {(otpButton.supported_apps?.length || 0) > 1 && (
+                            <Button
+                              onClick={() => updateOtpButton({ supported_apps: otpButton.supported_apps?.filter((_, i) => i !== appIndex) })}
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div>
+                            <Label>Package Name</Label>
+                            <Input
+                              value={app.package_name}
+                              onChange={(e) => updateSupportedApp(appIndex, { package_name: e.target.value })}
+                              placeholder="com.example.app"
+                              className="mt-1"
+                            />
+                          </div>
+                          <div>
+                            <Label>Signature Hash</Label>
+                            <Input
+                              value={app.signature_hash}
+                              onChange={(e) => updateSupportedApp(appIndex, { signature_hash: e.target.value })}
+                              placeholder="K8a/AINcGX7"
+                              className="mt-1"
+                              maxLength={11}
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+
+                    <Button
+                      onClick={() => updateOtpButton({ supported_apps: [...(otpButton.supported_apps || []), { package_name: '', signature_hash: '' }] })}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add App
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : (
+            /* Template Components */
             <div className="space-y-6">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold">Template Components</h2>
@@ -462,6 +924,28 @@ export default function NewTemplatePage() {
                       Footer
                     </Button>
                   )}
+                  {templateData.category === 'MARKETING' && !templateData.components.some(c => c.type === 'CAROUSEL' || c.type === 'LIMITED_TIME_OFFER') && (
+                    <>
+                      <Button
+                        onClick={() => addComponent('CAROUSEL')}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        <Plus className="h-4 w-4" />
+                        Carousel
+                      </Button>
+                      <Button
+                        onClick={() => addComponent('LIMITED_TIME_OFFER')}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        <Plus className="h-4 w-4" />
+                        Offer
+                      </Button>
+                    </>
+                  )}
                   {!templateData.components.some(c => c.type === 'BUTTONS') && (
                     <Button
                       onClick={() => addComponent('BUTTONS')}
@@ -486,6 +970,8 @@ export default function NewTemplatePage() {
                           component.type === 'HEADER' ? 'bg-blue-500' :
                           component.type === 'BODY' ? 'bg-green-500' :
                           component.type === 'FOOTER' ? 'bg-purple-500' :
+                          component.type === 'CAROUSEL' ? 'bg-pink-500' :
+                          component.type === 'LIMITED_TIME_OFFER' ? 'bg-red-500' :
                           'bg-orange-500'
                         }`} />
                         {getComponentTypeName(component.type)}
@@ -531,11 +1017,11 @@ export default function NewTemplatePage() {
                               <Input
                                 value={component.text || ''}
                                 onChange={(e) => updateComponent(index, { text: e.target.value })}
-                                placeholder="Enter header text... Use {{1}} for variables"
+                                placeholder={`Enter header text... Use ${isNamed ? '{{first_name}}' : '{{1}}'} for variables`}
                                 className="mt-1"
                               />
                               <p className="text-xs text-muted-foreground mt-1">
-                                Use {`{{1}}, {{2}}`} for variables
+                                Use {isNamed ? `{{first_name}}, {{order_id}}` : `{{1}}, {{2}}`} for variables
                               </p>
                             </div>
                             
@@ -555,21 +1041,12 @@ export default function NewTemplatePage() {
                                           WhatsApp requires example values for variables. Provide examples for: {vars.map(v => `{{${v}}}`).join(', ')}
                                         </p>
                                         <div className="space-y-2">
-                                          {vars.map((varNum, varIndex) => (
-                                            <div key={varNum}>
-                                              <Label className="text-xs">Example for {`{{${varNum}}}`}</Label>
+                                          {vars.map((variable) => (
+                                            <div key={variable}>
+                                              <Label className="text-xs">Example for {`{{${variable}}}`}</Label>
                                               <Input
-                                                value={component.example?.header_text?.[varIndex] || ''}
-                                                onChange={(e) => {
-                                                  const newExamples = [...(component.example?.header_text || [])];
-                                                  newExamples[varIndex] = e.target.value;
-                                                  updateComponent(index, {
-                                                    example: {
-                                                      ...component.example,
-                                                      header_text: newExamples
-                                                    }
-                                                  });
-                                                }}
+                                                value={getExamples(component)[variable] || ''}
+                                                onChange={(e) => setExample(index, component, variable, e.target.value)}
                                                 placeholder={`e.g., John`}
                                                 className="mt-1"
                                               />
@@ -596,12 +1073,12 @@ export default function NewTemplatePage() {
                           <Textarea
                             value={component.text || ''}
                             onChange={(e) => updateComponent(index, { text: e.target.value })}
-                            placeholder="Enter your message body text here. Use {{1}}, {{2}}, etc. for variables..."
+                            placeholder={`Enter your message body text here. Use ${isNamed ? '{{first_name}}, {{order_id}}' : '{{1}}, {{2}}'}, etc. for variables...`}
                             className="mt-1 min-h-[100px]"
                             maxLength={1024}
                           />
                           <p className="text-xs text-muted-foreground mt-1">
-                            Maximum 1024 characters. Use {`{{1}}, {{2}}`} for variables.
+                            Maximum 1024 characters. Use {isNamed ? `{{first_name}}, {{order_id}}` : `{{1}}, {{2}}`} for variables.
                           </p>
                         </div>
                         
@@ -621,22 +1098,13 @@ export default function NewTemplatePage() {
                                       WhatsApp requires example values for variables. Provide examples for: {vars.map(v => `{{${v}}}`).join(', ')}
                                     </p>
                                     <div className="space-y-2">
-                                      {vars.map((varNum, varIndex) => (
-                                        <div key={varNum}>
-                                          <Label className="text-xs">Example for {`{{${varNum}}}`}</Label>
+                                      {vars.map((variable, varIndex) => (
+                                        <div key={variable}>
+                                          <Label className="text-xs">Example for {`{{${variable}}}`}</Label>
                                           <Input
-                                            value={component.example?.body_text?.[0]?.[varIndex] || ''}
-                                            onChange={(e) => {
-                                              const newExamples = [...(component.example?.body_text?.[0] || [])];
-                                              newExamples[varIndex] = e.target.value;
-                                              updateComponent(index, {
-                                                example: {
-                                                  ...component.example,
-                                                  body_text: [newExamples]
-                                                }
-                                              });
-                                            }}
-                                            placeholder={`e.g., ${varNum === 1 ? 'John' : varNum === 2 ? 'December 25' : 'example value'}`}
+                                            value={getExamples(component)[variable] || ''}
+                                            onChange={(e) => setExample(index, component, variable, e.target.value)}
+                                            placeholder={`e.g., ${varIndex === 0 ? 'John' : varIndex === 1 ? 'December 25' : 'example value'}`}
                                             className="mt-1"
                                           />
                                         </div>
@@ -669,6 +1137,170 @@ export default function NewTemplatePage() {
                       </div>
                     )}
 
+                    {/* Limited-Time Offer Component */}
+                    {component.type === 'LIMITED_TIME_OFFER' && (
+                      <div className="space-y-3">
+                        <div>
+                          <Label>Offer Text</Label>
+                          <Input
+                            value={component.limited_time_offer?.text || ''}
+                            onChange={(e) => updateComponent(index, {
+                              limited_time_offer: { has_expiration: !!component.limited_time_offer?.has_expiration, text: e.target.value }
+                            })}
+                            placeholder="e.g., Expiring offer!"
+                            className="mt-1"
+                            maxLength={LIMITED_TIME_OFFER_TEXT_MAX_LENGTH}
+                          />
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Maximum {LIMITED_TIME_OFFER_TEXT_MAX_LENGTH} characters
+                          </p>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={!!component.limited_time_offer?.has_expiration}
+                            onChange={(e) => updateComponent(index, {
+                              limited_time_offer: { text: component.limited_time_offer?.text || '', has_expiration: e.target.checked }
+                            })}
+                          />
+                          Show an expiry countdown
+                        </label>
+                        <p className="text-xs text-muted-foreground">
+                          The expiry time is chosen when sending. A countdown needs a Copy Code button as the first button.
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Carousel Component */}
+                    {component.type === 'CAROUSEL' && (
+                      <div className="space-y-4">
+                        <div>
+                          <Label>Card Media</Label>
+                          <select
+                            value={component.cards?.[0]?.components.find(c => c.type === 'HEADER')?.format || 'IMAGE'}
+                            onChange={(e) => updateCarouselFormat(index, e.target.value as TemplateComponent['format'])}
+                            className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
+                          >
+                            <option value="IMAGE">Image</option>
+                            <option value="VIDEO">Video</option>
+                          </select>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            The media of each card is chosen when sending. Cards need the same buttons in the same order.
+                          </p>
+                        </div>
+
+                        {component.cards?.map((card, cardIndex) => {
+                          const header = card.components.find(c => c.type === 'HEADER');
+                          const body = card.components.find(c => c.type === 'BODY');
+                          const buttons = card.components.find(c => c.type === 'BUTTONS')?.buttons || [];
+                          const cardVars = extractVariables(body?.text || '');
+                          return (
+                            <div key={cardIndex} className="bg-muted/50 rounded-lg p-4 space-y-3">
+                              <div className="flex items-center justify-between">
+                                <h4 className="font-medium text-sm">Card {cardIndex + 1}</h4>
+                                {(component.cards?.length || 0) > CAROUSEL_MIN_CARDS && (
+                                  <Button
+                                    onClick={() => removeCard(index, cardIndex)}
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                                  >
+                                    <Minus className="h-3 w-3" />
+                                  </Button>
+                                )}
+                              </div>
+
+                              <div>
+                                <Label>Sample Media Handle</Label>
+                                <Input
+                                  value={header?.example?.header_handle?.[0] || ''}
+                                  onChange={(e) => updateCardComponent(index, cardIndex, 'HEADER', {
+                                    example: { header_handle: [e.target.value] }
+                                  })}
+                                  placeholder="4::aW1hZ2UvanBlZw==:ARZ..."
+                                  className="mt-1"
+                                />
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Handle of a sample {(header?.format || 'IMAGE').toLowerCase()} from Meta&apos;s resumable upload API, used for review
+                                </p>
+                              </div>
+
+                              <div>
+                                <Label>Card Body</Label>
+                                <Textarea
+                                  value={body?.text || ''}
+                                  onChange={(e) => updateCardComponent(index, cardIndex, 'BODY', { text: e.target.value })}
+                                  placeholder="Card text. Use {{1}} for variables..."
+                                  className="mt-1 min-h-[60px]"
+                                  maxLength={CAROUSEL_CARD_BODY_MAX_LENGTH}
+                                />
+                                {cardVars.map((variable, varIndex) => (
+                                  <Input
+                                    key={variable}
+                                    value={body?.example?.body_text?.[0]?.[varIndex] || ''}
+                                    onChange={(e) => {
+                                      const newExamples = [...(body?.example?.body_text?.[0] || [])];
+                                      newExamples[varIndex] = e.target.value;
+                                      updateCardComponent(index, cardIndex, 'BODY', { example: { body_text: [newExamples] } });
+                                    }}
+                                    placeholder={`Example for {{${variable}}}`}
+                                    className="mt-2"
+                                  />
+                                ))}
+                              </div>
+
+                              {buttons.map((button, buttonIndex) => (
+                                <div key={buttonIndex} className="border border-border rounded-lg p-3">
+                                  <div className="flex items-center justify-between mb-2">
+                                    <span className="text-xs font-medium">Button {buttonIndex + 1}</span>
+                                    {buttons.length > 1 && (
+                                      <Button
+                                        onClick={() => updateCardButtons(index, cardIndex, buttons.filter((_, i) => i !== buttonIndex))}
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                                      >
+                                        <Minus className="h-3 w-3" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                  {renderButtonFields(
+                                    button,
+                                    (updates) => updateCardButtons(index, cardIndex, buttons.map((b, i) => i === buttonIndex ? { ...b, ...updates } : b)),
+                                    CAROUSEL_BUTTON_TYPES
+                                  )}
+                                </div>
+                              ))}
+
+                              {buttons.length < CAROUSEL_CARD_MAX_BUTTONS && (
+                                <Button
+                                  onClick={() => updateCardButtons(index, cardIndex, [...buttons, { type: 'QUICK_REPLY', text: '' }])}
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-2"
+                                >
+                                  <Plus className="h-4 w-4" />
+                                  Add Button
+                                </Button>
+                              )}
+                            </div>
+                          );
+                        })}
+
+                        {(component.cards?.length || 0) < CAROUSEL_MAX_CARDS && (
+                          <Button
+                            onClick={() => addCard(index)}
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                          >
+                            <Plus className="h-4 w-4" />
+                            Add Card
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
                     {/* Buttons Component */}
                     {component.type === 'BUTTONS' && (
                       <div className="space-y-4">
@@ -686,59 +1318,10 @@ export default function NewTemplatePage() {
                               </Button>
                             </div>
                             
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                              <div>
-                                <Label>Button Type</Label>
-                                <select
-                                  value={button.type}
-                                  onChange={(e) => updateButton(index, buttonIndex, { 
-                                    type: e.target.value as ButtonComponent['type'],
-                                    url: e.target.value === 'URL' ? button.url : undefined,
-                                    phone_number: e.target.value === 'PHONE_NUMBER' ? button.phone_number : undefined
-                                  })}
-                                  className="mt-1 w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
-                                >
-                                  <option value="QUICK_REPLY">Quick Reply</option>
-                                  <option value="URL">URL</option>
-                                  <option value="PHONE_NUMBER">Phone Number</option>
-                                  <option value="CATALOG">Catalog</option>
-                                </select>
-                              </div>
-                              
-                              <div>
-                                <Label>Button Text</Label>
-                                <Input
-                                  value={button.text}
-                                  onChange={(e) => updateButton(index, buttonIndex, { text: e.target.value })}
-                                  placeholder="Button text..."
-                                  className="mt-1"
-                                  maxLength={25}
-                                />
-                              </div>
-                            </div>
-
-                            {button.type === 'URL' && (
-                              <div className="mt-3">
-                                <Label>URL</Label>
-                                <Input
-                                  value={button.url || ''}
-                                  onChange={(e) => updateButton(index, buttonIndex, { url: e.target.value })}
-                                  placeholder="https://example.com"
-                                  className="mt-1"
-                                />
-                              </div>
-                            )}
-
-                            {button.type === 'PHONE_NUMBER' && (
-                              <div className="mt-3">
-                                <Label>Phone Number</Label>
-                                <Input
-                                  value={button.phone_number || ''}
-                                  onChange={(e) => updateButton(index, buttonIndex, { phone_number: e.target.value })}
-                                  placeholder="+1234567890"
-                                  className="mt-1"
-                                />
-                              </div>
+                            {renderButtonFields(
+                              button,
+                              (updates) => updateButton(index, buttonIndex, updates),
+                              templateData.category === 'MARKETING' ? [...BUTTON_TYPES, 'COPY_CODE'] : BUTTON_TYPES
                             )}
                           </div>
                         ))}
@@ -760,6 +1343,7 @@ export default function NewTemplatePage() {
                 ))}
               </div>
             </div>
+            )}
           </div>
 
           {/* Preview Panel */}
@@ -777,7 +1361,7 @@ export default function NewTemplatePage() {
                       if (headerComp && headerComp.text) {
                         const displayText = replaceVariablesWithExamples(
                           headerComp.text, 
-                          headerComp.example?.header_text
+                          getExamples(headerComp)
                         );
                         return (
                           <div className="mb-2">
@@ -788,14 +1372,45 @@ export default function NewTemplatePage() {
                       return null;
                     })()}
 
-                    {/* Body */}
+                    {/* Limited-time offer */}
                     {(() => {
+                      const offer = templateData.components.find(c => c.type === 'LIMITED_TIME_OFFER')?.limited_time_offer;
+                      if (!offer) return null;
+                      return (
+                        <div className="mb-2 bg-white bg-opacity-20 rounded-lg p-2">
+                          <p className="font-semibold text-sm">🎁 {offer.text || 'Offer text'}</p>
+                          {offer.has_expiration && (
+                            <p className="text-xs opacity-75">Offer ends in 2 days</p>
+                          )}
+                        </div>
+                      );
+                    })()}
+
+                    {/* Authentication body and footer, as WhatsApp writes them */}
+                    {templateData.category === 'AUTHENTICATION' && (() => {
+                      const bodyComp = templateData.components.find(c => c.type === 'BODY');
+                      const minutes = templateData.components.find(c => c.type === 'FOOTER')?.code_expiration_minutes;
+                      return (
+                        <div className="mb-2">
+                          <p className="text-sm leading-relaxed">
+                            <strong>123456</strong> is your verification code.
+                            {bodyComp?.add_security_recommendation && ' For your security, do not share this code.'}
+                          </p>
+                          {minutes && (
+                            <p className="text-xs opacity-75 mt-2">This code expires in {minutes} minutes.</p>
+                          )}
+                        </div>
+                      );
+                    })()}
+
+                    {/* Body */}
+                    {templateData.category !== 'AUTHENTICATION' && (() => {
                       const bodyComp = templateData.components.find(c => c.type === 'BODY');
                       if (bodyComp) {
                         const displayText = bodyComp.text 
                           ? replaceVariablesWithExamples(
                               bodyComp.text, 
-                              bodyComp.example?.body_text?.[0]
+                              getExamples(bodyComp)
                             )
                           : 'Enter your message body...';
                         return (
@@ -808,7 +1423,7 @@ export default function NewTemplatePage() {
                     })()}
 
                     {/* Footer */}
-                    {templateData.components.find(c => c.type === 'FOOTER') && (
+                    {templateData.category !== 'AUTHENTICATION' && templateData.components.find(c => c.type === 'FOOTER') && (
                       <div className="mb-2">
                         <p className="text-xs opacity-75">
                           {templateData.components.find(c => c.type === 'FOOTER')?.text}
@@ -825,7 +1440,7 @@ export default function NewTemplatePage() {
                             className="bg-white bg-opacity-20 rounded-lg p-2 text-center"
                           >
                             <span className="text-sm font-medium">
-                              {button.text || `Button ${index + 1}`}
+                              {button.type === 'COPY_CODE' ? 'Copy offer code' : button.text || `Button ${index + 1}`}
                             </span>
                           </div>
                         ))}
@@ -837,6 +1452,41 @@ export default function NewTemplatePage() {
                       12:34 PM
                     </div>
                   </div>
+
+                  {/* Carousel cards */}
+                  {(() => {
+                    const cards = templateData.components.find(c => c.type === 'CAROUSEL')?.cards;
+                    if (!cards) return null;
+                    return (
+                      <div className="flex gap-3 overflow-x-auto px-4 pb-4">
+                        {cards.map((card, cardIndex) => {
+                          const header = card.components.find(c => c.type === 'HEADER');
+                          const body = card.components.find(c => c.type === 'BODY');
+                          const buttons = card.components.find(c => c.type === 'BUTTONS')?.buttons || [];
+                          return (
+                            <div key={cardIndex} className="w-48 flex-shrink-0 bg-green-500 text-white rounded-2xl p-3">
+                              <div className="bg-white bg-opacity-20 rounded-lg p-6 text-center mb-2">
+                                <span className="text-sm">{header?.format === 'VIDEO' ? '🎥' : '📷'}</span>
+                              </div>
+                              <p className="text-sm mb-2">
+                                {replaceVariablesWithExamples(
+                                  body?.text || '',
+                                  Object.fromEntries(extractVariables(body?.text || '').map((v, i) => [v, body?.example?.body_text?.[0]?.[i] || '']))
+                                ) || `Card ${cardIndex + 1}`}
+                              </p>
+                              <div className="space-y-1">
+                                {buttons.map((button, buttonIndex) => (
+                                  <div key={buttonIndex} className="bg-white bg-opacity-20 rounded-lg p-1 text-center text-xs font-medium">
+                                    {button.text || `Button ${buttonIndex + 1}`}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    );
+                  })()}
                 </div>
 
                 {/* Template Info */}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { X, RefreshCw, RotateCcw } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+interface BroadcastRecipient {
+  id: string;
+  user_id: string;
+  contact_name: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  attempts: number;
+  error: string | null;
+  error_code: number | null;
+  message_id: string | null;
+  sent_at: string | null;
+  processed_at: string | null;
+  delivery_status: 'sent' | 'delivered' | 'read' | 'failed' | null;
+  delivered_at: string | null;
+  recipient_read_at: string | null;
+  delivery_failed_at: string | null;
+  delivery_error_code: number | null;
+  delivery_error_message: string | null;
+}
+
+interface BroadcastJobDetailsProps {
+  jobId: string;
+  jobStatus: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRetryFailed: () => Promise<void>;
+}
+
+export function BroadcastJobDetails({ jobId, jobStatus, isOpen, onClose, onRetryFailed }: BroadcastJobDetailsProps) {
+  const { t } = useTranslation();
+  const [recipients, setRecipients] = useState<BroadcastRecipient[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [filter, setFilter] = useState<'all' | 'sent' | 'failed' | 'pending'>('all');
+
+  const fetchRecipients = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/recipients`);
+      const data = await res.json();
+      if (data.success) {
+        setRecipients(data.recipients);
+      }
+    } catch (error) {
+      console.error('Failed to fetch broadcast recipients:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchRecipients();
+    }
+  }, [isOpen, jobStatus, fetchRecipients]);
+
+  if (!isOpen) return null;
+
+  // Combine the send result with the delivery status reported by the webhook
+  const getEffectiveStatus = (recipient: BroadcastRecipient) => {
+    if (recipient.status === 'sent' && recipient.delivery_status) {
+      return recipient.delivery_status;
+    }
+    return recipient.status;
+  };
+
+  const getErrorText = (recipient: BroadcastRecipient) => {
+    if (recipient.status === 'failed') {
+      return recipient.error_code ? `${recipient.error} (${recipient.error_code})` : recipient.error;
+    }
+    if (recipient.delivery_status === 'failed') {
+      return recipient.delivery_error_code
+        ? `${recipient.delivery_error_message} (${recipient.delivery_error_code})`
+        : recipient.delivery_error_message;
+    }
+    return null;
+  };
+
+  const getLastUpdate = (recipient: BroadcastRecipient) => {
+    const timestamp = recipient.delivery_failed_at || recipient.recipient_read_at || recipient.delivered_at || recipient.processed_at;
+    return timestamp ? new Date(timestamp).toLocaleString() : '-';
+  };
+
+  const statusLabels: Record<string, string> = {
+    pending: t('broadcast_recipient_pending'),
+    sending: t('broadcast_recipient_sending'),
+    sent: t('status_sent'),
+    delivered: t('status_delivered'),
+    read: t('status_read'),
+    failed: t('status_failed'),
+    cancelled: t('broadcast_recipient_cancelled'),
+  };
+
+  const statusClasses: Record<string, string> = {
+    pending: 'bg-muted text-muted-foreground',
+    sending: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    sent: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    delivered: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    read: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+    cancelled: 'bg-muted text-muted-foreground',
+  };
+
+  const filteredRecipients = recipients.filter((recipient) => {
+    const status = getEffectiveStatus(recipient);
+    switch (filter) {
+      case 'sent':
+        return ['sent', 'delivered', 'read'].includes(status);
+      case 'failed':
+        return status === 'failed';
+      case 'pending':
+        return ['pending', 'sending', 'cancelled'].includes(status);
+      default:
+        return true;
+    }
+  });
+
+  const failedCount = recipients.filter(recipient => getEffectiveStatus(recipient) === 'failed').length;
+  const canRetry = failedCount > 0 && (jobStatus === 'completed' || jobStatus === 'failed');
+
+  const handleRetryFailed = async () => {
+    setIsRetrying(true);
+    try {
+      await onRetryFailed();
+      await fetchRecipients();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background rounded-lg shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-xl font-semibold">{t('broadcast_results')}</h2>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={fetchRecipients}
+              disabled={isLoading}
+              className="p-2 hover:bg-muted rounded-full"
+              title={t('refresh')}
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              className="p-2 hover:bg-muted rounded-full"
+            >
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters and actions */}
+        <div className="flex items-center justify-between gap-2 px-6 py-3 border-b border-border">
+          <div className="flex gap-1">
+            {(['all', 'sent', 'failed', 'pending'] as const).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={filter === option ? 'default' : 'outline'}
+                onClick={() => setFilter(option)}
+              >
+                {t(`broadcast_filter_${option}`)}
+              </Button>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            onClick={handleRetryFailed}
+            disabled={!canRetry || isRetrying}
+            className="bg-green-600 hover:bg-green-700 text-white"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            {t('retry_failed_recipients', { count: failedCount })}
+          </Button>
+        </div>
+
+        {/* Results table */}
+        <div className="flex-1 overflow-y-auto">
+          {filteredRecipients.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              {isLoading ? t('loading') : t('broadcast_no_recipients')}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted/80 backdrop-blur text-left">
+                <tr>
+                  <th className="px-6 py-2 font-medium">{t('broadcast_column_contact')}</th>
+                  <th className="px-2 py-2 font-medium">{t('broadcast_column_status')}</th>
+                  <th className="px-2 py-2 font-medium">{t('broadcast_column_error')}</th>
+                  <th className="px-6 py-2 font-medium">{t('broadcast_column_updated')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredRecipients.map((recipient) => {
+                  const status = getEffectiveStatus(recipient);
+                  return (
+                    <tr key={recipient.id} className="border-t border-border align-top">
+                      <td className="px-6 py-2">
+                        <p className="font-medium">{recipient.contact_name}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{recipient.user_id}</p>
+                      </td>
+                      <td className="px-2 py-2">
+                        <span
+                          className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${statusClasses[status]}`}
+                          title={recipient.message_id || undefined}
+                        >
+                          {statusLabels[status]}
+                        </span>
+                      </td>
+                      <td className="px-2 py-2 text-xs text-red-600 dark:text-red-400 break-words max-w-[240px]">
+                        {getErrorText(recipient) || ''}
+                      </td>
+                      <td className="px-6 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                        {getLastUpdate(recipient)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,24 @@
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Send, MessageCircle, Loader2, X, Download, FileText, Image as ImageIcon, Play, Pause, RefreshCw, Volume2, Paperclip, MessageSquare, Users } from "lucide-react";
-import { useState, useRef, useEffect, useCallback } from "react";
+import { ArrowLeft, Send, MessageCircle, Loader2, X, Download, FileText, Image as ImageIcon, Play, Pause, RefreshCw, Volume2, Paperclip, MessageSquare, Users, Check, CheckCheck, Clock, AlertCircle, CalendarClock, MapPin, Contact, Phone, Mail, ShoppingCart, MousePointerClick, List, Reply, SmilePlus, UserCheck, CheckCircle2, RotateCcw, AlarmClock, StickyNote, Trash2 } from "lucide-react";
+import { useState, useRef, useEffect, useLayoutEffect, useCallback } from "react";
 import Image from "next/image";
 import { MediaUpload } from "./media-upload";
 import { UserInfoDialog } from "./user-info-dialog";
+import { TeamMember, getTeamMemberName } from "@/lib/tenant";
+import { ContactAttributes, ContactField, getContactFieldValues } from "@/lib/contact-fields";
+import { ConversationNote, MAX_NOTE_LENGTH, getMentionToken, splitNoteMentions } from "@/lib/notes";
+import { ConversationStatus, SNOOZE_PRESETS, SnoozePreset, getEffectiveStatus, getSnoozeUntil } from "@/lib/conversation-status";
 import { TemplateSelector } from "./template-selector";
+import { InteractiveMessageComposer } from "./interactive-message-composer";
 import { Textarea } from "../ui/textarea";
 import { useTranslation } from "react-i18next";
+import { InteractiveMessage } from "@/lib/interactive-message";
+import { getWindowExpiry } from "@/lib/customer-service-window";
+import { BroadcastSchedule, getLocalTimeZone, listTimeZones, formatScheduledTime, zonedTimeToUtc } from "@/lib/broadcast/schedule";
+import { BroadcastPreviewRecipient, TemplateVariableFields } from "@/lib/broadcast/variables";
+import { TemplateSendOptions } from "@/lib/template-components";
 
 // Template interfaces
 interface TemplateComponent {
@@ -51,6 +61,15 @@ interface Message {
   media_data?: string | null;
   is_read?: boolean;
   read_at?: string | null;
+  status?: 'sent' | 'delivered' | 'read' | 'failed' | null; // Outbound delivery status from webhook callbacks
+  sent_at?: string | null;
+  delivered_at?: string | null;
+  recipient_read_at?: string | null;
+  failed_at?: string | null;
+  error_code?: number | null;
+  error_message?: string | null;
+  reply_to_message_id?: string | null; // WAMID of the quoted message
+  reactions?: Record<string, string> | null; // Reactor id -> emoji
   isOptimistic?: boolean; // Flag for optimistic messages
 }
 
@@ -86,8 +105,80 @@ interface MediaData {
     url?: string;
     phone_number?: string;
   }>;
+  // Interactive messages we sent (button/list) and the customer's replies
+  interactive_type?: 'button' | 'list' | 'button_reply' | 'list_reply' | 'nfm_reply';
+  interactive?: {
+    header?: { text?: string };
+    body?: { text?: string };
+    footer?: { text?: string };
+    action?: {
+      buttons?: Array<{ reply: { id: string; title: string } }>;
+      button?: string;
+      sections?: Array<{
+        title?: string;
+        rows: Array<{ id: string; title: string; description?: string }>;
+      }>;
+    };
+  };
+  reply_id?: string;
+  title?: string;
+  description?: string;
+  name?: string;
+  text?: string;
+  payload?: string;
+  response?: unknown;
+  // Location
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  url?: string;
+  // Shared contacts
+  contacts?: Array<{
+    name: string | null;
+    phones: Array<{ phone?: string; wa_id?: string; type?: string }>;
+    emails: Array<{ email?: string; type?: string }>;
+    company: string | null;
+    title: string | null;
+  }>;
+  // Reactions point at the message they react to
+  message_id?: string;
+  emoji?: string | null;
+  // Orders
+  catalog_id?: string;
+  product_items?: Array<{
+    product_retailer_id: string;
+    quantity: number;
+    item_price: number;
+    currency: string;
+  }>;
 }
 
+// Reactions offered in the quick picker, as in WhatsApp
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+function parseMediaData(message: Message): MediaData | null {
+  if (!message.media_data) return null;
+
+  try {
+    // Check if media_data is already an object or a string
+    if (typeof message.media_data === 'string') {
+      return JSON.parse(message.media_data);
+    }
+    if (typeof message.media_data === 'object') {
+      // Already an object, use it directly
+      return message.media_data as unknown as MediaData;
+    }
+  } catch (error) {
+    console.error('Error parsing media data:', error, 'Type:', typeof message.media_data);
+  }
+  return null;
+}
+
+// Thread entries: messages and internal notes, merged by time
+type TimelineEntry =
+  | { type: 'message'; at: string; message: Message }
+  | { type: 'note'; at: string; note: ConversationNote };
+
 interface MediaFile {
   id: string;
   file: File;
@@ -99,13 +190,36 @@ interface MediaFile {
 interface ChatWindowProps {
   selectedUser: ChatUser | null;
   messages: Message[];
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string, schedule?: BroadcastSchedule, replyToMessageId?: string) => void;
   onBack?: () => void;
   onClose?: () => void;
   isMobile?: boolean;
   isLoading?: boolean;
   onUpdateName?: (userId: string, customName: string) => Promise<void>;
   broadcastGroupName?: string | null;
+  // A few group members the template dialog previews personalised variables for
+  broadcastPreviewRecipients?: BroadcastPreviewRecipient[];
+  onOpenScheduledBroadcasts?: () => void;
+  focusMessageId?: string | null;
+  onFocusMessageHandled?: () => void;
+  hasMoreMessages?: boolean;
+  isLoadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  teamMembers?: TeamMember[];
+  currentAgentId?: string;
+  assignedTo?: string | null;
+  onAssign?: (userId: string, assigneeId: string | null) => void;
+  conversationStatus?: ConversationStatus;
+  snoozedUntil?: string | null;
+  onSetStatus?: (userId: string, status: ConversationStatus, snoozedUntil?: string) => void;
+  notes?: ConversationNote[];
+  onAddNote?: (content: string, mentions: string[]) => Promise<void>;
+  onDeleteNote?: (noteId: string) => void;
+  contactFields?: ContactField[];
+  contactTags?: string[];
+  contactAttributes?: ContactAttributes;
+  onUpdateContactDetails?: (userId: string, details: { tags?: string[]; attributes?: ContactAttributes }) => Promise<void>;
+  onContactFieldsChange?: () => void;
 }
 
 export function ChatWindow({
@@ -117,7 +231,29 @@ export function ChatWindow({
   isMobile = false,
   isLoading = false,
   onUpdateName,
-  broadcastGroupName
+  broadcastGroupName,
+  broadcastPreviewRecipients = [],
+  onOpenScheduledBroadcasts,
+  focusMessageId,
+  onFocusMessageHandled,
+  hasMoreMessages = false,
+  isLoadingOlderMessages = false,
+  onLoadOlderMessages,
+  teamMembers = [],
+  currentAgentId,
+  assignedTo = null,
+  onAssign,
+  conversationStatus,
+  snoozedUntil,
+  onSetStatus,
+  notes = [],
+  onAddNote,
+  onDeleteNote,
+  contactFields = [],
+  contactTags = [],
+  contactAttributes = {},
+  onUpdateContactDetails,
+  onContactFieldsChange
 }: ChatWindowProps) {
   const { t } = useTranslation();
   const [messageInput, setMessageInput] = useState("");
@@ -131,10 +267,65 @@ export function ChatWindow({
   const [sendingMedia, setSendingMedia] = useState(false);
   const [showUserInfo, setShowUserInfo] = useState(false);
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
+  const [showInteractiveComposer, setShowInteractiveComposer] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [showSchedulePicker, setShowSchedulePicker] = useState(false);
+  const [scheduleInput, setScheduleInput] = useState("");
+  const [scheduleTimezone, setScheduleTimezone] = useState(getLocalTimeZone);
+  // Note mode turns the composer into an internal note editor
+  const [isNoteMode, setIsNoteMode] = useState(false);
+  const [noteMentions, setNoteMentions] = useState<string[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [savingNote, setSavingNote] = useState(false);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const unreadIndicatorRef = useRef<HTMLDivElement>(null);
   const audioRefs = useRef<{ [key: string]: HTMLAudioElement }>({});
+  // Scroll height before an older page was prepended, to keep the view in place
+  const prependScrollRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+
+  // 24-hour customer service window, counted from the last inbound message.
+  // Once it closes only templates can be sent.
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!selectedUser) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [selectedUser]);
+
+  // Each conversation opens in reply mode
+  useEffect(() => {
+    setIsNoteMode(false);
+    setNoteMentions([]);
+    setMentionQuery(null);
+  }, [selectedUser?.id]);
+
+  const lastInboundAt = messages.reduce<string | null>((latest, message) => {
+    if (message.is_sent_by_me || message.id.startsWith('optimistic_')) return latest;
+    return !latest || new Date(message.timestamp) > new Date(latest) ? message.timestamp : latest;
+  }, null);
+  const windowExpiry = getWindowExpiry(lastInboundAt);
+  const windowRemainingMs = windowExpiry ? windowExpiry.getTime() - now : 0;
+  const isWindowClosed = !!selectedUser && !broadcastGroupName && windowRemainingMs <= 0;
+  const canAddNotes = !!selectedUser && !broadcastGroupName && !!onAddNote;
+  const isWritingNote = canAddNotes && isNoteMode;
+  const effectiveStatus = getEffectiveStatus(conversationStatus, snoozedUntil, now);
+
+  // Send time for the next broadcast, only when the schedule picker is filled in
+  const broadcastSchedule: BroadcastSchedule | undefined =
+    broadcastGroupName && showSchedulePicker && scheduleInput
+      ? { scheduledAt: scheduleInput, timezone: scheduleTimezone }
+      : undefined;
+
+  const clearSchedule = () => {
+    setShowSchedulePicker(false);
+    setScheduleInput("");
+  };
 
   // Handle template message sending
   const handleSendTemplate = async (
@@ -145,7 +336,9 @@ export function ChatWindow({
       body: Record<string, string>;
       footer: Record<string, string>;
     },
-    headerImage?: File | null
+    headerImage?: File | null,
+    variableFields?: TemplateVariableFields,
+    sendOptions?: TemplateSendOptions
   ) => {
     // Handle broadcast mode
     if (broadcastGroupName) {
@@ -178,9 +371,12 @@ export function ChatWindow({
         templateName,
         templateData,
         variables,
+        variableFields,
+        sendOptions,
         headerMediaId,   // null if no image header
         displayMessage: templateMessage
-      }));
+      }), broadcastSchedule);
+      clearSchedule();
       return;
     }
 
@@ -196,6 +392,7 @@ export function ChatWindow({
         formData.append('templateName', templateName);
         formData.append('templateData', JSON.stringify(templateData));
         formData.append('variables', JSON.stringify(variables));
+        if (sendOptions) formData.append('sendOptions', JSON.stringify(sendOptions));
         formData.append('headerImage', headerImage);
 
         response = await fetch('/api/send-template', {
@@ -212,6 +409,7 @@ export function ChatWindow({
             templateName,
             templateData,
             variables,
+            sendOptions,
           }),
         });
       }
@@ -229,6 +427,54 @@ export function ChatWindow({
     }
   };
 
+  // Handle interactive (reply buttons / list) message sending
+  const handleSendInteractive = async (interactive: InteractiveMessage) => {
+    if (!selectedUser) return;
+
+    const response = await fetch('/api/send-interactive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ to: selectedUser.id, interactive }),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      // Let the composer show the error
+      throw new Error(result.details?.error?.message || result.error || t('failed_to_send_interactive'));
+    }
+
+    console.log('Interactive message sent successfully:', result);
+  };
+
+  // React to a customer's message. Picking the emoji already sent removes it.
+  const handleReact = async (message: Message, emoji: string) => {
+    setReactionPickerFor(null);
+    if (!selectedUser) return;
+
+    // On inbound messages the tenant is the receiver
+    const currentEmoji = message.reactions?.[message.receiver_id];
+
+    try {
+      const response = await fetch('/api/send-reaction', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to: selectedUser.id,
+          messageId: message.id,
+          emoji: currentEmoji === emoji ? '' : emoji,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details?.error?.message || result.error || t('failed_to_send_reaction'));
+      }
+    } catch (error) {
+      console.error('Error sending reaction:', error);
+      alert(`${t('failed_to_send_reaction')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   // Calculate unread messages
   const unreadMessages = messages.filter(msg =>
     !msg.is_sent_by_me && !msg.is_read
@@ -238,10 +484,12 @@ export function ChatWindow({
   );
   const hasUnreadMessages = unreadMessages.length > 0;
 
-  // Auto-scroll to unread messages or bottom
+  // Auto-scroll to unread messages or bottom when the newest message changes.
+  // Prepending older history leaves the newest message alone, so it doesn't scroll.
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     // Only scroll if we have messages
-    if (messages.length === 0) return;
+    if (!lastMessageId) return;
 
     // Small delay to ensure DOM is updated
     const scrollTimer = setTimeout(() => {
@@ -256,7 +504,32 @@ export function ChatWindow({
 
     return () => clearTimeout(scrollTimer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [messages.length]); // Only depend on messages.length to avoid unnecessary scrolls
+  }, [lastMessageId]); // Only depend on the newest message to avoid unnecessary scrolls
+
+  // Keep the visible messages in place after an older page is prepended
+  const firstMessageId = messages[0]?.id;
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const previous = prependScrollRef.current;
+    if (!container || !previous) return;
+
+    prependScrollRef.current = null;
+    container.scrollTop = container.scrollHeight - previous.scrollHeight + previous.scrollTop;
+  }, [firstMessageId]);
+
+  const loadOlderMessages = () => {
+    const container = messagesContainerRef.current;
+    if (!onLoadOlderMessages || !hasMoreMessages || isLoadingOlderMessages || !container) return;
+
+    prependScrollRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+    onLoadOlderMessages();
+  };
+
+  const handleMessagesScroll = () => {
+    if ((messagesContainerRef.current?.scrollTop ?? Infinity) < 80) {
+      loadOlderMessages();
+    }
+  };
 
   // Handle ESC key press within the chat window
   useEffect(() => {
@@ -266,6 +539,10 @@ export function ChatWindow({
           setShowMediaUpload(false);
         } else if (showTemplateSelector) {
           setShowTemplateSelector(false);
+        } else if (showInteractiveComposer) {
+          setShowInteractiveComposer(false);
+        } else if (replyingTo) {
+          setReplyingTo(null);
         } else if (isMobile && onBack) {
           onBack();
         } else if (!isMobile && onClose) {
@@ -279,7 +556,32 @@ export function ChatWindow({
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
     }
-  }, [selectedUser, isMobile, onBack, onClose, showMediaUpload, showTemplateSelector]);
+  }, [selectedUser, isMobile, onBack, onClose, showMediaUpload, showTemplateSelector, showInteractiveComposer, replyingTo]);
+
+  // Jump to a message opened from search once it is in the loaded history.
+  // The delay lets the scroll-to-bottom on load run first.
+  useEffect(() => {
+    if (!focusMessageId) return;
+    if (!messages.some(m => m.id === focusMessageId)) {
+      // Page back through history until the message turns up
+      if (hasMoreMessages && !isLoadingOlderMessages && messages.length > 0) {
+        loadOlderMessages();
+      }
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      scrollToMessage(focusMessageId);
+      onFocusMessageHandled?.();
+    }, 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusMessageId, messages, hasMoreMessages, isLoadingOlderMessages]);
+
+  // A pending reply belongs to the conversation it was started in
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [selectedUser?.id, broadcastGroupName]);
 
   // Handle drag and drop for the entire chat window
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -301,20 +603,97 @@ export function ChatWindow({
 
     const files = e.dataTransfer.files;
     if (files.length > 0 && selectedUser) {
+      if (isWindowClosed) {
+        setShowTemplateSelector(true);
+        return;
+      }
       setShowMediaUpload(true);
       // The MediaUpload component will handle the files
     }
-  }, [selectedUser]);
+  }, [selectedUser, isWindowClosed]);
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Notes go to their own endpoint and are never sent to WhatsApp
+    if (isWritingNote) {
+      await handleAddNote();
+      return;
+    }
+    if (isWindowClosed) {
+      setShowTemplateSelector(true);
+      return;
+    }
     // Allow sending if either individual user or broadcast group is selected
     if (messageInput.trim() && (selectedUser || broadcastGroupName) && !isLoading) {
-      onSendMessage(messageInput.trim());
+      onSendMessage(messageInput.trim(), broadcastSchedule, replyingTo?.id);
       setMessageInput("");
+      setReplyingTo(null);
+      clearSchedule();
     }
   };
 
+  const handleAddNote = async () => {
+    const content = messageInput.trim();
+    if (!content || !onAddNote || savingNote) return;
+
+    // Keep only mentions whose @name is still in the text
+    const mentions = noteMentions.filter(userId => {
+      const member = teamMembers.find(m => m.user_id === userId);
+      return member && content.includes(getMentionToken(member));
+    });
+
+    setSavingNote(true);
+    try {
+      await onAddNote(content, mentions);
+      setMessageInput("");
+      setNoteMentions([]);
+      setMentionQuery(null);
+      setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), 50);
+    } catch (error) {
+      console.error('Error adding note:', error);
+      alert(`${t('note_add_failed')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  // Teammates matching the @query being typed in a note
+  const mentionSuggestions = isWritingNote && mentionQuery !== null
+    ? teamMembers
+      .filter(member => getTeamMemberName(member).toLowerCase().includes(mentionQuery.toLowerCase()))
+      .slice(0, 6)
+    : [];
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    if (!isWritingNote) return;
+    const match = value.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+    setMentionQuery(match ? match[1] : null);
+    setMentionIndex(0);
+  };
+
+  const insertMention = (member: TeamMember) => {
+    const textarea = composerRef.current;
+    const caret = textarea?.selectionStart ?? messageInput.length;
+    const before = messageInput.slice(0, caret).replace(/@[^\s@]*$/, '');
+    const token = `${getMentionToken(member)} `;
+    setMessageInput(before + token + messageInput.slice(caret));
+    setNoteMentions(prev => prev.includes(member.user_id) ? prev : [...prev, member.user_id]);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      const position = before.length + token.length;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const toggleNoteMode = () => {
+    setIsNoteMode(prev => !prev);
+    setMentionQuery(null);
+    setNoteMentions([]);
+    setReplyingTo(null);
+  };
+
   const handleSendMedia = async (mediaFiles: MediaFile[]) => {
     // Don't allow media upload in broadcast mode for now
     if ((!selectedUser && !broadcastGroupName) || sendingMedia) return;
@@ -386,6 +765,27 @@ export function ChatWindow({
     });
   };
 
+  // Scroll to a message in the loaded history and flash it briefly
+  const scrollToMessage = (messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 3000);
+  };
+
+  const getQuoteAuthor = (message: Message) => {
+    if (message.is_sent_by_me) return t('you');
+    return selectedUser ? getDisplayName(selectedUser) : message.sender_id;
+  };
+
+  const formatWindowRemaining = (ms: number) => {
+    const totalMinutes = Math.max(1, Math.ceil(ms / 60000));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}${t('hours_short')} ${minutes}${t('minutes_short')}` : `${minutes}${t('minutes_short')}`;
+  };
+
   const formatDate = (timestamp: string) => {
     const date = new Date(timestamp);
     const today = new Date();
@@ -551,25 +951,28 @@ export function ChatWindow({
     setLoadingMedia(prev => new Set(prev).add(messageId));
   };
 
-  const renderMessageContent = (message: Message, isOwn: boolean) => {
-    const messageType = message.message_type || 'text';
-    let mediaData: MediaData | null = null;
-
-
+  // WhatsApp-style ticks for outbound messages: one grey tick once accepted,
+  // two grey ticks when delivered, two blue ticks when read
+  const renderDeliveryStatus = (message: Message) => {
+    if (message.id.startsWith('optimistic_')) {
+      return <Clock className="h-3 w-3" aria-label={t('status_pending')} />;
+    }
 
-    if (message.media_data) {
-      try {
-        // Check if media_data is already an object or a string
-        if (typeof message.media_data === 'string') {
-          mediaData = JSON.parse(message.media_data);
-        } else if (typeof message.media_data === 'object') {
-          // Already an object, use it directly
-          mediaData = message.media_data as unknown as MediaData;
-        }
-      } catch (error) {
-        console.error('Error parsing media data:', error, 'Type:', typeof message.media_data);
-      }
+    switch (message.status) {
+      case 'read':
+        return <CheckCheck className="h-3.5 w-3.5 text-sky-300" aria-label={t('status_read')} />;
+      case 'delivered':
+        return <CheckCheck className="h-3.5 w-3.5" aria-label={t('status_delivered')} />;
+      case 'failed':
+        return <AlertCircle className="h-3.5 w-3.5 text-red-200" aria-label={t('status_failed')} />;
+      default:
+        return <Check className="h-3.5 w-3.5" aria-label={t('status_sent')} />;
     }
+  };
+
+  const renderMessageContent = (message: Message, isOwn: boolean) => {
+    const messageType = message.message_type || 'text';
+    const mediaData = parseMediaData(message);
 
     const baseClasses = `max-w-[85%] px-4 py-3 rounded-2xl shadow-sm ${isOwn
       ? 'bg-green-500 text-white ml-4'
@@ -648,8 +1051,9 @@ export function ChatWindow({
                 {mediaData.caption}
               </p>
             )}
-            <span className={`text-xs block ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
               {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
             </span>
           </div>
         );
@@ -699,8 +1103,9 @@ export function ChatWindow({
                 </Button>
               )}
             </div>
-            <span className={`text-xs block ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
               {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
             </span>
           </div>
         );
@@ -772,8 +1177,9 @@ export function ChatWindow({
                 )}
               </div>
             </div>
-            <span className={`text-xs block ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
               {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
             </span>
           </div>
         );
@@ -841,8 +1247,9 @@ export function ChatWindow({
                 {mediaData.caption}
               </p>
             )}
-            <span className={`text-xs mt-1 block ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+            <span className={`text-xs mt-1 flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
               {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
             </span>
           </div>
         );
@@ -987,11 +1394,259 @@ export function ChatWindow({
             </div>
 
             {/* Timestamp */}
-            <span className={`text-xs mt-3 block ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+            <span className={`text-xs mt-3 flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
+            </span>
+          </div>
+        );
+
+      case 'interactive':
+      case 'button': {
+        if (mediaData?.interactive) {
+          const interactive = mediaData.interactive;
+          const listSections = interactive.action?.sections || [];
+
+          return (
+            <div className={baseClasses}>
+              {interactive.header?.text && (
+                <p className="text-base font-semibold leading-relaxed mb-1">{interactive.header.text}</p>
+              )}
+              <p className="text-sm whitespace-pre-wrap break-words leading-relaxed">
+                {interactive.body?.text || message.content}
+              </p>
+              {interactive.footer?.text && (
+                <p className="text-xs opacity-75 mt-2">{interactive.footer.text}</p>
+              )}
+              {(interactive.action?.buttons?.length || 0) > 0 && (
+                <div className="mt-3 space-y-2">
+                  {interactive.action!.buttons!.map((button) => (
+                    <div
+                      key={button.reply.id}
+                      className={`px-4 py-2 rounded-lg border border-opacity-30 border-current text-center text-sm font-medium ${isOwn ? 'bg-white bg-opacity-20' : 'bg-gray-100 dark:bg-gray-700'}`}
+                    >
+                      💬 {button.reply.title}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {listSections.length > 0 && (
+                <div className="mt-3">
+                  <div className={`px-4 py-2 rounded-lg border border-opacity-30 border-current text-center text-sm font-medium flex items-center justify-center gap-2 ${isOwn ? 'bg-white bg-opacity-20' : 'bg-gray-100 dark:bg-gray-700'}`}>
+                    <List className="h-4 w-4" />
+                    {interactive.action?.button}
+                  </div>
+                  <div className="mt-2 space-y-2 text-xs">
+                    {listSections.map((section, sectionIndex) => (
+                      <div key={sectionIndex}>
+                        {section.title && <p className="font-semibold opacity-75 mb-1">{section.title}</p>}
+                        {section.rows.map((row) => (
+                          <p key={row.id} className="pl-2">
+                            • {row.title}
+                            {row.description && <span className="opacity-75"> — {row.description}</span>}
+                          </p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <span className={`text-xs mt-2 flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+                {formatTime(message.timestamp)}
+                {isOwn && renderDeliveryStatus(message)}
+              </span>
+            </div>
+          );
+        }
+
+        const replyLabel = messageType === 'button'
+          ? t('button_reply')
+          : mediaData?.interactive_type === 'list_reply'
+            ? t('list_reply')
+            : mediaData?.interactive_type === 'nfm_reply'
+              ? t('form_response')
+              : t('button_reply');
+        // Flow responses arrive as a JSON object; flow_token is internal to the flow
+        const formFields = mediaData?.interactive_type === 'nfm_reply' && mediaData.response && typeof mediaData.response === 'object'
+          ? Object.entries(mediaData.response as Record<string, unknown>).filter(([key]) => key !== 'flow_token')
+          : [];
+
+        return (
+          <div className={baseClasses}>
+            <p className={`text-xs flex items-center gap-1 mb-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              <MousePointerClick className="h-3 w-3" />
+              {replyLabel}
+            </p>
+            <p className="text-sm font-medium whitespace-pre-wrap break-words leading-relaxed">
+              {mediaData?.title || mediaData?.text || message.content}
+            </p>
+            {mediaData?.description && (
+              <p className="text-xs opacity-75 mt-1">{mediaData.description}</p>
+            )}
+            {formFields.length > 0 && (
+              <dl className="mt-2 space-y-1 text-xs">
+                {formFields.map(([key, value]) => (
+                  <div key={key} className="flex gap-2">
+                    <dt className="font-medium opacity-75">{key}:</dt>
+                    <dd className="break-words">{typeof value === 'string' ? value : JSON.stringify(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            <span className={`text-xs mt-2 flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
+            </span>
+          </div>
+        );
+      }
+
+      case 'location': {
+        const hasCoordinates = typeof mediaData?.latitude === 'number' && typeof mediaData?.longitude === 'number';
+        const mapUrl = hasCoordinates
+          ? `https://www.google.com/maps/search/?api=1&query=${mediaData!.latitude},${mediaData!.longitude}`
+          : mediaData?.url;
+
+        return (
+          <div className={baseClasses}>
+            <a
+              href={mapUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-xl mb-2 min-w-[240px] max-w-[400px] hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <div className={`p-3 rounded-full ${isOwn ? 'bg-green-600' : 'bg-red-500'}`}>
+                <MapPin className="h-6 w-6 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold truncate text-gray-800 dark:text-gray-200">
+                  {mediaData?.name || t('shared_location')}
+                </p>
+                {mediaData?.address && (
+                  <p className="text-xs text-gray-500 mt-1 line-clamp-2">{mediaData.address}</p>
+                )}
+                {hasCoordinates && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {mediaData!.latitude!.toFixed(5)}, {mediaData!.longitude!.toFixed(5)}
+                  </p>
+                )}
+                <p className="text-xs text-blue-500 mt-1">{t('open_in_maps')}</p>
+              </div>
+            </a>
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
               {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
             </span>
           </div>
         );
+      }
+
+      case 'contacts':
+        return (
+          <div className={baseClasses}>
+            <div className="space-y-2 mb-2">
+              {(mediaData?.contacts || []).map((contact, index) => (
+                <div key={index} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-xl min-w-[240px] max-w-[400px]">
+                  <div className="flex items-center gap-3">
+                    <div className={`p-2 rounded-full ${isOwn ? 'bg-green-600' : 'bg-blue-500'}`}>
+                      <Contact className="h-5 w-5 text-white" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold truncate text-gray-800 dark:text-gray-200">
+                        {contact.name || t('unknown_contact')}
+                      </p>
+                      {(contact.company || contact.title) && (
+                        <p className="text-xs text-gray-500 truncate">
+                          {[contact.title, contact.company].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {(contact.phones.length > 0 || contact.emails.length > 0) && (
+                    <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 space-y-1">
+                      {contact.phones.map((phone, phoneIndex) => (
+                        <a key={`p${phoneIndex}`} href={`tel:${phone.phone}`} className="flex items-center gap-2 text-xs text-blue-500 hover:underline">
+                          <Phone className="h-3 w-3" />
+                          {phone.phone}
+                          {phone.type && <span className="text-gray-500">({phone.type})</span>}
+                        </a>
+                      ))}
+                      {contact.emails.map((email, emailIndex) => (
+                        <a key={`e${emailIndex}`} href={`mailto:${email.email}`} className="flex items-center gap-2 text-xs text-blue-500 hover:underline">
+                          <Mail className="h-3 w-3" />
+                          {email.email}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {!mediaData?.contacts?.length && (
+                <p className="text-sm">{message.content}</p>
+              )}
+            </div>
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
+            </span>
+          </div>
+        );
+
+      case 'reaction':
+        // Only reached when the reacted-to message is not loaded in this chat
+        return (
+          <div className={`${baseClasses} py-2`}>
+            <p className="text-sm">
+              {mediaData?.emoji
+                ? <>{t('reacted_to_message')} <span className="text-lg">{mediaData.emoji}</span></>
+                : <span className="italic opacity-75">{t('reaction_removed')}</span>}
+            </p>
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              {formatTime(message.timestamp)}
+            </span>
+          </div>
+        );
+
+      case 'order': {
+        const items = mediaData?.product_items || [];
+        const itemCount = items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+        const currency = items[0]?.currency;
+        const total = items.reduce((sum, item) => sum + (item.item_price || 0) * (item.quantity || 0), 0);
+
+        return (
+          <div className={baseClasses}>
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-xl mb-2 min-w-[240px] max-w-[400px] text-gray-800 dark:text-gray-200">
+              <div className="flex items-center gap-2 mb-2">
+                <ShoppingCart className="h-5 w-5 text-blue-500" />
+                <p className="text-sm font-semibold">
+                  {t('order_items', { count: itemCount })}
+                </p>
+              </div>
+              <div className="space-y-1">
+                {items.map((item, index) => (
+                  <div key={index} className="flex justify-between gap-4 text-xs">
+                    <span className="truncate">{item.quantity} × {item.product_retailer_id}</span>
+                    <span className="flex-shrink-0">{(item.item_price * item.quantity).toFixed(2)} {item.currency}</span>
+                  </div>
+                ))}
+              </div>
+              {items.length > 0 && (
+                <div className="flex justify-between mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 text-sm font-semibold">
+                  <span>{t('order_total')}</span>
+                  <span>{total.toFixed(2)} {currency}</span>
+                </div>
+              )}
+            </div>
+            {mediaData?.text && (
+              <p className="text-sm whitespace-pre-wrap break-words leading-relaxed mb-2">{mediaData.text}</p>
+            )}
+            <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              {formatTime(message.timestamp)}
+              {isOwn && renderDeliveryStatus(message)}
+            </span>
+          </div>
+        );
+      }
 
       default:
         // Text message or fallback
@@ -1003,8 +1658,9 @@ export function ChatWindow({
               {message.content}
             </p>
             <div className="flex items-center gap-2 mt-2">
-              <span className={`text-xs ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
+              <span className={`text-xs flex items-center gap-1 ${isOwn ? 'text-green-100' : 'text-muted-foreground'}`}>
                 {formatTime(message.timestamp)}
+                {isOwn && !isOptimistic && renderDeliveryStatus(message)}
               </span>
               {isOptimistic && isOwn && (
                 <span className="text-xs text-green-200 flex items-center gap-1">
@@ -1021,16 +1677,105 @@ export function ChatWindow({
 
   console.log(messages);
 
-  // Group messages by date
-  const groupedMessages = messages.reduce((groups: { [key: string]: Message[] }, message) => {
-    const date = new Date(message.timestamp).toDateString();
+  // Reactions are shown as badges on the message they target. Most are stored
+  // on the target itself; older ones arrived as messages of their own. Each
+  // sender keeps only their latest reaction, and an empty emoji removes it.
+  const messageIds = new Set(messages.map(m => m.id));
+  const reactionsBySender = new Map<string, Map<string, string>>();
+  messages.forEach(message => {
+    if (message.reactions && Object.keys(message.reactions).length > 0) {
+      reactionsBySender.set(message.id, new Map(Object.entries(message.reactions)));
+    }
+  });
+  messages.forEach(message => {
+    if (message.message_type !== 'reaction') return;
+    const reaction = parseMediaData(message);
+    if (!reaction?.message_id || !messageIds.has(reaction.message_id)) return;
+
+    const senders = reactionsBySender.get(reaction.message_id) || new Map<string, string>();
+    if (reaction.emoji) {
+      senders.set(message.sender_id, reaction.emoji);
+    } else {
+      senders.delete(message.sender_id);
+    }
+    reactionsBySender.set(reaction.message_id, senders);
+  });
+  const visibleMessages = messages.filter(message => {
+    if (message.message_type !== 'reaction') return true;
+    const targetId = parseMediaData(message)?.message_id;
+    return !targetId || !messageIds.has(targetId);
+  });
+
+  // Notes older than the loaded history wait until that page is loaded
+  const oldestLoadedAt = hasMoreMessages && messages.length > 0 ? new Date(messages[0].timestamp).getTime() : null;
+  const timeline: TimelineEntry[] = [
+    ...visibleMessages.map((message): TimelineEntry => ({ type: 'message', at: message.timestamp, message })),
+    ...notes
+      .filter(note => oldestLoadedAt === null || new Date(note.created_at).getTime() >= oldestLoadedAt)
+      .map((note): TimelineEntry => ({ type: 'note', at: note.created_at, note })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  // Group messages and notes by date
+  const groupedMessages = timeline.reduce((groups: { [key: string]: TimelineEntry[] }, entry) => {
+    const date = new Date(entry.at).toDateString();
     if (!groups[date]) {
       groups[date] = [];
     }
-    groups[date].push(message);
+    groups[date].push(entry);
     return groups;
   }, {});
 
+  // Internal notes sit in the thread with their own look so they are never
+  // mistaken for something the customer saw
+  const currentMember = teamMembers.find(member => member.user_id === currentAgentId);
+  const mentionTokenForMe = currentMember ? getMentionToken(currentMember) : null;
+
+  const renderNote = (note: ConversationNote) => {
+    const author = teamMembers.find(member => member.user_id === note.author_id);
+    const isMine = !!currentAgentId && note.author_id === currentAgentId;
+
+    return (
+      <div key={`note-${note.id}`} id={`note-${note.id}`} className="group flex justify-center">
+        <div className="w-full max-w-[85%] rounded-lg border border-dashed border-amber-400 bg-amber-50 dark:bg-amber-950/30 px-3 py-2 text-sm shadow-sm">
+          <div className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400 mb-1">
+            <StickyNote className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="font-semibold truncate">
+              {author ? getTeamMemberName(author) : t('unknown_agent')}
+            </span>
+            <span>· {t('internal_note')}</span>
+            <span className="ml-auto">{formatTime(note.created_at)}</span>
+            {isMine && onDeleteNote && (
+              <button
+                type="button"
+                onClick={() => {
+                  if (confirm(t('delete_note_confirm'))) onDeleteNote(note.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-amber-200/60 dark:hover:bg-amber-900/60 transition-opacity"
+                title={t('delete_note')}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap break-words text-foreground">
+            {splitNoteMentions(note.content, note.mentions, teamMembers).map((part, i) => (
+              part.mention ? (
+                <span
+                  key={i}
+                  className={`font-medium rounded px-0.5 ${part.text === mentionTokenForMe ? 'bg-amber-300/70 dark:bg-amber-700/70' : 'text-amber-700 dark:text-amber-400'}`}
+                >
+                  {part.text}
+                </span>
+              ) : (
+                <span key={i}>{part.text}</span>
+              )
+            ))}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
   // Show welcome screen only if neither individual user nor broadcast group is selected
   if (!selectedUser && !broadcastGroupName) {
     return (
@@ -1093,6 +1838,15 @@ export function ChatWindow({
                 )}
               </p>
             </div>
+            {onOpenScheduledBroadcasts && (
+              <button
+                onClick={onOpenScheduledBroadcasts}
+                className="p-2 hover:bg-muted rounded-full transition-colors"
+                title={t('scheduled_broadcasts')}
+              >
+                <CalendarClock className="h-5 w-5" />
+              </button>
+            )}
           </>
         ) : selectedUser ? (
           <>
@@ -1119,6 +1873,96 @@ export function ChatWindow({
                 )}
               </p>
             </div>
+            {/* Customer service window countdown */}
+            <span
+              className={`hidden sm:inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full flex-shrink-0 ${isWindowClosed
+                ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                : windowRemainingMs < 60 * 60 * 1000
+                  ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                  : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                }`}
+              title={windowExpiry ? t('window_expires_at', { time: windowExpiry.toLocaleString() }) : undefined}
+            >
+              <Clock className="h-3 w-3" />
+              {isWindowClosed
+                ? t('window_closed')
+                : t('window_closes_in', { time: formatWindowRemaining(windowRemainingMs) })}
+            </span>
+            {/* Conversation assignee */}
+            {onAssign && (
+              <label className="hidden sm:inline-flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0" title={t('assign_conversation')}>
+                <UserCheck className="h-4 w-4" />
+                <select
+                  value={assignedTo ?? ''}
+                  onChange={(e) => onAssign(selectedUser.id, e.target.value || null)}
+                  className="h-8 rounded-md border border-input bg-background px-2 max-w-[160px] text-foreground"
+                >
+                  <option value="">{t('unassigned')}</option>
+                  {teamMembers.map((member) => (
+                    <option key={member.user_id} value={member.user_id}>
+                      {member.user_id === currentAgentId ? `${getTeamMemberName(member)} (${t('you')})` : getTeamMemberName(member)}
+                    </option>
+                  ))}
+                  {/* Keep a removed agent selectable so the value still renders */}
+                  {assignedTo && !teamMembers.some(m => m.user_id === assignedTo) && (
+                    <option value={assignedTo}>{t('unknown_agent')}</option>
+                  )}
+                </select>
+              </label>
+            )}
+            {/* Conversation status */}
+            {onSetStatus && (effectiveStatus === 'resolved' ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSetStatus(selectedUser.id, 'open')}
+                className="flex-shrink-0"
+                title={t('reopen_conversation')}
+              >
+                <RotateCcw className="h-4 w-4 sm:mr-1" />
+                <span className="hidden sm:inline">{t('reopen')}</span>
+              </Button>
+            ) : (
+              <>
+                {effectiveStatus === 'snoozed' && snoozedUntil ? (
+                  <button
+                    type="button"
+                    onClick={() => onSetStatus(selectedUser.id, 'open')}
+                    className="hidden sm:inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full flex-shrink-0 bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400"
+                    title={t('unsnooze')}
+                  >
+                    <AlarmClock className="h-3 w-3" />
+                    {t('snoozed_until', { time: new Date(snoozedUntil).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' }) })}
+                  </button>
+                ) : (
+                  <label className="hidden sm:inline-flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0" title={t('snooze_conversation')}>
+                    <AlarmClock className="h-4 w-4" />
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        if (!e.target.value) return;
+                        onSetStatus(selectedUser.id, 'snoozed', getSnoozeUntil(e.target.value as SnoozePreset).toISOString());
+                      }}
+                      className="h-8 rounded-md border border-input bg-background px-2 text-foreground"
+                    >
+                      <option value="">{t('snooze')}</option>
+                      {SNOOZE_PRESETS.map((preset) => (
+                        <option key={preset} value={preset}>{t(`snooze_${preset}`)}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <Button
+                  size="sm"
+                  onClick={() => onSetStatus(selectedUser.id, 'resolved')}
+                  className="bg-green-600 hover:bg-green-700 text-white flex-shrink-0"
+                  title={t('resolve_conversation')}
+                >
+                  <CheckCircle2 className="h-4 w-4 sm:mr-1" />
+                  <span className="hidden sm:inline">{t('resolve')}</span>
+                </Button>
+              </>
+            ))}
           </>
         ) : null}
         {!isMobile && onClose && (
@@ -1135,6 +1979,7 @@ export function ChatWindow({
       {/* Messages Area */}
       <div
         ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
         className="flex-1 overflow-y-auto p-4 bg-gradient-to-b from-green-50/30 to-blue-50/30 dark:from-green-950/10 dark:to-blue-950/10"
       >
         {Object.keys(groupedMessages).length === 0 ? (
@@ -1160,18 +2005,41 @@ export function ChatWindow({
           </div>
         ) : (
           <div className="space-y-4">
+            {/* Older history */}
+            {(hasMoreMessages || isLoadingOlderMessages) && (
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={loadOlderMessages}
+                  disabled={isLoadingOlderMessages}
+                  className="text-xs text-muted-foreground"
+                >
+                  {isLoadingOlderMessages ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    t('load_earlier_messages')
+                  )}
+                </Button>
+              </div>
+            )}
             {Object.entries(groupedMessages).map(([date, dayMessages]) => (
               <div key={date}>
                 {/* Date Separator */}
                 <div className="flex justify-center my-6">
                   <span className="bg-background/80 text-muted-foreground text-xs px-4 py-2 rounded-full border shadow-sm">
-                    {formatDate(dayMessages[0].timestamp)}
+                    {formatDate(dayMessages[0].at)}
                   </span>
                 </div>
 
                 {/* Messages for this date */}
                 <div className="space-y-3">
-                  {dayMessages.map((message, index) => {
+                  {dayMessages.map((entry, index) => {
+                    if (entry.type === 'note') {
+                      return renderNote(entry.note);
+                    }
+
+                    const message = entry.message;
                     // Use is_sent_by_me field instead of comparing IDs to determine message ownership
                     const isOwn = message.is_sent_by_me;
 
@@ -1190,10 +2058,16 @@ export function ChatWindow({
                     const isFirstUnread = globalIndex === firstUnreadIndex;
                     const isNewMessage = index === dayMessages.length - 1 && dayMessages.length > 0;
 
+                    const quotedMessage = message.reply_to_message_id
+                      ? messages.find(m => m.id === message.reply_to_message_id)
+                      : undefined;
+                    const canReply = !broadcastGroupName && !message.id.startsWith('optimistic_');
+
                     return (
                       <div
                         key={message.id}
-                        className={`${isNewMessage ? 'animate-fade-in-up' : ''}`}
+                        id={`message-${message.id}`}
+                        className={`${isNewMessage ? 'animate-fade-in-up' : ''} ${highlightedMessageId === message.id ? 'bg-green-500/10 rounded-xl transition-colors' : ''}`}
                       >
                         {/* Unread messages indicator */}
                         {isFirstUnread && hasUnreadMessages && (
@@ -1209,9 +2083,107 @@ export function ChatWindow({
                           </div>
                         )}
 
-                        <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                        {/* Quoted message this one replies to */}
+                        {message.reply_to_message_id && (
+                          <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                            <button
+                              type="button"
+                              onClick={() => quotedMessage && scrollToMessage(quotedMessage.id)}
+                              disabled={!quotedMessage}
+                              className={`max-w-[75%] -mb-1 px-3 py-1.5 text-left rounded-lg border-l-4 border-green-500 bg-muted/70 text-xs ${isOwn ? 'mr-4' : 'ml-4'} ${quotedMessage ? 'hover:bg-muted cursor-pointer' : 'cursor-default'}`}
+                            >
+                              {quotedMessage ? (
+                                <>
+                                  <span className="block font-semibold text-green-600">{getQuoteAuthor(quotedMessage)}</span>
+                                  <span className="block truncate text-muted-foreground">{quotedMessage.content}</span>
+                                </>
+                              ) : (
+                                <span className="italic text-muted-foreground">{t('quoted_message_unavailable')}</span>
+                              )}
+                            </button>
+                          </div>
+                        )}
+
+                        <div className={`group flex items-center ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                          {isOwn && canReply && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => { setReplyingTo(message); setIsNoteMode(false); }}
+                              className="p-1 h-7 w-7 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                              title={t('reply')}
+                            >
+                              <Reply className="h-4 w-4" />
+                            </Button>
+                          )}
                           {renderMessageContent(message, isOwn)}
+                          {!isOwn && canReply && (
+                            <div className="relative">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setReactionPickerFor(reactionPickerFor === message.id ? null : message.id)}
+                                className={`p-1 h-7 w-7 rounded-full transition-opacity ${reactionPickerFor === message.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                                title={t('react')}
+                              >
+                                <SmilePlus className="h-4 w-4" />
+                              </Button>
+                              {reactionPickerFor === message.id && (
+                                <div className="absolute bottom-full left-0 mb-1 z-10 flex gap-1 bg-background border border-border rounded-full shadow-lg px-2 py-1">
+                                  {QUICK_REACTIONS.map((emoji) => (
+                                    <button
+                                      key={emoji}
+                                      type="button"
+                                      onClick={() => handleReact(message, emoji)}
+                                      className={`text-lg leading-none p-1 rounded-full hover:bg-muted transition-transform hover:scale-125 ${message.reactions?.[message.receiver_id] === emoji ? 'bg-muted' : ''}`}
+                                    >
+                                      {emoji}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                          {!isOwn && canReply && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => { setReplyingTo(message); setIsNoteMode(false); }}
+                              className="p-1 h-7 w-7 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                              title={t('reply')}
+                            >
+                              <Reply className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
+
+                        {/* Reactions on this message */}
+                        {(reactionsBySender.get(message.id)?.size || 0) > 0 && (
+                          <div className={`flex -mt-2 ${isOwn ? 'justify-end mr-6' : 'justify-start ml-4'}`}>
+                            <span className="inline-flex items-center gap-0.5 text-sm bg-background border border-border px-1.5 py-0.5 rounded-full shadow-sm">
+                              {Array.from(reactionsBySender.get(message.id)!.values()).map((emoji, reactionIndex) => (
+                                <span key={reactionIndex}>{emoji}</span>
+                              ))}
+                            </span>
+                          </div>
+                        )}
+
+                        {/* Failure badge for outbound messages Meta could not deliver */}
+                        {isOwn && message.status === 'failed' && (
+                          <div className="flex justify-end mt-1 mr-4">
+                            <span
+                              className="inline-flex items-center gap-1 text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 px-2 py-0.5 rounded-full"
+                              title={message.error_message || undefined}
+                            >
+                              <AlertCircle className="h-3 w-3" />
+                              {t('message_not_delivered')}
+                              {message.error_code ? ` (${message.error_code})` : ''}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -1225,9 +2197,116 @@ export function ChatWindow({
 
       {/* Message Input */}
       <div className="p-4 border-t border-border bg-background">
-        <form onSubmit={handleSendMessage} className="flex gap-3 items-end">
+        {broadcastGroupName && showSchedulePicker && (
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+            <span className="text-muted-foreground">{t('schedule_for')}</span>
+            <Input
+              type="datetime-local"
+              value={scheduleInput}
+              onChange={(e) => setScheduleInput(e.target.value)}
+              className="w-auto h-8"
+            />
+            <select
+              value={scheduleTimezone}
+              onChange={(e) => setScheduleTimezone(e.target.value)}
+              className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {listTimeZones().map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+            {scheduleInput && (() => {
+              const scheduledFor = zonedTimeToUtc(scheduleInput, scheduleTimezone);
+              return scheduledFor ? (
+                <span className={`text-xs ${scheduledFor.getTime() <= Date.now() ? 'text-red-500' : 'text-muted-foreground'}`}>
+                  {scheduledFor.getTime() <= Date.now()
+                    ? t('schedule_in_past')
+                    : t('will_send_at', { time: formatScheduledTime(scheduledFor.toISOString(), scheduleTimezone) })}
+                </span>
+              ) : null;
+            })()}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={clearSchedule}
+              className="p-1 hover:bg-muted rounded-full ml-auto"
+              title={t('send_now_instead')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex items-center gap-2 mb-3 px-3 py-2 rounded-lg border-l-4 border-green-500 bg-muted/70 text-sm">
+            <Reply className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="text-xs font-semibold text-green-600">
+                {t('replying_to', { name: getQuoteAuthor(replyingTo) })}
+              </p>
+              <p className="truncate text-muted-foreground">{replyingTo.content}</p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setReplyingTo(null)}
+              className="p-1 hover:bg-muted rounded-full"
+              title={t('cancel_reply')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {canAddNotes && (
+          <div className="flex items-center gap-1 mb-2 text-xs">
+            <button
+              type="button"
+              onClick={() => isNoteMode && toggleNoteMode()}
+              className={`px-3 py-1 rounded-full transition-colors ${!isNoteMode ? 'bg-green-600 text-white' : 'text-muted-foreground hover:bg-muted'}`}
+            >
+              {t('reply_mode')}
+            </button>
+            <button
+              type="button"
+              onClick={() => !isNoteMode && toggleNoteMode()}
+              className={`inline-flex items-center gap-1 px-3 py-1 rounded-full transition-colors ${isNoteMode ? 'bg-amber-500 text-white' : 'text-muted-foreground hover:bg-muted'}`}
+              title={t('note_mode_hint')}
+            >
+              <StickyNote className="h-3 w-3" />
+              {t('note_mode')}
+            </button>
+            {isNoteMode && (
+              <span className="ml-2 text-muted-foreground">{t('note_mode_hint')}</span>
+            )}
+          </div>
+        )}
+        <form onSubmit={handleSendMessage} className="relative flex gap-3 items-end">
+          {/* @mention suggestions while writing a note */}
+          {mentionSuggestions.length > 0 && (
+            <div className="absolute bottom-full left-0 mb-2 w-64 rounded-md border border-border bg-popover shadow-lg z-20 py-1">
+              {mentionSuggestions.map((member, i) => (
+                <button
+                  key={member.user_id}
+                  type="button"
+                  onMouseDown={(e) => {
+                    // Keep focus in the composer
+                    e.preventDefault();
+                    insertMention(member);
+                  }}
+                  className={`w-full text-left px-3 py-1.5 text-sm ${i === mentionIndex ? 'bg-muted' : 'hover:bg-muted'}`}
+                >
+                  <span className="font-medium">{getTeamMemberName(member)}</span>
+                  {member.email && member.display_name && (
+                    <span className="ml-2 text-xs text-muted-foreground">{member.email}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
           {/* Hide media button in broadcast mode, show template button */}
-          {!broadcastGroupName && (
+          {!broadcastGroupName && !isWindowClosed && !isWritingNote && (
             <Button
               type="button"
               variant="ghost"
@@ -1240,51 +2319,128 @@ export function ChatWindow({
             </Button>
           )}
           {/* Template button available for both modes */}
-          <Button
-            type="button"
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowTemplateSelector(true)}
-            className="p-2 hover:bg-muted rounded-full transition-colors"
-            title={t('send_template')}
-          >
-            <MessageSquare className="h-5 w-5" />
-          </Button>
-          <Textarea
-            value={messageInput}
-            onChange={(e) => setMessageInput(e.target.value)}
-            onKeyDown={(e) => {
-              // Allow Shift+Enter for newlines, Enter for submit
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                handleSendMessage(e);
+          {!isWritingNote && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowTemplateSelector(true)}
+              className="p-2 hover:bg-muted rounded-full transition-colors"
+              title={t('send_template')}
+            >
+              <MessageSquare className="h-5 w-5" />
+            </Button>
+          )}
+          {!broadcastGroupName && !isWindowClosed && !isWritingNote && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowInteractiveComposer(true)}
+              className="p-2 hover:bg-muted rounded-full transition-colors"
+              title={t('send_interactive')}
+            >
+              <MousePointerClick className="h-5 w-5" />
+            </Button>
+          )}
+          {broadcastGroupName && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => showSchedulePicker ? clearSchedule() : setShowSchedulePicker(true)}
+              className={`p-2 hover:bg-muted rounded-full transition-colors ${showSchedulePicker ? 'text-green-600' : ''}`}
+              title={t('schedule_broadcast')}
+            >
+              <CalendarClock className="h-5 w-5" />
+            </Button>
+          )}
+          {isWindowClosed && !isWritingNote ? (
+            <button
+              type="button"
+              onClick={() => setShowTemplateSelector(true)}
+              className="flex-1 text-left text-sm rounded-sm border border-dashed border-border px-4 py-2 min-h-[60px] bg-muted/40 hover:bg-muted transition-colors"
+            >
+              <span className="block font-medium text-foreground">{t('window_closed_title')}</span>
+              <span className="block text-muted-foreground">{t('window_closed_hint')}</span>
+            </button>
+          ) : (
+            <Textarea
+              ref={composerRef}
+              value={messageInput}
+              onChange={(e) => {
+                setMessageInput(e.target.value);
+                updateMentionQuery(e.target.value, e.target.selectionStart);
+              }}
+              onKeyDown={(e) => {
+                if (mentionSuggestions.length > 0) {
+                  if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                    e.preventDefault();
+                    const step = e.key === "ArrowDown" ? 1 : -1;
+                    setMentionIndex(i => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+                    return;
+                  }
+                  if (e.key === "Enter" || e.key === "Tab") {
+                    e.preventDefault();
+                    insertMention(mentionSuggestions[mentionIndex] ?? mentionSuggestions[0]);
+                    return;
+                  }
+                  if (e.key === "Escape") {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setMentionQuery(null);
+                    return;
+                  }
+                }
+                // Allow Shift+Enter for newlines, Enter for submit
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSendMessage(e);
+                }
+              }}
+              placeholder={
+                isWritingNote
+                  ? t('type_note')
+                  : isLoading || sendingMedia
+                    ? t('sending_message')
+                    : broadcastGroupName
+                      ? t('type_broadcast_message')
+                      : t('type_message')
               }
-            }}
-            placeholder={
-              isLoading || sendingMedia
-                ? t('sending_message')
-                : broadcastGroupName
-                  ? t('type_broadcast_message')
-                  : t('type_message')
-            }
-            className="flex-1 border-border focus:ring-green-500 rounded-sm px-4 py-2"
-            maxLength={1000}
-            disabled={isLoading || sendingMedia}
-            autoFocus
-            rows={2}
-            style={{ resize: "none" }}
-          />
-          <Button
-            type="submit"
-            disabled={!messageInput.trim() || isLoading || sendingMedia}
-            className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-          >
-            {isLoading || sendingMedia ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-          </Button>
+              className={`flex-1 border-border rounded-sm px-4 py-2 ${isWritingNote ? 'bg-amber-50 dark:bg-amber-950/30 border-amber-400 focus:ring-amber-500' : 'focus:ring-green-500'}`}
+              maxLength={isWritingNote ? MAX_NOTE_LENGTH : 1000}
+              disabled={isWritingNote ? savingNote : isLoading || sendingMedia}
+              autoFocus
+              rows={2}
+              style={{ resize: "none" }}
+            />
+          )}
+          {isWritingNote ? (
+            <Button
+              type="submit"
+              disabled={!messageInput.trim() || savingNote}
+              className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-2 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              title={t('add_note')}
+            >
+              {savingNote ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <StickyNote className="h-4 w-4" />
+              )}
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!messageInput.trim() || isLoading || sendingMedia}
+              className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {isLoading || sendingMedia ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+            </Button>
+          )}
         </form>
       </div>
 
@@ -1319,6 +2475,9 @@ export function ChatWindow({
           isOpen={showTemplateSelector}
           onClose={() => setShowTemplateSelector(false)}
           onSendTemplate={handleSendTemplate}
+          contactFields={contactFields}
+          fieldValues={selectedUser ? getContactFieldValues({ ...selectedUser, attributes: contactAttributes }) : undefined}
+          previewRecipients={selectedUser ? undefined : broadcastPreviewRecipients}
           selectedUser={selectedUser || {
             id: 'broadcast',
             name: broadcastGroupName || 'Broadcast Group',
@@ -1327,6 +2486,15 @@ export function ChatWindow({
         />
       )}
 
+      {/* Interactive Message Composer - Only in individual chat mode */}
+      {selectedUser && (
+        <InteractiveMessageComposer
+          isOpen={showInteractiveComposer}
+          onClose={() => setShowInteractiveComposer(false)}
+          onSend={handleSendInteractive}
+        />
+      )}
+
       {/* User Info Dialog - Only in individual chat mode */}
       {selectedUser && (
         <UserInfoDialog
@@ -1334,6 +2502,11 @@ export function ChatWindow({
           onClose={() => setShowUserInfo(false)}
           user={selectedUser}
           onUpdateName={handleUpdateName}
+          tags={contactTags}
+          attributes={contactAttributes}
+          fields={contactFields}
+          onUpdateDetails={onUpdateContactDetails}
+          onFieldsChange={onContactFieldsChange}
         />
       )}
     </div>
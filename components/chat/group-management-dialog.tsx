@@ -8,6 +8,16 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { X, Users, Save, Loader2, Search, Upload, FileSpreadsheet, CheckCircle, PlusCircle, AlertCircle } from "lucide-react";
+import type { PhoneInvalidReason, PhoneLineType } from "@/lib/phone";
+import type { ContactField } from "@/lib/contact-fields";
+import {
+  ColumnMapping,
+  ImportColumnTarget,
+  SavedColumnMappings,
+  normalizeHeader,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from "@/lib/contact-import";
 
 interface ChatUser {
   id: string;
@@ -29,11 +39,20 @@ interface ParsedExcelUser {
   name: string;
   phone: string;
   isNew: boolean;
+  country?: string | null;
+  lineType?: PhoneLineType;
 }
 
 interface InvalidNumber {
   phone: string;
-  reason: string;
+  reason: PhoneInvalidReason;
+  message: string;
+}
+
+interface InvalidValue {
+  row: number;
+  column: string;
+  message: string;
 }
 
 interface ExcelParseResult {
@@ -43,22 +62,59 @@ interface ExcelParseResult {
   invalid: number;
   users: ParsedExcelUser[];
   invalidNumbers?: InvalidNumber[];
+  invalidValues?: InvalidValue[];
+  mapping?: ColumnMapping;
+}
+
+interface ExcelPreview {
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
+}
+
+const COLUMN_MAPPINGS_STORAGE_KEY = 'group_import_column_mappings';
+
+// Mappings target the tenant's own contact fields, so each tenant keeps its own
+const columnMappingsStorageKey = (tenantId: string) => `${COLUMN_MAPPINGS_STORAGE_KEY}:${tenantId}`;
+
+function loadColumnMappings(tenantId: string): SavedColumnMappings {
+  try {
+    return JSON.parse(localStorage.getItem(columnMappingsStorageKey(tenantId)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Remember each header's target so the next file with the same columns is pre-mapped
+function saveColumnMappings(tenantId: string, headers: string[], mapping: ColumnMapping) {
+  const stored = loadColumnMappings(tenantId);
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    if (normalized && mapping[index]) stored[normalized] = mapping[index];
+  });
+  localStorage.setItem(columnMappingsStorageKey(tenantId), JSON.stringify(stored));
 }
 
 interface GroupManagementDialogProps {
   isOpen: boolean;
+  tenantId: string;
   onClose: () => void;
   users: ChatUser[];
   group?: Group | null; // If provided, we're editing; otherwise creating
   onGroupSaved: () => void;
+  contactFields?: ContactField[];
+  onContactFieldsChange?: () => void;
 }
 
 export function GroupManagementDialog({
   isOpen,
+  tenantId,
   onClose,
   users,
   group,
   onGroupSaved,
+  contactFields = [],
+  onContactFieldsChange,
 }: GroupManagementDialogProps) {
   const { t } = useTranslation();
   const [name, setName] = useState("");
@@ -70,6 +126,10 @@ export function GroupManagementDialog({
   const [showExcelImport, setShowExcelImport] = useState(false);
   const [isUploadingExcel, setIsUploadingExcel] = useState(false);
   const [excelParseResult, setExcelParseResult] = useState<ExcelParseResult | null>(null);
+  const [excelFile, setExcelFile] = useState<File | null>(null);
+  const [excelPreview, setExcelPreview] = useState<ExcelPreview | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>([]);
+  const [usedSavedMapping, setUsedSavedMapping] = useState(false);
   const [selectedExcelUserIds, setSelectedExcelUserIds] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -85,6 +145,7 @@ export function GroupManagementDialog({
       setSelectedUserIds([]);
       setShowExcelImport(false);
       setExcelParseResult(null);
+      setExcelPreview(null);
       setSelectedExcelUserIds(new Set());
     }
   }, [group]);
@@ -104,6 +165,7 @@ export function GroupManagementDialog({
     if (isOpen && !group) {
       setShowExcelImport(false);
       setExcelParseResult(null);
+      setExcelPreview(null);
       setSelectedExcelUserIds(new Set());
     }
   }, [isOpen, group]);
@@ -129,6 +191,7 @@ export function GroupManagementDialog({
     );
   };
 
+  // Step 1: read the headers and a few rows so the user can map the columns
   const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -138,6 +201,7 @@ export function GroupManagementDialog({
 
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('preview', 'true');
 
     try {
       const response = await fetch('/api/groups/parse-excel', {
@@ -151,13 +215,12 @@ export function GroupManagementDialog({
         throw new Error(data.error || t('failed_parse_excel'));
       }
 
-      setExcelParseResult(data.data);
-
-      // Auto-select all users (both existing and new)
-      const allUserIds = data.data.users
-        .filter((u: ParsedExcelUser) => u.userId)
-        .map((u: ParsedExcelUser) => u.userId);
-      setSelectedExcelUserIds(new Set(allUserIds));
+      const preview: ExcelPreview = data.preview;
+      const saved = loadColumnMappings(tenantId);
+      setExcelFile(file);
+      setExcelPreview(preview);
+      setColumnMapping(suggestColumnMapping(preview.headers, contactFields, saved));
+      setUsedSavedMapping(preview.headers.some(header => saved[normalizeHeader(header)]));
 
     } catch (error) {
       console.error('Error parsing Excel:', error);
@@ -171,12 +234,84 @@ export function GroupManagementDialog({
     }
   };
 
+  // Step 2: import the rows with the chosen mapping
+  const handleImportMappedColumns = async () => {
+    if (!excelFile || !excelPreview) return;
+
+    const mappingError = validateColumnMapping(columnMapping);
+    if (mappingError) {
+      setError(t(mappingError));
+      return;
+    }
+
+    setIsUploadingExcel(true);
+    setError(null);
+
+    const formData = new FormData();
+    formData.append('file', excelFile);
+    formData.append('mapping', JSON.stringify(columnMapping));
+
+    try {
+      const response = await fetch('/api/groups/parse-excel', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || t('failed_parse_excel'));
+      }
+
+      const result: ExcelParseResult = data.data;
+      saveColumnMappings(tenantId, excelPreview.headers, result.mapping || columnMapping);
+      if (columnMapping.includes('new_field')) {
+        onContactFieldsChange?.();
+      }
+      setExcelParseResult(result);
+
+      // Auto-select all users (both existing and new)
+      const allUserIds = result.users
+        .filter((u: ParsedExcelUser) => u.userId)
+        .map((u: ParsedExcelUser) => u.userId);
+      setSelectedExcelUserIds(new Set(allUserIds));
+
+    } catch (error) {
+      console.error('Error importing Excel:', error);
+      setError(error instanceof Error ? error.message : t('failed_parse_excel'));
+    } finally {
+      setIsUploadingExcel(false);
+    }
+  };
+
+  const handleColumnTargetChange = (index: number, target: ImportColumnTarget) => {
+    setColumnMapping(prev => prev.map((current, i) => {
+      if (i === index) return target;
+      // Only one column can hold the phone, the name or a given field
+      if (target !== 'tags' && target !== 'ignore' && target !== 'new_field' && current === target) return 'ignore';
+      return current;
+    }));
+  };
+
+  const getColumnTargetLabel = (index: number) => {
+    const target = columnMapping[index];
+    if (target === 'new_field') return excelPreview?.headers[index] || t('column_target_new_field');
+    if (target.startsWith('field:')) {
+      const key = target.slice('field:'.length);
+      return contactFields.find(field => field.key === key)?.label || key;
+    }
+    return t(`column_target_${target}`);
+  };
+
   const handleConfirmExcelImport = () => {
     setShowExcelImport(false);
   };
 
   const handleCancelExcelImport = () => {
     setExcelParseResult(null);
+    setExcelFile(null);
+    setExcelPreview(null);
+    setColumnMapping([]);
     setSelectedExcelUserIds(new Set());
     setShowExcelImport(false);
   };
@@ -339,7 +474,113 @@ export function GroupManagementDialog({
             {/* Excel Import Panel */}
             {showExcelImport && !group && (
               <div className="border border-dashed border-border rounded-lg p-6 bg-muted/30 space-y-4">
-                {!excelParseResult ? (
+                {!excelParseResult && excelPreview ? (
+                  <>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <h3 className="font-semibold">{t('map_columns_title')}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {t('map_columns_desc', { count: excelPreview.totalRows, file: excelFile?.name || '' })}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleCancelExcelImport}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {usedSavedMapping && (
+                      <p className="text-xs text-muted-foreground">{t('mapping_restored')}</p>
+                    )}
+
+                    {/* Column targets */}
+                    <div className="max-h-64 overflow-y-auto border rounded-lg divide-y bg-background">
+                      {excelPreview.headers.map((header, index) => (
+                        <div key={index} className="flex items-center gap-3 p-2 text-sm">
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{header || t('column_number', { number: index + 1 })}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {excelPreview.rows.map(row => row[index]).filter(Boolean).slice(0, 3).join(' · ') || '—'}
+                            </p>
+                          </div>
+                          <select
+                            value={columnMapping[index] || 'ignore'}
+                            onChange={(e) => handleColumnTargetChange(index, e.target.value as ImportColumnTarget)}
+                            className="h-8 w-44 flex-shrink-0 rounded-md border border-input bg-background px-2 text-xs"
+                          >
+                            <option value="ignore">{t('column_target_ignore')}</option>
+                            <option value="phone">{t('column_target_phone')}</option>
+                            <option value="name">{t('column_target_name')}</option>
+                            <option value="tags">{t('column_target_tags')}</option>
+                            {contactFields.length > 0 && (
+                              <optgroup label={t('custom_fields')}>
+                                {contactFields.map(field => (
+                                  <option key={field.key} value={`field:${field.key}`}>{field.label}</option>
+                                ))}
+                              </optgroup>
+                            )}
+                            <option value="new_field">{t('column_target_new_field')}</option>
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Preview of the mapped columns */}
+                    {columnMapping.some(target => target !== 'ignore') && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">{t('import_preview')}</p>
+                        <div className="overflow-x-auto border rounded-lg bg-background">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="bg-muted/50">
+                                {columnMapping.map((target, index) => target !== 'ignore' && (
+                                  <th key={index} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                                    {getColumnTargetLabel(index)}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y">
+                              {excelPreview.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex}>
+                                  {columnMapping.map((target, index) => target !== 'ignore' && (
+                                    <td key={index} className="px-2 py-1 whitespace-nowrap text-muted-foreground">
+                                      {row[index]}
+                                    </td>
+                                  ))}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleCancelExcelImport}
+                        className="flex-1"
+                      >
+                        {t('cancel')}
+                      </Button>
+                      <Button
+                        type="button"
+                        onClick={handleImportMappedColumns}
+                        disabled={isUploadingExcel}
+                        className="flex-1 bg-green-600 hover:bg-green-700"
+                      >
+                        {isUploadingExcel && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('import_rows_btn', { count: excelPreview.totalRows })}
+                      </Button>
+                    </div>
+                  </>
+                ) : !excelParseResult ? (
                   <>
                     <div className="text-center space-y-3">
                       <div className="mx-auto w-12 h-12 bg-green-100 dark:bg-green-900/30 rounded-full flex items-center justify-center">
@@ -356,10 +597,9 @@ export function GroupManagementDialog({
                     <div className="space-y-2 text-sm text-muted-foreground">
                       <p className="font-medium text-foreground">{t('file_format_requirements')}</p>
                       <ul className="list-disc list-inside space-y-1 ml-2">
-                        <li>{t('req_col_phone_or_whatsapp')}</li>
-                        <li>{t('req_col_name')}</li>
-                        <li>{t('req_phone_digits')}</li>
-                        <li>{t('req_phone_no_zero')}</li>
+                        <li>{t('req_header_row')}</li>
+                        <li>{t('req_map_columns')}</li>
+                        <li>{t('req_phone_country_code')}</li>
                       </ul>
                     </div>
 
@@ -454,7 +694,9 @@ export function GroupManagementDialog({
                               )}
                               <span className="truncate">{u.name}</span>
                             </div>
-                            <span className="text-muted-foreground text-xs ml-2">{u.phone}</span>
+                            <span className="text-muted-foreground text-xs ml-2">
+                              {u.country && `${u.country} · `}{u.phone}
+                            </span>
                           </div>
                         ))}
                       </div>
@@ -473,7 +715,27 @@ export function GroupManagementDialog({
                           {excelParseResult.invalidNumbers.map((inv, i) => (
                             <div key={i} className="flex items-center justify-between p-2 text-sm">
                               <span className="text-muted-foreground">{inv.phone}</span>
-                              <span className="text-xs text-red-500">{inv.reason}</span>
+                              <span className="text-xs text-red-500">{t(`phone_invalid_${inv.reason}`)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Field values that did not fit their type */}
+                    {excelParseResult.invalidValues && excelParseResult.invalidValues.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <AlertCircle className="h-4 w-4 text-amber-600" />
+                          <span className="text-sm font-medium text-amber-600">
+                            {t('field_values_skipped', { count: excelParseResult.invalidValues.length })}
+                          </span>
+                        </div>
+                        <div className="max-h-32 overflow-y-auto border border-amber-200 dark:border-amber-900 rounded-lg divide-y">
+                          {excelParseResult.invalidValues.map((inv, i) => (
+                            <div key={i} className="flex items-center justify-between gap-2 p-2 text-sm">
+                              <span className="text-muted-foreground">{t('row_column', { row: inv.row, column: inv.column })}</span>
+                              <span className="text-xs text-amber-600 truncate">{inv.message}</span>
                             </div>
                           ))}
                         </div>
@@ -0,0 +1,325 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { X, Plus, Trash2, Send, Loader2, MousePointerClick, List } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import {
+  INTERACTIVE_LIMITS,
+  InteractiveListSection,
+  InteractiveMessage,
+  InteractiveReplyButton,
+  validateInteractiveMessage,
+} from "@/lib/interactive-message";
+
+interface InteractiveMessageComposerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSend: (interactive: InteractiveMessage) => Promise<void>;
+}
+
+// Reply ids are only used to recognise the customer's choice, so generated ones are fine
+const newReplyId = () => `opt_${Math.random().toString(36).slice(2, 10)}`;
+
+const emptySection = (): InteractiveListSection => ({
+  title: "",
+  rows: [{ id: newReplyId(), title: "", description: "" }],
+});
+
+export function InteractiveMessageComposer({ isOpen, onClose, onSend }: InteractiveMessageComposerProps) {
+  const { t } = useTranslation();
+  const [type, setType] = useState<'button' | 'list'>('button');
+  const [header, setHeader] = useState("");
+  const [body, setBody] = useState("");
+  const [footer, setFooter] = useState("");
+  const [buttons, setButtons] = useState<InteractiveReplyButton[]>([{ id: newReplyId(), title: "" }]);
+  const [buttonText, setButtonText] = useState("");
+  const [sections, setSections] = useState<InteractiveListSection[]>([emptySection()]);
+  const [isSending, setIsSending] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  if (!isOpen) return null;
+
+  const rowCount = sections.reduce((sum, section) => sum + section.rows.length, 0);
+
+  const reset = () => {
+    setType('button');
+    setHeader("");
+    setBody("");
+    setFooter("");
+    setButtons([{ id: newReplyId(), title: "" }]);
+    setButtonText("");
+    setSections([emptySection()]);
+    setErrors([]);
+  };
+
+  const handleClose = () => {
+    if (isSending) return;
+    reset();
+    onClose();
+  };
+
+  const updateButton = (index: number, title: string) => {
+    setButtons(prev => prev.map((button, i) => i === index ? { ...button, title } : button));
+  };
+
+  const updateSection = (sectionIndex: number, update: Partial<InteractiveListSection>) => {
+    setSections(prev => prev.map((section, i) => i === sectionIndex ? { ...section, ...update } : section));
+  };
+
+  const updateRow = (sectionIndex: number, rowIndex: number, field: 'title' | 'description', value: string) => {
+    setSections(prev => prev.map((section, i) => i === sectionIndex
+      ? { ...section, rows: section.rows.map((row, j) => j === rowIndex ? { ...row, [field]: value } : row) }
+      : section
+    ));
+  };
+
+  const handleSend = async () => {
+    const interactive: InteractiveMessage = type === 'button'
+      ? { type, header, body, footer, buttons }
+      : { type, header, body, footer, buttonText, sections };
+
+    const validationErrors = validateInteractiveMessage(interactive);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setIsSending(true);
+    try {
+      await onSend(interactive);
+      reset();
+      onClose();
+    } catch (sendError) {
+      setErrors([sendError instanceof Error ? sendError.message : t('failed_to_send_interactive')]);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-background rounded-lg shadow-2xl max-w-xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-xl font-semibold">{t('interactive_message')}</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClose}
+            className="p-2 hover:bg-muted rounded-full"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={type === 'button' ? 'default' : 'outline'}
+              onClick={() => setType('button')}
+            >
+              <MousePointerClick className="h-4 w-4 mr-1" />
+              {t('reply_buttons')}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={type === 'list' ? 'default' : 'outline'}
+              onClick={() => setType('list')}
+            >
+              <List className="h-4 w-4 mr-1" />
+              {t('list_message')}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t('interactive_header')}</label>
+            <Input
+              value={header}
+              onChange={(e) => setHeader(e.target.value)}
+              maxLength={INTERACTIVE_LIMITS.headerText}
+              placeholder={t('optional')}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t('interactive_body')} *</label>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={INTERACTIVE_LIMITS.bodyText}
+              rows={3}
+              style={{ resize: "none" }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t('interactive_footer')}</label>
+            <Input
+              value={footer}
+              onChange={(e) => setFooter(e.target.value)}
+              maxLength={INTERACTIVE_LIMITS.footerText}
+              placeholder={t('optional')}
+            />
+          </div>
+
+          {type === 'button' ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('reply_buttons')} *</label>
+              {buttons.map((button, index) => (
+                <div key={button.id} className="flex gap-2">
+                  <Input
+                    value={button.title}
+                    onChange={(e) => updateButton(index, e.target.value)}
+                    maxLength={INTERACTIVE_LIMITS.buttonTitle}
+                    placeholder={t('button_title')}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setButtons(prev => prev.filter((_, i) => i !== index))}
+                    disabled={buttons.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {buttons.length < INTERACTIVE_LIMITS.maxButtons && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setButtons(prev => [...prev, { id: newReplyId(), title: "" }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t('add_button')}
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('list_button_text')} *</label>
+                <Input
+                  value={buttonText}
+                  onChange={(e) => setButtonText(e.target.value)}
+                  maxLength={INTERACTIVE_LIMITS.listButtonText}
+                  placeholder={t('list_button_placeholder')}
+                />
+              </div>
+
+              {sections.map((section, sectionIndex) => (
+                <div key={sectionIndex} className="p-3 bg-muted/50 rounded-lg space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      value={section.title}
+                      onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+                      maxLength={INTERACTIVE_LIMITS.sectionTitle}
+                      placeholder={sections.length > 1 ? `${t('section_title')} *` : t('section_title')}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSections(prev => prev.filter((_, i) => i !== sectionIndex))}
+                      disabled={sections.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {section.rows.map((row, rowIndex) => (
+                    <div key={row.id} className="flex gap-2 pl-4">
+                      <div className="flex-1 space-y-1">
+                        <Input
+                          value={row.title}
+                          onChange={(e) => updateRow(sectionIndex, rowIndex, 'title', e.target.value)}
+                          maxLength={INTERACTIVE_LIMITS.rowTitle}
+                          placeholder={`${t('row_title')} *`}
+                        />
+                        <Input
+                          value={row.description}
+                          onChange={(e) => updateRow(sectionIndex, rowIndex, 'description', e.target.value)}
+                          maxLength={INTERACTIVE_LIMITS.rowDescription}
+                          placeholder={t('row_description')}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateSection(sectionIndex, { rows: section.rows.filter((_, j) => j !== rowIndex) })}
+                        disabled={section.rows.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {rowCount < INTERACTIVE_LIMITS.maxRows && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="ml-4"
+                      onClick={() => updateSection(sectionIndex, {
+                        rows: [...section.rows, { id: newReplyId(), title: "", description: "" }]
+                      })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      {t('add_row')}
+                    </Button>
+                  )}
+                </div>
+              ))}
+
+              {sections.length < INTERACTIVE_LIMITS.maxSections && rowCount < INTERACTIVE_LIMITS.maxRows && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSections(prev => [...prev, emptySection()])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t('add_section')}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg space-y-1">
+              {errors.map((error, index) => (
+                <p key={index}>{error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-6 border-t border-border">
+          <Button variant="outline" onClick={handleClose} disabled={isSending}>
+            {t('cancel')}
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={isSending || !body.trim()}
+            className="bg-green-600 hover:bg-green-700 text-white"
+          >
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+            {t('send')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X, Search, Loader2, ArrowDownLeft, ArrowUpRight } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+interface SearchContact {
+  id: string;
+  name: string;
+  custom_name?: string;
+  whatsapp_name?: string;
+}
+
+export interface MessageSearchResult {
+  id: string;
+  contact_id: string;
+  contact_name: string | null;
+  content: string;
+  headline: string;
+  message_timestamp: string;
+  is_sent_by_me: boolean;
+  message_type: string | null;
+}
+
+interface MessageSearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contacts: SearchContact[];
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+const MESSAGE_TYPES = ['text', 'image', 'video', 'audio', 'document', 'template', 'interactive', 'button', 'location', 'contacts', 'order'];
+
+// ts_headline wraps matches in << >>
+function renderHeadline(headline: string) {
+  return headline.split(/(<<.*?>>)/g).map((part, index) =>
+    part.startsWith('<<') && part.endsWith('>>')
+      ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 rounded px-0.5">{part.slice(2, -2)}</mark>
+      : <span key={index}>{part}</span>
+  );
+}
+
+export function MessageSearchDialog({ isOpen, onClose, contacts, onSelectResult }: MessageSearchDialogProps) {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState("");
+  const [contactId, setContactId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [direction, setDirection] = useState("");
+  const [messageType, setMessageType] = useState("");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const runSearch = async (offset: number) => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ q: query.trim(), offset: String(offset) });
+      if (contactId) params.set('contact', contactId);
+      // Dates are picked as local days; the end date is inclusive
+      if (fromDate) params.set('from', new Date(`${fromDate}T00:00`).toISOString());
+      if (toDate) {
+        const end = new Date(`${toDate}T00:00`);
+        end.setDate(end.getDate() + 1);
+        params.set('to', end.toISOString());
+      }
+      if (direction) params.set('direction', direction);
+      if (messageType) params.set('type', messageType);
+
+      const res = await fetch(`/api/messages/search?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t('search_failed'));
+      }
+
+      setResults(prev => offset === 0 ? data.results : [...prev, ...data.results]);
+      setHasMore(data.hasMore);
+      setHasSearched(true);
+    } catch (searchError) {
+      setError(searchError instanceof Error ? searchError.message : t('search_failed'));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch(0);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            {t('search_messages')}
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-full"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* Query and filters */}
+        <form onSubmit={handleSubmit} className="p-6 border-b border-border space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('search_messages_placeholder')}
+              autoFocus
+            />
+            <Button
+              type="submit"
+              disabled={!query.trim() || isSearching}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2 text-sm">
+            <select
+              value={contactId}
+              onChange={(e) => setContactId(e.target.value)}
+              className="h-8 rounded-md border border-input bg-background px-2 max-w-[180px]"
+            >
+              <option value="">{t('all_contacts')}</option>
+              {contacts.map((contact) => (
+                <option key={contact.id} value={contact.id}>
+                  {contact.custom_name || contact.whatsapp_name || contact.name || contact.id}
+                </option>
+              ))}
+            </select>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value)}
+              className="h-8 rounded-md border border-input bg-background px-2"
+            >
+              <option value="">{t('all_directions')}</option>
+              <option value="inbound">{t('direction_inbound')}</option>
+              <option value="outbound">{t('direction_outbound')}</option>
+            </select>
+            <select
+              value={messageType}
+              onChange={(e) => setMessageType(e.target.value)}
+              className="h-8 rounded-md border border-input bg-background px-2"
+            >
+              <option value="">{t('all_message_types')}</option>
+              {MESSAGE_TYPES.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1">
+              <Input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-auto h-8"
+                title={t('from_date')}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-auto h-8"
+                title={t('to_date')}
+              />
+            </div>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mx-6 mt-4 text-sm text-red-600 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto p-2">
+          {hasSearched && results.length === 0 && !isSearching ? (
+            <p className="text-center text-sm text-muted-foreground py-8">{t('no_search_results')}</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => onSelectResult(result)}
+                className="w-full text-left p-3 rounded-lg hover:bg-muted transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="font-medium text-sm flex items-center gap-1 truncate">
+                    {result.is_sent_by_me
+                      ? <ArrowUpRight className="h-3 w-3 text-green-600 flex-shrink-0" />
+                      : <ArrowDownLeft className="h-3 w-3 text-blue-600 flex-shrink-0" />}
+                    {result.contact_name || result.contact_id}
+                  </span>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">
+                    {new Date(result.message_timestamp).toLocaleString([], {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+                  {renderHeadline(result.headline || result.content)}
+                </p>
+              </button>
+            ))
+          )}
+          {hasMore && (
+            <div className="flex justify-center p-2">
+              <Button variant="outline" size="sm" onClick={() => runSearch(results.length)} disabled={isSearching}>
+                {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : t('load_more')}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { X, Edit3, Loader2, CalendarClock, Users } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { formatScheduledTime, listTimeZones, utcToZonedInput } from "@/lib/broadcast/schedule";
+
+interface ScheduledBroadcast {
+  id: string;
+  group_id: string;
+  total_messages: number;
+  scheduled_at: string;
+  timezone: string;
+  payload: {
+    message: string | null;
+    templateName: string | null;
+  };
+  chat_groups: { name: string } | null;
+}
+
+interface ScheduledBroadcastsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ScheduledBroadcastsDialog({ isOpen, onClose }: ScheduledBroadcastsDialogProps) {
+  const { t } = useTranslation();
+  const [jobs, setJobs] = useState<ScheduledBroadcast[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTime, setEditTime] = useState("");
+  const [editTimezone, setEditTimezone] = useState("");
+  const [editMessage, setEditMessage] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/jobs?status=scheduled');
+      const data = await res.json();
+      if (data.success) {
+        setJobs(data.jobs);
+      }
+    } catch (fetchError) {
+      console.error('Failed to fetch scheduled broadcasts:', fetchError);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      fetchJobs();
+    }
+  }, [isOpen, fetchJobs]);
+
+  if (!isOpen) return null;
+
+  const startEdit = (job: ScheduledBroadcast) => {
+    setError(null);
+    setEditingId(job.id);
+    setEditTime(utcToZonedInput(job.scheduled_at, job.timezone));
+    setEditTimezone(job.timezone);
+    setEditMessage(job.payload.message || "");
+  };
+
+  const handleSave = async (job: ScheduledBroadcast) => {
+    setSavingId(job.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/jobs/${job.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scheduledAt: editTime,
+          timezone: editTimezone,
+          ...(!job.payload.templateName && { message: editMessage }),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t('failed_to_update_schedule'));
+      }
+      setEditingId(null);
+      await fetchJobs();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : t('failed_to_update_schedule'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCancel = async (job: ScheduledBroadcast) => {
+    if (!confirm(t('confirm_cancel_scheduled_broadcast'))) return;
+
+    setSavingId(job.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/jobs/${job.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t('failed_to_cancel_broadcast'));
+      }
+      await fetchJobs();
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : t('failed_to_cancel_broadcast'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            {t('scheduled_broadcasts')}
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-full"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 text-sm text-red-600 bg-red-50 dark:bg-red-950/20 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {isLoading && jobs.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">{t('no_scheduled_broadcasts')}</p>
+          ) : (
+            jobs.map((job) => (
+              <div key={job.id} className="p-4 bg-muted/50 rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium flex items-center gap-2">
+                      <Users className="h-4 w-4 text-muted-foreground" />
+                      {job.chat_groups?.name || t('unknown_group')}
+                      <span className="text-xs text-muted-foreground">
+                        ({job.total_messages} {t('members')})
+                      </span>
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatScheduledTime(job.scheduled_at, job.timezone)}
+                    </p>
+                  </div>
+                  {editingId !== job.id && (
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => startEdit(job)}
+                        disabled={savingId === job.id}
+                        title={t('edit')}
+                      >
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleCancel(job)}
+                        disabled={savingId === job.id}
+                      >
+                        {t('cancel_broadcast')}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {editingId === job.id ? (
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      <Input
+                        type="datetime-local"
+                        value={editTime}
+                        onChange={(e) => setEditTime(e.target.value)}
+                        className="w-auto h-8"
+                      />
+                      <select
+                        value={editTimezone}
+                        onChange={(e) => setEditTimezone(e.target.value)}
+                        className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                      >
+                        {listTimeZones().map((zone) => (
+                          <option key={zone} value={zone}>{zone}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {job.payload.templateName ? (
+                      <p className="text-sm">{t('template')}: {job.payload.templateName}</p>
+                    ) : (
+                      <Textarea
+                        value={editMessage}
+                        onChange={(e) => setEditMessage(e.target.value)}
+                        rows={3}
+                        maxLength={1000}
+                        style={{ resize: "none" }}
+                      />
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={savingId === job.id}>
+                        {t('cancel')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(job)}
+                        disabled={savingId === job.id || !editTime}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        {savingId === job.id ? <Loader2 className="h-4 w-4 animate-spin" /> : t('save')}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap break-words">
+                    {job.payload.templateName
+                      ? `${t('template')}: ${job.payload.templateName}`
+                      : job.payload.message}
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,19 @@ import { Label } from "@/components/ui/label";
 import { X, Search, Send, Loader2, AlertCircle, FileText, Eye, Upload, ImageIcon } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import Image from "next/image";
+import { BUILT_IN_CONTACT_FIELDS, ContactField } from "@/lib/contact-fields";
+import { BroadcastPreviewRecipient, TemplateVariableFields, resolveTemplateVariables } from "@/lib/broadcast/variables";
+import {
+  LimitedTimeOffer,
+  TemplateSendOptions,
+  extractTemplateVariables,
+  fillCardBody,
+  getCarouselCards,
+  getCopyCodeButtonIndex,
+  getLimitedTimeOffer,
+  getOtpButtonIndex,
+  isPositionalVariable,
+} from "@/lib/template-components";
 
 // Template types
 interface TemplateComponent {
@@ -15,6 +28,8 @@ interface TemplateComponent {
   text?: string;
   example?: Record<string, unknown>;
   buttons?: ButtonComponent[];
+  cards?: Array<{ components: TemplateComponent[] }>;
+  limited_time_offer?: LimitedTimeOffer;
 }
 
 interface ButtonComponent {
@@ -63,11 +78,30 @@ interface TemplateSelectorProps {
     header: Record<string, string>;
     body: Record<string, string>;
     footer: Record<string, string>;
-  }, headerImage?: File | null) => Promise<void>;
+  }, headerImage?: File | null, variableFields?: TemplateVariableFields, sendOptions?: TemplateSendOptions) => Promise<void>;
   selectedUser: ChatUser;
+  contactFields?: ContactField[];
+  // Field values of the contact being messaged, keyed by field key
+  fieldValues?: Record<string, string>;
+  // Broadcast mode: variables bound to a field are filled per member, and the
+  // typed value becomes the fallback. These members are previewed.
+  previewRecipients?: BroadcastPreviewRecipient[];
 }
 
-export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser }: TemplateSelectorProps) {
+type VariableSection = 'header' | 'body' | 'footer';
+
+// Which contact field fills each variable, remembered per template in this browser
+const FIELD_MAPPINGS_STORAGE_KEY = 'template_field_mappings';
+
+function loadFieldMappings(): Record<string, Record<string, string>> {
+  try {
+    return JSON.parse(localStorage.getItem(FIELD_MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser, contactFields = [], fieldValues, previewRecipients }: TemplateSelectorProps) {
   const { t } = useTranslation();
   const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
   const [filteredTemplates, setFilteredTemplates] = useState<WhatsAppTemplate[]>([]);
@@ -90,6 +124,25 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
   const [headerImagePreview, setHeaderImagePreview] = useState<string | null>(null);
   const [isDraggingImage, setIsDraggingImage] = useState(false);
   const headerImageInputRef = useRef<HTMLInputElement>(null);
+  // "section.variable" -> contact field key
+  const [fieldMapping, setFieldMapping] = useState<Record<string, string>>({});
+  const [previewRecipientIndex, setPreviewRecipientIndex] = useState(0);
+  // Carousel cards: media file, body variables and URL suffixes per card
+  const [cardFiles, setCardFiles] = useState<(File | null)[]>([]);
+  const [cardVariables, setCardVariables] = useState<Record<string, string>[]>([]);
+  const [cardButtonValues, setCardButtonValues] = useState<Record<string, string>[]>([]);
+  // datetime-local value for the end of a limited-time offer
+  const [offerExpiresAt, setOfferExpiresAt] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [otpCode, setOtpCode] = useState('');
+
+  const isBroadcast = !fieldValues && !!previewRecipients;
+  const fieldOptions = fieldValues || isBroadcast
+    ? [
+      ...BUILT_IN_CONTACT_FIELDS.map(key => ({ key, label: t(`contact_field_${key}`) })),
+      ...contactFields.map(field => ({ key: field.key, label: field.label })),
+    ]
+    : [];
 
   // Fetch templates when dialog opens
   useEffect(() => {
@@ -138,52 +191,17 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
     footer: string[];
     all: string[];
   } => {
-    const headerVariables: string[] = [];
-    const bodyVariables: string[] = [];
-    const footerVariables: string[] = [];
-
-    template.components.forEach(component => {
-      if (component.text) {
-        // Extract variables like {{1}}, {{2}}, etc.
-        const matches = component.text.match(/\{\{(\d+)\}\}/g);
-        if (matches) {
-          const componentVariables = matches.map(match => match.replace(/[{}]/g, ''));
-
-          switch (component.type) {
-            case 'HEADER':
-              componentVariables.forEach(variable => {
-                if (!headerVariables.includes(variable)) {
-                  headerVariables.push(variable);
-                }
-              });
-              break;
-            case 'BODY':
-              componentVariables.forEach(variable => {
-                if (!bodyVariables.includes(variable)) {
-                  bodyVariables.push(variable);
-                }
-              });
-              break;
-            case 'FOOTER':
-              componentVariables.forEach(variable => {
-                if (!footerVariables.includes(variable)) {
-                  footerVariables.push(variable);
-                }
-              });
-              break;
-          }
-        }
-      }
-    });
-
-    // Sort variables numerically
-    headerVariables.sort((a, b) => parseInt(a) - parseInt(b));
-    bodyVariables.sort((a, b) => parseInt(a) - parseInt(b));
-    footerVariables.sort((a, b) => parseInt(a) - parseInt(b));
+    // Variables like {{1}}, {{2}} or, in NAMED templates, {{first_name}}
+    const textOf = (type: string) => template.components.find(c => c.type === type)?.text || '';
+    const headerVariables = extractTemplateVariables(textOf('HEADER'));
+    const bodyVariables = extractTemplateVariables(textOf('BODY'));
+    const footerVariables = extractTemplateVariables(textOf('FOOTER'));
 
     // Get all unique variables
-    const allVariables = [...new Set([...headerVariables, ...bodyVariables, ...footerVariables])]
-      .sort((a, b) => parseInt(a) - parseInt(b));
+    const allVariables = [...new Set([...headerVariables, ...bodyVariables, ...footerVariables])];
+    if (allVariables.every(isPositionalVariable)) {
+      allVariables.sort((a, b) => parseInt(a) - parseInt(b));
+    }
 
     return {
       header: headerVariables,
@@ -205,6 +223,8 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
       });
       return result;
     };
+    const offer = getLimitedTimeOffer(template.components);
+    const cards = getCarouselCards(template.components);
 
     return (
       <div className="bg-gradient-to-br from-green-50 to-blue-50 dark:from-green-950/20 dark:to-blue-950/20 rounded-lg p-4">
@@ -239,6 +259,18 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
               </div>
             )}
 
+            {/* Limited-time offer */}
+            {offer && (
+              <div className="mb-3 bg-white bg-opacity-20 rounded-lg p-2">
+                <p className="font-semibold text-sm">🎁 {offer.text}</p>
+                {offer.has_expiration && offerExpiresAt && (
+                  <p className="text-xs opacity-75">
+                    {t('preview_offer_ends', { time: new Date(offerExpiresAt).toLocaleString() })}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Body */}
             {template.formatted_components.body && (
               <div className="mb-3">
@@ -249,7 +281,7 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
                   </div>
                 )}
                 <p className="text-sm leading-relaxed">
-                  {replaceVariables(template.formatted_components.body.text || '', vars.body)}
+                  {replaceVariables(template.formatted_components.body.text || '', isAuthentication(template) ? { 1: otpCode } : vars.body)}
                 </p>
               </div>
             )}
@@ -284,7 +316,7 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
                         {button.type === 'URL' && <span>🔗</span>}
                         {button.type === 'PHONE_NUMBER' && <span>📞</span>}
                         {button.type === 'QUICK_REPLY' && <span>💬</span>}
-                        <span className="text-sm font-medium">{button.text}</span>
+                        <span className="text-sm font-medium">{button.type === 'COPY_CODE' ? t('copy_offer_code') : button.text}</span>
                       </div>
                       {button.url && (
                         <div className="text-xs opacity-60 mt-1 truncate">
@@ -306,6 +338,31 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
               12:34 PM
             </div>
           </div>
+
+          {/* Carousel cards */}
+          {cards.length > 0 && (
+            <div className="flex gap-3 overflow-x-auto px-4 pb-4">
+              {cards.map((card, cardIndex) => (
+                <div key={cardIndex} className="w-48 flex-shrink-0 bg-green-500 text-white rounded-2xl p-3">
+                  <div className="bg-white bg-opacity-20 rounded-lg p-3 text-center mb-2">
+                    <span className="text-xs truncate block">
+                      {card.components.find(c => c.type === 'HEADER')?.format === 'VIDEO' ? '🎥' : '📷'} {cardFiles[cardIndex]?.name || ''}
+                    </span>
+                  </div>
+                  <p className="text-sm mb-2">
+                    {fillCardBody(card.components.find(c => c.type === 'BODY')?.text || '', cardVariables[cardIndex] || {})}
+                  </p>
+                  <div className="space-y-1">
+                    {card.components.find(c => c.type === 'BUTTONS')?.buttons?.map((button, buttonIndex) => (
+                      <div key={buttonIndex} className="bg-white bg-opacity-20 rounded-lg p-1 text-center text-xs font-medium">
+                        {button.text}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -318,6 +375,45 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
     );
   };
 
+  // Authentication templates take a verification code instead of variables
+  const isAuthentication = (template: WhatsAppTemplate): boolean => template.category === 'AUTHENTICATION';
+
+  const getCardVariables = (card: { components: TemplateComponent[] }): string[] => {
+    return extractTemplateVariables(card.components.find(c => c.type === 'BODY')?.text || '');
+  };
+
+  // Indexes of a card's URL buttons that end in a variable
+  const getCardUrlButtons = (card: { components: TemplateComponent[] }): number[] => {
+    const buttons = card.components.find(c => c.type === 'BUTTONS')?.buttons || [];
+    return buttons
+      .map((button, index) => (button.type === 'URL' && button.url?.includes('{{') ? index : -1))
+      .filter(index => index >= 0);
+  };
+
+  const resetSendOptions = () => {
+    setCardFiles([]);
+    setCardVariables([]);
+    setCardButtonValues([]);
+    setOfferExpiresAt('');
+    setCouponCode('');
+    setOtpCode('');
+  };
+
+  // Card media is uploaded once and sent by media ID, also for broadcasts
+  const uploadCardMedia = async (file: File): Promise<string> => {
+    const uploadForm = new FormData();
+    uploadForm.append('file', file);
+    const response = await fetch('/api/media/upload-whatsapp', {
+      method: 'POST',
+      body: uploadForm,
+    });
+    const result = await response.json();
+    if (!response.ok || !result.mediaId) {
+      throw new Error(result.error || t('failed_upload_card_media'));
+    }
+    return result.mediaId;
+  };
+
   const handleHeaderImageSelect = useCallback((file: File) => {
     if (!file.type.startsWith('image/')) return;
     if (file.size > 25 * 1024 * 1024) {
@@ -350,21 +446,93 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
 
   const handleTemplateSelect = (template: WhatsAppTemplate) => {
     setSelectedTemplate(template);
-    setShowPreview(false);
+    setShowPreview(isBroadcast && !!previewRecipients?.length);
+    setPreviewRecipientIndex(0);
     setHeaderImageFile(null);
     setHeaderImagePreview(null);
+    resetSendOptions();
 
-    // Initialize variables
+    // Initialize variables, filling from the contact's fields where we know
+    // the mapping: saved for this template, or a variable named like a field
     const templateVars = extractVariables(template);
-    const initialVars: Record<string, string> = {};
-    templateVars.all.forEach(variable => {
-      initialVars[variable] = '';
-    });
-    setVariables({
+    const initialVars: { header: Record<string, string>; body: Record<string, string>; footer: Record<string, string> } = {
       header: {},
       body: {},
       footer: {}
+    };
+    const mapping: Record<string, string> = {};
+    if (fieldOptions.length > 0) {
+      const saved = loadFieldMappings()[template.name] || {};
+      (['header', 'body', 'footer'] as VariableSection[]).forEach(section => {
+        templateVars[section].forEach(variable => {
+          const fieldKey = saved[`${section}.${variable}`] || variable;
+          if (fieldOptions.some(option => option.key === fieldKey)) {
+            mapping[`${section}.${variable}`] = fieldKey;
+            // Broadcasts keep the input for the fallback
+            if (fieldValues) initialVars[section][variable] = fieldValues[fieldKey] || '';
+          }
+        });
+      });
+    }
+    setFieldMapping(mapping);
+    setVariables(initialVars);
+  };
+
+  const handleFieldMappingChange = (section: VariableSection, variable: string, fieldKey: string) => {
+    if (!selectedTemplate || fieldOptions.length === 0) return;
+    const mappingKey = `${section}.${variable}`;
+
+    setFieldMapping(prev => {
+      const next = { ...prev };
+      if (fieldKey) {
+        next[mappingKey] = fieldKey;
+      } else {
+        delete next[mappingKey];
+      }
+
+      const stored = loadFieldMappings();
+      stored[selectedTemplate.name] = next;
+      localStorage.setItem(FIELD_MAPPINGS_STORAGE_KEY, JSON.stringify(stored));
+      return next;
     });
+
+    if (fieldKey && fieldValues) {
+      setVariables(prev => ({
+        ...prev,
+        [section]: { ...prev[section], [variable]: fieldValues[fieldKey] || '' }
+      }));
+    }
+  };
+
+  // Picker next to a variable input that fills it from a contact field
+  const renderFieldPicker = (section: VariableSection, variable: string) => {
+    if (fieldOptions.length === 0) return null;
+    return (
+      <select
+        value={fieldMapping[`${section}.${variable}`] || ''}
+        onChange={(e) => handleFieldMappingChange(section, variable, e.target.value)}
+        className="mt-1 h-10 max-w-[40%] rounded-md border border-input bg-background px-2 text-sm"
+        title={t('fill_from_contact_field')}
+      >
+        <option value="">{t('fill_from_contact_field')}</option>
+        {fieldOptions.map(option => (
+          <option key={option.key} value={option.key}>{option.label}</option>
+        ))}
+      </select>
+    );
+  };
+
+  // Broadcast variables bound to a field only need their fallback when the member has no value
+  const isBoundVariable = (section: VariableSection, variable: string) =>
+    isBroadcast && !!fieldMapping[`${section}.${variable}`];
+
+  const getVariableFields = (): TemplateVariableFields => {
+    const variableFields: TemplateVariableFields = {};
+    Object.entries(fieldMapping).forEach(([mappingKey, fieldKey]) => {
+      const [section, variable] = mappingKey.split('.') as [VariableSection, string];
+      variableFields[section] = { ...variableFields[section], [variable]: fieldKey };
+    });
+    return variableFields;
   };
 
   const handleSendTemplate = async () => {
@@ -382,39 +550,97 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
 
     // Check header variables
     templateVars.header.forEach(variable => {
-      if (!variables.header[variable]?.trim()) {
+      if (!variables.header[variable]?.trim() && !isBoundVariable('header', variable)) {
         missingVars.push(`Header {{${variable}}}`);
       }
     });
 
-    // Check body variables
-    templateVars.body.forEach(variable => {
-      if (!variables.body[variable]?.trim()) {
-        missingVars.push(`Body {{${variable}}}`);
-      }
-    });
+    // Check body variables; an authentication body only holds the code
+    if (!isAuthentication(selectedTemplate)) {
+      templateVars.body.forEach(variable => {
+        if (!variables.body[variable]?.trim() && !isBoundVariable('body', variable)) {
+          missingVars.push(`Body {{${variable}}}`);
+        }
+      });
+    }
 
     // Check footer variables
     templateVars.footer.forEach(variable => {
-      if (!variables.footer[variable]?.trim()) {
+      if (!variables.footer[variable]?.trim() && !isBoundVariable('footer', variable)) {
         missingVars.push(`Footer {{${variable}}}`);
       }
     });
 
+    // Check carousel card variables
+    const cards = getCarouselCards(selectedTemplate.components);
+    cards.forEach((card, cardIndex) => {
+      getCardVariables(card).forEach(variable => {
+        if (!cardVariables[cardIndex]?.[variable]?.trim()) {
+          missingVars.push(`${t('carousel_card_label', { number: cardIndex + 1 })} {{${variable}}}`);
+        }
+      });
+    });
+
     if (missingVars.length > 0) {
       setError(t('fill_all_variables', { vars: missingVars.join(', ') }));
       return;
     }
 
+    if (cards.some((_, cardIndex) => !cardFiles[cardIndex])) {
+      setError(t('card_media_missing'));
+      return;
+    }
+
+    const offer = getLimitedTimeOffer(selectedTemplate.components);
+    const offerExpiresAtMs = offerExpiresAt ? new Date(offerExpiresAt).getTime() : null;
+    if (offer?.has_expiration && !offerExpiresAtMs) {
+      setError(t('offer_expiry_missing'));
+      return;
+    }
+    if (offer?.has_expiration && offerExpiresAtMs && offerExpiresAtMs <= Date.now()) {
+      setError(t('offer_expiry_past'));
+      return;
+    }
+
+    if (getCopyCodeButtonIndex(selectedTemplate.components) >= 0 && !couponCode.trim()) {
+      setError(t('coupon_code_missing'));
+      return;
+    }
+
+    const hasOtp = isAuthentication(selectedTemplate) || getOtpButtonIndex(selectedTemplate.components) >= 0;
+    if (hasOtp && !otpCode.trim()) {
+      setError(t('otp_code_missing'));
+      return;
+    }
+
     setIsSending(true);
     setError(null);
 
     try {
+      const cardMediaIds = await Promise.all(
+        cards.map((_, cardIndex) => uploadCardMedia(cardFiles[cardIndex] as File))
+      );
+      const sendOptions: TemplateSendOptions = {
+        ...(cards.length > 0 && {
+          cards: cards.map((_, cardIndex) => ({
+            mediaId: cardMediaIds[cardIndex],
+            body: cardVariables[cardIndex] || {},
+            buttons: cardButtonValues[cardIndex] || {},
+          })),
+        }),
+        ...(offer?.has_expiration && { offerExpiresAt: offerExpiresAtMs }),
+        ...(couponCode.trim() && { couponCode: couponCode.trim() }),
+        ...(hasOtp && { otpCode: otpCode.trim() }),
+      };
+
       await onSendTemplate(
         selectedTemplate.name,
         selectedTemplate,
-        variables,
-        headerImageFile
+        // The code is the body {{1}} of an authentication template
+        hasOtp ? { ...variables, body: { ...variables.body, 1: otpCode.trim() } } : variables,
+        headerImageFile,
+        isBroadcast ? getVariableFields() : undefined,
+        sendOptions
       );
 
       // Reset state and close
@@ -426,6 +652,7 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
       });
       setHeaderImageFile(null);
       setHeaderImagePreview(null);
+      resetSendOptions();
       setShowPreview(false);
       onClose();
     } catch (error) {
@@ -445,12 +672,18 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
     });
     setHeaderImageFile(null);
     setHeaderImagePreview(null);
+    resetSendOptions();
     setShowPreview(false);
     setSearchTerm('');
     setError(null);
     onClose();
   };
 
+  const previewRecipient = isBroadcast ? previewRecipients?.[previewRecipientIndex] : undefined;
+  const previewResolution = previewRecipient
+    ? resolveTemplateVariables(variables, getVariableFields(), previewRecipient.fieldValues)
+    : null;
+
   if (!isOpen) return null;
 
   return (
@@ -655,8 +888,120 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
                     </div>
                   )}
 
+                  {/* Verification code of an authentication template */}
+                  {(isAuthentication(selectedTemplate) || getOtpButtonIndex(selectedTemplate.components) >= 0) && (
+                    <div className="mb-6">
+                      <Label htmlFor="otp-code">{t('otp_code')}</Label>
+                      <Input
+                        id="otp-code"
+                        value={otpCode}
+                        onChange={(e) => setOtpCode(e.target.value)}
+                        placeholder="123456"
+                        className="mt-1"
+                        maxLength={15}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">{t('otp_code_hint')}</p>
+                    </div>
+                  )}
+
+                  {/* Limited-time offer expiry */}
+                  {getLimitedTimeOffer(selectedTemplate.components)?.has_expiration && (
+                    <div className="mb-6">
+                      <Label htmlFor="offer-expires-at">{t('offer_expires_at')}</Label>
+                      <Input
+                        id="offer-expires-at"
+                        type="datetime-local"
+                        value={offerExpiresAt}
+                        onChange={(e) => setOfferExpiresAt(e.target.value)}
+                        className="mt-1"
+                      />
+                    </div>
+                  )}
+
+                  {/* Coupon code behind a copy code button */}
+                  {getCopyCodeButtonIndex(selectedTemplate.components) >= 0 && (
+                    <div className="mb-6">
+                      <Label htmlFor="coupon-code">{t('coupon_code')}</Label>
+                      <Input
+                        id="coupon-code"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value)}
+                        placeholder="SUMMER25"
+                        className="mt-1"
+                        maxLength={15}
+                      />
+                    </div>
+                  )}
+
+                  {/* Carousel cards */}
+                  {getCarouselCards(selectedTemplate.components).length > 0 && (
+                    <div className="mb-6 space-y-4">
+                      <h4 className="font-medium">{t('carousel_cards')}</h4>
+                      {getCarouselCards(selectedTemplate.components).map((card, cardIndex) => {
+                        const mediaFormat = card.components.find(c => c.type === 'HEADER')?.format;
+                        return (
+                          <div key={cardIndex} className="bg-muted/50 rounded-lg p-4 space-y-3">
+                            <h5 className="text-sm font-medium">{t('carousel_card_label', { number: cardIndex + 1 })}</h5>
+                            <div>
+                              <Label htmlFor={`card-media-${cardIndex}`}>{t('card_media')}</Label>
+                              <Input
+                                id={`card-media-${cardIndex}`}
+                                type="file"
+                                accept={mediaFormat === 'VIDEO' ? 'video/mp4,video/3gpp' : 'image/jpeg,image/png'}
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0] || null;
+                                  setCardFiles(prev => {
+                                    const next = [...prev];
+                                    next[cardIndex] = file;
+                                    return next;
+                                  });
+                                }}
+                                className="mt-1"
+                              />
+                            </div>
+                            {getCardVariables(card).map(variable => (
+                              <div key={`card-${cardIndex}-${variable}`}>
+                                <Label htmlFor={`card-${cardIndex}-var-${variable}`}>
+                                  {t('body_variable_label', { var: variable })}
+                                </Label>
+                                <Input
+                                  id={`card-${cardIndex}-var-${variable}`}
+                                  value={cardVariables[cardIndex]?.[variable] || ''}
+                                  onChange={(e) => setCardVariables(prev => {
+                                    const next = [...prev];
+                                    next[cardIndex] = { ...next[cardIndex], [variable]: e.target.value };
+                                    return next;
+                                  })}
+                                  placeholder={t('enter_body_value', { var: variable })}
+                                  className="mt-1"
+                                />
+                              </div>
+                            ))}
+                            {getCardUrlButtons(card).map(buttonIndex => (
+                              <div key={`card-${cardIndex}-button-${buttonIndex}`}>
+                                <Label htmlFor={`card-${cardIndex}-button-${buttonIndex}`}>
+                                  {t('card_url_suffix', { number: buttonIndex + 1 })}
+                                </Label>
+                                <Input
+                                  id={`card-${cardIndex}-button-${buttonIndex}`}
+                                  value={cardButtonValues[cardIndex]?.[buttonIndex] || ''}
+                                  onChange={(e) => setCardButtonValues(prev => {
+                                    const next = [...prev];
+                                    next[cardIndex] = { ...next[cardIndex], [buttonIndex]: e.target.value };
+                                    return next;
+                                  })}
+                                  className="mt-1"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
                   {/* Variables */}
-                  {extractVariables(selectedTemplate).all.length > 0 && (
+                  {extractVariables(selectedTemplate).all.length > 0 && !isAuthentication(selectedTemplate) && (
                     <div className="space-y-6">
                       <h4 className="font-medium">{t('template_variables')}</h4>
 
@@ -672,16 +1017,19 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
                               <Label htmlFor={`header-var-${variable}`}>
                                 {t('header_variable_label', { var: variable })}
                               </Label>
-                              <Input
-                                id={`header-var-${variable}`}
-                                value={variables.header[variable] || ''}
-                                onChange={(e) => setVariables(prev => ({
-                                  ...prev,
-                                  header: { ...prev.header, [variable]: e.target.value }
-                                }))}
-                                placeholder={t('enter_header_value', { var: variable })}
-                                className="mt-1"
-                              />
+                              <div className="flex gap-2">
+                                <Input
+                                  id={`header-var-${variable}`}
+                                  value={variables.header[variable] || ''}
+                                  onChange={(e) => setVariables(prev => ({
+                                    ...prev,
+                                    header: { ...prev.header, [variable]: e.target.value }
+                                  }))}
+                                  placeholder={isBoundVariable('header', variable) ? t('fallback_value_placeholder') : t('enter_header_value', { var: variable })}
+                                  className="mt-1 flex-1"
+                                />
+                                {renderFieldPicker('header', variable)}
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -699,16 +1047,19 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
                               <Label htmlFor={`body-var-${variable}`}>
                                 {t('body_variable_label', { var: variable })}
                               </Label>
-                              <Input
-                                id={`body-var-${variable}`}
-                                value={variables.body[variable] || ''}
-                                onChange={(e) => setVariables(prev => ({
-                                  ...prev,
-                                  body: { ...prev.body, [variable]: e.target.value }
-                                }))}
-                                placeholder={t('enter_body_value', { var: variable })}
-                                className="mt-1"
-                              />
+                              <div className="flex gap-2">
+                                <Input
+                                  id={`body-var-${variable}`}
+                                  value={variables.body[variable] || ''}
+                                  onChange={(e) => setVariables(prev => ({
+                                    ...prev,
+                                    body: { ...prev.body, [variable]: e.target.value }
+                                  }))}
+                                  placeholder={isBoundVariable('body', variable) ? t('fallback_value_placeholder') : t('enter_body_value', { var: variable })}
+                                  className="mt-1 flex-1"
+                                />
+                                {renderFieldPicker('body', variable)}
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -726,16 +1077,19 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
                               <Label htmlFor={`footer-var-${variable}`}>
                                 {t('footer_variable_label', { var: variable })}
                               </Label>
-                              <Input
-                                id={`footer-var-${variable}`}
-                                value={variables.footer[variable] || ''}
-                                onChange={(e) => setVariables(prev => ({
-                                  ...prev,
-                                  footer: { ...prev.footer, [variable]: e.target.value }
-                                }))}
-                                placeholder={t('enter_footer_value', { var: variable })}
-                                className="mt-1"
-                              />
+                              <div className="flex gap-2">
+                                <Input
+                                  id={`footer-var-${variable}`}
+                                  value={variables.footer[variable] || ''}
+                                  onChange={(e) => setVariables(prev => ({
+                                    ...prev,
+                                    footer: { ...prev.footer, [variable]: e.target.value }
+                                  }))}
+                                  placeholder={isBoundVariable('footer', variable) ? t('fallback_value_placeholder') : t('enter_footer_value', { var: variable })}
+                                  className="mt-1 flex-1"
+                                />
+                                {renderFieldPicker('footer', variable)}
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -760,7 +1114,33 @@ export function TemplateSelector({ isOpen, onClose, onSendTemplate, selectedUser
               {showPreview && (
                 <div className="w-1/2 overflow-y-auto p-6">
                   <h4 className="font-medium mb-4">{t('preview_title')}</h4>
-                  {renderTemplatePreview(selectedTemplate, variables)}
+                  {previewRecipients && previewRecipient && previewResolution ? (
+                    <>
+                      <div className="flex flex-wrap items-center gap-2 mb-4">
+                        <span className="text-xs text-muted-foreground">{t('preview_for_member')}</span>
+                        {previewRecipients.map((recipient, index) => (
+                          <Button
+                            key={recipient.id}
+                            size="sm"
+                            variant={index === previewRecipientIndex ? 'default' : 'outline'}
+                            onClick={() => setPreviewRecipientIndex(index)}
+                            className="h-7 text-xs"
+                          >
+                            {recipient.name}
+                          </Button>
+                        ))}
+                      </div>
+                      {previewResolution.missing.length > 0 && (
+                        <div className="mb-4 p-2 text-xs rounded-lg bg-amber-50 dark:bg-amber-950/20 text-amber-700 dark:text-amber-400 flex items-start gap-2">
+                          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                          <span>{t('preview_missing_values', { vars: previewResolution.missing.join(', ') })}</span>
+                        </div>
+                      )}
+                      {renderTemplatePreview(selectedTemplate, previewResolution.variables)}
+                    </>
+                  ) : (
+                    renderTemplatePreview(selectedTemplate, variables)
+                  )}
                 </div>
               )}
             </div>
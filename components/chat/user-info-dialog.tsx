@@ -1,11 +1,12 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { X, Edit3, Check, Phone, MessageCircle, Clock, User } from "lucide-react";
+import { X, Edit3, Check, Phone, MessageCircle, Clock, User, Tag, ListPlus, Plus, Trash2 } from "lucide-react";
 import { useTranslation } from "react-i18next";
+import { CONTACT_FIELD_TYPES, ContactAttributes, ContactField, ContactFieldType, MAX_TAGS, formatFieldValue, normalizeTag, normalizeTags } from "@/lib/contact-fields";
 
 interface ChatUser {
   id: string;
@@ -22,16 +23,131 @@ interface UserInfoDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onUpdateName: (userId: string, customName: string) => Promise<void>;
+  tags?: string[];
+  attributes?: ContactAttributes;
+  fields?: ContactField[];
+  onUpdateDetails?: (userId: string, details: { tags?: string[]; attributes?: ContactAttributes }) => Promise<void>;
+  onFieldsChange?: () => void;
 }
 
-export function UserInfoDialog({ user, isOpen, onClose, onUpdateName }: UserInfoDialogProps) {
+// Input types for each custom field type; booleans use a checkbox
+const FIELD_INPUT_TYPES: Record<Exclude<ContactFieldType, 'boolean'>, string> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  email: 'email',
+  phone: 'tel',
+};
+
+export function UserInfoDialog({
+  user,
+  isOpen,
+  onClose,
+  onUpdateName,
+  tags = [],
+  attributes = {},
+  fields = [],
+  onUpdateDetails,
+  onFieldsChange
+}: UserInfoDialogProps) {
   const { t } = useTranslation();
   const [isEditing, setIsEditing] = useState(false);
   const [editingName, setEditingName] = useState(user.custom_name || '');
   const [isUpdating, setIsUpdating] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [fieldDraft, setFieldDraft] = useState<Record<string, string | boolean>>({});
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const [showNewField, setShowNewField] = useState(false);
+  const [newFieldLabel, setNewFieldLabel] = useState('');
+  const [newFieldType, setNewFieldType] = useState<ContactFieldType>('text');
+
+  // Start from the saved values each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setFieldDraft(Object.fromEntries(Object.entries(attributes).map(([key, value]) =>
+      [key, typeof value === 'boolean' ? value : formatFieldValue(value)])));
+    setTagInput('');
+    setDetailsError(null);
+    setShowNewField(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, user.id]);
 
   if (!isOpen) return null;
 
+  const saveTags = async (nextTags: string[]) => {
+    if (!onUpdateDetails) return;
+    setDetailsError(null);
+    try {
+      await onUpdateDetails(user.id, { tags: normalizeTags(nextTags) });
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      setDetailsError(error instanceof Error ? error.message : t('contact_update_failed'));
+    }
+  };
+
+  const handleAddTag = () => {
+    const tag = normalizeTag(tagInput.replace(/,/g, ' '));
+    setTagInput('');
+    if (!tag || tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) return;
+    saveTags([...tags, tag]);
+  };
+
+  const handleSaveFields = async () => {
+    if (!onUpdateDetails || isSavingDetails) return;
+    setIsSavingDetails(true);
+    setDetailsError(null);
+    try {
+      await onUpdateDetails(user.id, {
+        attributes: Object.fromEntries(fields.map(field => [field.key, fieldDraft[field.key] ?? '']))
+      });
+    } catch (error) {
+      console.error('Error updating contact fields:', error);
+      setDetailsError(error instanceof Error ? error.message : t('contact_update_failed'));
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  const handleCreateField = async () => {
+    if (!newFieldLabel.trim()) return;
+    setDetailsError(null);
+    try {
+      const response = await fetch('/api/contact-fields', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: newFieldLabel, type: newFieldType }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('contact_field_create_failed'));
+      }
+      setNewFieldLabel('');
+      setNewFieldType('text');
+      setShowNewField(false);
+      onFieldsChange?.();
+    } catch (error) {
+      console.error('Error creating contact field:', error);
+      setDetailsError(error instanceof Error ? error.message : t('contact_field_create_failed'));
+    }
+  };
+
+  const handleDeleteField = async (field: ContactField) => {
+    if (!confirm(t('delete_contact_field_confirm', { name: field.label }))) return;
+    setDetailsError(null);
+    try {
+      const response = await fetch(`/api/contact-fields/${field.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || t('contact_field_delete_failed'));
+      }
+      onFieldsChange?.();
+    } catch (error) {
+      console.error('Error deleting contact field:', error);
+      setDetailsError(error instanceof Error ? error.message : t('contact_field_delete_failed'));
+    }
+  };
+
   const getDisplayName = () => {
     return user.custom_name || user.whatsapp_name || user.id;
   };
@@ -236,6 +352,161 @@ export function UserInfoDialog({ user, isOpen, onClose, onUpdateName }: UserInfo
               </div>
             </div>
 
+            {/* Tags */}
+            {onUpdateDetails && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                  <Tag className="h-4 w-4" />
+                  {t('tags')}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map(tag => (
+                    <span
+                      key={tag}
+                      className="inline-flex items-center gap-1 text-xs bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300 rounded-full pl-2.5 pr-1 py-0.5"
+                    >
+                      {tag}
+                      <button
+                        type="button"
+                        onClick={() => saveTags(tags.filter(existing => existing !== tag))}
+                        className="p-0.5 rounded-full hover:bg-green-200 dark:hover:bg-green-800"
+                        title={t('remove_tag')}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {tags.length === 0 && (
+                    <span className="text-xs text-muted-foreground">{t('no_tags')}</span>
+                  )}
+                </div>
+                {tags.length < MAX_TAGS && (
+                  <Input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ',') {
+                        e.preventDefault();
+                        handleAddTag();
+                      }
+                    }}
+                    onBlur={() => tagInput.trim() && handleAddTag()}
+                    placeholder={t('add_tag_placeholder')}
+                    className="h-8 text-sm"
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Custom fields */}
+            {onUpdateDetails && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <ListPlus className="h-4 w-4" />
+                    {t('custom_fields')}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowNewField(prev => !prev)}
+                    className="h-7 px-2 text-xs gap-1"
+                  >
+                    <Plus className="h-3 w-3" />
+                    {t('add_contact_field')}
+                  </Button>
+                </div>
+
+                {showNewField && (
+                  <div className="flex items-center gap-2 p-2 rounded-lg border border-dashed border-border">
+                    <Input
+                      value={newFieldLabel}
+                      onChange={(e) => setNewFieldLabel(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleCreateField()}
+                      placeholder={t('contact_field_label_placeholder')}
+                      className="h-8 text-sm"
+                      autoFocus
+                    />
+                    <select
+                      value={newFieldType}
+                      onChange={(e) => setNewFieldType(e.target.value as ContactFieldType)}
+                      className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                    >
+                      {CONTACT_FIELD_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`contact_field_type_${type}`)}</option>
+                      ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      onClick={handleCreateField}
+                      disabled={!newFieldLabel.trim()}
+                      className="h-8 bg-green-600 hover:bg-green-700 text-white px-3"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+
+                {fields.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">{t('no_contact_fields')}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {fields.map(field => (
+                      <div key={field.id} className="group flex items-center gap-2">
+                        <label
+                          htmlFor={`contact-field-${field.key}`}
+                          className="w-1/3 text-sm text-muted-foreground truncate"
+                          title={`{{${field.key}}}`}
+                        >
+                          {field.label}
+                        </label>
+                        {field.type === 'boolean' ? (
+                          <div className="flex-1">
+                            <input
+                              id={`contact-field-${field.key}`}
+                              type="checkbox"
+                              checked={fieldDraft[field.key] === true || fieldDraft[field.key] === 'true'}
+                              onChange={(e) => setFieldDraft(prev => ({ ...prev, [field.key]: e.target.checked }))}
+                              className="h-4 w-4"
+                            />
+                          </div>
+                        ) : (
+                          <Input
+                            id={`contact-field-${field.key}`}
+                            type={FIELD_INPUT_TYPES[field.type]}
+                            value={String(fieldDraft[field.key] ?? '')}
+                            onChange={(e) => setFieldDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                            className="flex-1 h-8 text-sm"
+                          />
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteField(field)}
+                          className="p-1 rounded opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-600 transition-opacity"
+                          title={t('delete_contact_field')}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleSaveFields}
+                      disabled={isSavingDetails}
+                      className="w-full"
+                    >
+                      {isSavingDetails ? t('saving') : t('save_contact_fields')}
+                    </Button>
+                  </div>
+                )}
+
+                {detailsError && (
+                  <p className="text-xs text-red-600">{detailsError}</p>
+                )}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex gap-3 pt-4">
               <Button
@@ -4,16 +4,21 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ThemeSwitcher } from "@/components/theme-switcher";
-import { Search, MessageCircle, LogOut, Plus, Edit3, Check, X, Phone, FileText, Settings, Users } from "lucide-react";
+import { Search, MessageCircle, LogOut, Plus, Edit3, Check, X, Phone, FileText, Settings, Users, TextSearch, UserCheck, Tag } from "lucide-react";
 import { useState, useEffect } from "react";
 import { createFrontendClient } from "@/lib/supabase/client";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { GroupsList } from "./groups-list";
 import { GroupManagementDialog } from "./group-management-dialog";
+import { MessageSearchDialog, MessageSearchResult } from "./message-search-dialog";
 import { DebouncedInput } from "../custom-ui/debounced-input";
 import { createServiceRoleClient } from "@/lib/supabase/server";
 import { useTranslation } from "react-i18next";
+import { TeamMember, getTeamMemberName } from "@/lib/tenant";
+import { CONVERSATION_STATUSES, ConversationStatus, getEffectiveStatus } from "@/lib/conversation-status";
+import { ContactAttributes, ContactField, formatFieldValue } from "@/lib/contact-fields";
+import { parsePhoneNumber } from "@/lib/phone";
 
 interface ChatUser {
   id: string;
@@ -26,6 +31,11 @@ interface ChatUser {
   last_message_type?: string;
   last_message_sender?: string;
   unread_count?: number;
+  assigned_to?: string | null;
+  status?: ConversationStatus;
+  snoozed_until?: string | null;
+  tags?: string[];
+  attributes?: ContactAttributes;
 }
 
 interface Group {
@@ -41,18 +51,37 @@ interface UserListProps {
   selectedUser: ChatUser | null;
   onUserSelect: (user: ChatUser) => void;
   currentUserId: string;
+  currentAgentId?: string;
+  teamMembers?: TeamMember[];
+  contactFields?: ContactField[];
+  /** Country numbers typed without a country code are read in */
+  defaultCountry?: string | null;
+  onContactFieldsChange?: () => void;
   onUsersUpdate?: () => void;
   onBroadcastToGroup?: (groupId: string, groupName: string) => void;
+  onOpenSearchResult?: (result: MessageSearchResult) => void;
 }
 
+type AssignmentFilter = 'mine' | 'unassigned' | 'all';
+
+const ASSIGNMENT_FILTERS: AssignmentFilter[] = ['mine', 'unassigned', 'all'];
+
 interface NewUserInput {
   id: string;
   phoneNumber: string;
   customName: string;
 }
 
-export function UserList({ users, selectedUser, onUserSelect, currentUserId, onUsersUpdate, onBroadcastToGroup }: UserListProps) {
+export function UserList({ users, selectedUser, onUserSelect, currentUserId, currentAgentId, teamMembers = [], contactFields = [], defaultCountry = null, onContactFieldsChange, onUsersUpdate, onBroadcastToGroup, onOpenSearchResult }: UserListProps) {
   const [searchTerm, setSearchTerm] = useState("");
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<ConversationStatus>('open');
+  const [tagFilter, setTagFilter] = useState('');
+  const [fieldFilterKey, setFieldFilterKey] = useState('');
+  const [fieldFilterValue, setFieldFilterValue] = useState('');
+  // Ticks so conversations move back to Open when their snooze runs out
+  const [now, setNow] = useState(() => Date.now());
+  const [showMessageSearch, setShowMessageSearch] = useState(false);
   const [showNewChat, setShowNewChat] = useState(false);
   const [newUsers, setNewUsers] = useState<NewUserInput[]>([
     { id: '1', phoneNumber: '', customName: '' }
@@ -77,6 +106,11 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
     loadGroups();
   }, []);
 
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   const loadGroups = async () => {
     try {
       const response = await fetch('/api/groups');
@@ -140,6 +174,18 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
           return `${prefix}🎵 ${t('media_audio')}`;
         case 'document':
           return `${prefix}📄 ${t('media_document')}`;
+        case 'location':
+          return `${prefix}📍 ${t('media_location')}`;
+        case 'contacts':
+          return `${prefix}👤 ${t('media_contact')}`;
+        case 'order':
+          return `${prefix}🛒 ${t('media_order')}`;
+        case 'reaction':
+          return `${prefix}${user.last_message || t('media_reaction')}`;
+        case 'interactive':
+        case 'button':
+          // Replies carry the tapped title as content, so preview them like text
+          break;
         default:
           return `${prefix}📎 ${t('media_generic')}`;
       }
@@ -180,6 +226,63 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
     })
     : sortedUsers;
 
+  // Search results don't carry the assignee, status or contact details, so read them from the conversation list
+  const assigneeById = new Map(users.map(user => [user.id, user.assigned_to ?? null]));
+  const statusById = new Map(users.map(user => [user.id, getEffectiveStatus(user.status, user.snoozed_until, now)]));
+  const contactById = new Map(users.map(user => [user.id, user]));
+
+  const getTags = (user: ChatUser) => contactById.get(user.id)?.tags || [];
+
+  const allTags = [...new Set(users.flatMap(user => user.tags || []))].sort((a, b) => a.localeCompare(b));
+  // A tag removed from every contact stops filtering
+  const activeTagFilter = allTags.includes(tagFilter) ? tagFilter : '';
+  const fieldFilter = contactFields.find(field => field.key === fieldFilterKey);
+
+  // Tag and custom field filters narrow every tab and chip
+  const matchesContactFilter = (user: ChatUser) => {
+    const contact = contactById.get(user.id) ?? user;
+    if (activeTagFilter && !getTags(user).includes(activeTagFilter)) return false;
+    if (fieldFilter) {
+      const value = formatFieldValue(contact.attributes?.[fieldFilter.key]);
+      if (!fieldFilterValue.trim()) return value !== '';
+      if (fieldFilter.type === 'boolean') return value === fieldFilterValue;
+      return value.toLowerCase().includes(fieldFilterValue.trim().toLowerCase());
+    }
+    return true;
+  };
+
+  const matchesStatusFilter = (user: ChatUser, filter: ConversationStatus) =>
+    (statusById.get(user.id) ?? 'open') === filter;
+
+  const matchesAssignmentFilter = (user: ChatUser, filter: AssignmentFilter) => {
+    const assignee = assigneeById.get(user.id) ?? null;
+    if (filter === 'mine') return !!currentAgentId && assignee === currentAgentId;
+    if (filter === 'unassigned') return !assignee;
+    return true;
+  };
+
+  // Each set of counts applies the other filter, so the numbers match what a click shows
+  const assignmentCounts = Object.fromEntries(
+    ASSIGNMENT_FILTERS.map(filter => [filter, sortedUsers.filter(user =>
+      matchesContactFilter(user) && matchesStatusFilter(user, statusFilter) && matchesAssignmentFilter(user, filter)).length])
+  ) as Record<AssignmentFilter, number>;
+
+  const statusCounts = Object.fromEntries(
+    CONVERSATION_STATUSES.map(status => [status, sortedUsers.filter(user =>
+      matchesContactFilter(user) && matchesAssignmentFilter(user, assignmentFilter) && matchesStatusFilter(user, status)).length])
+  ) as Record<ConversationStatus, number>;
+
+  const visibleUsers = filteredUsers.filter(user =>
+    matchesContactFilter(user) && matchesStatusFilter(user, statusFilter) && matchesAssignmentFilter(user, assignmentFilter));
+
+  const getAssigneeLabel = (user: ChatUser) => {
+    const assignee = assigneeById.get(user.id);
+    if (!assignee) return null;
+    if (assignee === currentAgentId) return t('you');
+    const member = teamMembers.find(m => m.user_id === assignee);
+    return member ? getTeamMemberName(member) : t('unknown_agent');
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     router.push("/");
@@ -201,33 +304,23 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
     ));
   };
 
-  // Normalizes and validates a phone number using the same rules as the API:
-  //   1. Remove spaces and non-digit characters
-  //   2. If starts with 0  → prepend '9'  (e.g. 0545... → 90545...)
-  //   3. If starts with 5  → prepend '90' (e.g. 545...  → 90545...)
-  //   4. Result must be exactly 12 digits and start with '905'
-  const normalizePhone = (raw: string): { normalized: string | null; error?: string } => {
-    let digits = raw.replace(/\s+/g, '').replace(/\D/g, '');
-
-    if (!digits) {
-      return { normalized: null, error: 'Phone number is empty' };
-    }
-
-    if (digits.startsWith('0')) {
-      digits = '9' + digits;
-    } else if (digits.startsWith('5')) {
-      digits = '90' + digits;
-    }
-
-    if (digits.length !== 12) {
-      return { normalized: null, error: `Must be 12 digits after formatting (got ${digits.length})` };
-    }
-
-    if (!digits.startsWith('905')) {
-      return { normalized: null, error: `Must start with 905 (got ${digits.slice(0, 3)})` };
+  // Live hint under each number: where it resolves to, or why it is invalid
+  const renderPhoneHint = (raw: string) => {
+    if (!raw.trim()) return null;
+    const phone = parsePhoneNumber(raw, defaultCountry);
+    if (!phone.valid) {
+      return <p className="text-xs text-red-500 pl-6">{t(`phone_invalid_${phone.reason}`)}</p>;
     }
-
-    return { normalized: digits };
+    return (
+      <p className="text-xs text-muted-foreground pl-6">
+        {phone.e164}
+        {phone.country && ` · ${phone.country}`}
+        {` · ${t(`phone_line_${phone.lineType}`)}`}
+        {phone.lineType === 'fixed_line' && (
+          <span className="block text-amber-600">{t('phone_landline_warning')}</span>
+        )}
+      </p>
+    );
   };
 
   const handleCreateNewChat = async () => {
@@ -242,12 +335,12 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
     // Normalize and validate phone numbers
     const validationErrors: string[] = [];
     const validUsers = rawValidUsers.map((user, index) => {
-      const { normalized, error } = normalizePhone(user.phoneNumber);
-      if (!normalized) {
-        validationErrors.push(`User ${index + 1}: ${error}`);
+      const phone = parsePhoneNumber(user.phoneNumber, defaultCountry);
+      if (!phone.valid) {
+        validationErrors.push(`User ${index + 1}: ${t(`phone_invalid_${phone.reason}`)}`);
         return user;
       }
-      return { ...user, phoneNumber: normalized };
+      return { ...user, phoneNumber: phone.waId };
     });
 
     if (validationErrors.length > 0) {
@@ -596,13 +689,14 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
                   <div className="flex items-center gap-2">
                     <Phone className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                     <Input
-                      placeholder="Phone number (e.g., 918097296453)"
+                      placeholder="Phone number (e.g., +90 555 123 45 67)"
                       value={user.phoneNumber}
                       onChange={(e) => handleUpdateUserInput(user.id, 'phoneNumber', e.target.value)}
                       className="text-sm"
                       disabled={isCreatingChat}
                     />
                   </div>
+                  {renderPhoneHint(user.phoneNumber)}
                   <div className="flex items-center gap-2">
                     <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                     <Input
@@ -664,8 +758,8 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
       )}
 
       {/* Search */}
-      <div className="p-4 border-b border-border">
-        <div className="relative">
+      <div className="p-4 border-b border-border flex gap-2">
+        <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
           {/* <input
             type="text"
@@ -682,8 +776,118 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
             className="w-full pl-10 pr-4 py-2 border border-border rounded-lg bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-green-500"
           />
         </div>
+        {onOpenSearchResult && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowMessageSearch(true)}
+            className="h-auto px-3"
+            title={t('search_messages')}
+          >
+            <TextSearch className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {onOpenSearchResult && (
+        <MessageSearchDialog
+          isOpen={showMessageSearch}
+          onClose={() => setShowMessageSearch(false)}
+          contacts={users.filter(user => user.id !== currentUserId)}
+          onSelectResult={(result) => {
+            setShowMessageSearch(false);
+            onOpenSearchResult(result);
+          }}
+        />
+      )}
+
+      {/* Status tabs */}
+      <div className="px-4 flex border-b border-border">
+        {CONVERSATION_STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(status)}
+            className={`flex-1 text-sm py-2 border-b-2 transition-colors ${statusFilter === status
+              ? "border-green-600 text-green-700 dark:text-green-400 font-medium"
+              : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+          >
+            {t(`conversation_status_${status}`)} ({statusCounts[status]})
+          </button>
+        ))}
       </div>
 
+      {/* Assignment filters */}
+      <div className="px-4 py-2 border-b border-border flex gap-1">
+        {ASSIGNMENT_FILTERS.map((filter) => (
+          <button
+            key={filter}
+            type="button"
+            onClick={() => setAssignmentFilter(filter)}
+            className={`flex-1 text-xs font-medium rounded-full px-3 py-1.5 transition-colors ${assignmentFilter === filter
+              ? "bg-green-600 text-white"
+              : "bg-muted text-muted-foreground hover:text-foreground"
+              }`}
+          >
+            {t(`assignment_filter_${filter}`)} ({assignmentCounts[filter]})
+          </button>
+        ))}
+      </div>
+
+      {/* Tag and custom field filters */}
+      {(allTags.length > 0 || contactFields.length > 0) && (
+        <div className="px-4 py-2 border-b border-border flex flex-wrap items-center gap-2">
+          {allTags.length > 0 && (
+            <select
+              value={activeTagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-xs"
+              title={t('filter_by_tag')}
+            >
+              <option value="">{t('all_tags')}</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+          {contactFields.length > 0 && (
+            <select
+              value={fieldFilterKey}
+              onChange={(e) => {
+                setFieldFilterKey(e.target.value);
+                setFieldFilterValue('');
+              }}
+              className="h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-xs"
+              title={t('filter_by_field')}
+            >
+              <option value="">{t('any_field')}</option>
+              {contactFields.map(field => (
+                <option key={field.id} value={field.key}>{field.label}</option>
+              ))}
+            </select>
+          )}
+          {fieldFilter && (fieldFilter.type === 'boolean' ? (
+            <select
+              value={fieldFilterValue}
+              onChange={(e) => setFieldFilterValue(e.target.value)}
+              className="h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-xs"
+            >
+              <option value="">{t('field_has_value')}</option>
+              <option value="true">{t('yes')}</option>
+              <option value="false">{t('no')}</option>
+            </select>
+          ) : (
+            <Input
+              value={fieldFilterValue}
+              onChange={(e) => setFieldFilterValue(e.target.value)}
+              placeholder={t('field_value_placeholder')}
+              className="h-8 flex-1 min-w-0 text-xs"
+            />
+          ))}
+        </div>
+      )}
+
       {/* Groups List */}
       {groups.length > 0 && (
         <div className="border-b border-border">
@@ -700,10 +904,12 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
 
       {/* User List */}
       <div className="flex-1 overflow-y-auto">
-        {filteredUsers.length === 0 ? (
+        {visibleUsers.length === 0 ? (
           <div className="p-4 text-center text-muted-foreground">
-            {searchTerm ? t('no_conversations_found') : t('no_conversations_yet')}
-            {!searchTerm && (
+            {searchTerm ? t('no_conversations_found')
+              : sortedUsers.length > 0 ? t('no_conversations_in_filter')
+              : t('no_conversations_yet')}
+            {!searchTerm && sortedUsers.length === 0 && (
               <div className="mt-4">
                 <Button
                   onClick={() => setShowNewChat(true)}
@@ -718,7 +924,7 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
             )}
           </div>
         ) : (
-          filteredUsers.map((user) => (
+          visibleUsers.map((user) => (
             <div
               key={user.id}
               className={`group p-4 border-b border-border cursor-pointer hover:bg-muted/50 transition-all duration-200 ${selectedUser?.id === user.id ? "bg-muted" : ""
@@ -822,6 +1028,27 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
                     }`}>
                     {getMessagePreview(user)}
                   </p>
+
+                  {getTags(user).length > 0 && (
+                    <div className="flex items-center gap-1 mt-1 overflow-hidden">
+                      <Tag className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                      {getTags(user).slice(0, 3).map(tag => (
+                        <span key={tag} className="text-[10px] bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300 rounded-full px-1.5 py-0.5 truncate max-w-[6rem]">
+                          {tag}
+                        </span>
+                      ))}
+                      {getTags(user).length > 3 && (
+                        <span className="text-[10px] text-muted-foreground">+{getTags(user).length - 3}</span>
+                      )}
+                    </div>
+                  )}
+
+                  {getAssigneeLabel(user) && (
+                    <p className="text-xs text-muted-foreground truncate mt-1 flex items-center gap-1">
+                      <UserCheck className="h-3 w-3 flex-shrink-0" />
+                      {getAssigneeLabel(user)}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -832,6 +1059,7 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
       {/* Group Management Dialog */}
       <GroupManagementDialog
         isOpen={showGroupDialog}
+        tenantId={currentUserId}
         onClose={() => {
           setShowGroupDialog(false);
           setEditingGroup(null);
@@ -839,6 +1067,8 @@ export function UserList({ users, selectedUser, onUserSelect, currentUserId, onU
         users={users}
         group={editingGroup}
         onGroupSaved={handleGroupSaved}
+        contactFields={contactFields}
+        onContactFieldsChange={onContactFieldsChange}
       />
     </div>
   );
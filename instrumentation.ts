@@ -0,0 +1,16 @@
+/**
+ * Runs once when the Next.js server starts.
+ * Starts the broadcast worker so queued jobs (including ones interrupted by a
+ * restart) are picked up without waiting for a new request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.log('[broadcast-worker] SUPABASE_SERVICE_ROLE_KEY not set, worker disabled');
+    return;
+  }
+
+  const { startBroadcastWorker } = await import('@/lib/broadcast/worker');
+  startBroadcastWorker();
+}
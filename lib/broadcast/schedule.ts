@@ -0,0 +1,113 @@
+/**
+ * Scheduling helpers shared by the broadcast API and the composer.
+ * A schedule is entered as a wall-clock time (`YYYY-MM-DDTHH:mm`, the format of
+ * a datetime-local input) in an IANA timezone, and stored as a UTC instant.
+ */
+
+export interface BroadcastSchedule {
+  scheduledAt: string;
+  timezone: string;
+}
+
+/**
+ * Check that a string is a timezone the runtime knows about
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Timezone of the browser or server, falling back to UTC
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * IANA timezones offered in the schedule picker
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC Date.
+ * Returns null when the input cannot be parsed.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(localDateTime);
+  if (!match || !isValidTimeZone(timeZone)) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second || 0));
+
+  // The offset depends on the instant, so correct once for DST transitions
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  let utc = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffset(new Date(utc), timeZone);
+  if (secondOffset !== firstOffset) {
+    utc = wallClock - secondOffset;
+  }
+
+  return new Date(utc);
+}
+
+/**
+ * Format a UTC instant as a datetime-local value in the given timezone
+ */
+export function utcToZonedInput(isoDate: string, timeZone: string): string {
+  const parts = getZonedParts(new Date(isoDate), timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Human readable schedule in the timezone it was set in
+ */
+export function formatScheduledTime(isoDate: string, timeZone: string): string {
+  return `${new Date(isoDate).toLocaleString([], {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })} (${timeZone})`;
+}
@@ -0,0 +1,293 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getContactFieldValues } from '@/lib/contact-fields';
+import { parseWaId } from '@/lib/phone';
+import {
+  TemplateComponent,
+  TemplateSendComponent,
+  TemplateSendOptions,
+  buildTemplateSendComponents,
+  toTextParameters,
+} from '@/lib/template-components';
+import { TemplateVariableFields, TemplateVariables, resolveTemplateVariables } from './variables';
+
+type ServiceRoleClient = ReturnType<typeof createServiceRoleClient>;
+
+/**
+ * The template a broadcast sends, as fetched from the Graph API
+ */
+export interface BroadcastTemplateData {
+  id?: string;
+  name?: string;
+  language?: string;
+  components?: TemplateComponent[];
+}
+
+/**
+ * What the broadcast route stores on the job so any worker can resume it
+ */
+export interface BroadcastPayload {
+  message: string | null;
+  templateName: string | null;
+  templateData: BroadcastTemplateData | null;
+  // Fixed values, and the fallbacks of variables bound to contact fields
+  variables: TemplateVariables | null;
+  // Variables filled per recipient from their contact (absent on older jobs)
+  variableFields?: TemplateVariableFields | null;
+  headerMediaId: string | null;
+  // Carousel card media, offer expiry and coupon code (absent on older jobs)
+  sendOptions?: TemplateSendOptions | null;
+}
+
+export interface BroadcastCredentials {
+  accessToken: string;
+  phoneNumberId: string;
+  apiVersion: string;
+  ratePerSecond: number;
+}
+
+export interface BroadcastSendContext {
+  jobId: string;
+  groupId: string;
+  ownerId: string;
+  // Every message of one broadcast shares this timestamp; the group message
+  // history uses it to collapse the per-recipient copies into one bubble.
+  timestamp: string;
+  payload: BroadcastPayload;
+  credentials: BroadcastCredentials;
+}
+
+export interface BroadcastSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  errorCode?: number;
+}
+
+/**
+ * Load the WhatsApp credentials of the tenant that owns a broadcast
+ */
+export async function getBroadcastCredentials(
+  supabase: ServiceRoleClient,
+  ownerId: string
+): Promise<BroadcastCredentials | null> {
+  const { data: settings } = await supabase
+    .from('user_settings')
+    .select('access_token, phone_number_id, api_version, broadcast_rate_per_second')
+    .eq('id', ownerId)
+    .single();
+
+  if (!settings || !settings.access_token || !settings.phone_number_id) {
+    return null;
+  }
+
+  return {
+    accessToken: settings.access_token,
+    phoneNumberId: settings.phone_number_id,
+    apiVersion: settings.api_version || 'v23.0',
+    ratePerSecond: settings.broadcast_rate_per_second || 20,
+  };
+}
+
+/** Template parts with variables filled in, stored for rich display in the chat */
+interface ProcessedTemplateComponents {
+  header: { format: string; text?: string; media_url: string | null } | null;
+  body: { text?: string } | null;
+  footer: { text?: string } | null;
+  buttons: Array<{ type: string; text?: string; url?: string; phone_number?: string }>;
+}
+
+const replaceVariables = (text: string, componentVariables: Record<string, string>) => {
+  let result = text;
+  Object.entries(componentVariables).forEach(([key, value]) => {
+    result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
+  });
+  return result;
+};
+
+/**
+ * Send one broadcast message to one recipient and store it in messages
+ */
+export async function sendBroadcastMessage(
+  supabase: ServiceRoleClient,
+  context: BroadcastSendContext,
+  recipientId: string
+): Promise<BroadcastSendResult> {
+  const { ownerId, groupId, timestamp, credentials } = context;
+  const { message, templateName, templateData, headerMediaId } = context.payload;
+  const whatsappApiUrl = `https://graph.facebook.com/${credentials.apiVersion}/${credentials.phoneNumberId}/messages`;
+
+  const phone = parseWaId(recipientId);
+  if (!phone.valid) {
+    return { success: false, error: phone.message };
+  }
+  const cleanPhoneNumber = phone.waId;
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, name, custom_name, whatsapp_name, attributes')
+    .eq('owner_id', ownerId)
+    .eq('id', cleanPhoneNumber)
+    .maybeSingle();
+
+  if (userError) {
+    return { success: false, error: 'DB user check failed' };
+  }
+
+  if (!userData) {
+    const { error: userInsertError } = await supabase
+      .from('users')
+      .insert([{ owner_id: ownerId, id: cleanPhoneNumber, name: cleanPhoneNumber, last_active: timestamp }]);
+    if (userInsertError) {
+      return { success: false, error: 'DB insert failed' };
+    }
+  }
+
+  if (templateName && templateData) {
+    // Personalise: bound variables take this recipient's field values
+    const { variables, missing } = resolveTemplateVariables(
+      context.payload.variables,
+      context.payload.variableFields,
+      getContactFieldValues(userData ?? { id: cleanPhoneNumber })
+    );
+    if (missing.length > 0) {
+      return { success: false, error: `No value for ${missing.join(', ')} and no fallback` };
+    }
+
+    const templateComponents: TemplateSendComponent[] = [];
+    if (headerMediaId) {
+      templateComponents.push({ type: 'header', parameters: [{ type: 'image', image: { id: headerMediaId } }] });
+    } else if (variables?.header && Object.keys(variables.header).length > 0) {
+      templateComponents.push({ type: 'header', parameters: toTextParameters(variables.header) });
+    }
+
+    if (variables?.body && Object.keys(variables.body).length > 0) {
+      templateComponents.push({ type: 'body', parameters: toTextParameters(variables.body) });
+    }
+
+    if (variables?.footer && Object.keys(variables.footer).length > 0) {
+      templateComponents.push({ type: 'footer', parameters: toTextParameters(variables.footer) });
+    }
+
+    templateComponents.push(...buildTemplateSendComponents(templateData.components || [], context.payload.sendOptions));
+
+    const templateMessage = {
+      messaging_product: 'whatsapp',
+      to: cleanPhoneNumber,
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: templateData.language || 'en' },
+        ...(templateComponents.length > 0 && { components: templateComponents })
+      }
+    };
+
+    const whatsappResponse = await fetch(whatsappApiUrl, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${credentials.accessToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(templateMessage),
+    });
+
+    const processedComponents: ProcessedTemplateComponents = { header: null, body: null, footer: null, buttons: [] };
+    templateData.components?.forEach(component => {
+      switch (component.type) {
+        case 'HEADER':
+          processedComponents.header = { format: component.format || 'TEXT', text: component.text && variables?.header ? replaceVariables(component.text, variables.header) : component.text, media_url: null };
+          break;
+        case 'BODY':
+          processedComponents.body = { text: component.text && variables?.body ? replaceVariables(component.text, variables.body) : component.text };
+          break;
+        case 'FOOTER':
+          processedComponents.footer = { text: component.text && variables?.footer ? replaceVariables(component.text, variables.footer) : component.text };
+          break;
+        case 'BUTTONS':
+          if (component.buttons) {
+            processedComponents.buttons = component.buttons.map(button => ({ type: button.type, text: button.text, url: button.url, phone_number: button.phone_number }));
+          }
+          break;
+      }
+    });
+
+    const bodyComponent = templateData.components?.find(c => c.type === 'BODY');
+    const messageContent = bodyComponent?.text && variables?.body ? replaceVariables(bodyComponent.text, variables.body) : (message || `Template: ${templateName}`);
+
+    const messageMediaData = JSON.stringify({
+      type: 'template',
+      template_name: templateName,
+      template_id: templateData.id,
+      language: templateData.language,
+      variables: variables,
+      original_content: bodyComponent?.text || templateName,
+      header: processedComponents.header,
+      body: processedComponents.body,
+      footer: processedComponents.footer,
+      buttons: processedComponents.buttons,
+      broadcast_group_id: groupId
+    });
+
+    const templateRawBody = await whatsappResponse.text();
+    let responseData;
+    try { responseData = JSON.parse(templateRawBody); } catch {
+      return { success: false, error: 'non-JSON response' };
+    }
+
+    if (!whatsappResponse.ok) {
+      return { success: false, error: responseData.error?.message || 'Unknown CA', errorCode: responseData.error?.code };
+    }
+
+    const messageId = responseData.messages?.[0]?.id || `broadcast_${Date.now()}`;
+    await supabase.from('messages').insert([{
+      id: messageId,
+      sender_id: ownerId,
+      receiver_id: cleanPhoneNumber,
+      content: messageContent,
+      timestamp: timestamp,
+      is_sent_by_me: true,
+      is_read: true,
+      message_type: 'template',
+      media_data: messageMediaData
+    }]);
+
+    return { success: true, messageId };
+  }
+
+  // TEXT FLOW
+  const textMessage = {
+    messaging_product: 'whatsapp',
+    to: cleanPhoneNumber,
+    type: 'text',
+    text: { body: message }
+  };
+
+  const whatsappResponse = await fetch(whatsappApiUrl, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${credentials.accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(textMessage),
+  });
+
+  const textRawBody = await whatsappResponse.text();
+  let responseData;
+  try { responseData = JSON.parse(textRawBody); } catch {
+    return { success: false, error: 'non-JSON response' };
+  }
+
+  if (!whatsappResponse.ok) {
+    return { success: false, error: responseData.error?.message || 'Unknown error', errorCode: responseData.error?.code };
+  }
+
+  const messageId = responseData.messages?.[0]?.id || `broadcast_text_${Date.now()}`;
+
+  await supabase.from('users').update({ last_active: timestamp }).eq('owner_id', ownerId).eq('id', cleanPhoneNumber);
+  await supabase.from('messages').insert([{
+    id: messageId,
+    sender_id: ownerId,
+    receiver_id: cleanPhoneNumber,
+    content: message,
+    timestamp: timestamp,
+    is_sent_by_me: true,
+    is_read: true,
+    message_type: 'text',
+    media_data: JSON.stringify({ broadcast_group_id: groupId })
+  }]);
+
+  return { success: true, messageId };
+}
@@ -0,0 +1,83 @@
+/**
+ * Per-recipient template variables for broadcasts.
+ * A variable is either a fixed value, or bound to a contact field and filled
+ * from each recipient's contact, with the fixed value as the fallback when the
+ * contact has nothing in that field. Shared by the worker and the preview.
+ */
+
+export type TemplateVariableSection = 'header' | 'body' | 'footer';
+
+export const TEMPLATE_VARIABLE_SECTIONS: TemplateVariableSection[] = ['header', 'body', 'footer'];
+
+/** section -> variable -> value */
+export type TemplateVariables = Partial<Record<TemplateVariableSection, Record<string, string>>>;
+
+/** section -> variable -> contact field key */
+export type TemplateVariableFields = Partial<Record<TemplateVariableSection, Record<string, string>>>;
+
+export interface ResolvedTemplateVariables {
+  variables: Record<TemplateVariableSection, Record<string, string>>;
+  /** Variables with neither a field value nor a fallback, e.g. "body {{2}}" */
+  missing: string[];
+}
+
+/**
+ * A group member the broadcast dialog renders the template for
+ */
+export interface BroadcastPreviewRecipient {
+  id: string;
+  name: string;
+  fieldValues: Record<string, string>;
+}
+
+/**
+ * Fill the variables for one recipient from their contact field values
+ */
+export function resolveTemplateVariables(
+  variables: TemplateVariables | null | undefined,
+  variableFields: TemplateVariableFields | null | undefined,
+  fieldValues: Record<string, string>
+): ResolvedTemplateVariables {
+  const resolved: ResolvedTemplateVariables = {
+    variables: { header: {}, body: {}, footer: {} },
+    missing: [],
+  };
+
+  for (const section of TEMPLATE_VARIABLE_SECTIONS) {
+    const fixed = variables?.[section] || {};
+    const fields = variableFields?.[section] || {};
+    const names = new Set([...Object.keys(fixed), ...Object.keys(fields)]);
+
+    for (const name of names) {
+      const fieldKey = fields[name];
+      const value = (fieldKey && fieldValues[fieldKey]?.trim()) || fixed[name]?.trim() || '';
+      if (!value && fieldKey) {
+        resolved.missing.push(`${section} {{${name}}}`);
+      } else {
+        resolved.variables[section][name] = value;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Check the shape of variable bindings sent by the client.
+ * Returns the field keys used, or null when the shape is invalid.
+ */
+export function getBoundFieldKeys(variableFields: unknown): string[] | null {
+  if (variableFields === null || variableFields === undefined) return [];
+  if (typeof variableFields !== 'object' || Array.isArray(variableFields)) return null;
+
+  const keys: string[] = [];
+  for (const [section, bindings] of Object.entries(variableFields)) {
+    if (!(TEMPLATE_VARIABLE_SECTIONS as string[]).includes(section)) return null;
+    if (!bindings || typeof bindings !== 'object' || Array.isArray(bindings)) return null;
+    for (const fieldKey of Object.values(bindings)) {
+      if (typeof fieldKey !== 'string' || !fieldKey) return null;
+      keys.push(fieldKey);
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,350 @@
+import { hostname } from 'os';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+  BroadcastPayload,
+  BroadcastSendContext,
+  BroadcastSendResult,
+  getBroadcastCredentials,
+  sendBroadcastMessage,
+} from './send';
+
+type ServiceRoleClient = ReturnType<typeof createServiceRoleClient>;
+
+interface BroadcastJobRow {
+  id: string;
+  group_id: string;
+  created_by: string;
+  created_at: string;
+  scheduled_at: string | null;
+  status: string;
+  payload: BroadcastPayload | null;
+}
+
+const WORKER_ID = `${hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+const POLL_INTERVAL_MS = 15000;
+const LEASE_SECONDS = 60;
+const BATCH_SIZE = 10;
+
+// Cloud API errors that mean "slow down" rather than "this message is bad".
+// Account-level limits park the whole job; the pair rate limit only applies to
+// the one recipient, so the rest of the job keeps going.
+const JOB_THROTTLE_ERROR_CODES = [4, 80007, 130429];
+const RECIPIENT_THROTTLE_ERROR_CODES = [131056];
+const MAX_THROTTLED_ATTEMPTS = 6;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Start polling for queued broadcast jobs in this server process
+ */
+export function startBroadcastWorker() {
+  if (pollTimer) return;
+
+  console.log(`[broadcast-worker] Starting worker ${WORKER_ID}`);
+  pollTimer = setInterval(() => {
+    void tick();
+  }, POLL_INTERVAL_MS);
+  void tick();
+}
+
+/**
+ * Pick up new work right away instead of waiting for the next poll
+ */
+export function kickBroadcastWorker() {
+  void tick();
+}
+
+async function tick() {
+  if (running) return;
+  running = true;
+
+  try {
+    const supabase = createServiceRoleClient();
+
+    // Drain every claimable job before going back to sleep
+    while (true) {
+      const { data: claimed, error: claimError } = await supabase
+        .rpc('claim_broadcast_job', { p_worker_id: WORKER_ID, p_lease_seconds: LEASE_SECONDS });
+
+      if (claimError) {
+        console.error('[broadcast-worker] Failed to claim job:', claimError);
+        break;
+      }
+
+      const job = (claimed as BroadcastJobRow[] | null)?.[0];
+      if (!job) break;
+
+      try {
+        await processJob(supabase, job);
+      } catch (error) {
+        console.error(`[broadcast-worker] Job ${job.id} crashed:`, error);
+        await finishJob(supabase, job.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  } catch (error) {
+    console.error('[broadcast-worker] Poll failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+async function processJob(supabase: ServiceRoleClient, job: BroadcastJobRow) {
+  console.log(`[broadcast-worker] Job ${job.id} claimed by ${WORKER_ID}`);
+
+  // A recipient left in `sending` means a previous worker died between the
+  // Graph API call and recording the result. Retrying could deliver the
+  // message twice, so it is reported as failed instead.
+  await supabase
+    .from('broadcast_job_recipients')
+    .update({
+      status: 'failed',
+      error: 'Interrupted before delivery was confirmed',
+      processed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('job_id', job.id)
+    .eq('status', 'sending');
+
+  if (!job.payload) {
+    await finishJob(supabase, job.id, 'failed', 'Job has no payload');
+    return;
+  }
+
+  const credentials = await getBroadcastCredentials(supabase, job.created_by);
+  if (!credentials) {
+    await finishJob(supabase, job.id, 'failed', 'WhatsApp credentials not configured');
+    return;
+  }
+
+  const context: BroadcastSendContext = {
+    jobId: job.id,
+    groupId: job.group_id,
+    ownerId: job.created_by,
+    timestamp: job.scheduled_at || job.created_at,
+    payload: job.payload,
+    credentials,
+  };
+
+  const sendInterval = 1000 / credentials.ratePerSecond;
+  let lastSendAt = 0;
+
+  while (true) {
+    const { data: batch, error: batchError } = await supabase
+      .from('broadcast_job_recipients')
+      .select('id, user_id, attempts')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (batchError) {
+      throw new Error(`Failed to load recipients: ${batchError.message}`);
+    }
+
+    if (!batch || batch.length === 0) {
+      // Recipients that are still backing off keep the job alive
+      const { data: deferred } = await supabase
+        .from('broadcast_job_recipients')
+        .select('next_attempt_at')
+        .eq('job_id', job.id)
+        .eq('status', 'pending')
+        .order('next_attempt_at', { ascending: true })
+        .limit(1);
+
+      if (deferred && deferred.length > 0 && deferred[0].next_attempt_at) {
+        await refreshCounts(supabase, job.id);
+        await parkJob(supabase, job.id, new Date(deferred[0].next_attempt_at));
+        return;
+      }
+      break;
+    }
+
+    let jobThrottledUntil: Date | null = null;
+
+    for (const recipient of batch) {
+      // Only the row that is still pending gets sent, so a cancel issued
+      // while the batch is running wins over the worker.
+      const { data: locked } = await supabase
+        .from('broadcast_job_recipients')
+        .update({ status: 'sending', attempts: recipient.attempts + 1, updated_at: new Date().toISOString() })
+        .eq('id', recipient.id)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (!locked || locked.length === 0) continue;
+
+      const wait = lastSendAt + sendInterval - Date.now();
+      if (wait > 0) await sleep(wait);
+      lastSendAt = Date.now();
+
+      let result: BroadcastSendResult;
+      try {
+        result = await sendBroadcastMessage(supabase, context, recipient.user_id);
+      } catch (error) {
+        result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      const attempts = recipient.attempts + 1;
+      const isJobThrottle = !result.success && JOB_THROTTLE_ERROR_CODES.includes(result.errorCode ?? -1);
+      const isRecipientThrottle = !result.success && RECIPIENT_THROTTLE_ERROR_CODES.includes(result.errorCode ?? -1);
+
+      if ((isJobThrottle || isRecipientThrottle) && attempts < MAX_THROTTLED_ATTEMPTS) {
+        const retryAt = new Date(Date.now() + backoffDelay(attempts));
+        console.log(`[broadcast-worker] Job ${job.id} throttled (${result.errorCode}) for ${recipient.user_id}, retrying at ${retryAt.toISOString()}`);
+
+        await supabase
+          .from('broadcast_job_recipients')
+          .update({
+            status: 'pending',
+            error: result.error,
+            error_code: result.errorCode ?? null,
+            next_attempt_at: retryAt.toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', recipient.id);
+
+        if (isJobThrottle) {
+          jobThrottledUntil = retryAt;
+          break;
+        }
+        continue;
+      }
+
+      if (!result.success) {
+        console.error(`[broadcast-worker] Job ${job.id} failed for ${recipient.user_id}:`, result.error);
+      }
+
+      await supabase
+        .from('broadcast_job_recipients')
+        .update({
+          status: result.success ? 'sent' : 'failed',
+          message_id: result.messageId ?? null,
+          error: result.success ? null : result.error,
+          error_code: result.success ? null : result.errorCode ?? null,
+          sent_at: result.success ? new Date().toISOString() : null,
+          next_attempt_at: null,
+          processed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', recipient.id);
+    }
+
+    await refreshCounts(supabase, job.id);
+
+    if (jobThrottledUntil) {
+      await parkJob(supabase, job.id, jobThrottledUntil);
+      return;
+    }
+
+    // Renewing the lease doubles as the pause/cancel check: both move the job
+    // out of `processing`, so the update matches nothing and the worker stops.
+    const { data: renewed } = await supabase
+      .from('broadcast_jobs')
+      .update({
+        locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('locked_by', WORKER_ID)
+      .eq('status', 'processing')
+      .select('id');
+
+    if (!renewed || renewed.length === 0) {
+      console.log(`[broadcast-worker] Job ${job.id} is no longer running here, stopping`);
+      return;
+    }
+  }
+
+  await finishJob(supabase, job.id, 'completed');
+}
+
+/**
+ * Exponential backoff with jitter, so parallel jobs do not retry in lockstep
+ */
+function backoffDelay(attempts: number) {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Release a throttled job until its backoff has elapsed.
+ * The lease is held until then, which keeps other workers from claiming it.
+ */
+async function parkJob(supabase: ServiceRoleClient, jobId: string, until: Date) {
+  await supabase
+    .from('broadcast_jobs')
+    .update({
+      status: 'throttled',
+      throttled_until: until.toISOString(),
+      locked_by: null,
+      locked_until: until.toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('locked_by', WORKER_ID)
+    .eq('status', 'processing');
+
+  console.log(`[broadcast-worker] Job ${jobId} throttled until ${until.toISOString()}`);
+}
+
+async function refreshCounts(supabase: ServiceRoleClient, jobId: string) {
+  const [{ count: successCount }, { count: failedCount }] = await Promise.all([
+    supabase
+      .from('broadcast_job_recipients')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .eq('status', 'sent'),
+    supabase
+      .from('broadcast_job_recipients')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .eq('status', 'failed'),
+  ]);
+
+  await supabase
+    .from('broadcast_jobs')
+    .update({ success_count: successCount ?? 0, failed_count: failedCount ?? 0 })
+    .eq('id', jobId);
+}
+
+async function finishJob(
+  supabase: ServiceRoleClient,
+  jobId: string,
+  status: 'completed' | 'failed',
+  lastError: string | null = null
+) {
+  await refreshCounts(supabase, jobId);
+
+  const { data: failures } = await supabase
+    .from('broadcast_job_recipients')
+    .select('user_id, error')
+    .eq('job_id', jobId)
+    .eq('status', 'failed');
+
+  // Only a job this worker still owns is finished, so a cancel, or a job
+  // reclaimed by another worker after this lease ran out, is not overwritten.
+  await supabase
+    .from('broadcast_jobs')
+    .update({
+      status,
+      last_error: lastError,
+      errors: (failures || []).map(failure => `${failure.user_id}: ${failure.error}`),
+      locked_by: null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('locked_by', WORKER_ID)
+    .eq('status', 'processing');
+
+  console.log(`[broadcast-worker] Job ${jobId} ${status}`);
+}
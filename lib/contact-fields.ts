@@ -0,0 +1,160 @@
+/**
+ * Contact tags and typed custom fields.
+ * An organization defines its fields once (key, label, type); each contact
+ * stores its values in users.attributes keyed by the field key. A few built-in
+ * fields come from the contact row itself so templates can fill from them too.
+ */
+
+export type ContactFieldType = 'text' | 'number' | 'date' | 'email' | 'phone' | 'boolean';
+
+export const CONTACT_FIELD_TYPES: ContactFieldType[] = ['text', 'number', 'date', 'email', 'phone', 'boolean'];
+
+export interface ContactField {
+  id: string;
+  key: string;
+  label: string;
+  type: ContactFieldType;
+}
+
+export type ContactAttributes = Record<string, string | number | boolean>;
+
+// Read from the contact row, so custom fields cannot reuse these keys
+export const BUILT_IN_CONTACT_FIELDS = ['name', 'phone', 'whatsapp_name'] as const;
+
+export const MAX_TAGS = 30;
+const MAX_TAG_LENGTH = 40;
+const MAX_TEXT_LENGTH = 500;
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isContactFieldType(value: unknown): value is ContactFieldType {
+  return typeof value === 'string' && (CONTACT_FIELD_TYPES as string[]).includes(value);
+}
+
+export function isValidFieldKey(key: string): boolean {
+  return FIELD_KEY_PATTERN.test(key) && !(BUILT_IN_CONTACT_FIELDS as readonly string[]).includes(key);
+}
+
+/**
+ * Suggest a field key from its label: "Customer ID" -> "customer_id"
+ */
+export function toFieldKey(label: string): string {
+  return label
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\u0131/g, 'i')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 40);
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Trim, de-duplicate (case-insensitively) and cap a list of tags
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    if (typeof raw !== 'string') continue;
+    const tag = normalizeTag(raw);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result.slice(0, MAX_TAGS);
+}
+
+/**
+ * Coerce a raw field value to its type. Empty values return null (clear the
+ * field); invalid values throw with a message naming the field.
+ */
+export function parseFieldValue(field: ContactField, raw: unknown): string | number | boolean | null {
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  switch (field.type) {
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true' || raw === 'false') return raw === 'true';
+      break;
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim().replace(',', '.'));
+      if (Number.isFinite(value)) return value;
+      break;
+    }
+    case 'date': {
+      const value = String(raw).trim();
+      if (DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime())) return value;
+      break;
+    }
+    case 'email': {
+      const value = String(raw).trim();
+      if (EMAIL_PATTERN.test(value)) return value.toLowerCase();
+      break;
+    }
+    case 'phone': {
+      const value = String(raw).trim();
+      if (/^\+?[\d\s().-]{5,20}$/.test(value)) return value;
+      break;
+    }
+    default: {
+      const value = String(raw).trim();
+      return value ? value.slice(0, MAX_TEXT_LENGTH) : null;
+    }
+  }
+
+  throw new Error(`Invalid ${field.type} value for "${field.label}"`);
+}
+
+/**
+ * Validate a set of attribute values against the organization's fields.
+ * Keys without a field definition are dropped; empty values remove the key.
+ */
+export function parseAttributes(fields: ContactField[], raw: unknown): ContactAttributes {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const attributes: ContactAttributes = {};
+  for (const field of fields) {
+    const value = parseFieldValue(field, input[field.key]);
+    if (value !== null) {
+      attributes[field.key] = value;
+    }
+  }
+  return attributes;
+}
+
+export function formatFieldValue(value: string | number | boolean | undefined | null): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return String(value);
+}
+
+interface ContactLike {
+  id: string;
+  name?: string;
+  custom_name?: string;
+  whatsapp_name?: string;
+  attributes?: ContactAttributes | null;
+}
+
+/**
+ * Every field value available for a contact, built-ins first.
+ * Used to fill template variables.
+ */
+export function getContactFieldValues(contact: ContactLike): Record<string, string> {
+  const values: Record<string, string> = {
+    name: contact.custom_name || contact.whatsapp_name || contact.name || '',
+    phone: contact.id,
+    whatsapp_name: contact.whatsapp_name || '',
+  };
+  for (const [key, value] of Object.entries(contact.attributes || {})) {
+    values[key] = formatFieldValue(value);
+  }
+  return values;
+}
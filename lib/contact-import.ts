@@ -0,0 +1,105 @@
+/**
+ * Column mapping for spreadsheet contact imports.
+ * Every column of the sheet maps to one target: the phone number, the name,
+ * tags, an existing custom contact field, a new field created from the column,
+ * or nothing. The mapping is an array aligned with the header row.
+ */
+
+import { ContactField, toFieldKey } from '@/lib/contact-fields';
+
+export type ImportColumnTarget =
+  | 'ignore'
+  | 'phone'
+  | 'name'
+  | 'tags'
+  | 'new_field'
+  | `field:${string}`;
+
+export type ColumnMapping = ImportColumnTarget[];
+
+/** Remembered targets by normalized header, reused by the next import */
+export type SavedColumnMappings = Record<string, ImportColumnTarget>;
+
+export const PREVIEW_ROW_COUNT = 5;
+
+const PHONE_HEADER_HINTS = ['phone', 'mobile', 'number', 'whatsapp', 'tel', 'gsm', 'telefon'];
+const NAME_HEADER_HINTS = ['name', 'nom', 'fullname', 'isim', 'ad soyad'];
+const TAG_HEADER_HINTS = ['tag', 'label', 'etiket'];
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function getFieldTargetKey(target: ImportColumnTarget): string | null {
+  return target.startsWith('field:') ? target.slice('field:'.length) : null;
+}
+
+export function isImportColumnTarget(value: unknown): value is ImportColumnTarget {
+  return typeof value === 'string' && (
+    ['ignore', 'phone', 'name', 'tags', 'new_field'].includes(value) ||
+    /^field:[a-z][a-z0-9_]{0,39}$/.test(value)
+  );
+}
+
+/**
+ * Propose a target for every column: remembered mappings first, then a
+ * custom field whose key or label matches the header, then header hints.
+ * Only the first phone and name candidates are used.
+ */
+export function suggestColumnMapping(
+  headers: string[],
+  fields: ContactField[],
+  saved: SavedColumnMappings = {}
+): ColumnMapping {
+  const fieldKeys = new Set(fields.map(field => field.key));
+  const mapping: ColumnMapping = headers.map((header): ImportColumnTarget => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return 'ignore';
+
+    const remembered = saved[normalized];
+    const rememberedKey = remembered ? getFieldTargetKey(remembered) : null;
+    if (remembered && (!rememberedKey || fieldKeys.has(rememberedKey))) {
+      return remembered;
+    }
+
+    const field = fields.find(f => f.key === toFieldKey(header) || normalizeHeader(f.label) === normalized);
+    if (field) return `field:${field.key}`;
+
+    if (PHONE_HEADER_HINTS.some(hint => normalized.includes(hint))) return 'phone';
+    if (NAME_HEADER_HINTS.some(hint => normalized.includes(hint))) return 'name';
+    if (TAG_HEADER_HINTS.some(hint => normalized.includes(hint))) return 'tags';
+    return 'ignore';
+  });
+
+  // A sheet has one phone and one name column; later candidates are ignored
+  for (const single of ['phone', 'name'] as const) {
+    let seen = false;
+    mapping.forEach((target, index) => {
+      if (target !== single) return;
+      if (seen) mapping[index] = 'ignore';
+      seen = true;
+    });
+  }
+
+  return mapping;
+}
+
+/**
+ * Problems that stop an import, as locale keys
+ */
+export function validateColumnMapping(mapping: ColumnMapping): string | null {
+  const count = (target: ImportColumnTarget) => mapping.filter(t => t === target).length;
+  if (count('phone') !== 1) return 'mapping_phone_required';
+  if (count('name') > 1) return 'mapping_one_name_column';
+
+  const fieldKeys = mapping.map(getFieldTargetKey).filter((key): key is string => !!key);
+  if (new Set(fieldKeys).size !== fieldKeys.length) return 'mapping_field_used_twice';
+  return null;
+}
+
+/**
+ * "vip, istanbul; 2024" -> ['vip', 'istanbul', '2024']
+ */
+export function splitTagCell(value: string): string[] {
+  return value.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean);
+}
@@ -0,0 +1,57 @@
+/**
+ * Conversation status workflow shared by the status API and the chat UI.
+ * A conversation is open, snoozed until a given time, or resolved. A snooze
+ * that has run out counts as open; a new inbound message reopens it in the DB.
+ */
+
+export type ConversationStatus = 'open' | 'snoozed' | 'resolved';
+
+export const CONVERSATION_STATUSES: ConversationStatus[] = ['open', 'snoozed', 'resolved'];
+
+export function isConversationStatus(value: unknown): value is ConversationStatus {
+  return typeof value === 'string' && (CONVERSATION_STATUSES as string[]).includes(value);
+}
+
+/**
+ * The status a conversation is in right now, treating expired snoozes as open
+ */
+export function getEffectiveStatus(
+  status: string | null | undefined,
+  snoozedUntil: string | null | undefined,
+  now: number = Date.now()
+): ConversationStatus {
+  if (status === 'resolved') return 'resolved';
+  if (status === 'snoozed' && snoozedUntil && new Date(snoozedUntil).getTime() > now) {
+    return 'snoozed';
+  }
+  return 'open';
+}
+
+export type SnoozePreset = '1h' | '4h' | 'tomorrow' | 'next_week';
+
+export const SNOOZE_PRESETS: SnoozePreset[] = ['1h', '4h', 'tomorrow', 'next_week'];
+
+/**
+ * When a snooze preset ends, in the agent's local time. "Tomorrow" and
+ * "next week" wake up at 09:00.
+ */
+export function getSnoozeUntil(preset: SnoozePreset, from: Date = new Date()): Date {
+  const until = new Date(from);
+  switch (preset) {
+    case '1h':
+      until.setHours(until.getHours() + 1);
+      return until;
+    case '4h':
+      until.setHours(until.getHours() + 4);
+      return until;
+    case 'tomorrow':
+      until.setDate(until.getDate() + 1);
+      until.setHours(9, 0, 0, 0);
+      return until;
+    case 'next_week':
+      // Next Monday
+      until.setDate(until.getDate() + ((8 - until.getDay()) % 7 || 7));
+      until.setHours(9, 0, 0, 0);
+      return until;
+  }
+}
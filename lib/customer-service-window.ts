@@ -0,0 +1,65 @@
+/**
+ * WhatsApp's 24-hour customer service window.
+ * Free-form messages (text, media, interactive) can only be sent within 24 hours
+ * of the customer's last inbound message; outside it only templates go through.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Cloud API error returned for free-form sends outside the window
+export const WINDOW_CLOSED_ERROR_CODE = 131047;
+
+export const WINDOW_CLOSED_MESSAGE =
+  'The 24-hour customer service window is closed. The customer has not messaged in the last 24 hours, so only template messages can be sent.';
+
+/**
+ * When the window closes, given the time of the last inbound message
+ */
+export function getWindowExpiry(lastInboundAt: string | null | undefined): Date | null {
+  if (!lastInboundAt) return null;
+  const time = new Date(lastInboundAt).getTime();
+  return Number.isNaN(time) ? null : new Date(time + CUSTOMER_SERVICE_WINDOW_MS);
+}
+
+export function isWindowOpen(lastInboundAt: string | null | undefined, now: number = Date.now()): boolean {
+  const expiry = getWindowExpiry(lastInboundAt);
+  return !!expiry && expiry.getTime() > now;
+}
+
+/**
+ * Look up the customer's last inbound message for a tenant and work out the window
+ */
+export async function getCustomerServiceWindow(supabase: SupabaseClient, ownerId: string, phoneNumber: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('timestamp')
+    .eq('sender_id', phoneNumber)
+    .eq('receiver_id', ownerId)
+    .order('timestamp', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check customer service window: ${error.message}`);
+  }
+
+  const lastInboundAt: string | null = data?.timestamp ?? null;
+  return {
+    lastInboundAt,
+    expiresAt: getWindowExpiry(lastInboundAt)?.toISOString() ?? null,
+    isOpen: isWindowOpen(lastInboundAt),
+  };
+}
+
+/**
+ * Error response body for a free-form send outside the window
+ */
+export function windowClosedResponseBody(expiresAt: string | null) {
+  return {
+    error: WINDOW_CLOSED_MESSAGE,
+    code: 'CUSTOMER_SERVICE_WINDOW_CLOSED',
+    windowExpiresAt: expiresAt,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Interactive messages (reply buttons and lists) shared by the send route and
+ * the composer. Limits follow the Cloud API; Meta rejects anything larger.
+ */
+
+export const INTERACTIVE_LIMITS = {
+  headerText: 60,
+  bodyText: 1024,
+  footerText: 60,
+  maxButtons: 3,
+  buttonTitle: 20,
+  listButtonText: 20,
+  maxSections: 10,
+  maxRows: 10,
+  sectionTitle: 24,
+  rowTitle: 24,
+  rowDescription: 72,
+  replyId: 256,
+} as const;
+
+export interface InteractiveReplyButton {
+  id: string;
+  title: string;
+}
+
+export interface InteractiveListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface InteractiveListSection {
+  title?: string;
+  rows: InteractiveListRow[];
+}
+
+export interface InteractiveMessage {
+  type: 'button' | 'list';
+  header?: string;
+  body: string;
+  footer?: string;
+  buttons?: InteractiveReplyButton[];
+  buttonText?: string;
+  sections?: InteractiveListSection[];
+}
+
+function checkLength(errors: string[], label: string, value: string | undefined, max: number, required = false) {
+  const trimmed = value?.trim() || '';
+  if (required && !trimmed) {
+    errors.push(`${label} is required`);
+  } else if (trimmed.length > max) {
+    errors.push(`${label} must be at most ${max} characters`);
+  }
+}
+
+/**
+ * Validate an interactive message against the Cloud API limits.
+ * Returns a list of problems, empty when the message can be sent.
+ */
+export function validateInteractiveMessage(message: InteractiveMessage): string[] {
+  const errors: string[] = [];
+
+  if (message.type !== 'button' && message.type !== 'list') {
+    return ['Interactive type must be "button" or "list"'];
+  }
+
+  checkLength(errors, 'Header', message.header, INTERACTIVE_LIMITS.headerText);
+  checkLength(errors, 'Body', message.body, INTERACTIVE_LIMITS.bodyText, true);
+  checkLength(errors, 'Footer', message.footer, INTERACTIVE_LIMITS.footerText);
+
+  // Reply ids come back in the customer's reply, so they must be unique
+  const ids = new Set<string>();
+  const checkId = (label: string, id: string | undefined) => {
+    checkLength(errors, `${label} id`, id, INTERACTIVE_LIMITS.replyId, true);
+    const trimmed = id?.trim();
+    if (trimmed) {
+      if (ids.has(trimmed)) errors.push(`${label} id "${trimmed}" is used more than once`);
+      ids.add(trimmed);
+    }
+  };
+
+  if (message.type === 'button') {
+    const buttons = message.buttons || [];
+    if (buttons.length === 0 || buttons.length > INTERACTIVE_LIMITS.maxButtons) {
+      errors.push(`Add between 1 and ${INTERACTIVE_LIMITS.maxButtons} buttons`);
+    }
+    buttons.forEach((button, index) => {
+      checkLength(errors, `Button ${index + 1} title`, button.title, INTERACTIVE_LIMITS.buttonTitle, true);
+      checkId(`Button ${index + 1}`, button.id);
+    });
+    return errors;
+  }
+
+  checkLength(errors, 'List button text', message.buttonText, INTERACTIVE_LIMITS.listButtonText, true);
+
+  const sections = message.sections || [];
+  if (sections.length === 0 || sections.length > INTERACTIVE_LIMITS.maxSections) {
+    errors.push(`Add between 1 and ${INTERACTIVE_LIMITS.maxSections} sections`);
+  }
+
+  const rowCount = sections.reduce((sum, section) => sum + (section.rows?.length || 0), 0);
+  if (rowCount === 0 || rowCount > INTERACTIVE_LIMITS.maxRows) {
+    errors.push(`Add between 1 and ${INTERACTIVE_LIMITS.maxRows} rows across all sections`);
+  }
+
+  sections.forEach((section, sectionIndex) => {
+    // A title is only optional when there is a single section
+    checkLength(errors, `Section ${sectionIndex + 1} title`, section.title, INTERACTIVE_LIMITS.sectionTitle, sections.length > 1);
+    if (!section.rows?.length) {
+      errors.push(`Section ${sectionIndex + 1} needs at least one row`);
+    }
+    (section.rows || []).forEach((row, rowIndex) => {
+      const label = `Section ${sectionIndex + 1} row ${rowIndex + 1}`;
+      checkLength(errors, `${label} title`, row.title, INTERACTIVE_LIMITS.rowTitle, true);
+      checkLength(errors, `${label} description`, row.description, INTERACTIVE_LIMITS.rowDescription);
+      checkId(label, row.id);
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Build the `interactive` object of a Cloud API message request
+ */
+export function buildInteractivePayload(message: InteractiveMessage) {
+  const header = message.header?.trim();
+  const footer = message.footer?.trim();
+
+  return {
+    type: message.type,
+    ...(header && { header: { type: 'text', text: header } }),
+    body: { text: message.body.trim() },
+    ...(footer && { footer: { text: footer } }),
+    action: message.type === 'button'
+      ? {
+        buttons: (message.buttons || []).map(button => ({
+          type: 'reply',
+          reply: { id: button.id.trim(), title: button.title.trim() },
+        })),
+      }
+      : {
+        button: message.buttonText!.trim(),
+        sections: (message.sections || []).map(section => ({
+          ...(section.title?.trim() && { title: section.title.trim() }),
+          rows: section.rows.map(row => ({
+            id: row.id.trim(),
+            title: row.title.trim(),
+            ...(row.description?.trim() && { description: row.description.trim() }),
+          })),
+        })),
+      },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Internal notes agents leave on a conversation. Notes are stored in their own
+ * table and are never sent to WhatsApp; they only show up in the chat thread.
+ */
+
+import { getTeamMemberName, type TeamMember } from '@/lib/tenant';
+
+export interface ConversationNote {
+  id: string;
+  owner_id: string;
+  contact_id: string;
+  author_id: string | null;
+  content: string;
+  mentions: string[];
+  created_at: string;
+}
+
+export const MAX_NOTE_LENGTH = 4000;
+
+/**
+ * The text inserted into a note when a teammate is mentioned
+ */
+export function getMentionToken(member: TeamMember): string {
+  return `@${getTeamMemberName(member)}`;
+}
+
+/**
+ * Split note text into plain and mention segments for rendering. Only
+ * teammates listed in the note's mentions are highlighted.
+ */
+export function splitNoteMentions(
+  content: string,
+  mentions: string[],
+  teamMembers: TeamMember[]
+): Array<{ text: string; mention: boolean }> {
+  const tokens = teamMembers
+    .filter(member => mentions.includes(member.user_id))
+    .map(getMentionToken)
+    // Longest first so "@Ann Lee" wins over "@Ann"
+    .sort((a, b) => b.length - a.length);
+
+  if (tokens.length === 0) {
+    return [{ text: content, mention: false }];
+  }
+
+  const escaped = tokens.map(token => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'g');
+
+  return content
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, mention: tokens.includes(part) }));
+}
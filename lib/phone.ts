@@ -0,0 +1,289 @@
+/**
+ * Phone number normalization shared by every route that takes a number and by
+ * the UI. Numbers are parsed against the tenant's default country when they are
+ * written nationally (0555 123 45 67) and against their calling code when they
+ * are international (+90 555..., 0090 555..., or digits starting with the code,
+ * which is how WhatsApp ids are stored).
+ *
+ * The country table covers the numbering plans we see most; numbers with other
+ * calling codes are accepted when their length fits E.164, without a country or
+ * line type.
+ */
+
+export type PhoneLineType = 'mobile' | 'fixed_line' | 'unknown';
+
+export type PhoneInvalidReason =
+  | 'empty'
+  | 'invalid_characters'
+  | 'missing_country_code'
+  | 'too_short'
+  | 'too_long'
+  | 'invalid_for_country';
+
+export type ParsedPhone =
+  | {
+    valid: true;
+    /** +905551234567 */
+    e164: string;
+    /** 905551234567 - the form WhatsApp uses and contacts are keyed by */
+    waId: string;
+    country: string | null;
+    callingCode: string;
+    nationalNumber: string;
+    lineType: PhoneLineType;
+  }
+  | {
+    valid: false;
+    reason: PhoneInvalidReason;
+    message: string;
+    country: string | null;
+  };
+
+interface CountryPlan {
+  country: string;
+  callingCode: string;
+  /** Lengths of the national significant number (without trunk prefix) */
+  lengths: number[];
+  /** Dialled before national numbers inside the country */
+  trunkPrefix?: string;
+  /** Valid national significant numbers, when the plan is strict enough to check */
+  pattern?: RegExp;
+  /** Mobile numbers; without it the line type stays unknown */
+  mobile?: RegExp;
+  /** Picks this plan among countries that share a calling code */
+  leadingDigits?: RegExp;
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// ISO 3166-1 alpha-2 country, calling code and national number rules
+const COUNTRY_PLANS: CountryPlan[] = [
+  { country: 'TR', callingCode: '90', lengths: [10], trunkPrefix: '0', pattern: /^[2-58]\d{9}$/, mobile: /^5\d{9}$/ },
+  { country: 'US', callingCode: '1', lengths: [10], trunkPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  { country: 'CA', callingCode: '1', lengths: [10], trunkPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  { country: 'GB', callingCode: '44', lengths: [9, 10], trunkPrefix: '0', pattern: /^[1-37-9]\d{8,9}$/, mobile: /^7[1-57-9]\d{8}$/ },
+  { country: 'DE', callingCode: '49', lengths: range(6, 13), trunkPrefix: '0', mobile: /^1[5-7]\d{8,9}$/ },
+  { country: 'FR', callingCode: '33', lengths: [9], trunkPrefix: '0', pattern: /^[1-9]\d{8}$/, mobile: /^[67]\d{8}$/ },
+  { country: 'ES', callingCode: '34', lengths: [9], pattern: /^[5-9]\d{8}$/, mobile: /^(6\d|7[1-4])\d{7}$/ },
+  { country: 'IT', callingCode: '39', lengths: range(6, 11), mobile: /^3\d{8,10}$/ },
+  { country: 'NL', callingCode: '31', lengths: [9], trunkPrefix: '0', mobile: /^6[1-58]\d{7}$/ },
+  { country: 'BE', callingCode: '32', lengths: [8, 9], trunkPrefix: '0', mobile: /^4[5-9]\d{7}$/ },
+  { country: 'CH', callingCode: '41', lengths: [9], trunkPrefix: '0', mobile: /^7[5-9]\d{7}$/ },
+  { country: 'AT', callingCode: '43', lengths: range(4, 13), trunkPrefix: '0', mobile: /^6[5-9]\d{6,11}$/ },
+  { country: 'SE', callingCode: '46', lengths: range(7, 10), trunkPrefix: '0', mobile: /^7[02369]\d{7}$/ },
+  { country: 'NO', callingCode: '47', lengths: [8], mobile: /^[49]\d{7}$/ },
+  { country: 'DK', callingCode: '45', lengths: [8] },
+  { country: 'FI', callingCode: '358', lengths: range(5, 12), trunkPrefix: '0', mobile: /^4\d{6,9}$|^50\d{4,8}$/ },
+  { country: 'PL', callingCode: '48', lengths: [9] },
+  { country: 'PT', callingCode: '351', lengths: [9], mobile: /^9[1236]\d{7}$/ },
+  { country: 'IE', callingCode: '353', lengths: range(7, 9), trunkPrefix: '0', mobile: /^8[35-9]\d{7}$/ },
+  { country: 'GR', callingCode: '30', lengths: [10], mobile: /^69\d{8}$/ },
+  { country: 'RU', callingCode: '7', lengths: [10], trunkPrefix: '8', mobile: /^9\d{9}$/, leadingDigits: /^[3489]/ },
+  { country: 'KZ', callingCode: '7', lengths: [10], trunkPrefix: '8', mobile: /^7\d{9}$/, leadingDigits: /^[67]/ },
+  { country: 'UA', callingCode: '380', lengths: [9], trunkPrefix: '0' },
+  { country: 'AZ', callingCode: '994', lengths: [9], trunkPrefix: '0', mobile: /^(10|5[015]|60|7[07]|99)\d{7}$/ },
+  { country: 'GE', callingCode: '995', lengths: [9], trunkPrefix: '0', mobile: /^5\d{8}$/ },
+  { country: 'IN', callingCode: '91', lengths: [10], trunkPrefix: '0', mobile: /^[6-9]\d{9}$/ },
+  { country: 'PK', callingCode: '92', lengths: [9, 10], trunkPrefix: '0', mobile: /^3\d{9}$/ },
+  { country: 'BD', callingCode: '880', lengths: range(8, 10), trunkPrefix: '0', mobile: /^1[3-9]\d{8}$/ },
+  { country: 'ID', callingCode: '62', lengths: range(9, 12), trunkPrefix: '0', mobile: /^8\d{8,11}$/ },
+  { country: 'MY', callingCode: '60', lengths: [9, 10], trunkPrefix: '0', mobile: /^1\d{8,9}$/ },
+  { country: 'SG', callingCode: '65', lengths: [8], mobile: /^[89]\d{7}$/ },
+  { country: 'PH', callingCode: '63', lengths: range(8, 10), trunkPrefix: '0', mobile: /^9\d{9}$/ },
+  { country: 'TH', callingCode: '66', lengths: [8, 9], trunkPrefix: '0', mobile: /^[689]\d{8}$/ },
+  { country: 'VN', callingCode: '84', lengths: [9, 10], trunkPrefix: '0', mobile: /^[35789]\d{8}$/ },
+  { country: 'CN', callingCode: '86', lengths: [10, 11], trunkPrefix: '0', mobile: /^1[3-9]\d{9}$/ },
+  { country: 'JP', callingCode: '81', lengths: [9, 10], trunkPrefix: '0', mobile: /^[7-9]0\d{8}$/ },
+  { country: 'KR', callingCode: '82', lengths: range(8, 10), trunkPrefix: '0', mobile: /^1[016-9]\d{7,8}$/ },
+  { country: 'AU', callingCode: '61', lengths: [9], trunkPrefix: '0', mobile: /^4\d{8}$/ },
+  { country: 'NZ', callingCode: '64', lengths: range(8, 10), trunkPrefix: '0', mobile: /^2\d{7,9}$/ },
+  { country: 'BR', callingCode: '55', lengths: [10, 11], trunkPrefix: '0', mobile: /^[1-9]{2}9\d{8}$/ },
+  { country: 'MX', callingCode: '52', lengths: [10] },
+  { country: 'AR', callingCode: '54', lengths: [10, 11], trunkPrefix: '0', mobile: /^9\d{10}$/ },
+  { country: 'CO', callingCode: '57', lengths: [10], mobile: /^3\d{9}$/ },
+  { country: 'CL', callingCode: '56', lengths: [9], mobile: /^9\d{8}$/ },
+  { country: 'PE', callingCode: '51', lengths: [8, 9], trunkPrefix: '0', mobile: /^9\d{8}$/ },
+  { country: 'ZA', callingCode: '27', lengths: [9], trunkPrefix: '0', mobile: /^[6-8]\d{8}$/ },
+  { country: 'NG', callingCode: '234', lengths: [8, 10], trunkPrefix: '0', mobile: /^[789][01]\d{8}$/ },
+  { country: 'KE', callingCode: '254', lengths: [9], trunkPrefix: '0', mobile: /^[17]\d{8}$/ },
+  { country: 'EG', callingCode: '20', lengths: [9, 10], trunkPrefix: '0', mobile: /^1[0125]\d{8}$/ },
+  { country: 'MA', callingCode: '212', lengths: [9], trunkPrefix: '0', mobile: /^[67]\d{8}$/ },
+  { country: 'SA', callingCode: '966', lengths: [8, 9], trunkPrefix: '0', mobile: /^5\d{8}$/ },
+  { country: 'AE', callingCode: '971', lengths: [8, 9], trunkPrefix: '0', mobile: /^5[024-68]\d{7}$/ },
+  { country: 'IL', callingCode: '972', lengths: [8, 9], trunkPrefix: '0', mobile: /^5\d{8}$/ },
+  { country: 'IR', callingCode: '98', lengths: [10], trunkPrefix: '0', mobile: /^9\d{9}$/ },
+  { country: 'IQ', callingCode: '964', lengths: range(8, 10), trunkPrefix: '0', mobile: /^7\d{9}$/ },
+];
+
+/** Countries a tenant can pick as its default, sorted by code */
+export const PHONE_COUNTRIES = [...new Set(COUNTRY_PLANS.map(plan => plan.country))].sort();
+
+export function isPhoneCountry(value: unknown): value is string {
+  return typeof value === 'string' && PHONE_COUNTRIES.includes(value);
+}
+
+export function getCallingCode(country: string): string | null {
+  return COUNTRY_PLANS.find(plan => plan.country === country)?.callingCode ?? null;
+}
+
+const REASON_MESSAGES: Record<PhoneInvalidReason, string> = {
+  empty: 'Phone number is empty',
+  invalid_characters: 'Phone number can only contain digits, spaces, dashes, dots, brackets and a leading +',
+  missing_country_code: 'Add the country code (e.g. +44 7700 900123), or set a default country in settings',
+  too_short: 'Phone number is too short',
+  too_long: 'Phone number is too long',
+  invalid_for_country: 'Not a valid phone number for this country',
+};
+
+function invalid(reason: PhoneInvalidReason, country: string | null = null, detail?: string): ParsedPhone {
+  return {
+    valid: false,
+    reason,
+    message: detail ? `${REASON_MESSAGES[reason]} (${detail})` : REASON_MESSAGES[reason],
+    country,
+  };
+}
+
+// Check a national significant number against a country's plan
+function parseNational(plan: CountryPlan, national: string): ParsedPhone {
+  let nsn = national;
+  // People often keep the trunk prefix after the country code: +90 (0)555...
+  if (plan.trunkPrefix && nsn.startsWith(plan.trunkPrefix) && !plan.lengths.includes(nsn.length)) {
+    nsn = nsn.slice(plan.trunkPrefix.length);
+  }
+
+  const expected = plan.lengths.length === 1
+    ? `${plan.lengths[0]} digits`
+    : `${Math.min(...plan.lengths)}-${Math.max(...plan.lengths)} digits`;
+
+  if (nsn.length < Math.min(...plan.lengths)) {
+    return invalid('too_short', plan.country, `${plan.country} numbers have ${expected} after +${plan.callingCode}`);
+  }
+  if (nsn.length > Math.max(...plan.lengths)) {
+    return invalid('too_long', plan.country, `${plan.country} numbers have ${expected} after +${plan.callingCode}`);
+  }
+  if (!plan.lengths.includes(nsn.length) || (plan.pattern && !plan.pattern.test(nsn))) {
+    return invalid('invalid_for_country', plan.country);
+  }
+
+  return {
+    valid: true,
+    e164: `+${plan.callingCode}${nsn}`,
+    waId: `${plan.callingCode}${nsn}`,
+    country: plan.country,
+    callingCode: plan.callingCode,
+    nationalNumber: nsn,
+    lineType: plan.mobile ? (plan.mobile.test(nsn) ? 'mobile' : 'fixed_line') : 'unknown',
+  };
+}
+
+// Parse digits that start with a calling code
+function parseInternational(digits: string, defaultCountry?: string | null): ParsedPhone {
+  if (digits.length < 8) return invalid('too_short');
+  if (digits.length > 15) return invalid('too_long', null, 'E.164 numbers have at most 15 digits');
+
+  // Calling codes are prefix-free, so the first match is the only one
+  for (const length of [1, 2, 3]) {
+    const code = digits.slice(0, length);
+    const plans = COUNTRY_PLANS.filter(plan => plan.callingCode === code);
+    if (plans.length === 0) continue;
+
+    const national = digits.slice(length);
+    const plan = plans.find(p => p.leadingDigits?.test(national))
+      ?? plans.find(p => p.country === defaultCountry)
+      ?? plans[0];
+    return parseNational(plan, national);
+  }
+
+  // Outside our table: accept anything E.164 allows
+  return {
+    valid: true,
+    e164: `+${digits}`,
+    waId: digits,
+    country: null,
+    callingCode: '',
+    nationalNumber: digits,
+    lineType: 'unknown',
+  };
+}
+
+/**
+ * Parse a phone number typed by an agent or imported from a spreadsheet.
+ * National numbers are read in the default country. Use parseWaId for
+ * numbers that are already stored as WhatsApp ids.
+ */
+export function parsePhoneNumber(raw: string | number | null | undefined, defaultCountry?: string | null): ParsedPhone {
+  const input = String(raw ?? '').trim();
+  if (!input) return invalid('empty');
+
+  if (!/^\+?[\d\s\-.()/]+$/.test(input)) {
+    return invalid('invalid_characters');
+  }
+
+  const digits = input.replace(/\D/g, '');
+  if (!digits) return invalid('empty');
+
+  if (input.startsWith('+')) {
+    return parseInternational(digits, defaultCountry);
+  }
+  if (digits.startsWith('00')) {
+    return parseInternational(digits.slice(2), defaultCountry);
+  }
+
+  const plan = defaultCountry ? COUNTRY_PLANS.find(p => p.country === defaultCountry) : undefined;
+  if (plan) {
+    // Written nationally with the trunk prefix: 0555 123 45 67
+    if (plan.trunkPrefix && digits.startsWith(plan.trunkPrefix)) {
+      const withTrunk = parseNational(plan, digits.slice(plan.trunkPrefix.length));
+      if (withTrunk.valid) return withTrunk;
+    }
+
+    // Without it the digits are either national or already carry a calling
+    // code (WhatsApp ids do). Fixed-length plans read an exact-length number
+    // as national; open plans only as a last resort.
+    const asNational = plan.lengths.includes(digits.length) ? parseNational(plan, digits) : null;
+    if (asNational?.valid && plan.lengths.length === 1) return asNational;
+
+    const asInternational = parseInternational(digits, defaultCountry);
+    if (asInternational.valid && asInternational.country) return asInternational;
+    if (asNational?.valid) return asNational;
+    if (asInternational.valid) return asInternational;
+
+    // Explain against the default country unless the number looked international
+    if (digits.startsWith(plan.callingCode)) return asInternational;
+    return asNational ?? parseNational(plan, digits);
+  }
+
+  // No default country: the digits must start with a calling code
+  const asInternational = parseInternational(digits);
+  if (!asInternational.valid && (digits.startsWith('0') || digits.length <= 10)) {
+    return invalid('missing_country_code');
+  }
+  return asInternational;
+}
+
+/**
+ * Parse a stored WhatsApp id (a contact's id or a group member's user_id).
+ * Ids always carry their calling code, so no default country is applied: an
+ * id that happens to have the length of a national number is not re-prefixed.
+ */
+export function parseWaId(raw: string | number | null | undefined): ParsedPhone {
+  const input = String(raw ?? '').trim();
+  const parsed = parsePhoneNumber(input && !input.startsWith('+') ? `+${input}` : input);
+  if (parsed.valid || parsed.reason === 'empty' || parsed.reason === 'invalid_characters') {
+    return parsed;
+  }
+
+  // WhatsApp issued the id, so it stands where our table is stricter
+  const digits = input.replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 15) return parsed;
+  return {
+    valid: true,
+    e164: `+${digits}`,
+    waId: digits,
+    country: null,
+    callingCode: '',
+    nationalNumber: digits,
+    lineType: 'unknown',
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Message template components, including the kinds beyond a plain
+ * header/body/footer/buttons template: media card carousels, limited-time
+ * offers and authentication (OTP) templates. Shared by the template builder,
+ * the create route and the routes that send templates.
+ */
+
+export type TemplateCategory = 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+
+export type TemplateComponentType =
+  | 'HEADER'
+  | 'BODY'
+  | 'FOOTER'
+  | 'BUTTONS'
+  | 'CAROUSEL'
+  | 'LIMITED_TIME_OFFER';
+
+export type TemplateHeaderFormat = 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
+
+export type TemplateButtonType = 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER' | 'CATALOG' | 'COPY_CODE' | 'OTP';
+
+export type OtpType = 'COPY_CODE' | 'ONE_TAP';
+
+// POSITIONAL variables are {{1}}, {{2}}; NAMED ones are {{first_name}}
+export type TemplateParameterFormat = 'POSITIONAL' | 'NAMED';
+
+export interface NamedParamExample {
+  param_name: string;
+  example: string;
+}
+
+/** Android app that receives one-tap codes */
+export interface OtpSupportedApp {
+  package_name: string;
+  signature_hash: string;
+}
+
+export interface TemplateButton {
+  type: TemplateButtonType;
+  // COPY_CODE buttons have a fixed label; OTP buttons default to "Copy code"
+  text?: string;
+  url?: string;
+  phone_number?: string;
+  // URL buttons: sample for the {{1}} suffix; COPY_CODE buttons: sample code
+  example?: string[] | string;
+  otp_type?: OtpType;
+  autofill_text?: string;
+  supported_apps?: OtpSupportedApp[];
+}
+
+export interface CarouselCard {
+  components: TemplateComponent[];
+}
+
+export interface LimitedTimeOffer {
+  text: string;
+  has_expiration: boolean;
+}
+
+export interface TemplateComponent {
+  type: TemplateComponentType;
+  format?: TemplateHeaderFormat;
+  text?: string;
+  example?: {
+    header_text?: string[];
+    body_text?: string[][];
+    // Examples of a NAMED template, one per variable
+    header_text_named_params?: NamedParamExample[];
+    body_text_named_params?: NamedParamExample[];
+    // Media header samples, as handles from Meta's resumable upload API
+    header_handle?: string[];
+  };
+  buttons?: TemplateButton[];
+  // AUTHENTICATION templates: Meta writes the body and footer text
+  add_security_recommendation?: boolean;
+  code_expiration_minutes?: number;
+  cards?: CarouselCard[];
+  limited_time_offer?: LimitedTimeOffer;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  category: TemplateCategory;
+  language: string;
+  components: TemplateComponent[];
+  parameter_format?: TemplateParameterFormat;
+  message_send_ttl_seconds?: number;
+}
+
+/** Named parameters: lowercase letters, digits and underscores, not starting with a digit */
+export const NAMED_PARAMETER_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+export const isPositionalVariable = (variable: string) => /^\d+$/.test(variable);
+
+/**
+ * Variables used in a text, without duplicates: numbers in numeric order,
+ * names in the order they appear.
+ * "Hi {{first_name}}, order {{order_id}}" -> ['first_name', 'order_id']
+ */
+export function extractTemplateVariables(text: string): string[] {
+  const variables: string[] = [];
+  for (const match of (text || '').matchAll(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g)) {
+    if (!variables.includes(match[1])) variables.push(match[1]);
+  }
+  return variables.every(isPositionalVariable)
+    ? variables.sort((a, b) => parseInt(a) - parseInt(b))
+    : variables;
+}
+
+/**
+ * Cloud API text parameters for filled-in variables. Positional values are
+ * sent in order; named values carry their parameter_name.
+ */
+export function toTextParameters(values: Record<string, string>): Array<Record<string, unknown>> {
+  const keys = Object.keys(values);
+  if (keys.every(isPositionalVariable)) {
+    return keys
+      .sort((a, b) => parseInt(a) - parseInt(b))
+      .map(key => ({ type: 'text', text: values[key] }));
+  }
+  return keys.map(key => ({ type: 'text', parameter_name: key, text: values[key] }));
+}
+
+export const CAROUSEL_MIN_CARDS = 2;
+export const CAROUSEL_MAX_CARDS = 10;
+export const CAROUSEL_CARD_BODY_MAX_LENGTH = 160;
+export const CAROUSEL_CARD_MAX_BUTTONS = 2;
+export const LIMITED_TIME_OFFER_TEXT_MAX_LENGTH = 16;
+export const CODE_EXPIRATION_MIN_MINUTES = 1;
+export const CODE_EXPIRATION_MAX_MINUTES = 90;
+export const COPY_CODE_MAX_LENGTH = 15;
+
+/**
+ * Values filled in when sending one of the special template kinds
+ */
+export interface TemplateSendOptions {
+  // One entry per carousel card, in card order
+  cards?: TemplateCardValues[];
+  // When a limited-time offer expires, as epoch milliseconds
+  offerExpiresAt?: number | null;
+  // Code behind a COPY_CODE button
+  couponCode?: string;
+  // Verification code of an AUTHENTICATION template
+  otpCode?: string;
+}
+
+export interface TemplateCardValues {
+  // WhatsApp media ID of the card's image or video
+  mediaId: string;
+  // Body variables by number or name
+  body: Record<string, string>;
+  // URL suffixes by button index
+  buttons: Record<string, string>;
+}
+
+/** A component of the template message payload sent to the Cloud API */
+export interface TemplateSendComponent {
+  type: string;
+  sub_type?: string;
+  index?: string;
+  parameters?: Array<Record<string, unknown>>;
+  cards?: Array<{ card_index: number; components: TemplateSendComponent[] }>;
+}
+
+/** Loose shape of a template as fetched from the Graph API */
+interface FetchedComponent {
+  type: string;
+  format?: string;
+  text?: string;
+  url?: string;
+  buttons?: Array<{ type: string; text?: string; url?: string; otp_type?: string }>;
+  cards?: Array<{ components: FetchedComponent[] }>;
+  limited_time_offer?: LimitedTimeOffer;
+}
+
+const findComponent = <T extends FetchedComponent>(components: T[], type: string): T | undefined =>
+  components.find(component => component.type.toUpperCase() === type);
+
+export function getCarouselCards<T extends FetchedComponent>(components: T[]): NonNullable<T['cards']> {
+  return (findComponent(components, 'CAROUSEL')?.cards || []) as NonNullable<T['cards']>;
+}
+
+export function getLimitedTimeOffer(components: FetchedComponent[]): LimitedTimeOffer | null {
+  return findComponent(components, 'LIMITED_TIME_OFFER')?.limited_time_offer || null;
+}
+
+/**
+ * Index of the COPY_CODE button, or -1
+ */
+export function getCopyCodeButtonIndex(components: FetchedComponent[]): number {
+  const buttons = findComponent(components, 'BUTTONS')?.buttons || [];
+  return buttons.findIndex(button => button.type === 'COPY_CODE');
+}
+
+/**
+ * Index of the OTP button. Fetched authentication templates report it as a
+ * URL button pointing at WhatsApp's OTP endpoint.
+ */
+export function getOtpButtonIndex(components: FetchedComponent[]): number {
+  const buttons = findComponent(components, 'BUTTONS')?.buttons || [];
+  return buttons.findIndex(button =>
+    button.type === 'OTP' || (button.type === 'URL' && !!button.url?.includes('/otp/'))
+  );
+}
+
+/**
+ * What is missing to send a template of one of the special kinds, or null
+ */
+export function validateTemplateSendOptions(
+  components: FetchedComponent[],
+  options: TemplateSendOptions | null | undefined
+): string | null {
+  const cards = getCarouselCards(components);
+  if (cards.length > 0) {
+    if (!options?.cards || options.cards.length !== cards.length) {
+      return `Carousel has ${cards.length} cards; provide media for each`;
+    }
+    const missingMedia = options.cards.findIndex(card => !card?.mediaId);
+    if (missingMedia >= 0) {
+      return `Carousel card ${missingMedia + 1} has no media`;
+    }
+  }
+
+  const offer = getLimitedTimeOffer(components);
+  if (offer?.has_expiration) {
+    if (!options?.offerExpiresAt || !Number.isFinite(options.offerExpiresAt)) {
+      return 'Limited-time offer requires an expiration time';
+    }
+    if (options.offerExpiresAt <= Date.now()) {
+      return 'Offer expiration time must be in the future';
+    }
+  }
+
+  if (getCopyCodeButtonIndex(components) >= 0 && !options?.couponCode?.trim()) {
+    return 'Template requires a coupon code for its copy code button';
+  }
+
+  if (getOtpButtonIndex(components) >= 0 && !options?.otpCode?.trim()) {
+    return 'Authentication template requires a verification code';
+  }
+
+  return null;
+}
+
+/**
+ * Text of the card body with its variables filled in, for previews and stored messages
+ */
+export function fillCardBody(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (match, key) => values[key] || match);
+}
+
+/**
+ * Cloud API components for the parts of a template that header/body/footer
+ * variables do not cover: carousel cards, the offer expiry, and the
+ * copy-code and OTP buttons.
+ */
+export function buildTemplateSendComponents(
+  components: FetchedComponent[],
+  options: TemplateSendOptions | null | undefined
+): TemplateSendComponent[] {
+  const sendComponents: TemplateSendComponent[] = [];
+  if (!options) return sendComponents;
+
+  const cards = getCarouselCards(components);
+  if (cards.length > 0 && options.cards) {
+    sendComponents.push({
+      type: 'carousel',
+      cards: cards.map((card, cardIndex) => {
+        const values = options.cards?.[cardIndex];
+        const cardComponents: TemplateSendComponent[] = [];
+        const header = findComponent(card.components, 'HEADER');
+        if (header && values?.mediaId) {
+          const mediaType = (header.format || 'IMAGE').toLowerCase();
+          cardComponents.push({
+            type: 'header',
+            parameters: [{ type: mediaType, [mediaType]: { id: values.mediaId } }],
+          });
+        }
+        if (values && Object.keys(values.body).length > 0) {
+          cardComponents.push({ type: 'body', parameters: toTextParameters(values.body) });
+        }
+        Object.entries(values?.buttons || {}).forEach(([buttonIndex, suffix]) => {
+          if (!suffix) return;
+          cardComponents.push({
+            type: 'button',
+            sub_type: 'url',
+            index: buttonIndex,
+            parameters: [{ type: 'text', text: suffix }],
+          });
+        });
+        return { card_index: cardIndex, components: cardComponents };
+      }),
+    });
+  }
+
+  const offer = getLimitedTimeOffer(components);
+  if (offer?.has_expiration && options.offerExpiresAt) {
+    sendComponents.push({
+      type: 'limited_time_offer',
+      parameters: [{
+        type: 'limited_time_offer',
+        limited_time_offer: { expiration_time_ms: options.offerExpiresAt },
+      }],
+    });
+  }
+
+  const copyCodeIndex = getCopyCodeButtonIndex(components);
+  if (copyCodeIndex >= 0 && options.couponCode) {
+    sendComponents.push({
+      type: 'button',
+      sub_type: 'copy_code',
+      index: String(copyCodeIndex),
+      parameters: [{ type: 'coupon_code', coupon_code: options.couponCode }],
+    });
+  }
+
+  // The body {{1}} carries the code as a regular body variable
+  const otpIndex = getOtpButtonIndex(components);
+  if (otpIndex >= 0 && options.otpCode) {
+    sendComponents.push({
+      type: 'button',
+      sub_type: 'url',
+      index: String(otpIndex),
+      parameters: [{ type: 'text', text: options.otpCode }],
+    });
+  }
+
+  return sendComponents;
+}
@@ -0,0 +1,71 @@
+/**
+ * Organizations let several agents work one WhatsApp Business number.
+ * Tenant data (contacts, messages, groups, broadcast jobs, settings) is keyed
+ * by the organization id, which is the owner's user_settings id. For owners
+ * the tenant id is their own auth id; agents resolve to their organization.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type OrganizationRole = 'owner' | 'agent';
+
+export interface Tenant {
+  id: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Resolve the organization an authenticated user works in.
+ * Users without a membership row (not set up yet) are their own tenant.
+ */
+export async function getTenant(supabase: SupabaseClient, userId: string): Promise<Tenant> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resolve organization: ${error.message}`);
+  }
+
+  if (!data) {
+    return { id: userId, role: 'owner' };
+  }
+
+  return { id: data.organization_id, role: data.role as OrganizationRole };
+}
+
+export async function getTenantId(supabase: SupabaseClient, userId: string): Promise<string> {
+  return (await getTenant(supabase, userId)).id;
+}
+
+export interface TeamMember {
+  user_id: string;
+  role: OrganizationRole;
+  email: string | null;
+  display_name: string | null;
+}
+
+export function getTeamMemberName(member: TeamMember): string {
+  return member.display_name || member.email || member.user_id.slice(0, 8);
+}
+
+/**
+ * Country that phone numbers without a country code are read in.
+ * Null when the organization has not chosen one.
+ */
+export async function getTenantDefaultCountry(supabase: SupabaseClient, tenantId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('organization_settings')
+    .select('default_country')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching default country:', error);
+    return null;
+  }
+
+  return data?.default_country || null;
+}
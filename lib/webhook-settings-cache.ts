@@ -0,0 +1,26 @@
+/**
+ * In-memory cache of the settings behind each webhook token, to prevent
+ * Supabase 502 Bad Gateway during high webhook volume (like Broadcasts).
+ * Saving settings drops the entry so a new app secret is enforced at once.
+ */
+
+export interface CachedWebhookSettings {
+  data: {
+    id: string;
+    access_token: string;
+    api_version: string;
+    phone_number_id: string;
+    app_secret: string | null;
+    webhook_signature_verified_at: string | null;
+    webhook_signature_failed_at: string | null;
+  };
+  timestamp: number;
+}
+
+export const WEBHOOK_SETTINGS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+export const webhookSettingsCache = new Map<string, CachedWebhookSettings>();
+
+export function invalidateWebhookSettings(webhookToken: string | null | undefined) {
+  if (webhookToken) webhookSettingsCache.delete(webhookToken);
+}
@@ -0,0 +1,30 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Check a webhook body against Meta's X-Hub-Signature-256 header.
+ * The header is `sha256=<hex HMAC of the raw body keyed with the app secret>`,
+ * so this must run on the exact bytes received, before any JSON parsing.
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  appSecret: string
+): { valid: boolean; error?: string } {
+  if (!signatureHeader) {
+    return { valid: false, error: 'Missing X-Hub-Signature-256 header' };
+  }
+
+  const [algorithm, signature] = signatureHeader.split('=');
+  if (algorithm !== 'sha256' || !signature) {
+    return { valid: false, error: 'Malformed X-Hub-Signature-256 header' };
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody, 'utf8').digest();
+  const received = Buffer.from(signature, 'hex');
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return { valid: false, error: 'Signature does not match payload' };
+  }
+
+  return { valid: true };
+}
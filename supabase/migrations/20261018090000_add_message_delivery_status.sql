@@ -0,0 +1,141 @@
+-- Outbound delivery tracking fed by the webhook `statuses` payloads.
+-- `read_at` already records when an agent read an inbound message, so the
+-- recipient-side read receipt gets its own column.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS status text,
+  ADD COLUMN IF NOT EXISTS status_updated_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS sent_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS delivered_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS recipient_read_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS failed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS error_code integer,
+  ADD COLUMN IF NOT EXISTS error_message text;
+
+ALTER TABLE public.messages
+  DROP CONSTRAINT IF EXISTS messages_status_check;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_status_check
+  CHECK (status IS NULL OR status IN ('sent', 'delivered', 'read', 'failed'));
+
+-- Apply a single status callback to an outbound message.
+-- Meta does not guarantee ordering, so a late "sent" must never downgrade a
+-- "read" message. "failed" always wins because it is terminal.
+CREATE OR REPLACE FUNCTION public.apply_message_status(
+  p_message_id text,
+  p_status text,
+  p_status_timestamp timestamp with time zone,
+  p_error_code integer DEFAULT NULL,
+  p_error_message text DEFAULT NULL
+) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  current_status text;
+  current_rank integer;
+  new_rank integer;
+BEGIN
+  SELECT m.status INTO current_status
+  FROM messages m
+  WHERE m.id = p_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  current_rank := CASE current_status
+    WHEN 'sent' THEN 1
+    WHEN 'delivered' THEN 2
+    WHEN 'read' THEN 3
+    WHEN 'failed' THEN 4
+    ELSE 0
+  END;
+
+  new_rank := CASE p_status
+    WHEN 'sent' THEN 1
+    WHEN 'delivered' THEN 2
+    WHEN 'read' THEN 3
+    WHEN 'failed' THEN 4
+    ELSE 0
+  END;
+
+  IF new_rank = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE messages
+  SET
+    status = CASE WHEN new_rank > current_rank THEN p_status ELSE status END,
+    status_updated_at = CASE WHEN new_rank > current_rank THEN NOW() ELSE status_updated_at END,
+    sent_at = CASE WHEN p_status IN ('sent', 'delivered', 'read') THEN COALESCE(sent_at, p_status_timestamp) ELSE sent_at END,
+    delivered_at = CASE WHEN p_status IN ('delivered', 'read') THEN COALESCE(delivered_at, p_status_timestamp) ELSE delivered_at END,
+    recipient_read_at = CASE WHEN p_status = 'read' THEN COALESCE(recipient_read_at, p_status_timestamp) ELSE recipient_read_at END,
+    failed_at = CASE WHEN p_status = 'failed' THEN COALESCE(failed_at, p_status_timestamp) ELSE failed_at END,
+    error_code = CASE WHEN p_status = 'failed' THEN p_error_code ELSE error_code END,
+    error_message = CASE WHEN p_status = 'failed' THEN p_error_message ELSE error_message END
+  WHERE id = p_message_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+ALTER FUNCTION public.apply_message_status(text, text, timestamp with time zone, integer, text) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.apply_message_status(text, text, timestamp with time zone, integer, text) TO service_role;
+
+-- The return type changes, so the function has to be dropped first.
+DROP FUNCTION IF EXISTS public.get_conversation_messages(text, text);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_messages("other_user_id" text, "current_user_phone" text DEFAULT NULL::text)
+RETURNS TABLE(
+  "id" text,
+  "sender_id" text,
+  "receiver_id" text,
+  "content" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "media_data" jsonb,
+  "is_read" boolean,
+  "read_at" timestamp with time zone,
+  "status" text,
+  "sent_at" timestamp with time zone,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "failed_at" timestamp with time zone,
+  "error_code" integer,
+  "error_message" text
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.timestamp as message_timestamp,
+    (m.sender_id != other_user_id) as is_sent_by_me,
+    m.message_type,
+    m.media_data,
+    m.is_read,
+    m.read_at,
+    m.status,
+    m.sent_at,
+    m.delivered_at,
+    m.recipient_read_at,
+    m.failed_at,
+    m.error_code,
+    m.error_message
+  FROM messages m
+  WHERE (m.sender_id = other_user_id OR m.receiver_id = other_user_id)
+  ORDER BY m.timestamp ASC;
+END;
+$$;
+
+ALTER FUNCTION public.get_conversation_messages(text, text) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text) TO anon;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text) TO authenticated;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text) TO service_role;
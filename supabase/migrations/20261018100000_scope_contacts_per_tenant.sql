@@ -0,0 +1,495 @@
+-- Per-tenant contact isolation.
+--
+-- `users` used to be keyed by phone number alone, so two businesses talking to
+-- the same customer shared one row (and each other's custom_name). Contacts are
+-- now owned by the user_settings row of the business that talks to them and
+-- keyed by (owner_id, id). Messages are scoped by the tenant uuid that sits on
+-- one side of every message (sender_id for outbound, receiver_id for inbound).
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS owner_id uuid;
+
+-- Rows keyed by a tenant's own auth uuid were only ever there to satisfy the
+-- old messages foreign keys; they are not contacts.
+DELETE FROM public.users u
+USING public.user_settings s
+WHERE u.id = s.id::text;
+
+-- Work out which tenants each existing contact belongs to: every business that
+-- has exchanged messages with it or added it to a group.
+CREATE TEMP TABLE contact_owners AS
+SELECT DISTINCT u.id AS contact_id, s.id AS owner_id
+FROM public.users u
+JOIN public.messages m ON m.sender_id = u.id OR m.receiver_id = u.id
+JOIN public.user_settings s
+  ON s.id::text = CASE WHEN m.sender_id = u.id THEN m.receiver_id ELSE m.sender_id END
+UNION
+SELECT gm.user_id AS contact_id, cg.owner_id
+FROM public.group_members gm
+JOIN public.chat_groups cg ON cg.id = gm.group_id
+JOIN public.user_settings s ON s.id = cg.owner_id;
+
+ALTER TABLE public.group_members DROP CONSTRAINT IF EXISTS group_members_user_id_fkey;
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_sender_id_fkey;
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_receiver_id_fkey;
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_pkey;
+
+-- One copy of the contact per owning tenant. A custom name on a contact that
+-- several tenants share cannot be attributed to one of them, and copying it
+-- would keep showing one tenant's name to the others, so those copies start
+-- without one.
+INSERT INTO public.users (id, name, custom_name, whatsapp_name, last_active, owner_id)
+SELECT
+  u.id,
+  u.name,
+  CASE
+    WHEN (SELECT COUNT(*) FROM contact_owners other WHERE other.contact_id = u.id) > 1 THEN NULL
+    ELSE u.custom_name
+  END,
+  u.whatsapp_name,
+  u.last_active,
+  co.owner_id
+FROM public.users u
+JOIN contact_owners co ON co.contact_id = u.id
+WHERE u.owner_id IS NULL;
+
+DELETE FROM public.users
+WHERE owner_id IS NULL
+  AND id IN (SELECT contact_id FROM contact_owners);
+
+-- Contacts nobody has talked to yet: on a single-tenant instance they clearly
+-- belong to that tenant. Otherwise no owner can be worked out, so they are
+-- kept in unowned_contacts for an administrator to assign by hand.
+UPDATE public.users
+SET owner_id = (SELECT id FROM public.user_settings LIMIT 1)
+WHERE owner_id IS NULL
+  AND (SELECT COUNT(*) FROM public.user_settings) = 1;
+
+CREATE TABLE IF NOT EXISTS public.unowned_contacts (
+  id text NOT NULL,
+  name text,
+  custom_name text,
+  whatsapp_name text,
+  last_active timestamp with time zone,
+  set_aside_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Not exposed to tenants; only the service role reads it
+ALTER TABLE public.unowned_contacts ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE public.unowned_contacts FROM anon, authenticated;
+
+INSERT INTO public.unowned_contacts (id, name, custom_name, whatsapp_name, last_active)
+SELECT u.id, u.name, u.custom_name, u.whatsapp_name, u.last_active
+FROM public.users u
+WHERE u.owner_id IS NULL;
+
+DO $$
+DECLARE
+  unowned integer;
+BEGIN
+  SELECT COUNT(*) INTO unowned FROM public.users WHERE owner_id IS NULL;
+  IF unowned > 0 THEN
+    RAISE NOTICE 'Moved % contacts without an owning tenant to public.unowned_contacts', unowned;
+  END IF;
+END;
+$$;
+
+DELETE FROM public.users WHERE owner_id IS NULL;
+
+DROP TABLE contact_owners;
+
+ALTER TABLE public.users ALTER COLUMN owner_id SET NOT NULL;
+
+ALTER TABLE ONLY public.users
+    ADD CONSTRAINT users_pkey PRIMARY KEY (owner_id, id);
+
+ALTER TABLE ONLY public.users
+    ADD CONSTRAINT users_owner_id_fkey FOREIGN KEY (owner_id) REFERENCES public.user_settings(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_users_id ON public.users USING btree (id);
+
+-- RLS: users
+DROP POLICY IF EXISTS "Authenticated users can insert users" ON public.users;
+DROP POLICY IF EXISTS "Authenticated users can update users" ON public.users;
+DROP POLICY IF EXISTS "Users can view all users" ON public.users;
+
+CREATE POLICY "Users can view their own contacts" ON public.users
+  FOR SELECT TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can create their own contacts" ON public.users
+  FOR INSERT TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can update their own contacts" ON public.users
+  FOR UPDATE TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can delete their own contacts" ON public.users
+  FOR DELETE TO authenticated
+  USING (owner_id = auth.uid());
+
+-- RLS: messages
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+DROP POLICY IF EXISTS "Users can update messages" ON public.messages;
+DROP POLICY IF EXISTS "Users can view all messages" ON public.messages;
+
+CREATE POLICY "Users can view their own messages" ON public.messages
+  FOR SELECT TO authenticated
+  USING (sender_id = auth.uid()::text OR receiver_id = auth.uid()::text);
+
+CREATE POLICY "Users can send their own messages" ON public.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (sender_id = auth.uid()::text OR receiver_id = auth.uid()::text);
+
+CREATE POLICY "Users can update their own messages" ON public.messages
+  FOR UPDATE TO authenticated
+  USING (sender_id = auth.uid()::text OR receiver_id = auth.uid()::text);
+
+-- RLS: group members must be contacts of the group owner
+DROP POLICY IF EXISTS "Users can add members to their groups" ON public.group_members;
+
+CREATE POLICY "Users can add members to their groups" ON public.group_members
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.chat_groups
+      WHERE chat_groups.id = group_members.group_id
+        AND chat_groups.owner_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = group_members.user_id
+        AND users.owner_id = auth.uid()
+    )
+  );
+
+-- Functions
+
+CREATE OR REPLACE FUNCTION public.create_or_get_user("phone_number" text, "user_name" text DEFAULT NULL::text)
+RETURNS TABLE("id" text, "name" text, "custom_name" text, "whatsapp_name" text, "last_active" timestamp with time zone, "is_new" boolean)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  current_owner uuid := auth.uid();
+  user_exists BOOLEAN;
+BEGIN
+  IF current_owner IS NULL THEN
+    RAISE EXCEPTION 'create_or_get_user requires an authenticated user';
+  END IF;
+
+  SELECT EXISTS(
+    SELECT 1 FROM users
+    WHERE users.owner_id = current_owner AND users.id = phone_number
+  ) INTO user_exists;
+
+  IF NOT user_exists THEN
+    INSERT INTO users (owner_id, id, name, whatsapp_name, last_active)
+    VALUES (current_owner, phone_number, COALESCE(user_name, phone_number), user_name, NOW());
+  ELSIF user_name IS NOT NULL THEN
+    UPDATE users
+    SET whatsapp_name = user_name, last_active = NOW()
+    WHERE users.owner_id = current_owner AND users.id = phone_number;
+  END IF;
+
+  RETURN QUERY
+  SELECT users.id, users.name, users.custom_name, users.whatsapp_name, users.last_active, NOT user_exists as is_new
+  FROM users
+  WHERE users.owner_id = current_owner AND users.id = phone_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_messages("other_user_id" text, "current_user_phone" text DEFAULT NULL::text)
+RETURNS TABLE(
+  "id" text,
+  "sender_id" text,
+  "receiver_id" text,
+  "content" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "media_data" jsonb,
+  "is_read" boolean,
+  "read_at" timestamp with time zone,
+  "status" text,
+  "sent_at" timestamp with time zone,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "failed_at" timestamp with time zone,
+  "error_code" integer,
+  "error_message" text
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.timestamp as message_timestamp,
+    (m.sender_id != other_user_id) as is_sent_by_me,
+    m.message_type,
+    m.media_data,
+    m.is_read,
+    m.read_at,
+    m.status,
+    m.sent_at,
+    m.delivered_at,
+    m.recipient_read_at,
+    m.failed_at,
+    m.error_code,
+    m.error_message
+  FROM messages m
+  WHERE (m.sender_id = other_user_id AND m.receiver_id = auth.uid()::text)
+     OR (m.sender_id = auth.uid()::text AND m.receiver_id = other_user_id)
+  ORDER BY m.timestamp ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_conversations("limit_count" integer DEFAULT 10)
+RETURNS TABLE("conversation_id" text, "display_name" text, "unread_count" bigint, "last_message_time" timestamp with time zone)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.sender_id as conversation_id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) as display_name,
+    COUNT(*) as unread_count,
+    MAX(m.timestamp) as last_message_time
+  FROM messages m
+  LEFT JOIN users u ON u.id = m.sender_id AND u.owner_id = auth.uid()
+  WHERE m.is_read = FALSE
+    AND m.receiver_id = auth.uid()::text
+  GROUP BY m.sender_id, u.custom_name, u.whatsapp_name, u.name, u.id
+  ORDER BY last_message_time DESC
+  LIMIT limit_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_group_members_with_details("p_group_id" uuid)
+RETURNS TABLE(
+  "member_id" uuid,
+  "user_id" character varying,
+  "whatsapp_name" text,
+  "custom_name" text,
+  "added_at" timestamp with time zone,
+  "unread_count" bigint
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    gm.id,
+    gm.user_id::character varying,
+    COALESCE(u.whatsapp_name, u.name)::text,
+    u.custom_name::text,
+    gm.added_at,
+    COALESCE(
+      (SELECT COUNT(*)
+       FROM messages m
+       WHERE m.sender_id = gm.user_id
+       AND m.receiver_id = cg.owner_id::text
+       AND m.is_read = false
+      ), 0
+    )::bigint
+  FROM group_members gm
+  JOIN chat_groups cg ON cg.id = gm.group_id
+  LEFT JOIN users u ON u.id = gm.user_id AND u.owner_id = cg.owner_id
+  WHERE gm.group_id = p_group_id
+    AND cg.owner_id = auth.uid()
+  ORDER BY NULLIF(u.custom_name, '') NULLS LAST, COALESCE(u.whatsapp_name, u.name);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_group_unread_count("p_group_id" uuid) RETURNS bigint
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  total_unread BIGINT;
+BEGIN
+  SELECT COALESCE(SUM(
+    (SELECT COUNT(*)
+     FROM messages m
+     WHERE m.sender_id = gm.user_id
+     AND m.receiver_id = cg.owner_id::text
+     AND m.is_read = false
+    )
+  ), 0)
+  INTO total_unread
+  FROM group_members gm
+  JOIN chat_groups cg ON cg.id = gm.group_id
+  WHERE gm.group_id = p_group_id
+    AND cg.owner_id = auth.uid();
+
+  RETURN total_unread;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_messages_as_read("current_user_id" text, "other_user_id" text) RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  affected_rows INTEGER;
+BEGIN
+  IF current_user_id IS DISTINCT FROM auth.uid()::text THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE messages
+  SET is_read = TRUE, read_at = NOW()
+  WHERE receiver_id = current_user_id
+    AND sender_id = other_user_id
+    AND is_read = FALSE;
+
+  GET DIAGNOSTICS affected_rows = ROW_COUNT;
+  RETURN affected_rows;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_user_custom_name("user_id" text, "new_custom_name" text) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  UPDATE users
+  SET custom_name = new_custom_name
+  WHERE id = user_id
+    AND owner_id = auth.uid();
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_user_conversations("p_user_id" text, "search_term" text)
+RETURNS TABLE("id" text, "display_name" text, "last_message" text, "last_message_time" timestamp with time zone, "unread_count" bigint, "match_type" text)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  -- SECURITY DEFINER bypasses RLS, so never search on behalf of another tenant
+  IF p_user_id IS DISTINCT FROM auth.uid()::text THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matched_users AS (
+    SELECT
+      u.id AS contact_id
+    FROM public.users u
+    WHERE
+      u.owner_id = auth.uid() AND (
+        u.custom_name ILIKE '%' || search_term || '%' OR
+        u.whatsapp_name ILIKE '%' || search_term || '%' OR
+        u.name ILIKE '%' || search_term || '%'
+      )
+  ),
+  matched_messages AS (
+    SELECT
+      CASE
+        WHEN m.sender_id = p_user_id THEN m.receiver_id
+        ELSE m.sender_id
+      END AS contact_id
+    FROM public.messages m
+    WHERE
+      (m.sender_id = p_user_id OR m.receiver_id = p_user_id) AND
+      m.content ILIKE '%' || search_term || '%'
+  ),
+  combined_ids AS (
+    SELECT contact_id FROM matched_users
+    UNION
+    SELECT contact_id FROM matched_messages
+  )
+  SELECT
+    u.id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) AS display_name,
+    lm.content AS last_message,
+    lm.timestamp AS last_message_time,
+    (SELECT COUNT(*) FROM public.messages m2
+     WHERE m2.sender_id = u.id
+     AND m2.receiver_id = p_user_id
+     AND m2.is_read = false) AS unread_count,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.messages m3
+        WHERE ((m3.sender_id = u.id AND m3.receiver_id = p_user_id)
+            OR (m3.sender_id = p_user_id AND m3.receiver_id = u.id))
+        AND m3.content ILIKE '%' || search_term || '%'
+      ) THEN 'content'
+      ELSE 'user'
+    END AS match_type
+  FROM combined_ids ci
+  JOIN public.users u ON u.id = ci.contact_id AND u.owner_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.timestamp
+    FROM public.messages m
+    WHERE (m.sender_id = p_user_id AND m.receiver_id = u.id)
+       OR (m.sender_id = u.id AND m.receiver_id = p_user_id)
+    ORDER BY m.timestamp DESC
+    LIMIT 1
+  ) lm ON TRUE
+  ORDER BY
+    (CASE WHEN EXISTS (
+        SELECT 1 FROM public.messages m4
+        WHERE ((m4.sender_id = u.id AND m4.receiver_id = p_user_id)
+            OR (m4.sender_id = p_user_id AND m4.receiver_id = u.id))
+        AND m4.content ILIKE '%' || search_term || '%'
+      ) THEN 1 ELSE 2 END) ASC,
+    lm.timestamp DESC NULLS LAST;
+END;
+$$;
+
+-- The view is security_invoker, so RLS already narrows it; the explicit
+-- auth.uid() filters keep the aggregates from scanning other tenants' rows.
+CREATE OR REPLACE VIEW public.user_conversations WITH (security_invoker='on') AS
+ WITH unread_counts AS (
+         SELECT messages.sender_id,
+            count(*) AS unread_count
+           FROM public.messages
+          WHERE messages.is_read = false
+            AND messages.receiver_id = (auth.uid())::text
+          GROUP BY messages.sender_id
+        ), latest_messages AS (
+         SELECT DISTINCT ON (
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END) messages.sender_id,
+            messages.receiver_id,
+            messages.content,
+            messages.message_type,
+            messages."timestamp" AS last_message_time,
+            messages.sender_id AS last_message_sender
+           FROM public.messages
+          WHERE messages.sender_id = (auth.uid())::text
+             OR messages.receiver_id = (auth.uid())::text
+          ORDER BY
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END, messages."timestamp" DESC
+        )
+ SELECT DISTINCT u.id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) AS display_name,
+    u.custom_name,
+    u.whatsapp_name,
+    u.name AS original_name,
+    u.last_active,
+    COALESCE(unread_counts.unread_count, (0)::bigint) AS unread_count,
+    lm.content AS last_message,
+    lm.message_type AS last_message_type,
+    lm.last_message_time,
+    lm.last_message_sender,
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END AS has_unread
+   FROM ((public.users u
+     LEFT JOIN unread_counts ON ((u.id = unread_counts.sender_id)))
+     LEFT JOIN latest_messages lm ON (((u.id = lm.sender_id) OR (u.id = lm.receiver_id))))
+  WHERE u.owner_id = auth.uid()
+  ORDER BY
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END DESC, lm.last_message_time DESC NULLS LAST;
@@ -0,0 +1,120 @@
+-- Durable broadcast jobs.
+--
+-- The broadcast route used to run the whole send loop as a detached promise,
+-- so a restart left the job in `processing` forever. Jobs now carry their own
+-- payload and a per-recipient progress table, and workers claim them with a
+-- short lease that is renewed after every batch. A job whose lease expired is
+-- picked up again by the next worker and resumes from the pending recipients.
+
+ALTER TABLE public.broadcast_jobs
+  ADD COLUMN IF NOT EXISTS payload jsonb,
+  ADD COLUMN IF NOT EXISTS locked_by text,
+  ADD COLUMN IF NOT EXISTS locked_until timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS started_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS last_error text;
+
+ALTER TABLE public.broadcast_jobs ALTER COLUMN status SET DEFAULT 'queued';
+
+-- Jobs started by the old in-request loop cannot be resumed: nothing recorded
+-- what they were sending.
+UPDATE public.broadcast_jobs
+SET status = 'failed',
+    last_error = 'Interrupted before durable broadcast jobs were introduced',
+    updated_at = NOW()
+WHERE status IN ('pending', 'processing')
+  AND payload IS NULL;
+
+ALTER TABLE public.broadcast_jobs
+  DROP CONSTRAINT IF EXISTS broadcast_jobs_status_check;
+
+ALTER TABLE public.broadcast_jobs
+  ADD CONSTRAINT broadcast_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'paused', 'cancelled', 'completed', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_jobs_claimable
+  ON public.broadcast_jobs USING btree (status, locked_until);
+
+CREATE TABLE IF NOT EXISTS public.broadcast_job_recipients (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES public.broadcast_jobs(id) ON DELETE CASCADE,
+  user_id text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  error text,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (job_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_job_recipients_job_status
+  ON public.broadcast_job_recipients USING btree (job_id, status);
+
+ALTER TABLE public.broadcast_job_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recipients of their broadcast jobs" ON public.broadcast_job_recipients
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.broadcast_jobs
+    WHERE broadcast_jobs.id = broadcast_job_recipients.job_id
+      AND broadcast_jobs.created_by = auth.uid()
+  ));
+
+CREATE POLICY "Users can add recipients to their broadcast jobs" ON public.broadcast_job_recipients
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.broadcast_jobs
+    WHERE broadcast_jobs.id = broadcast_job_recipients.job_id
+      AND broadcast_jobs.created_by = auth.uid()
+  ));
+
+CREATE POLICY "Users can update recipients of their broadcast jobs" ON public.broadcast_job_recipients
+  FOR UPDATE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.broadcast_jobs
+    WHERE broadcast_jobs.id = broadcast_job_recipients.job_id
+      AND broadcast_jobs.created_by = auth.uid()
+  ));
+
+-- Claim the oldest runnable job for a worker. SKIP LOCKED keeps two workers
+-- from claiming the same row; the lease lets a crashed worker's job be taken
+-- over once it expires.
+CREATE OR REPLACE FUNCTION public.claim_broadcast_job(
+  p_worker_id text,
+  p_lease_seconds integer DEFAULT 60
+) RETURNS SETOF public.broadcast_jobs
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  claimed_id uuid;
+BEGIN
+  SELECT bj.id INTO claimed_id
+  FROM broadcast_jobs bj
+  WHERE bj.status IN ('queued', 'processing')
+    AND bj.payload IS NOT NULL
+    AND (bj.locked_until IS NULL OR bj.locked_until < NOW())
+  ORDER BY bj.created_at ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE broadcast_jobs
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      started_at = COALESCE(started_at, NOW()),
+      updated_at = NOW()
+  WHERE id = claimed_id
+  RETURNING *;
+END;
+$$;
+
+ALTER FUNCTION public.claim_broadcast_job(text, integer) OWNER TO postgres;
+REVOKE ALL ON FUNCTION public.claim_broadcast_job(text, integer) FROM anon, authenticated;
+GRANT ALL ON FUNCTION public.claim_broadcast_job(text, integer) TO service_role;
@@ -0,0 +1,75 @@
+-- Structured per-recipient broadcast results.
+-- The worker records the WAMID of every message it sends, which links the
+-- recipient row to the delivery statuses the webhook writes onto messages.
+
+ALTER TABLE public.broadcast_job_recipients
+  ADD COLUMN IF NOT EXISTS message_id text,
+  ADD COLUMN IF NOT EXISTS error_code integer,
+  ADD COLUMN IF NOT EXISTS sent_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_job_recipients_message_id
+  ON public.broadcast_job_recipients USING btree (message_id);
+
+-- Recipients of a job together with the delivery status of the message they
+-- were sent. Returns nothing unless the job belongs to the caller.
+CREATE OR REPLACE FUNCTION public.get_broadcast_job_recipients(p_job_id uuid)
+RETURNS TABLE(
+  "id" uuid,
+  "user_id" text,
+  "contact_name" text,
+  "status" text,
+  "attempts" integer,
+  "error" text,
+  "error_code" integer,
+  "message_id" text,
+  "sent_at" timestamp with time zone,
+  "processed_at" timestamp with time zone,
+  "delivery_status" text,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "delivery_failed_at" timestamp with time zone,
+  "delivery_error_code" integer,
+  "delivery_error_message" text
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  job_owner uuid;
+BEGIN
+  SELECT bj.created_by INTO job_owner
+  FROM broadcast_jobs bj
+  WHERE bj.id = p_job_id;
+
+  IF job_owner IS NULL OR job_owner != auth.uid() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.user_id,
+    COALESCE(NULLIF(u.custom_name, ''), u.whatsapp_name, u.name, r.user_id) as contact_name,
+    r.status,
+    r.attempts,
+    r.error,
+    r.error_code,
+    r.message_id,
+    r.sent_at,
+    r.processed_at,
+    m.status as delivery_status,
+    m.delivered_at,
+    m.recipient_read_at,
+    m.failed_at as delivery_failed_at,
+    m.error_code as delivery_error_code,
+    m.error_message as delivery_error_message
+  FROM broadcast_job_recipients r
+  LEFT JOIN users u ON u.owner_id = job_owner AND u.id = r.user_id
+  LEFT JOIN messages m ON m.id = r.message_id
+  WHERE r.job_id = p_job_id
+  ORDER BY r.created_at ASC;
+END;
+$$;
+
+ALTER FUNCTION public.get_broadcast_job_recipients(uuid) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.get_broadcast_job_recipients(uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.get_broadcast_job_recipients(uuid) TO service_role;
@@ -0,0 +1,70 @@
+-- Rate-limit aware broadcast sending.
+--
+-- Each tenant has one business phone number, so the send rate lives on
+-- user_settings. When the Cloud API throttles a send, the recipient goes back
+-- to `pending` with a `next_attempt_at`, and the job is parked in `throttled`
+-- until the backoff elapses instead of burning through its recipients.
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS broadcast_rate_per_second integer NOT NULL DEFAULT 20;
+
+ALTER TABLE public.user_settings
+  DROP CONSTRAINT IF EXISTS user_settings_broadcast_rate_per_second_check;
+
+ALTER TABLE public.user_settings
+  ADD CONSTRAINT user_settings_broadcast_rate_per_second_check
+  CHECK (broadcast_rate_per_second BETWEEN 1 AND 1000);
+
+ALTER TABLE public.broadcast_jobs
+  ADD COLUMN IF NOT EXISTS throttled_until timestamp with time zone;
+
+ALTER TABLE public.broadcast_jobs
+  DROP CONSTRAINT IF EXISTS broadcast_jobs_status_check;
+
+ALTER TABLE public.broadcast_jobs
+  ADD CONSTRAINT broadcast_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'throttled', 'paused', 'cancelled', 'completed', 'failed'));
+
+ALTER TABLE public.broadcast_job_recipients
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamp with time zone;
+
+-- Throttled jobs hold their lease until `throttled_until`, so the existing
+-- lease check is enough to keep them parked.
+CREATE OR REPLACE FUNCTION public.claim_broadcast_job(
+  p_worker_id text,
+  p_lease_seconds integer DEFAULT 60
+) RETURNS SETOF public.broadcast_jobs
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  claimed_id uuid;
+BEGIN
+  SELECT bj.id INTO claimed_id
+  FROM broadcast_jobs bj
+  WHERE bj.status IN ('queued', 'processing', 'throttled')
+    AND bj.payload IS NOT NULL
+    AND (bj.locked_until IS NULL OR bj.locked_until < NOW())
+  ORDER BY bj.created_at ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE broadcast_jobs
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      throttled_until = NULL,
+      started_at = COALESCE(started_at, NOW()),
+      updated_at = NOW()
+  WHERE id = claimed_id
+  RETURNING *;
+END;
+$$;
+
+ALTER FUNCTION public.claim_broadcast_job(text, integer) OWNER TO postgres;
+REVOKE ALL ON FUNCTION public.claim_broadcast_job(text, integer) FROM anon, authenticated;
+GRANT ALL ON FUNCTION public.claim_broadcast_job(text, integer) TO service_role;
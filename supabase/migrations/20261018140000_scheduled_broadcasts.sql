@@ -0,0 +1,68 @@
+-- Scheduled broadcasts.
+-- A scheduled job waits in `scheduled` until `scheduled_at` and is then
+-- claimed like any queued job. `timezone` is what the user picked, kept so the
+-- schedule can be shown and edited in the same zone.
+
+ALTER TABLE public.broadcast_jobs
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+ALTER TABLE public.broadcast_jobs
+  DROP CONSTRAINT IF EXISTS broadcast_jobs_status_check;
+
+ALTER TABLE public.broadcast_jobs
+  ADD CONSTRAINT broadcast_jobs_status_check
+  CHECK (status IN ('scheduled', 'queued', 'processing', 'throttled', 'paused', 'cancelled', 'completed', 'failed'));
+
+ALTER TABLE public.broadcast_jobs
+  DROP CONSTRAINT IF EXISTS broadcast_jobs_scheduled_at_check;
+
+ALTER TABLE public.broadcast_jobs
+  ADD CONSTRAINT broadcast_jobs_scheduled_at_check
+  CHECK (status != 'scheduled' OR scheduled_at IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_jobs_scheduled
+  ON public.broadcast_jobs USING btree (scheduled_at)
+  WHERE status = 'scheduled';
+
+CREATE OR REPLACE FUNCTION public.claim_broadcast_job(
+  p_worker_id text,
+  p_lease_seconds integer DEFAULT 60
+) RETURNS SETOF public.broadcast_jobs
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  claimed_id uuid;
+BEGIN
+  SELECT bj.id INTO claimed_id
+  FROM broadcast_jobs bj
+  WHERE (
+      bj.status IN ('queued', 'processing', 'throttled')
+      OR (bj.status = 'scheduled' AND bj.scheduled_at <= NOW())
+    )
+    AND bj.payload IS NOT NULL
+    AND (bj.locked_until IS NULL OR bj.locked_until < NOW())
+  ORDER BY COALESCE(bj.scheduled_at, bj.created_at) ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE broadcast_jobs
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      throttled_until = NULL,
+      started_at = COALESCE(started_at, NOW()),
+      updated_at = NOW()
+  WHERE id = claimed_id
+  RETURNING *;
+END;
+$$;
+
+ALTER FUNCTION public.claim_broadcast_job(text, integer) OWNER TO postgres;
+REVOKE ALL ON FUNCTION public.claim_broadcast_job(text, integer) FROM anon, authenticated;
+GRANT ALL ON FUNCTION public.claim_broadcast_job(text, integer) TO service_role;
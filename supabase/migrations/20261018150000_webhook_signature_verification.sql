@@ -0,0 +1,10 @@
+-- Webhook signature verification.
+-- Meta signs every webhook POST with the app secret (X-Hub-Signature-256).
+-- The secret is stored per tenant; the timestamps let the setup page show
+-- whether recent deliveries passed or failed the check.
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS app_secret text,
+  ADD COLUMN IF NOT EXISTS webhook_signature_verified_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS webhook_signature_failed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS webhook_signature_error text;
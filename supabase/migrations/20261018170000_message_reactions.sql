@@ -0,0 +1,94 @@
+-- Emoji reactions stored on the message they target.
+-- `reactions` maps the reactor (customer phone number or tenant user id) to
+-- their emoji. WhatsApp allows one reaction per person, so a new reaction
+-- replaces the old one and an empty emoji removes it.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS reactions jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Apply a reaction to a message in one of the tenant's conversations.
+-- Returns false when the target message is not stored for that tenant.
+CREATE OR REPLACE FUNCTION public.apply_message_reaction(
+  p_message_id text,
+  p_owner_id text,
+  p_reactor_id text,
+  p_emoji text
+) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  UPDATE messages
+  SET reactions = CASE
+        WHEN COALESCE(p_emoji, '') = '' THEN reactions - p_reactor_id
+        ELSE reactions || jsonb_build_object(p_reactor_id, p_emoji)
+      END
+  WHERE id = p_message_id
+    AND (sender_id = p_owner_id OR receiver_id = p_owner_id);
+
+  RETURN FOUND;
+END;
+$$;
+
+ALTER FUNCTION public.apply_message_reaction(text, text, text, text) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.apply_message_reaction(text, text, text, text) TO service_role;
+
+-- The return type changes, so the function has to be dropped first.
+DROP FUNCTION IF EXISTS public.get_conversation_messages(text, text);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_messages("other_user_id" text, "current_user_phone" text DEFAULT NULL::text)
+RETURNS TABLE(
+  "id" text,
+  "sender_id" text,
+  "receiver_id" text,
+  "content" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "media_data" jsonb,
+  "is_read" boolean,
+  "read_at" timestamp with time zone,
+  "status" text,
+  "sent_at" timestamp with time zone,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "failed_at" timestamp with time zone,
+  "error_code" integer,
+  "error_message" text,
+  "reply_to_message_id" text,
+  "reactions" jsonb
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.timestamp as message_timestamp,
+    (m.sender_id != other_user_id) as is_sent_by_me,
+    m.message_type,
+    m.media_data,
+    m.is_read,
+    m.read_at,
+    m.status,
+    m.sent_at,
+    m.delivered_at,
+    m.recipient_read_at,
+    m.failed_at,
+    m.error_code,
+    m.error_message,
+    m.reply_to_message_id,
+    m.reactions
+  FROM messages m
+  WHERE (m.sender_id = other_user_id AND m.receiver_id = auth.uid()::text)
+     OR (m.sender_id = auth.uid()::text AND m.receiver_id = other_user_id)
+  ORDER BY m.timestamp ASC;
+END;
+$$;
+
+ALTER FUNCTION public.get_conversation_messages(text, text) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text) TO anon;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text) TO authenticated;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text) TO service_role;
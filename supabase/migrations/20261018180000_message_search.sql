@@ -0,0 +1,87 @@
+-- Full-text search over message history.
+-- The search vector covers the message text plus media captions and document
+-- filenames. The `simple` configuration is used because conversations mix
+-- languages and stemming for one would hurt the others.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple'::regconfig,
+      COALESCE(content, '') || ' ' ||
+      COALESCE(media_data->>'caption', '') || ' ' ||
+      COALESCE(media_data->>'filename', '')
+    )
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON public.messages USING gin (search_vector);
+
+-- Search the caller's conversations. Filters are optional; `p_direction` is
+-- 'inbound' or 'outbound'. Results are ranked, newest first on ties.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_contact_id text DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_direction text DEFAULT NULL,
+  p_message_type text DEFAULT NULL,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+) RETURNS TABLE(
+  "id" text,
+  "contact_id" text,
+  "contact_name" text,
+  "content" text,
+  "headline" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "rank" real
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  current_owner text := auth.uid()::text;
+  search_query tsquery := websearch_to_tsquery('simple', p_query);
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    CASE WHEN m.sender_id = current_owner THEN m.receiver_id ELSE m.sender_id END AS contact_id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name) AS contact_name,
+    m.content,
+    ts_headline(
+      'simple',
+      COALESCE(m.content, '') || ' ' || COALESCE(m.media_data->>'caption', '') || ' ' || COALESCE(m.media_data->>'filename', ''),
+      search_query,
+      'StartSel=<<, StopSel=>>, MaxWords=25, MinWords=10'
+    ) AS headline,
+    m.timestamp AS message_timestamp,
+    (m.sender_id = current_owner) AS is_sent_by_me,
+    m.message_type,
+    ts_rank(m.search_vector, search_query) AS rank
+  FROM messages m
+  LEFT JOIN users u
+    ON u.owner_id = auth.uid()
+   AND u.id = CASE WHEN m.sender_id = current_owner THEN m.receiver_id ELSE m.sender_id END
+  WHERE (m.sender_id = current_owner OR m.receiver_id = current_owner)
+    AND m.search_vector @@ search_query
+    AND (p_contact_id IS NULL OR m.sender_id = p_contact_id OR m.receiver_id = p_contact_id)
+    AND (p_from IS NULL OR m.timestamp >= p_from)
+    AND (p_to IS NULL OR m.timestamp < p_to)
+    AND (
+      p_direction IS NULL
+      OR (p_direction = 'outbound' AND m.sender_id = current_owner)
+      OR (p_direction = 'inbound' AND m.receiver_id = current_owner)
+    )
+    AND (p_message_type IS NULL OR m.message_type = p_message_type)
+  ORDER BY ts_rank(m.search_vector, search_query) DESC, m.timestamp DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+ALTER FUNCTION public.search_messages(text, text, timestamp with time zone, timestamp with time zone, text, text, integer, integer) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.search_messages(text, text, timestamp with time zone, timestamp with time zone, text, text, integer, integer) TO authenticated;
+GRANT ALL ON FUNCTION public.search_messages(text, text, timestamp with time zone, timestamp with time zone, text, text, integer, integer) TO service_role;
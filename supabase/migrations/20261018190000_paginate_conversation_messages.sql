@@ -0,0 +1,81 @@
+-- Cursor-based pagination for conversation history.
+-- Pages are read newest first and returned oldest first, so the client can
+-- prepend older pages. The cursor is the (timestamp, id) of the oldest loaded
+-- message; id breaks ties between messages with the same timestamp.
+-- Without p_limit the whole conversation is returned, as before.
+
+DROP FUNCTION IF EXISTS public.get_conversation_messages(text, text);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_messages(
+  "other_user_id" text,
+  "current_user_phone" text DEFAULT NULL::text,
+  "p_before_timestamp" timestamp with time zone DEFAULT NULL,
+  "p_before_id" text DEFAULT NULL,
+  "p_limit" integer DEFAULT NULL
+)
+RETURNS TABLE(
+  "id" text,
+  "sender_id" text,
+  "receiver_id" text,
+  "content" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "media_data" jsonb,
+  "is_read" boolean,
+  "read_at" timestamp with time zone,
+  "status" text,
+  "sent_at" timestamp with time zone,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "failed_at" timestamp with time zone,
+  "error_code" integer,
+  "error_message" text,
+  "reply_to_message_id" text,
+  "reactions" jsonb
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT page.*
+  FROM (
+    SELECT
+      m.id,
+      m.sender_id,
+      m.receiver_id,
+      m.content,
+      m.timestamp as message_timestamp,
+      (m.sender_id != other_user_id) as is_sent_by_me,
+      m.message_type,
+      m.media_data,
+      m.is_read,
+      m.read_at,
+      m.status,
+      m.sent_at,
+      m.delivered_at,
+      m.recipient_read_at,
+      m.failed_at,
+      m.error_code,
+      m.error_message,
+      m.reply_to_message_id,
+      m.reactions
+    FROM messages m
+    WHERE ((m.sender_id = other_user_id AND m.receiver_id = auth.uid()::text)
+       OR (m.sender_id = auth.uid()::text AND m.receiver_id = other_user_id))
+      AND (
+        p_before_timestamp IS NULL
+        OR m.timestamp < p_before_timestamp
+        OR (m.timestamp = p_before_timestamp AND p_before_id IS NOT NULL AND m.id < p_before_id)
+      )
+    ORDER BY m.timestamp DESC, m.id DESC
+    LIMIT p_limit
+  ) page
+  ORDER BY page.message_timestamp ASC, page.id ASC;
+END;
+$$;
+
+ALTER FUNCTION public.get_conversation_messages(text, text, timestamp with time zone, text, integer) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text, timestamp with time zone, text, integer) TO anon;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text, timestamp with time zone, text, integer) TO authenticated;
+GRANT ALL ON FUNCTION public.get_conversation_messages(text, text, timestamp with time zone, text, integer) TO service_role;
@@ -0,0 +1,815 @@
+-- Organizations: several agents sharing one WhatsApp Business number.
+--
+-- Every tenant-scoped row (contacts, messages, groups, broadcast jobs) is keyed
+-- by the uuid of the user_settings row that owns the number. An organization
+-- reuses that uuid as its id, so existing data belongs to the owner's
+-- organization without being rewritten. Agents are auth users that are members
+-- of someone else's organization; current_tenant_id() resolves the caller to
+-- the organization they work in, and replaces auth.uid() wherever data is
+-- scoped to a tenant.
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id uuid PRIMARY KEY REFERENCES public.user_settings(id) ON DELETE CASCADE,
+  name text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- One organization per auth user. The owner is a member of their own
+-- organization with role 'owner'.
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'agent' CHECK (role IN ('owner', 'agent')),
+  email text,
+  display_name text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_organization_id
+  ON public.organization_members USING btree (organization_id);
+
+-- Pending invitations, claimed by email the next time the invitee signs in
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'agent' CHECK (role IN ('owner', 'agent')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invites_email
+  ON public.organization_invites USING btree (email);
+
+-- Every existing tenant becomes an organization with its user as owner
+INSERT INTO public.organizations (id, name)
+SELECT s.id, s.full_name
+FROM public.user_settings s
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.organization_members (user_id, organization_id, role, email, display_name)
+SELECT s.id, s.id, 'owner', au.email, s.full_name
+FROM public.user_settings s
+JOIN auth.users au ON au.id = s.id
+ON CONFLICT (user_id) DO NOTHING;
+
+-- New tenants get their organization as soon as their settings row exists
+CREATE OR REPLACE FUNCTION public.create_organization_for_settings() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+BEGIN
+  INSERT INTO organizations (id, name)
+  VALUES (NEW.id, NEW.full_name)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO organization_members (user_id, organization_id, role, email, display_name)
+  SELECT NEW.id, NEW.id, 'owner', au.email, NEW.full_name
+  FROM auth.users au
+  WHERE au.id = NEW.id
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION public.create_organization_for_settings() OWNER TO postgres;
+
+DROP TRIGGER IF EXISTS create_organization_for_settings ON public.user_settings;
+CREATE TRIGGER create_organization_for_settings
+  AFTER INSERT ON public.user_settings
+  FOR EACH ROW EXECUTE FUNCTION public.create_organization_for_settings();
+
+-- The tenant the caller works in: their organization, or their own uuid when
+-- they have not been set up yet. SECURITY DEFINER so policies on
+-- organization_members can use it without recursing.
+CREATE OR REPLACE FUNCTION public.current_tenant_id() RETURNS uuid
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path = public
+    AS $$
+  SELECT COALESCE(
+    (SELECT om.organization_id FROM organization_members om WHERE om.user_id = auth.uid()),
+    auth.uid()
+  );
+$$;
+
+ALTER FUNCTION public.current_tenant_id() OWNER TO postgres;
+GRANT ALL ON FUNCTION public.current_tenant_id() TO authenticated;
+GRANT ALL ON FUNCTION public.current_tenant_id() TO service_role;
+
+-- Join the organization that invited the caller's email address. Owners who
+-- already have agents of their own keep their organization.
+CREATE OR REPLACE FUNCTION public.accept_organization_invite() RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+  caller_email text := lower(auth.jwt() ->> 'email');
+  invite organization_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR caller_email IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO invite
+  FROM organization_invites oi
+  WHERE oi.email = caller_email
+  ORDER BY oi.created_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_members om
+    WHERE om.organization_id = auth.uid() AND om.user_id != auth.uid()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM organization_members WHERE user_id = auth.uid();
+
+  INSERT INTO organization_members (user_id, organization_id, role, email)
+  VALUES (auth.uid(), invite.organization_id, invite.role, caller_email);
+
+  DELETE FROM organization_invites WHERE email = caller_email;
+
+  RETURN invite.organization_id;
+END;
+$$;
+
+ALTER FUNCTION public.accept_organization_invite() OWNER TO postgres;
+GRANT ALL ON FUNCTION public.accept_organization_invite() TO authenticated;
+GRANT ALL ON FUNCTION public.accept_organization_invite() TO service_role;
+
+-- RLS: organizations. The owner's uuid is the organization id.
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization" ON public.organizations
+  FOR SELECT TO authenticated
+  USING (id = (SELECT public.current_tenant_id()));
+
+CREATE POLICY "Owners can update their organization" ON public.organizations
+  FOR UPDATE TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Members can view their teammates" ON public.organization_members
+  FOR SELECT TO authenticated
+  USING (organization_id = (SELECT public.current_tenant_id()));
+
+CREATE POLICY "Owners can remove agents" ON public.organization_members
+  FOR DELETE TO authenticated
+  USING (organization_id = auth.uid() AND user_id != auth.uid());
+
+CREATE POLICY "Owners can view their invites" ON public.organization_invites
+  FOR SELECT TO authenticated
+  USING (organization_id = auth.uid());
+
+CREATE POLICY "Owners can invite agents" ON public.organization_invites
+  FOR INSERT TO authenticated
+  WITH CHECK (organization_id = auth.uid());
+
+CREATE POLICY "Owners can revoke invites" ON public.organization_invites
+  FOR DELETE TO authenticated
+  USING (organization_id = auth.uid());
+
+-- Conversation assignment
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_users_owner_assigned_to
+  ON public.users USING btree (owner_id, assigned_to);
+
+-- Assign a conversation to a teammate, or unassign it with a NULL assignee
+CREATE OR REPLACE FUNCTION public.assign_conversation(p_contact_id text, p_assignee uuid)
+RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  tenant uuid := public.current_tenant_id();
+BEGIN
+  IF tenant IS NULL THEN
+    RAISE EXCEPTION 'assign_conversation requires an authenticated user';
+  END IF;
+
+  IF p_assignee IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM organization_members om
+    WHERE om.organization_id = tenant AND om.user_id = p_assignee
+  ) THEN
+    RAISE EXCEPTION 'Assignee is not a member of this organization';
+  END IF;
+
+  UPDATE users
+  SET assigned_to = p_assignee,
+      assigned_at = CASE WHEN p_assignee IS NULL THEN NULL ELSE NOW() END
+  WHERE owner_id = tenant AND id = p_contact_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+ALTER FUNCTION public.assign_conversation(text, uuid) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.assign_conversation(text, uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.assign_conversation(text, uuid) TO service_role;
+
+-- RLS: scope existing policies to the caller's organization. Settings stay
+-- writable by the owner only; agents read them to send from the shared number.
+ALTER POLICY "Users can view own settings" ON public.user_settings
+  USING (id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can view their own contacts" ON public.users
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can create their own contacts" ON public.users
+  WITH CHECK (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can update their own contacts" ON public.users
+  USING (owner_id = (SELECT public.current_tenant_id()))
+  WITH CHECK (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can delete their own contacts" ON public.users
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can view their own messages" ON public.messages
+  USING (sender_id = (SELECT public.current_tenant_id())::text OR receiver_id = (SELECT public.current_tenant_id())::text);
+
+ALTER POLICY "Users can send their own messages" ON public.messages
+  WITH CHECK (sender_id = (SELECT public.current_tenant_id())::text OR receiver_id = (SELECT public.current_tenant_id())::text);
+
+ALTER POLICY "Users can update their own messages" ON public.messages
+  USING (sender_id = (SELECT public.current_tenant_id())::text OR receiver_id = (SELECT public.current_tenant_id())::text);
+
+ALTER POLICY "Users can view their own groups" ON public.chat_groups
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can create groups" ON public.chat_groups
+  WITH CHECK (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can update their own groups" ON public.chat_groups
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can delete their own groups" ON public.chat_groups
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can view members of their groups" ON public.group_members
+  USING (EXISTS (
+    SELECT 1 FROM public.chat_groups
+    WHERE chat_groups.id = group_members.group_id
+      AND chat_groups.owner_id = (SELECT public.current_tenant_id())
+  ));
+
+ALTER POLICY "Users can add members to their groups" ON public.group_members
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.chat_groups
+      WHERE chat_groups.id = group_members.group_id
+        AND chat_groups.owner_id = (SELECT public.current_tenant_id())
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = group_members.user_id
+        AND users.owner_id = (SELECT public.current_tenant_id())
+    )
+  );
+
+ALTER POLICY "Users can remove members from their groups" ON public.group_members
+  USING (EXISTS (
+    SELECT 1 FROM public.chat_groups
+    WHERE chat_groups.id = group_members.group_id
+      AND chat_groups.owner_id = (SELECT public.current_tenant_id())
+  ));
+
+ALTER POLICY "Users can view their own broadcast jobs" ON public.broadcast_jobs
+  USING (created_by = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can create their own broadcast jobs" ON public.broadcast_jobs
+  WITH CHECK (created_by = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can update their own broadcast jobs" ON public.broadcast_jobs
+  USING (created_by = (SELECT public.current_tenant_id()));
+
+ALTER POLICY "Users can view recipients of their broadcast jobs" ON public.broadcast_job_recipients
+  USING (EXISTS (
+    SELECT 1 FROM public.broadcast_jobs
+    WHERE broadcast_jobs.id = broadcast_job_recipients.job_id
+      AND broadcast_jobs.created_by = (SELECT public.current_tenant_id())
+  ));
+
+ALTER POLICY "Users can add recipients to their broadcast jobs" ON public.broadcast_job_recipients
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.broadcast_jobs
+    WHERE broadcast_jobs.id = broadcast_job_recipients.job_id
+      AND broadcast_jobs.created_by = (SELECT public.current_tenant_id())
+  ));
+
+ALTER POLICY "Users can update recipients of their broadcast jobs" ON public.broadcast_job_recipients
+  USING (EXISTS (
+    SELECT 1 FROM public.broadcast_jobs
+    WHERE broadcast_jobs.id = broadcast_job_recipients.job_id
+      AND broadcast_jobs.created_by = (SELECT public.current_tenant_id())
+  ));
+
+-- Functions: same bodies as before, scoped to the caller's organization
+
+CREATE OR REPLACE FUNCTION "public"."get_user_groups_with_counts"() RETURNS TABLE("group_id" "uuid", "group_name" "text", "group_description" "text", "member_count" bigint, "unread_count" bigint, "created_at" timestamp with time zone, "updated_at" timestamp with time zone)
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    cg.id AS group_id,
+    cg.name AS group_name,
+    cg.description AS group_description,
+    COUNT(DISTINCT gm.id) AS member_count,
+    COALESCE(SUM(
+      (SELECT COUNT(*) 
+       FROM messages m 
+       WHERE m.sender_id = gm.user_id 
+       AND m.receiver_id = public.current_tenant_id()::text
+       AND m.is_read = false
+      )
+    ), 0)::bigint AS unread_count,
+    cg.created_at,
+    cg.updated_at
+  FROM chat_groups cg
+  LEFT JOIN group_members gm ON gm.group_id = cg.id
+  WHERE cg.owner_id = public.current_tenant_id()
+  GROUP BY cg.id, cg.name, cg.description, cg.created_at, cg.updated_at
+  ORDER BY cg.updated_at DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_or_get_user("phone_number" text, "user_name" text DEFAULT NULL::text)
+RETURNS TABLE("id" text, "name" text, "custom_name" text, "whatsapp_name" text, "last_active" timestamp with time zone, "is_new" boolean)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  current_owner uuid := public.current_tenant_id();
+  user_exists BOOLEAN;
+BEGIN
+  IF current_owner IS NULL THEN
+    RAISE EXCEPTION 'create_or_get_user requires an authenticated user';
+  END IF;
+
+  SELECT EXISTS(
+    SELECT 1 FROM users
+    WHERE users.owner_id = current_owner AND users.id = phone_number
+  ) INTO user_exists;
+
+  IF NOT user_exists THEN
+    INSERT INTO users (owner_id, id, name, whatsapp_name, last_active)
+    VALUES (current_owner, phone_number, COALESCE(user_name, phone_number), user_name, NOW());
+  ELSIF user_name IS NOT NULL THEN
+    UPDATE users
+    SET whatsapp_name = user_name, last_active = NOW()
+    WHERE users.owner_id = current_owner AND users.id = phone_number;
+  END IF;
+
+  RETURN QUERY
+  SELECT users.id, users.name, users.custom_name, users.whatsapp_name, users.last_active, NOT user_exists as is_new
+  FROM users
+  WHERE users.owner_id = current_owner AND users.id = phone_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_conversations("limit_count" integer DEFAULT 10)
+RETURNS TABLE("conversation_id" text, "display_name" text, "unread_count" bigint, "last_message_time" timestamp with time zone)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.sender_id as conversation_id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) as display_name,
+    COUNT(*) as unread_count,
+    MAX(m.timestamp) as last_message_time
+  FROM messages m
+  LEFT JOIN users u ON u.id = m.sender_id AND u.owner_id = public.current_tenant_id()
+  WHERE m.is_read = FALSE
+    AND m.receiver_id = public.current_tenant_id()::text
+  GROUP BY m.sender_id, u.custom_name, u.whatsapp_name, u.name, u.id
+  ORDER BY last_message_time DESC
+  LIMIT limit_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_group_members_with_details("p_group_id" uuid)
+RETURNS TABLE(
+  "member_id" uuid,
+  "user_id" character varying,
+  "whatsapp_name" text,
+  "custom_name" text,
+  "added_at" timestamp with time zone,
+  "unread_count" bigint
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    gm.id,
+    gm.user_id::character varying,
+    COALESCE(u.whatsapp_name, u.name)::text,
+    u.custom_name::text,
+    gm.added_at,
+    COALESCE(
+      (SELECT COUNT(*)
+       FROM messages m
+       WHERE m.sender_id = gm.user_id
+       AND m.receiver_id = cg.owner_id::text
+       AND m.is_read = false
+      ), 0
+    )::bigint
+  FROM group_members gm
+  JOIN chat_groups cg ON cg.id = gm.group_id
+  LEFT JOIN users u ON u.id = gm.user_id AND u.owner_id = cg.owner_id
+  WHERE gm.group_id = p_group_id
+    AND cg.owner_id = public.current_tenant_id()
+  ORDER BY NULLIF(u.custom_name, '') NULLS LAST, COALESCE(u.whatsapp_name, u.name);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_group_unread_count("p_group_id" uuid) RETURNS bigint
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  total_unread BIGINT;
+BEGIN
+  SELECT COALESCE(SUM(
+    (SELECT COUNT(*)
+     FROM messages m
+     WHERE m.sender_id = gm.user_id
+     AND m.receiver_id = cg.owner_id::text
+     AND m.is_read = false
+    )
+  ), 0)
+  INTO total_unread
+  FROM group_members gm
+  JOIN chat_groups cg ON cg.id = gm.group_id
+  WHERE gm.group_id = p_group_id
+    AND cg.owner_id = public.current_tenant_id();
+
+  RETURN total_unread;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_messages_as_read("current_user_id" text, "other_user_id" text) RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  affected_rows INTEGER;
+BEGIN
+  IF current_user_id IS DISTINCT FROM public.current_tenant_id()::text THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE messages
+  SET is_read = TRUE, read_at = NOW()
+  WHERE receiver_id = current_user_id
+    AND sender_id = other_user_id
+    AND is_read = FALSE;
+
+  GET DIAGNOSTICS affected_rows = ROW_COUNT;
+  RETURN affected_rows;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_user_custom_name("user_id" text, "new_custom_name" text) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  UPDATE users
+  SET custom_name = new_custom_name
+  WHERE id = user_id
+    AND owner_id = public.current_tenant_id();
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_user_conversations("p_user_id" text, "search_term" text)
+RETURNS TABLE("id" text, "display_name" text, "last_message" text, "last_message_time" timestamp with time zone, "unread_count" bigint, "match_type" text)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  -- SECURITY DEFINER bypasses RLS, so never search on behalf of another tenant
+  IF p_user_id IS DISTINCT FROM public.current_tenant_id()::text THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matched_users AS (
+    SELECT
+      u.id AS contact_id
+    FROM public.users u
+    WHERE
+      u.owner_id = public.current_tenant_id() AND (
+        u.custom_name ILIKE '%' || search_term || '%' OR
+        u.whatsapp_name ILIKE '%' || search_term || '%' OR
+        u.name ILIKE '%' || search_term || '%'
+      )
+  ),
+  matched_messages AS (
+    SELECT
+      CASE
+        WHEN m.sender_id = p_user_id THEN m.receiver_id
+        ELSE m.sender_id
+      END AS contact_id
+    FROM public.messages m
+    WHERE
+      (m.sender_id = p_user_id OR m.receiver_id = p_user_id) AND
+      m.content ILIKE '%' || search_term || '%'
+  ),
+  combined_ids AS (
+    SELECT contact_id FROM matched_users
+    UNION
+    SELECT contact_id FROM matched_messages
+  )
+  SELECT
+    u.id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) AS display_name,
+    lm.content AS last_message,
+    lm.timestamp AS last_message_time,
+    (SELECT COUNT(*) FROM public.messages m2
+     WHERE m2.sender_id = u.id
+     AND m2.receiver_id = p_user_id
+     AND m2.is_read = false) AS unread_count,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.messages m3
+        WHERE ((m3.sender_id = u.id AND m3.receiver_id = p_user_id)
+            OR (m3.sender_id = p_user_id AND m3.receiver_id = u.id))
+        AND m3.content ILIKE '%' || search_term || '%'
+      ) THEN 'content'
+      ELSE 'user'
+    END AS match_type
+  FROM combined_ids ci
+  JOIN public.users u ON u.id = ci.contact_id AND u.owner_id = public.current_tenant_id()
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.timestamp
+    FROM public.messages m
+    WHERE (m.sender_id = p_user_id AND m.receiver_id = u.id)
+       OR (m.sender_id = u.id AND m.receiver_id = p_user_id)
+    ORDER BY m.timestamp DESC
+    LIMIT 1
+  ) lm ON TRUE
+  ORDER BY
+    (CASE WHEN EXISTS (
+        SELECT 1 FROM public.messages m4
+        WHERE ((m4.sender_id = u.id AND m4.receiver_id = p_user_id)
+            OR (m4.sender_id = p_user_id AND m4.receiver_id = u.id))
+        AND m4.content ILIKE '%' || search_term || '%'
+      ) THEN 1 ELSE 2 END) ASC,
+    lm.timestamp DESC NULLS LAST;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_messages(
+  "other_user_id" text,
+  "current_user_phone" text DEFAULT NULL::text,
+  "p_before_timestamp" timestamp with time zone DEFAULT NULL,
+  "p_before_id" text DEFAULT NULL,
+  "p_limit" integer DEFAULT NULL
+)
+RETURNS TABLE(
+  "id" text,
+  "sender_id" text,
+  "receiver_id" text,
+  "content" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "media_data" jsonb,
+  "is_read" boolean,
+  "read_at" timestamp with time zone,
+  "status" text,
+  "sent_at" timestamp with time zone,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "failed_at" timestamp with time zone,
+  "error_code" integer,
+  "error_message" text,
+  "reply_to_message_id" text,
+  "reactions" jsonb
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT page.*
+  FROM (
+    SELECT
+      m.id,
+      m.sender_id,
+      m.receiver_id,
+      m.content,
+      m.timestamp as message_timestamp,
+      (m.sender_id != other_user_id) as is_sent_by_me,
+      m.message_type,
+      m.media_data,
+      m.is_read,
+      m.read_at,
+      m.status,
+      m.sent_at,
+      m.delivered_at,
+      m.recipient_read_at,
+      m.failed_at,
+      m.error_code,
+      m.error_message,
+      m.reply_to_message_id,
+      m.reactions
+    FROM messages m
+    WHERE ((m.sender_id = other_user_id AND m.receiver_id = public.current_tenant_id()::text)
+       OR (m.sender_id = public.current_tenant_id()::text AND m.receiver_id = other_user_id))
+      AND (
+        p_before_timestamp IS NULL
+        OR m.timestamp < p_before_timestamp
+        OR (m.timestamp = p_before_timestamp AND p_before_id IS NOT NULL AND m.id < p_before_id)
+      )
+    ORDER BY m.timestamp DESC, m.id DESC
+    LIMIT p_limit
+  ) page
+  ORDER BY page.message_timestamp ASC, page.id ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_contact_id text DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_direction text DEFAULT NULL,
+  p_message_type text DEFAULT NULL,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+) RETURNS TABLE(
+  "id" text,
+  "contact_id" text,
+  "contact_name" text,
+  "content" text,
+  "headline" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "rank" real
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  current_owner text := public.current_tenant_id()::text;
+  search_query tsquery := websearch_to_tsquery('simple', p_query);
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    CASE WHEN m.sender_id = current_owner THEN m.receiver_id ELSE m.sender_id END AS contact_id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name) AS contact_name,
+    m.content,
+    ts_headline(
+      'simple',
+      COALESCE(m.content, '') || ' ' || COALESCE(m.media_data->>'caption', '') || ' ' || COALESCE(m.media_data->>'filename', ''),
+      search_query,
+      'StartSel=<<, StopSel=>>, MaxWords=25, MinWords=10'
+    ) AS headline,
+    m.timestamp AS message_timestamp,
+    (m.sender_id = current_owner) AS is_sent_by_me,
+    m.message_type,
+    ts_rank(m.search_vector, search_query) AS rank
+  FROM messages m
+  LEFT JOIN users u
+    ON u.owner_id = public.current_tenant_id()
+   AND u.id = CASE WHEN m.sender_id = current_owner THEN m.receiver_id ELSE m.sender_id END
+  WHERE (m.sender_id = current_owner OR m.receiver_id = current_owner)
+    AND m.search_vector @@ search_query
+    AND (p_contact_id IS NULL OR m.sender_id = p_contact_id OR m.receiver_id = p_contact_id)
+    AND (p_from IS NULL OR m.timestamp >= p_from)
+    AND (p_to IS NULL OR m.timestamp < p_to)
+    AND (
+      p_direction IS NULL
+      OR (p_direction = 'outbound' AND m.sender_id = current_owner)
+      OR (p_direction = 'inbound' AND m.receiver_id = current_owner)
+    )
+    AND (p_message_type IS NULL OR m.message_type = p_message_type)
+  ORDER BY ts_rank(m.search_vector, search_query) DESC, m.timestamp DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_broadcast_job_recipients(p_job_id uuid)
+RETURNS TABLE(
+  "id" uuid,
+  "user_id" text,
+  "contact_name" text,
+  "status" text,
+  "attempts" integer,
+  "error" text,
+  "error_code" integer,
+  "message_id" text,
+  "sent_at" timestamp with time zone,
+  "processed_at" timestamp with time zone,
+  "delivery_status" text,
+  "delivered_at" timestamp with time zone,
+  "recipient_read_at" timestamp with time zone,
+  "delivery_failed_at" timestamp with time zone,
+  "delivery_error_code" integer,
+  "delivery_error_message" text
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  job_owner uuid;
+BEGIN
+  SELECT bj.created_by INTO job_owner
+  FROM broadcast_jobs bj
+  WHERE bj.id = p_job_id;
+
+  IF job_owner IS NULL OR job_owner != public.current_tenant_id() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.user_id,
+    COALESCE(NULLIF(u.custom_name, ''), u.whatsapp_name, u.name, r.user_id) as contact_name,
+    r.status,
+    r.attempts,
+    r.error,
+    r.error_code,
+    r.message_id,
+    r.sent_at,
+    r.processed_at,
+    m.status as delivery_status,
+    m.delivered_at,
+    m.recipient_read_at,
+    m.failed_at as delivery_failed_at,
+    m.error_code as delivery_error_code,
+    m.error_message as delivery_error_message
+  FROM broadcast_job_recipients r
+  LEFT JOIN users u ON u.owner_id = job_owner AND u.id = r.user_id
+  LEFT JOIN messages m ON m.id = r.message_id
+  WHERE r.job_id = p_job_id
+  ORDER BY r.created_at ASC;
+END;
+$$;
+
+CREATE OR REPLACE VIEW public.user_conversations WITH (security_invoker='on') AS
+ WITH unread_counts AS (
+         SELECT messages.sender_id,
+            count(*) AS unread_count
+           FROM public.messages
+          WHERE messages.is_read = false
+            AND messages.receiver_id = (public.current_tenant_id())::text
+          GROUP BY messages.sender_id
+        ), latest_messages AS (
+         SELECT DISTINCT ON (
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END) messages.sender_id,
+            messages.receiver_id,
+            messages.content,
+            messages.message_type,
+            messages."timestamp" AS last_message_time,
+            messages.sender_id AS last_message_sender
+           FROM public.messages
+          WHERE messages.sender_id = (public.current_tenant_id())::text
+             OR messages.receiver_id = (public.current_tenant_id())::text
+          ORDER BY
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END, messages."timestamp" DESC
+        )
+ SELECT DISTINCT u.id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) AS display_name,
+    u.custom_name,
+    u.whatsapp_name,
+    u.name AS original_name,
+    u.last_active,
+    COALESCE(unread_counts.unread_count, (0)::bigint) AS unread_count,
+    lm.content AS last_message,
+    lm.message_type AS last_message_type,
+    lm.last_message_time,
+    lm.last_message_sender,
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END AS has_unread,
+    u.assigned_to,
+    u.assigned_at
+   FROM ((public.users u
+     LEFT JOIN unread_counts ON ((u.id = unread_counts.sender_id)))
+     LEFT JOIN latest_messages lm ON (((u.id = lm.sender_id) OR (u.id = lm.receiver_id))))
+  WHERE u.owner_id = public.current_tenant_id()
+  ORDER BY
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END DESC, lm.last_message_time DESC NULLS LAST;
+
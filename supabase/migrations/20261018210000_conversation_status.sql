@@ -0,0 +1,106 @@
+-- Conversation status workflow.
+-- Each conversation (a contact row) is open, snoozed until a given time, or
+-- resolved. A snooze that has run out counts as open again; the client works
+-- that out from snoozed_until so nothing has to wake it up. Any new inbound
+-- message puts a snoozed or resolved conversation back to open.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open',
+  ADD COLUMN IF NOT EXISTS snoozed_until timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamp with time zone;
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_status_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_status_check CHECK (
+    status IN ('open', 'snoozed', 'resolved')
+    AND (status != 'snoozed' OR snoozed_until IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_users_owner_status
+  ON public.users USING btree (owner_id, status);
+
+-- Inbound messages are addressed to the tenant uuid, so receiver_id only
+-- matches owner_id for messages from the contact.
+CREATE OR REPLACE FUNCTION public.reopen_conversation_on_inbound() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+BEGIN
+  UPDATE users
+  SET status = 'open',
+      snoozed_until = NULL,
+      resolved_at = NULL
+  WHERE owner_id::text = NEW.receiver_id
+    AND id = NEW.sender_id
+    AND status != 'open';
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION public.reopen_conversation_on_inbound() OWNER TO postgres;
+
+DROP TRIGGER IF EXISTS reopen_conversation_on_inbound ON public.messages;
+CREATE TRIGGER reopen_conversation_on_inbound
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.reopen_conversation_on_inbound();
+
+-- Expose the status on the conversation list
+CREATE OR REPLACE VIEW public.user_conversations WITH (security_invoker='on') AS
+ WITH unread_counts AS (
+         SELECT messages.sender_id,
+            count(*) AS unread_count
+           FROM public.messages
+          WHERE messages.is_read = false
+            AND messages.receiver_id = (public.current_tenant_id())::text
+          GROUP BY messages.sender_id
+        ), latest_messages AS (
+         SELECT DISTINCT ON (
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END) messages.sender_id,
+            messages.receiver_id,
+            messages.content,
+            messages.message_type,
+            messages."timestamp" AS last_message_time,
+            messages.sender_id AS last_message_sender
+           FROM public.messages
+          WHERE messages.sender_id = (public.current_tenant_id())::text
+             OR messages.receiver_id = (public.current_tenant_id())::text
+          ORDER BY
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END, messages."timestamp" DESC
+        )
+ SELECT DISTINCT u.id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) AS display_name,
+    u.custom_name,
+    u.whatsapp_name,
+    u.name AS original_name,
+    u.last_active,
+    COALESCE(unread_counts.unread_count, (0)::bigint) AS unread_count,
+    lm.content AS last_message,
+    lm.message_type AS last_message_type,
+    lm.last_message_time,
+    lm.last_message_sender,
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END AS has_unread,
+    u.assigned_to,
+    u.assigned_at,
+    u.status,
+    u.snoozed_until,
+    u.resolved_at
+   FROM ((public.users u
+     LEFT JOIN unread_counts ON ((u.id = unread_counts.sender_id)))
+     LEFT JOIN latest_messages lm ON (((u.id = lm.sender_id) OR (u.id = lm.receiver_id))))
+  WHERE u.owner_id = public.current_tenant_id()
+  ORDER BY
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END DESC, lm.last_message_time DESC NULLS LAST;
+
@@ -0,0 +1,47 @@
+-- Internal notes on a conversation.
+-- Notes live next to the message thread but in their own table, so nothing
+-- that reads or sends messages can pick one up and deliver it to WhatsApp.
+-- Teammates can be @mentioned; the mentioned user ids are stored alongside the
+-- text so the client can highlight and notify without parsing it again.
+
+CREATE TABLE IF NOT EXISTS public.conversation_notes (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  contact_id text NOT NULL,
+  author_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  content text NOT NULL CHECK (length(btrim(content)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  FOREIGN KEY (owner_id, contact_id) REFERENCES public.users(owner_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_notes_thread
+  ON public.conversation_notes USING btree (owner_id, contact_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_notes_mentions
+  ON public.conversation_notes USING gin (mentions);
+
+ALTER TABLE public.conversation_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view notes" ON public.conversation_notes
+  FOR SELECT TO authenticated
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+CREATE POLICY "Members can add notes" ON public.conversation_notes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    owner_id = (SELECT public.current_tenant_id())
+    AND author_id = auth.uid()
+  );
+
+CREATE POLICY "Authors can delete their notes" ON public.conversation_notes
+  FOR DELETE TO authenticated
+  USING (
+    owner_id = (SELECT public.current_tenant_id())
+    AND author_id = auth.uid()
+  );
+
+GRANT ALL ON TABLE public.conversation_notes TO authenticated;
+GRANT ALL ON TABLE public.conversation_notes TO service_role;
+
+ALTER PUBLICATION "supabase_realtime" ADD TABLE ONLY public.conversation_notes;
@@ -0,0 +1,101 @@
+-- Contact tags and custom fields.
+-- Tags are free-form labels on a contact. Custom fields are typed values
+-- (email, customer id, city, ...) stored in users.attributes under a key that
+-- the organization defines once in contact_fields. Field keys use the same
+-- lowercase format as named template parameters so templates can fill from them.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS attributes jsonb NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_users_tags
+  ON public.users USING gin (tags);
+
+CREATE TABLE IF NOT EXISTS public.contact_fields (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  key text NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]{0,39}$'),
+  label text NOT NULL,
+  type text NOT NULL DEFAULT 'text'
+    CHECK (type IN ('text', 'number', 'date', 'email', 'phone', 'boolean')),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE (owner_id, key)
+);
+
+ALTER TABLE public.contact_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view contact fields" ON public.contact_fields
+  FOR SELECT TO authenticated
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+CREATE POLICY "Members can add contact fields" ON public.contact_fields
+  FOR INSERT TO authenticated
+  WITH CHECK (owner_id = (SELECT public.current_tenant_id()));
+
+CREATE POLICY "Members can delete contact fields" ON public.contact_fields
+  FOR DELETE TO authenticated
+  USING (owner_id = (SELECT public.current_tenant_id()));
+
+GRANT ALL ON TABLE public.contact_fields TO authenticated;
+GRANT ALL ON TABLE public.contact_fields TO service_role;
+
+-- Expose tags and custom field values on the conversation list
+CREATE OR REPLACE VIEW public.user_conversations WITH (security_invoker='on') AS
+ WITH unread_counts AS (
+         SELECT messages.sender_id,
+            count(*) AS unread_count
+           FROM public.messages
+          WHERE messages.is_read = false
+            AND messages.receiver_id = (public.current_tenant_id())::text
+          GROUP BY messages.sender_id
+        ), latest_messages AS (
+         SELECT DISTINCT ON (
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END) messages.sender_id,
+            messages.receiver_id,
+            messages.content,
+            messages.message_type,
+            messages."timestamp" AS last_message_time,
+            messages.sender_id AS last_message_sender
+           FROM public.messages
+          WHERE messages.sender_id = (public.current_tenant_id())::text
+             OR messages.receiver_id = (public.current_tenant_id())::text
+          ORDER BY
+                CASE
+                    WHEN (messages.sender_id < messages.receiver_id) THEN ((messages.sender_id || '-'::text) || messages.receiver_id)
+                    ELSE ((messages.receiver_id || '-'::text) || messages.sender_id)
+                END, messages."timestamp" DESC
+        )
+ SELECT DISTINCT u.id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name, u.id) AS display_name,
+    u.custom_name,
+    u.whatsapp_name,
+    u.name AS original_name,
+    u.last_active,
+    COALESCE(unread_counts.unread_count, (0)::bigint) AS unread_count,
+    lm.content AS last_message,
+    lm.message_type AS last_message_type,
+    lm.last_message_time,
+    lm.last_message_sender,
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END AS has_unread,
+    u.assigned_to,
+    u.assigned_at,
+    u.status,
+    u.snoozed_until,
+    u.resolved_at,
+    u.tags,
+    u.attributes
+   FROM ((public.users u
+     LEFT JOIN unread_counts ON ((u.id = unread_counts.sender_id)))
+     LEFT JOIN latest_messages lm ON (((u.id = lm.sender_id) OR (u.id = lm.receiver_id))))
+  WHERE u.owner_id = public.current_tenant_id()
+  ORDER BY
+        CASE
+            WHEN (unread_counts.unread_count > 0) THEN 1
+            ELSE 0
+        END DESC, lm.last_message_time DESC NULLS LAST;
@@ -0,0 +1,18 @@
+-- Default country for phone numbers written without a country code.
+-- Numbers typed by agents or imported from spreadsheets are normalized to
+-- E.164 in the application; this is the country they are read in. Existing
+-- tenants keep the Turkish numbering the importer assumed until now.
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS default_country text;
+
+UPDATE public.user_settings
+SET default_country = 'TR'
+WHERE default_country IS NULL;
+
+ALTER TABLE public.user_settings
+  DROP CONSTRAINT IF EXISTS user_settings_default_country_check;
+
+ALTER TABLE public.user_settings
+  ADD CONSTRAINT user_settings_default_country_check
+  CHECK (default_country IS NULL OR default_country ~ '^[A-Z]{2}$');
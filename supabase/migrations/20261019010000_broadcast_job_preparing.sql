@@ -0,0 +1,11 @@
+-- Broadcast jobs are created as `preparing` while their recipients are being
+-- written. claim_broadcast_job never picks up a preparing job, so a worker
+-- tick cannot claim a job before its recipient list exists and finish it
+-- with nothing sent.
+
+ALTER TABLE public.broadcast_jobs
+  DROP CONSTRAINT IF EXISTS broadcast_jobs_status_check;
+
+ALTER TABLE public.broadcast_jobs
+  ADD CONSTRAINT broadcast_jobs_status_check
+  CHECK (status IN ('preparing', 'scheduled', 'queued', 'processing', 'throttled', 'paused', 'cancelled', 'completed', 'failed'));
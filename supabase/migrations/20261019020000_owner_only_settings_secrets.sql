@@ -0,0 +1,39 @@
+-- Settings secrets stay with the organization owner.
+-- Agents used to read the owner's user_settings row through RLS, which let
+-- any agent read the access token, app secret and webhook tokens. The table
+-- is owner-only again; agents read the organization's non-secret settings
+-- through organization_settings, which reports only whether each secret is
+-- set. Server routes that send on an agent's behalf read the credentials with
+-- the service role after resolving the caller's organization.
+
+ALTER POLICY "Users can view own settings" ON public.user_settings
+  USING (id = (SELECT auth.uid()));
+
+-- Runs as its owner so agents can see the row; scoped to the caller's
+-- organization by current_tenant_id()
+CREATE OR REPLACE VIEW public.organization_settings AS
+SELECT
+  s.id,
+  s.full_name,
+  s.phone_number_id,
+  s.business_account_id,
+  s.api_version,
+  s.access_token_added,
+  s.webhook_verified,
+  s.broadcast_rate_per_second,
+  s.default_country,
+  s.webhook_signature_verified_at,
+  s.webhook_signature_failed_at,
+  s.webhook_signature_error,
+  s.access_token IS NOT NULL AND s.access_token != '' AS has_access_token,
+  s.app_secret IS NOT NULL AND s.app_secret != '' AS has_app_secret,
+  s.verify_token IS NOT NULL AND s.verify_token != '' AS has_verify_token,
+  s.created_at,
+  s.updated_at
+FROM public.user_settings s
+WHERE s.id = public.current_tenant_id();
+
+ALTER VIEW public.organization_settings OWNER TO postgres;
+REVOKE ALL ON TABLE public.organization_settings FROM anon;
+GRANT SELECT ON TABLE public.organization_settings TO authenticated;
+GRANT SELECT ON TABLE public.organization_settings TO service_role;
@@ -0,0 +1,72 @@
+-- Organization invites are accepted explicitly.
+-- Loading settings used to claim any invite sent to the caller's email, which
+-- moved them into the inviting organization without asking and dropped the
+-- organization they owned. Invites are now listed to the invitee and joined
+-- only from an accept action, and only by accounts that have no settings or
+-- conversations of their own.
+
+DROP FUNCTION IF EXISTS public.accept_organization_invite();
+
+-- Invites sent to the caller's email address
+CREATE OR REPLACE FUNCTION public.get_my_organization_invites()
+RETURNS TABLE(id uuid, organization_id uuid, organization_name text, role text, created_at timestamp with time zone)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path = public
+    AS $$
+  SELECT oi.id, oi.organization_id, o.name, oi.role, oi.created_at
+  FROM organization_invites oi
+  JOIN organizations o ON o.id = oi.organization_id
+  WHERE oi.email = lower(auth.jwt() ->> 'email')
+  ORDER BY oi.created_at ASC;
+$$;
+
+ALTER FUNCTION public.get_my_organization_invites() OWNER TO postgres;
+GRANT ALL ON FUNCTION public.get_my_organization_invites() TO authenticated;
+GRANT ALL ON FUNCTION public.get_my_organization_invites() TO service_role;
+
+-- Join the organization behind one of the caller's invites
+CREATE OR REPLACE FUNCTION public.accept_organization_invite(p_invite_id uuid) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+  caller_email text := lower(auth.jwt() ->> 'email');
+  invite organization_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR caller_email IS NULL THEN
+    RAISE EXCEPTION 'accept_organization_invite requires an authenticated user';
+  END IF;
+
+  SELECT * INTO invite
+  FROM organization_invites oi
+  WHERE oi.id = p_invite_id AND oi.email = caller_email;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM organization_members om WHERE om.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'This account already belongs to an organization';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM user_settings s WHERE s.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.sender_id = auth.uid()::text OR m.receiver_id = auth.uid()::text
+    )
+  THEN
+    RAISE EXCEPTION 'This account already has its own WhatsApp settings or conversations';
+  END IF;
+
+  INSERT INTO organization_members (user_id, organization_id, role, email)
+  VALUES (auth.uid(), invite.organization_id, invite.role, caller_email);
+
+  DELETE FROM organization_invites WHERE email = caller_email;
+
+  RETURN invite.organization_id;
+END;
+$$;
+
+ALTER FUNCTION public.accept_organization_invite(uuid) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.accept_organization_invite(uuid) TO authenticated;
+GRANT ALL ON FUNCTION public.accept_organization_invite(uuid) TO service_role;
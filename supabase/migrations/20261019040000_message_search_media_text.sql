@@ -0,0 +1,116 @@
+-- Search media captions and document filenames.
+-- media_data is written with JSON.stringify, so most rows hold a jsonb string
+-- whose text is the JSON object rather than the object itself, and
+-- media_data->>'caption' was always NULL for them. The search text now reads
+-- the fields through message_media_data(), which unwraps string values.
+
+-- media_data as an object. Strings that do not hold JSON yield NULL rather
+-- than failing the write of the generated search vector.
+CREATE OR REPLACE FUNCTION public.message_media_data(p_media_data jsonb) RETURNS jsonb
+    LANGUAGE plpgsql IMMUTABLE
+    AS $$
+BEGIN
+  IF jsonb_typeof(p_media_data) = 'string' THEN
+    RETURN (p_media_data #>> '{}')::jsonb;
+  END IF;
+  RETURN p_media_data;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+ALTER FUNCTION public.message_media_data(jsonb) OWNER TO postgres;
+
+-- Text a message is searched by: its content, caption and filename
+CREATE OR REPLACE FUNCTION public.message_search_text(p_content text, p_media_data jsonb) RETURNS text
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT COALESCE(p_content, '') || ' ' ||
+    COALESCE(public.message_media_data(p_media_data)->>'caption', '') || ' ' ||
+    COALESCE(public.message_media_data(p_media_data)->>'filename', '');
+$$;
+
+ALTER FUNCTION public.message_search_text(text, jsonb) OWNER TO postgres;
+
+-- A generated column's expression cannot be changed in place
+DROP INDEX IF EXISTS public.idx_messages_search_vector;
+
+ALTER TABLE public.messages
+  DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE public.messages
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('simple'::regconfig, public.message_search_text(content, media_data))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON public.messages USING gin (search_vector);
+
+-- Headlines come from the same text the vector is built from
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_contact_id text DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_direction text DEFAULT NULL,
+  p_message_type text DEFAULT NULL,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+) RETURNS TABLE(
+  "id" text,
+  "contact_id" text,
+  "contact_name" text,
+  "content" text,
+  "headline" text,
+  "message_timestamp" timestamp with time zone,
+  "is_sent_by_me" boolean,
+  "message_type" text,
+  "rank" real
+)
+    LANGUAGE plpgsql SECURITY DEFINER
+    AS $$
+DECLARE
+  current_owner text := public.current_tenant_id()::text;
+  search_query tsquery := websearch_to_tsquery('simple', p_query);
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    CASE WHEN m.sender_id = current_owner THEN m.receiver_id ELSE m.sender_id END AS contact_id,
+    COALESCE(u.custom_name, u.whatsapp_name, u.name) AS contact_name,
+    m.content,
+    ts_headline(
+      'simple',
+      public.message_search_text(m.content, m.media_data),
+      search_query,
+      'StartSel=<<, StopSel=>>, MaxWords=25, MinWords=10'
+    ) AS headline,
+    m.timestamp AS message_timestamp,
+    (m.sender_id = current_owner) AS is_sent_by_me,
+    m.message_type,
+    ts_rank(m.search_vector, search_query) AS rank
+  FROM messages m
+  LEFT JOIN users u
+    ON u.owner_id = public.current_tenant_id()
+   AND u.id = CASE WHEN m.sender_id = current_owner THEN m.receiver_id ELSE m.sender_id END
+  WHERE (m.sender_id = current_owner OR m.receiver_id = current_owner)
+    AND m.search_vector @@ search_query
+    AND (p_contact_id IS NULL OR m.sender_id = p_contact_id OR m.receiver_id = p_contact_id)
+    AND (p_from IS NULL OR m.timestamp >= p_from)
+    AND (p_to IS NULL OR m.timestamp < p_to)
+    AND (
+      p_direction IS NULL
+      OR (p_direction = 'outbound' AND m.sender_id = current_owner)
+      OR (p_direction = 'inbound' AND m.receiver_id = current_owner)
+    )
+    AND (p_message_type IS NULL OR m.message_type = p_message_type)
+  ORDER BY ts_rank(m.search_vector, search_query) DESC, m.timestamp DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+ALTER FUNCTION public.search_messages(text, text, timestamp with time zone, timestamp with time zone, text, text, integer, integer) OWNER TO postgres;
+GRANT ALL ON FUNCTION public.search_messages(text, text, timestamp with time zone, timestamp with time zone, text, text, integer, integer) TO authenticated;
+GRANT ALL ON FUNCTION public.search_messages(text, text, timestamp with time zone, timestamp with time zone, text, text, integer, integer) TO service_role;